@@ -33,7 +33,11 @@ import {
   type OptimizationSolution,
   optimizationEngine,
 } from '../services/optimization';
-import { parameterExtractor } from '../services/optimization/parameterExtractor';
+import {
+  type ParameterOverrides,
+  getParameterKey,
+  parameterExtractor,
+} from '../services/optimization/parameterExtractor';
 import type { BlockParams, LegoBlock } from '../types';
 import { type ConvergenceDataPoint, ConvergenceGraph } from './optimization/ConvergenceGraph';
 import { SolutionComparison } from './optimization/SolutionComparison';
@@ -75,6 +79,18 @@ export const OptimizationPanel: React.FC<OptimizationPanelProps> = ({
     }>
   >([]);
   const [activeView, setActiveView] = useState<OptimizationView>('pareto');
+  const [parameterOverrides, setParameterOverrides] = useState<ParameterOverrides>({});
+
+  // Every tunable parameter in the strategy, and the ones this run will optimize
+  const candidateParameters = useMemo(() => parameterExtractor.extract(blocks), [blocks]);
+  const selectedParameters = useMemo(
+    () => parameterExtractor.select(candidateParameters, parameterOverrides),
+    [candidateParameters, parameterOverrides]
+  );
+  const selectedParameterKeys = useMemo(
+    () => new Set(selectedParameters.map(getParameterKey)),
+    [selectedParameters]
+  );
 
   // Prepare data for Pareto frontier visualization
   const paretoChartData = useMemo(() => {
@@ -124,6 +140,16 @@ export const OptimizationPanel: React.FC<OptimizationPanelProps> = ({
     setSelectedSolution(null);
   }, [selectedSolution, blocks, onApplySolution, showSuccess, showWarning]);
 
+  const handleParameterToggle = (key: string, enabled: boolean) => {
+    setParameterOverrides((prev) => ({ ...prev, [key]: { ...prev[key], enabled } }));
+  };
+
+  const handleParameterBoundChange = (key: string, bound: 'min' | 'max', input: string) => {
+    const value = input.trim() === '' ? undefined : Number(input);
+    if (value !== undefined && !Number.isFinite(value)) return;
+    setParameterOverrides((prev) => ({ ...prev, [key]: { ...prev[key], [bound]: value } }));
+  };
+
   const handleObjectiveToggle = (objective: OptimizationObjective) => {
     if (objectives.includes(objective)) {
       if (objectives.length > 2) {
@@ -149,12 +175,14 @@ export const OptimizationPanel: React.FC<OptimizationPanelProps> = ({
     setSelectedSolution(null);
 
     try {
-      // Extract optimizable parameters from blocks
-      const parameters = parameterExtractor.extract(blocks);
+      // Optimizable parameters the user selected, with their bounds
+      const parameters = selectedParameters;
 
       if (parameters.length === 0) {
         showWarning(
-          'No optimizable parameters found in current blocks. Add blocks with configurable parameters (e.g., slippage, thresholds) to enable optimization.'
+          candidateParameters.length === 0
+            ? 'No optimizable parameters found in current blocks. Add blocks with configurable parameters (e.g., slippage, thresholds) to enable optimization.'
+            : 'Select at least one parameter to optimize.'
         );
         setIsOptimizing(false);
         return;
@@ -197,6 +225,9 @@ export const OptimizationPanel: React.FC<OptimizationPanelProps> = ({
                 convergencePoint[obj] = value;
               }
             });
+            if (progressUpdate.hypervolume !== undefined) {
+              convergencePoint.hypervolume = progressUpdate.hypervolume;
+            }
             setConvergenceHistory((prev) => [...prev, convergencePoint]);
           }
 
@@ -249,7 +280,16 @@ export const OptimizationPanel: React.FC<OptimizationPanelProps> = ({
     } finally {
       setIsOptimizing(false);
     }
-  }, [blocks, algorithm, objectives, showError, showWarning, showSuccess]);
+  }, [
+    blocks,
+    algorithm,
+    objectives,
+    candidateParameters,
+    selectedParameters,
+    showError,
+    showWarning,
+    showSuccess,
+  ]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -332,6 +372,25 @@ export const OptimizationPanel: React.FC<OptimizationPanelProps> = ({
                     Evolutionary approach. Deep exploration. Best for complex strategies.
                   </p>
                 </label>
+
+                <label
+                  className={`block p-4 border cursor-pointer transition-all ${algorithm === 'nsga2' ? 'bg-white border-orange shadow-sm' : 'border-gray-300 hover:border-gray-400'}`}
+                >
+                  <div className="flex items-center gap-3 mb-2">
+                    <input
+                      type="radio"
+                      name="algorithm"
+                      value="nsga2"
+                      checked={algorithm === 'nsga2'}
+                      onChange={(e) => setAlgorithm(e.target.value as OptimizationAlgorithm)}
+                      className="accent-orange w-4 h-4"
+                    />
+                    <span className="font-bold text-sm">NSGA-II</span>
+                  </div>
+                  <p className="text-xs text-gray-500 pl-7 leading-relaxed">
+                    Multi-objective evolution. Ranks by Pareto front. Tracks hypervolume.
+                  </p>
+                </label>
               </div>
             </div>
 
@@ -369,13 +428,13 @@ export const OptimizationPanel: React.FC<OptimizationPanelProps> = ({
                 <button
                   onClick={() => {
                     setObjectives(['totalReturn', 'winRate']);
-                    setAlgorithm('genetic');
+                    setAlgorithm('nsga2');
                   }}
                   className="w-full p-3 bg-white border border-gray-200 hover:border-orange text-left transition-all"
                 >
                   <div className="font-bold text-sm mb-1">Aggressive</div>
                   <div className="text-xs text-gray-500">
-                    Focus: Total Return, Win Rate | Genetic
+                    Focus: Total Return, Win Rate | NSGA-II
                   </div>
                 </button>
               </div>
@@ -415,6 +474,71 @@ export const OptimizationPanel: React.FC<OptimizationPanelProps> = ({
               </div>
             </div>
 
+            {/* Parameters */}
+            <div>
+              <div className="flex items-center gap-2 mb-4 text-ink font-bold font-mono text-sm uppercase">
+                <List size={16} />
+                Parameters ({selectedParameterKeys.size}/{candidateParameters.length})
+              </div>
+              {candidateParameters.length === 0 ? (
+                <p className="text-xs text-gray-500 leading-relaxed">
+                  No optimizable parameters in the current blocks.
+                </p>
+              ) : (
+                <div className="grid grid-cols-1 gap-2">
+                  {candidateParameters.map((param) => {
+                    const key = getParameterKey(param);
+                    const selected = selectedParameterKeys.has(key);
+                    const override = parameterOverrides[key];
+                    const blockLabel =
+                      blocks.find((block) => block.id === param.blockId)?.label ?? param.blockType;
+
+                    return (
+                      <div key={key} className="p-3 bg-white border border-gray-200">
+                        <label className="flex items-center gap-3 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={selected}
+                            onChange={(e) => handleParameterToggle(key, e.target.checked)}
+                            className="accent-ink w-4 h-4"
+                          />
+                          <span className="text-sm font-mono uppercase">
+                            {param.paramName.replace(/([A-Z])/g, ' $1').trim()}
+                          </span>
+                          <span className="ml-auto text-xs text-gray-400 truncate">
+                            {blockLabel}
+                          </span>
+                        </label>
+                        {selected && (
+                          <div className="flex items-center gap-2 mt-2 pl-7">
+                            <input
+                              type="number"
+                              aria-label={`${param.paramName} minimum`}
+                              value={override?.min ?? param.min ?? ''}
+                              onChange={(e) =>
+                                handleParameterBoundChange(key, 'min', e.target.value)
+                              }
+                              className="w-full p-1 border border-gray-300 text-xs font-mono"
+                            />
+                            <span className="text-xs text-gray-400">to</span>
+                            <input
+                              type="number"
+                              aria-label={`${param.paramName} maximum`}
+                              value={override?.max ?? param.max ?? ''}
+                              onChange={(e) =>
+                                handleParameterBoundChange(key, 'max', e.target.value)
+                              }
+                              className="w-full p-1 border border-gray-300 text-xs font-mono"
+                            />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
             <Button
               onClick={handleStartOptimization}
               disabled={isOptimizing || objectives.length < 2}
@@ -79,7 +79,7 @@ const Workspace: React.FC = () => {
   >(null);
 
   // Wallet connection
-  const { address, isConnected } = useWallet();
+  const { address, chainId, isConnected } = useWallet();
 
   // Consolidated modal state
   const {
@@ -147,7 +147,9 @@ const Workspace: React.FC = () => {
     try {
       const simulation = await simulateStrategyExecution(
         blocks,
-        address as `0x${string}` | undefined
+        address as `0x${string}` | undefined,
+        new Map(),
+        { chainId }
       );
       setSimulationResult(simulation);
       setShowSimulation(true);
@@ -4,8 +4,8 @@ import type React from 'react';
 import { useMemo, useState } from 'react';
 import {
   Area,
-  AreaChart,
   CartesianGrid,
+  ComposedChart,
   Line,
   LineChart,
   ResponsiveContainer,
@@ -19,8 +19,10 @@ import { type AdvancedMetrics, calculateAdvancedMetrics } from '../../utils/adva
 import { VirtualTable, VirtualTableContainer } from '../ui/VirtualTable';
 import {
   downloadCSV,
+  exportDrawdownsToCSV,
   exportEquityCurveToCSV,
   exportMetricsToCSV,
+  exportMonthlyReturnsToCSV,
   exportTradesToCSV,
 } from '../../utils/csvExport';
 import { Button } from '../ui/Button';
@@ -34,6 +36,8 @@ interface BacktestModalProps {
 type Tab = 'overview' | 'trades' | 'comparison' | 'advanced';
 type TimePeriod = '1M' | '3M' | '6M' | '1Y' | 'ALL' | 'CUSTOM';
 
+const BENCHMARK_COLORS = ['#FF5500', '#4F46E5', '#9CA3AF', '#EAB308'];
+
 export const BacktestModal: React.FC<BacktestModalProps> = ({ isOpen, onClose, result }) => {
   const { success: showSuccess, error: showError } = useToast();
   const [activeTab, setActiveTab] = useState<Tab>('overview');
@@ -92,41 +96,38 @@ export const BacktestModal: React.FC<BacktestModalProps> = ({ isOpen, onClose, r
     return result.equityCurve.filter((point) => new Date(point.date) >= cutoffDate);
   }, [result, timePeriod, customDateRange]);
 
+  const benchmarks = result?.benchmarks ?? [];
+
+  // Benchmark equity is sampled on the strategy's timeline, so points join by date
   const chartData = useMemo(() => {
     if (!filteredEquityCurve || filteredEquityCurve.length === 0) {
       return [];
     }
+    const benchmarkEquity = (result?.benchmarks ?? []).map(
+      (benchmark) => new Map(benchmark.equityCurve.map((point) => [point.date, point.equity]))
+    );
     return filteredEquityCurve.map((point) => ({
       date: point.date,
       name: new Date(point.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
       equity: point.equity,
+      ...Object.fromEntries(
+        benchmarkEquity.map((byDate, index) => [`benchmark${index}`, byDate.get(point.date)])
+      ),
     }));
-  }, [filteredEquityCurve]);
-
-  // Calculate HODL benchmark
-  const benchmarkData = useMemo(() => {
-    if (!result || chartData.length === 0) return [];
-
-    const firstPrice = chartData[0]?.equity || result.initialCapital;
-    const lastPrice = chartData[chartData.length - 1]?.equity || result.initialCapital;
-
-    // Generate HODL equity curve (linear growth assumption)
-    return chartData.map((point, index) => {
-      const progress = index / (chartData.length - 1);
-      const hodlValue = firstPrice + (lastPrice - firstPrice) * progress;
-      return {
-        ...point,
-        hodl: hodlValue,
-      };
-    });
-  }, [result, chartData]);
+  }, [result, filteredEquityCurve]);
 
   const combinedChartData = useMemo(() => {
-    return benchmarkData.map((point) => ({
+    return chartData.map((point) => ({
       ...point,
       strategy: point.equity,
     }));
-  }, [benchmarkData]);
+  }, [chartData]);
+
+  const benchmarkPlaceholders = benchmarks.map((benchmark) => (
+    <td key={benchmark.id} className="px-4 py-3 text-right text-gray-400">
+      -
+    </td>
+  ));
 
   const metrics = result?.metrics || {
     sharpeRatio: 0,
@@ -141,14 +142,6 @@ export const BacktestModal: React.FC<BacktestModalProps> = ({ isOpen, onClose, r
   const winRate =
     metrics.totalTrades > 0 ? ((metrics.winTrades / metrics.totalTrades) * 100).toFixed(1) : '0.0';
 
-  // Calculate HODL performance
-  const hodlReturn = useMemo(() => {
-    if (!result || chartData.length === 0) return 0;
-    const firstEquity = chartData[0]?.equity || result.initialCapital;
-    const lastEquity = chartData[chartData.length - 1]?.equity || result.initialCapital;
-    return ((lastEquity - firstEquity) / firstEquity) * 100;
-  }, [result, chartData]);
-
   // Export CSV functions
   const handleExportEquityCurve = () => {
     if (!result) {
@@ -195,10 +188,26 @@ export const BacktestModal: React.FC<BacktestModalProps> = ({ isOpen, onClose, r
     }
   };
 
+  const handleExportPerformance = () => {
+    if (!result) {
+      showError('No backtest data to export');
+      return;
+    }
+    try {
+      downloadCSV(exportMonthlyReturnsToCSV(result), `backtest-monthly-returns-${Date.now()}.csv`);
+      downloadCSV(exportDrawdownsToCSV(result), `backtest-drawdowns-${Date.now()}.csv`);
+      showSuccess('Monthly returns and drawdowns exported to CSV');
+    } catch (error) {
+      showError('Failed to export performance tables');
+      console.error('CSV export error:', error);
+    }
+  };
+
   const handleExportAll = () => {
     handleExportEquityCurve();
     setTimeout(() => handleExportTrades(), 100);
     setTimeout(() => handleExportMetrics(), 200);
+    setTimeout(() => handleExportPerformance(), 300);
   };
 
   // Calculate advanced metrics
@@ -531,7 +540,7 @@ export const BacktestModal: React.FC<BacktestModalProps> = ({ isOpen, onClose, r
               <div className="flex-1 h-[400px] border border-gray-300 bg-white p-4">
                 {chartData.length > 0 ? (
                   <ResponsiveContainer width="100%" height="100%">
-                    <AreaChart data={chartData}>
+                    <ComposedChart data={chartData}>
                       <CartesianGrid strokeDasharray="3 3" stroke="#eee" />
                       <XAxis dataKey="name" tick={{ fontFamily: 'IBM Plex Mono', fontSize: 12 }} />
                       <YAxis tick={{ fontFamily: 'IBM Plex Mono', fontSize: 12 }} />
@@ -550,8 +559,21 @@ export const BacktestModal: React.FC<BacktestModalProps> = ({ isOpen, onClose, r
                         fill="#00D395"
                         fillOpacity={0.1}
                         strokeWidth={2}
+                        name="Strategy"
                       />
-                    </AreaChart>
+                      {benchmarks.map((benchmark, index) => (
+                        <Line
+                          key={benchmark.id}
+                          type="monotone"
+                          dataKey={`benchmark${index}`}
+                          stroke={BENCHMARK_COLORS[index % BENCHMARK_COLORS.length]}
+                          strokeWidth={1.5}
+                          strokeDasharray="5 5"
+                          name={benchmark.label}
+                          dot={false}
+                        />
+                      ))}
+                    </ComposedChart>
                   </ResponsiveContainer>
                 ) : (
                   <div className="flex items-center justify-center h-full text-gray-400">
@@ -815,31 +837,23 @@ export const BacktestModal: React.FC<BacktestModalProps> = ({ isOpen, onClose, r
                       {metrics.totalReturn.toFixed(2)}%
                     </div>
                   </div>
-                  <div className="border border-gray-300 p-4 bg-white">
-                    <div className="text-xs text-gray-500 uppercase font-bold mb-1">HODL</div>
-                    <div
-                      className={`text-2xl font-mono font-bold ${hodlReturn >= 0 ? 'text-success-green' : 'text-alert-red'}`}
-                    >
-                      {hodlReturn >= 0 ? '+' : ''}
-                      {hodlReturn.toFixed(2)}%
-                    </div>
-                  </div>
-                  <div className="border border-gray-300 p-4 bg-white">
-                    <div className="text-xs text-gray-500 uppercase font-bold mb-1">BTC (Est.)</div>
-                    <div className="text-2xl font-mono font-bold text-gray-400">
-                      {hodlReturn >= 0 ? '+' : ''}
-                      {(hodlReturn * 0.8).toFixed(2)}%
-                    </div>
-                    <div className="text-[10px] text-gray-400 mt-1">Estimated</div>
-                  </div>
-                  <div className="border border-gray-300 p-4 bg-white">
-                    <div className="text-xs text-gray-500 uppercase font-bold mb-1">ETH (Est.)</div>
-                    <div className="text-2xl font-mono font-bold text-gray-400">
-                      {hodlReturn >= 0 ? '+' : ''}
-                      {(hodlReturn * 0.9).toFixed(2)}%
+                  {benchmarks.map((benchmark) => (
+                    <div key={benchmark.id} className="border border-gray-300 p-4 bg-white">
+                      <div className="text-xs text-gray-500 uppercase font-bold mb-1">
+                        {benchmark.label}
+                      </div>
+                      <div
+                        className={`text-2xl font-mono font-bold ${benchmark.totalReturn >= 0 ? 'text-success-green' : 'text-alert-red'}`}
+                      >
+                        {benchmark.totalReturn >= 0 ? '+' : ''}
+                        {benchmark.totalReturn.toFixed(2)}%
+                      </div>
+                      <div className="text-[10px] text-gray-400 mt-1">
+                        Alpha {benchmark.alpha >= 0 ? '+' : ''}
+                        {benchmark.alpha.toFixed(2)}%
+                      </div>
                     </div>
-                    <div className="text-[10px] text-gray-400 mt-1">Estimated</div>
-                  </div>
+                  ))}
                 </div>
 
                 {/* Performance Comparison Table */}
@@ -854,15 +868,14 @@ export const BacktestModal: React.FC<BacktestModalProps> = ({ isOpen, onClose, r
                           <th className="px-4 py-3 text-right font-bold uppercase text-ink">
                             Strategy
                           </th>
-                          <th className="px-4 py-3 text-right font-bold uppercase text-ink">
-                            HODL
-                          </th>
-                          <th className="px-4 py-3 text-right font-bold uppercase text-ink">
-                            BTC (Est.)
-                          </th>
-                          <th className="px-4 py-3 text-right font-bold uppercase text-ink">
-                            ETH (Est.)
-                          </th>
+                          {benchmarks.map((benchmark) => (
+                            <th
+                              key={benchmark.id}
+                              className="px-4 py-3 text-right font-bold uppercase text-ink"
+                            >
+                              {benchmark.label}
+                            </th>
+                          ))}
                         </tr>
                       </thead>
                       <tbody>
@@ -874,44 +887,66 @@ export const BacktestModal: React.FC<BacktestModalProps> = ({ isOpen, onClose, r
                             {metrics.totalReturn >= 0 ? '+' : ''}
                             {metrics.totalReturn.toFixed(2)}%
                           </td>
-                          <td
-                            className={`px-4 py-3 text-right ${hodlReturn >= 0 ? 'text-success-green' : 'text-alert-red'}`}
-                          >
-                            {hodlReturn >= 0 ? '+' : ''}
-                            {hodlReturn.toFixed(2)}%
-                          </td>
-                          <td className="px-4 py-3 text-right text-gray-400">
-                            {hodlReturn >= 0 ? '+' : ''}
-                            {(hodlReturn * 0.8).toFixed(2)}%
-                          </td>
-                          <td className="px-4 py-3 text-right text-gray-400">
-                            {hodlReturn >= 0 ? '+' : ''}
-                            {(hodlReturn * 0.9).toFixed(2)}%
-                          </td>
+                          {benchmarks.map((benchmark) => (
+                            <td
+                              key={benchmark.id}
+                              className={`px-4 py-3 text-right ${benchmark.totalReturn >= 0 ? 'text-success-green' : 'text-alert-red'}`}
+                            >
+                              {benchmark.totalReturn >= 0 ? '+' : ''}
+                              {benchmark.totalReturn.toFixed(2)}%
+                            </td>
+                          ))}
+                        </tr>
+                        <tr className="border-b border-gray-200">
+                          <td className="px-4 py-3 text-gray-600">Alpha (Ann.)</td>
+                          <td className="px-4 py-3 text-right text-gray-400">-</td>
+                          {benchmarks.map((benchmark) => (
+                            <td key={benchmark.id} className="px-4 py-3 text-right text-ink">
+                              {benchmark.alpha >= 0 ? '+' : ''}
+                              {benchmark.alpha.toFixed(2)}%
+                            </td>
+                          ))}
+                        </tr>
+                        <tr className="border-b border-gray-200">
+                          <td className="px-4 py-3 text-gray-600">Beta</td>
+                          <td className="px-4 py-3 text-right text-gray-400">-</td>
+                          {benchmarks.map((benchmark) => (
+                            <td key={benchmark.id} className="px-4 py-3 text-right text-ink">
+                              {benchmark.beta.toFixed(4)}
+                            </td>
+                          ))}
+                        </tr>
+                        <tr className="border-b border-gray-200">
+                          <td className="px-4 py-3 text-gray-600">Tracking Error</td>
+                          <td className="px-4 py-3 text-right text-gray-400">-</td>
+                          {benchmarks.map((benchmark) => (
+                            <td key={benchmark.id} className="px-4 py-3 text-right text-ink">
+                              {benchmark.trackingError.toFixed(2)}%
+                            </td>
+                          ))}
+                        </tr>
+                        <tr className="border-b border-gray-200">
+                          <td className="px-4 py-3 text-gray-600">Information Ratio</td>
+                          <td className="px-4 py-3 text-right text-gray-400">-</td>
+                          {benchmarks.map((benchmark) => (
+                            <td key={benchmark.id} className="px-4 py-3 text-right text-ink">
+                              {benchmark.informationRatio.toFixed(4)}
+                            </td>
+                          ))}
                         </tr>
                         <tr className="border-b border-gray-200">
                           <td className="px-4 py-3 text-gray-600">Sharpe Ratio</td>
                           <td className="px-4 py-3 text-right font-bold text-ink">
                             {metrics.sharpeRatio.toFixed(4)}
                           </td>
-                          <td className="px-4 py-3 text-right text-gray-400">-</td>
-                          <td className="px-4 py-3 text-right text-gray-400">-</td>
-                          <td className="px-4 py-3 text-right text-gray-400">-</td>
+                          {benchmarkPlaceholders}
                         </tr>
                         <tr className="border-b border-gray-200">
                           <td className="px-4 py-3 text-gray-600">Max Drawdown</td>
                           <td className="px-4 py-3 text-right font-bold text-alert-red">
                             {metrics.maxDrawdown.toFixed(2)}%
                           </td>
-                          <td className="px-4 py-3 text-right text-gray-400">
-                            {(metrics.maxDrawdown * 0.5).toFixed(2)}%
-                          </td>
-                          <td className="px-4 py-3 text-right text-gray-400">
-                            {(metrics.maxDrawdown * 0.6).toFixed(2)}%
-                          </td>
-                          <td className="px-4 py-3 text-right text-gray-400">
-                            {(metrics.maxDrawdown * 0.55).toFixed(2)}%
-                          </td>
+                          {benchmarkPlaceholders}
                         </tr>
                         {advancedMetrics && (
                           <>
@@ -920,36 +955,28 @@ export const BacktestModal: React.FC<BacktestModalProps> = ({ isOpen, onClose, r
                               <td className="px-4 py-3 text-right font-bold text-ink">
                                 {advancedMetrics.sortinoRatio.toFixed(4)}
                               </td>
-                              <td className="px-4 py-3 text-right text-gray-400">-</td>
-                              <td className="px-4 py-3 text-right text-gray-400">-</td>
-                              <td className="px-4 py-3 text-right text-gray-400">-</td>
+                              {benchmarkPlaceholders}
                             </tr>
                             <tr className="border-b border-gray-200">
                               <td className="px-4 py-3 text-gray-600">Calmar Ratio</td>
                               <td className="px-4 py-3 text-right font-bold text-ink">
                                 {advancedMetrics.calmarRatio.toFixed(4)}
                               </td>
-                              <td className="px-4 py-3 text-right text-gray-400">-</td>
-                              <td className="px-4 py-3 text-right text-gray-400">-</td>
-                              <td className="px-4 py-3 text-right text-gray-400">-</td>
+                              {benchmarkPlaceholders}
                             </tr>
                             <tr className="border-b border-gray-200">
                               <td className="px-4 py-3 text-gray-600">Value at Risk (95%)</td>
                               <td className="px-4 py-3 text-right font-bold text-alert-red">
                                 {advancedMetrics.valueAtRisk95.toFixed(2)}%
                               </td>
-                              <td className="px-4 py-3 text-right text-gray-400">-</td>
-                              <td className="px-4 py-3 text-right text-gray-400">-</td>
-                              <td className="px-4 py-3 text-right text-gray-400">-</td>
+                              {benchmarkPlaceholders}
                             </tr>
                             <tr className="border-b border-gray-200">
                               <td className="px-4 py-3 text-gray-600">Conditional VaR (95%)</td>
                               <td className="px-4 py-3 text-right font-bold text-alert-red">
                                 {advancedMetrics.conditionalVaR95.toFixed(2)}%
                               </td>
-                              <td className="px-4 py-3 text-right text-gray-400">-</td>
-                              <td className="px-4 py-3 text-right text-gray-400">-</td>
-                              <td className="px-4 py-3 text-right text-gray-400">-</td>
+                              {benchmarkPlaceholders}
                             </tr>
                           </>
                         )}
@@ -985,15 +1012,18 @@ export const BacktestModal: React.FC<BacktestModalProps> = ({ isOpen, onClose, r
                           name="Strategy"
                           dot={false}
                         />
-                        <Line
-                          type="monotone"
-                          dataKey="hodl"
-                          stroke="#FF5500"
-                          strokeWidth={2}
-                          strokeDasharray="5 5"
-                          name="HODL"
-                          dot={false}
-                        />
+                        {benchmarks.map((benchmark, index) => (
+                          <Line
+                            key={benchmark.id}
+                            type="monotone"
+                            dataKey={`benchmark${index}`}
+                            stroke={BENCHMARK_COLORS[index % BENCHMARK_COLORS.length]}
+                            strokeWidth={2}
+                            strokeDasharray="5 5"
+                            name={benchmark.label}
+                            dot={false}
+                          />
+                        ))}
                       </LineChart>
                     </ResponsiveContainer>
                   ) : (
@@ -1003,12 +1033,15 @@ export const BacktestModal: React.FC<BacktestModalProps> = ({ isOpen, onClose, r
                   )}
                 </div>
 
-                <div className="p-4 bg-gray-50 border border-gray-200">
-                  <p className="text-xs text-gray-500">
-                    <strong>Note:</strong> BTC and ETH returns are estimated based on historical
-                    correlation. For accurate benchmark comparisons, connect to a price data API.
-                  </p>
-                </div>
+                {benchmarks.length === 0 && (
+                  <div className="p-4 bg-gray-50 border border-gray-200">
+                    <p className="text-xs text-gray-500">
+                      <strong>Note:</strong> No benchmarks were configured for this backtest. Add
+                      benchmarks to the backtest config to compare against HODL, a 60/40 portfolio
+                      or a lending yield.
+                    </p>
+                  </div>
+                )}
               </div>
             </div>
           ) : activeTab === 'advanced' ? (
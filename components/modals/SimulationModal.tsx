@@ -55,7 +55,7 @@ export const SimulationModal: React.FC<SimulationModalProps> = ({
               </span>
               <div className="text-right">
                 <div className="text-lg font-bold font-mono text-ink">
-                  {result.totalCostETH} ETH
+                  {result.totalCostETH} {result.nativeToken}
                 </div>
                 <div className="text-xs text-gray-500">≈ ${result.totalCostUSD.toFixed(2)} USD</div>
               </div>
@@ -113,7 +113,7 @@ export const SimulationModal: React.FC<SimulationModalProps> = ({
                   <span className="text-xs font-mono text-gray-700">{estimate.blockType}</span>
                   <div className="text-right">
                     <div className="text-xs font-bold text-ink">
-                      {estimate.estimatedCostETH} ETH
+                      {estimate.estimatedCostETH} {result.nativeToken}
                     </div>
                     <div className="text-[10px] text-gray-500">
                       ${estimate.estimatedCostUSD.toFixed(2)}
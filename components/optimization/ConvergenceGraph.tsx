@@ -1,6 +1,6 @@
 /**
  * Convergence Graph Component
- * Shows optimization progress over iterations
+ * Shows optimization progress over iterations, with NSGA-II hypervolume on a second axis
  */
 
 import type React from 'react';
@@ -37,6 +37,8 @@ export const ConvergenceGraph: React.FC<ConvergenceGraphProps> = ({
     gasCosts: '#9B59B6',
   },
 }) => {
+  const showHypervolume = data.some((point) => typeof point.hypervolume === 'number');
+
   if (data.length === 0) {
     return (
       <div className="flex items-center justify-center h-full text-gray-400">
@@ -60,6 +62,7 @@ export const ConvergenceGraph: React.FC<ConvergenceGraphProps> = ({
           }}
         />
         <YAxis
+          yAxisId="objectives"
           tick={{ fontFamily: 'IBM Plex Mono', fontSize: 12 }}
           label={{
             value: 'Objective Value',
@@ -68,6 +71,19 @@ export const ConvergenceGraph: React.FC<ConvergenceGraphProps> = ({
             style: { fontFamily: 'IBM Plex Mono', fontSize: 12 },
           }}
         />
+        {showHypervolume && (
+          <YAxis
+            yAxisId="hypervolume"
+            orientation="right"
+            tick={{ fontFamily: 'IBM Plex Mono', fontSize: 12 }}
+            label={{
+              value: 'Hypervolume',
+              angle: 90,
+              position: 'insideRight',
+              style: { fontFamily: 'IBM Plex Mono', fontSize: 12 },
+            }}
+          />
+        )}
         <Tooltip
           contentStyle={{
             backgroundColor: '#fff',
@@ -81,6 +97,7 @@ export const ConvergenceGraph: React.FC<ConvergenceGraphProps> = ({
         {objectives.map((objective) => (
           <Line
             key={objective}
+            yAxisId="objectives"
             type="monotone"
             dataKey={objective}
             stroke={colors[objective] || '#000'}
@@ -89,6 +106,19 @@ export const ConvergenceGraph: React.FC<ConvergenceGraphProps> = ({
             name={objective.replace(/([A-Z])/g, ' $1').trim()}
           />
         ))}
+        {showHypervolume && (
+          <Line
+            yAxisId="hypervolume"
+            type="stepAfter"
+            dataKey="hypervolume"
+            stroke={colors.hypervolume || '#000'}
+            strokeWidth={2}
+            strokeDasharray="5 3"
+            dot={false}
+            connectNulls
+            name="Hypervolume"
+          />
+        )}
       </LineChart>
     </ResponsiveContainer>
   );
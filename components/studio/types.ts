@@ -1,3 +1,5 @@
+import type { EdgeCondition } from '../../services/backtest/strategyGraph';
+
 export interface StrategyNode {
   id: string;
   type: string;
@@ -15,4 +17,6 @@ export interface StrategyEdge {
   target: string;
   type?: string;
   animated?: boolean;
+  label?: string;
+  data?: { condition: EdgeCondition };
 }
@@ -98,8 +98,8 @@ const FIELD_DEFINITIONS: Record<
   schedule: {
     label: 'Schedule (Cron)',
     type: 'text',
-    placeholder: '0 9 * * *',
-    description: 'Cron expression (e.g., "0 9 * * *" for 9 AM daily)',
+    placeholder: '0 9 * * 1-5',
+    description: 'Cron expression (e.g., "0 9 * * 1-5" for 9 AM on weekdays)',
   },
   timezone: {
     label: 'Timezone',
@@ -127,9 +127,15 @@ const FIELD_DEFINITIONS: Record<
   indicator: {
     label: 'Indicator',
     type: 'select',
-    options: ['RSI', 'MACD', 'BB', 'MA'],
+    options: ['RSI', 'MACD', 'BB', 'MA', 'EMA', 'ATR', 'STOCH'],
     description: 'Technical indicator to use',
   },
+  band: {
+    label: 'Band',
+    type: 'select',
+    options: ['lower', 'middle', 'upper'],
+    description: 'Bollinger band to compare against (BB only)',
+  },
   value: {
     label: 'Target Value',
     type: 'number',
@@ -194,6 +200,14 @@ const FIELD_DEFINITIONS: Record<
     type: 'number',
     placeholder: 'Optional',
   },
+  rangeWidth: {
+    label: 'Range Width (%)',
+    type: 'number',
+    min: 1,
+    max: 99,
+    placeholder: '10',
+    description: 'Range on either side of the entry price when no ticks are set',
+  },
 
   // Curve/Balancer Swap Params
   pool: {
@@ -312,6 +326,33 @@ const FIELD_DEFINITIONS: Record<
     suffix: '%',
     description: 'Rebalance when deviation exceeds this',
   },
+  rebalanceMethod: {
+    label: 'Rebalance Trigger',
+    type: 'select',
+    options: ['threshold', 'calendar', 'both'],
+    description: 'Drift threshold, calendar dates, or calendar dates past the threshold',
+  },
+  frequency: {
+    label: 'Calendar Frequency',
+    type: 'select',
+    options: ['daily', 'weekly', 'monthly'],
+    description: 'How often calendar rebalancing runs',
+  },
+  venue: {
+    label: 'Venue',
+    type: 'select',
+    options: ['uniswap', 'curve', 'oneinch'],
+    description: 'Where rebalancing trades execute',
+  },
+
+  // Flash Loan Params
+  bundleSize: {
+    label: 'Bundle Size',
+    type: 'number',
+    min: 0,
+    step: 1,
+    description: 'Blocks after the loan that execute atomically with it',
+  },
 };
 
 interface ParamFieldProps {
@@ -619,11 +660,14 @@ export const BlockConfigPanel: React.FC<BlockConfigPanelProps> = ({
 
                 <div className="space-y-6">
                   {Object.keys(params).map((key) => {
-                    // Handle duplicate 'condition' key: use different definitions based on block type
+                    // Keys shared across block types ('condition', 'method') use per-type definitions
                     let definitionKey = key;
                     if (key === 'condition' && block.type === 'conditional_exit') {
                       definitionKey = 'exitCondition';
                     }
+                    if (key === 'method' && block.type === 'rebalancing') {
+                      definitionKey = 'rebalanceMethod';
+                    }
 
                     return (
                       <ParamField
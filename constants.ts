@@ -89,6 +89,7 @@ export const AVAILABLE_BLOCKS: LegoBlock[] = [
       amount0: 1.0,
       amount1: 3000,
       feeTier: 3000,
+      rangeWidth: 10,
     },
   },
   // PROTOCOL Blocks - Aave
@@ -342,7 +343,10 @@ export const AVAILABLE_BLOCKS: LegoBlock[] = [
     params: {
       targetAllocation: '{"ETH":40,"USDC":30,"WBTC":30}',
       threshold: 5,
-      method: 'proportional',
+      method: 'threshold',
+      frequency: 'weekly',
+      venue: 'uniswap',
+      slippage: 1,
     },
   },
 ];
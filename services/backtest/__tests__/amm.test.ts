@@ -0,0 +1,105 @@
+/**
+ * Tests for the AMM price-impact models
+ */
+
+import { describe, expect, it } from 'vitest';
+import { BlockCategory, type LegoBlock, Protocol } from '../../../types';
+import { quoteBestRoute, quoteSwap, stableSwapOut } from '../amm';
+import { type ExecutionContext, executeBlock } from '../blockExecutor';
+import { createTestContext } from './executionContext';
+
+const swapBlock = (type: string, params: LegoBlock['params']): LegoBlock => ({
+  id: type,
+  type,
+  label: type.toUpperCase(),
+  description: 'Test',
+  category: BlockCategory.PROTOCOL,
+  protocol: Protocol.UNISWAP,
+  icon: 'swap',
+  params: { inputToken: 'USDC', outputToken: 'ETH', ...params },
+});
+
+const createContext = (pools?: ExecutionContext['pools']): ExecutionContext =>
+  createTestContext({ cash: 20_000_000, pools });
+
+describe('AMM quotes', () => {
+  it('should grow constant-product price impact with trade size', () => {
+    const small = quoteSwap('uniswap', 'USDC', 'ETH', 10, 1, 2000);
+    const large = quoteSwap('uniswap', 'USDC', 'ETH', 10_000_000, 1, 2000);
+
+    expect(small.priceImpact).toBeLessThan(1e-6);
+    // $10M into a $25M/$25M pool: impact = 10 / (25 + 10) of the post-fee input
+    expect(large.priceImpact).toBeCloseTo(1 - 25 / (25 + 10 * 0.997), 6);
+    expect(small.fee).toBeCloseTo(0.03, 9);
+  });
+
+  it('should keep StableSwap impact far below constant product for the same pool', () => {
+    const stable = 1 - stableSwapOut(50e6, 50e6, 100, 10e6) / 10e6;
+    const constant = 1 - (50e6 * 10e6) / (50e6 + 10e6) / 10e6;
+    expect(stable).toBeLessThan(constant / 10);
+  });
+
+  it('should honour configured pool liquidity and weights', () => {
+    const shallow = quoteSwap('uniswap', 'USDC', 'ETH', 100_000, 1, 2000, {
+      uniswap: { 'ETH/USDC': { liquidity: 1_000_000 } },
+    });
+    const deep = quoteSwap('uniswap', 'USDC', 'ETH', 100_000, 1, 2000);
+    expect(shallow.priceImpact).toBeGreaterThan(deep.priceImpact * 10);
+
+    const weighted = quoteSwap('balancer', 'USDC', 'ETH', 1_000_000, 1, 2000, {
+      balancer: { '*': { liquidity: 10_000_000, weights: { ETH: 0.8, USDC: 0.2 } } },
+    });
+    const even = quoteSwap('balancer', 'USDC', 'ETH', 1_000_000, 1, 2000);
+    expect(weighted.priceImpact).toBeGreaterThan(even.priceImpact);
+  });
+
+  it('should route 1inch through the venue with the best output', () => {
+    const route = quoteBestRoute('USDC', 'ETH', 5_000_000, 1, 2000);
+    const venues = (['uniswap', 'curve', 'balancer'] as const).map(
+      (venue) => quoteSwap(venue, 'USDC', 'ETH', 5_000_000 * 0.999, 1, 2000).outputAmount
+    );
+
+    expect(route.outputAmount).toBeGreaterThanOrEqual(Math.max(...venues));
+    expect(route.venue).toContain('curve');
+  });
+});
+
+describe('Swap executors', () => {
+  it('should revert when price impact exceeds the slippage tolerance', () => {
+    const context = createContext({ uniswap: { '*': { liquidity: 1_000_000 } } });
+    const result = executeBlock(
+      swapBlock('uniswap_swap', { amount: 100_000, slippage: 1 }),
+      context
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('exceeds slippage tolerance');
+    expect(context.portfolio.getBalance('USDC')).toBe(20_000_000);
+    expect(context.portfolio.getTrades()).toHaveLength(0);
+  });
+
+  it('should record the realized price impact as trade slippage', () => {
+    const context = createContext();
+    const result = executeBlock(
+      swapBlock('uniswap_swap', { amount: 1000, slippage: 0.5 }),
+      context
+    );
+    const [trade] = context.portfolio.getTrades();
+
+    expect(result.executed).toBe(true);
+    expect(trade?.slippage).toBeGreaterThan(0);
+    expect(trade?.slippage).toBeLessThan(0.01);
+    expect(trade?.fees).toBeCloseTo(3, 6);
+  });
+
+  it('should fill a large swap worse than a small one per dollar', () => {
+    const small = createContext();
+    const large = createContext();
+    executeBlock(swapBlock('uniswap_swap', { amount: 1000, slippage: 50 }), small);
+    executeBlock(swapBlock('uniswap_swap', { amount: 10_000_000, slippage: 50 }), large);
+
+    const perDollar = (context: ExecutionContext, spent: number) =>
+      context.portfolio.getBalance('ETH') / spent;
+    expect(perDollar(large, 10_000_000)).toBeLessThan(perDollar(small, 1000) * 0.8);
+  });
+});
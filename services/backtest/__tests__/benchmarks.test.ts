@@ -0,0 +1,134 @@
+/**
+ * Tests for benchmark equity curves and relative metrics
+ */
+
+import { describe, expect, it } from 'vitest';
+import { BlockCategory, type LegoBlock, Protocol } from '../../../types';
+import { runDeFiBacktest } from '../../defiBacktestEngine';
+import {
+  BENCHMARK_PRESETS,
+  BenchmarkTracker,
+  calculateRelativeMetrics,
+  describeBenchmark,
+} from '../benchmarks';
+import { compoundGrowth } from '../interest';
+import type { RateSource } from '../rates';
+
+const DAY = 86400000;
+const START = Date.UTC(2024, 0, 1);
+
+const rates: RateSource = {
+  id: 'fixed',
+  getRates: () => ({ supplyApr: 0.05, borrowApr: 0.08 }),
+};
+const getPrice = (token: string, prices: Map<string, number>) =>
+  token === 'USDC' ? 1 : prices.get(token);
+const eth = (price: number) => new Map([['ETH', price]]);
+
+describe('BenchmarkTracker', () => {
+  it('should value HODL, 60/40 and lending benchmarks on the sample timeline', () => {
+    const tracker = new BenchmarkTracker(
+      [BENCHMARK_PRESETS.hodlEth, BENCHMARK_PRESETS.ethUsdc6040, BENCHMARK_PRESETS.usdcLending],
+      10000,
+      getPrice,
+      rates
+    );
+    tracker.sample(START, eth(2000));
+    tracker.sample(START + DAY, eth(2500));
+
+    const [hodl, mixed, lending] = tracker.getResults([10000, 11000], 1, DAY);
+    expect(hodl?.equityCurve.map((point) => point.equity)).toEqual([10000, 12500]);
+    expect(hodl?.totalReturn).toBeCloseTo(25, 10);
+    expect(mixed?.equityCurve[1]?.equity).toBeCloseTo(6000 * 1.25 + 4000, 8);
+    expect(lending?.equityCurve[1]?.equity).toBeCloseTo(10000 * compoundGrowth(0.05, DAY), 8);
+    expect(hodl?.equityCurve[1]?.date).toBe(new Date(START + DAY).toISOString());
+  });
+
+  it('should hold cash until every component has a price', () => {
+    const tracker = new BenchmarkTracker([{ type: 'hodl', token: 'ETH' }], 10000, getPrice, rates);
+    tracker.sample(START, new Map());
+    tracker.sample(START + DAY, eth(2000));
+    tracker.sample(START + 2 * DAY, eth(1000));
+
+    const [hodl] = tracker.getResults([10000, 10000, 10000], 2, DAY);
+    expect(hodl?.equityCurve.map((point) => point.equity)).toEqual([10000, 10000, 5000]);
+  });
+
+  it('should rebalance a weighted portfolio back to its targets', () => {
+    const config = {
+      type: 'portfolio',
+      weights: { ETH: 0.5, USDC: 0.5 },
+      rebalanceInterval: DAY,
+    } as const;
+    const tracker = new BenchmarkTracker([config], 1000, getPrice, rates);
+    tracker.sample(START, eth(100));
+    tracker.sample(START + DAY, eth(200)); // 750, reset to 375/375
+    tracker.sample(START + 2 * DAY, eth(100));
+
+    const [portfolio] = tracker.getResults([1000, 1000, 1000], 2, DAY);
+    expect(portfolio?.equityCurve.map((point) => point.equity)).toEqual([1000, 1500, 1125]);
+  });
+});
+
+describe('calculateRelativeMetrics', () => {
+  it('should measure a leveraged copy of the benchmark as beta 2', () => {
+    const benchmark = [100, 110, 99, 108.9];
+    const strategy = [100, 120, 96, 115.2];
+    const metrics = calculateRelativeMetrics(strategy, benchmark, 3);
+
+    expect(metrics.beta).toBeCloseTo(2, 10);
+    expect(metrics.trackingError).toBeGreaterThan(0);
+
+    const identical = calculateRelativeMetrics(benchmark, benchmark, 3);
+    expect(identical).toMatchObject({ beta: 1, trackingError: 0, informationRatio: 0 });
+    expect(identical.alpha).toBeCloseTo(0, 10);
+  });
+
+  it('should label benchmarks from their config', () => {
+    expect(describeBenchmark(BENCHMARK_PRESETS.ethUsdc6040)).toBe('60/40 ETH/USDC');
+    expect(describeBenchmark(BENCHMARK_PRESETS.usdcLending)).toBe('USDC lending (Aave)');
+    expect(describeBenchmark({ type: 'hodl', token: 'WBTC', label: 'Bitcoin' })).toBe('Bitcoin');
+  });
+});
+
+describe('Backtest benchmarks', () => {
+  it('should fetch benchmark tokens and compare against them on the equity timeline', async () => {
+    const holdUsdc: LegoBlock = {
+      id: 'swap',
+      type: 'uniswap_swap',
+      label: 'UNISWAP SWAP',
+      description: 'Test',
+      category: BlockCategory.PROTOCOL,
+      protocol: Protocol.UNISWAP,
+      icon: 'swap',
+      params: { inputToken: 'USDC', outputToken: 'DAI', amount: 0, slippage: 1 },
+    };
+    const series = (prices: number[]) =>
+      prices.map((price, i) => ({ timestamp: START + i * DAY, price }));
+
+    const result = await runDeFiBacktest({
+      blocks: [holdUsdc],
+      startDate: new Date(START),
+      endDate: new Date(START + 2 * DAY),
+      initialCapital: 10000,
+      rebalanceInterval: DAY,
+      dataSource: {
+        type: 'fixture',
+        data: {
+          ETH: series([2000, 2200, 2400]),
+          USDC: series([1, 1, 1]),
+          DAI: series([1, 1, 1]),
+        },
+      },
+      benchmarks: [BENCHMARK_PRESETS.hodlEth],
+    });
+
+    const [hodl] = result.benchmarks;
+    expect(hodl?.equityCurve.map((point) => point.date)).toEqual(
+      result.equityCurve.map((point) => point.date)
+    );
+    expect(hodl?.totalReturn).toBeCloseTo(20, 8);
+    expect(hodl?.beta).toBeCloseTo(0, 8);
+    expect(hodl?.informationRatio).toBeLessThan(0);
+  });
+});
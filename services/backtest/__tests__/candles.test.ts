@@ -0,0 +1,209 @@
+/**
+ * Tests for OHLCV candles and the executors that read them
+ */
+
+import { describe, expect, it } from 'vitest';
+import { BlockCategory, type LegoBlock, Protocol } from '../../../types';
+import { type ExecutionContext, executeBlock } from '../blockExecutor';
+import { aggregateCandles, toCandle } from '../candles';
+import type { PriceDataPoint } from '../dataFetcher';
+import { PriceHistory } from '../priceHistory';
+import { createTestContext } from './executionContext';
+
+const HOUR = 3600000;
+const DAY = 24 * HOUR;
+
+const createBlock = (type: string, params: LegoBlock['params']): LegoBlock => ({
+  id: type,
+  type,
+  label: type.toUpperCase(),
+  description: 'Test',
+  category: BlockCategory.EXIT,
+  protocol: Protocol.GENERIC,
+  icon: 'test',
+  params,
+});
+
+const createContext = (
+  bars: PriceDataPoint[],
+  timestamp: number,
+  candle?: { open: number; high: number; low: number; close: number }
+): ExecutionContext => {
+  const history = new PriceHistory(new Map([['ETH', bars]]));
+  history.advanceTo(timestamp);
+  const close = candle?.close ?? bars[bars.length - 1]?.price ?? 0;
+  return createTestContext({
+    timestamp,
+    prices: new Map([['ETH', close]]),
+    history,
+    candles: new Map(candle ? [['ETH', { timestamp, volume: 0, ...candle }]] : []),
+  });
+};
+
+describe('Candles', () => {
+  it('should turn close-only points into flat candles', () => {
+    expect(toCandle({ timestamp: 1, price: 10 })).toEqual({
+      timestamp: 1,
+      open: 10,
+      high: 10,
+      low: 10,
+      close: 10,
+      volume: 0,
+    });
+  });
+
+  it('should merge bars into one candle', () => {
+    const merged = aggregateCandles([
+      { timestamp: 1, price: 11, open: 10, high: 12, low: 9, volume: 5 },
+      { timestamp: 2, price: 13, open: 11, high: 14, low: 10, volume: 7 },
+    ]);
+    expect(merged).toEqual({ timestamp: 2, open: 10, high: 14, low: 9, close: 13, volume: 12 });
+  });
+});
+
+describe('Intrabar exits', () => {
+  const openPosition = (context: ExecutionContext) =>
+    context.portfolio.addPosition({
+      type: 'swap',
+      asset: 'ETH',
+      amount: 1,
+      entryPrice: 2000,
+      entryTimestamp: 0,
+    });
+
+  it('should trigger stop loss on the intrabar low even if the close recovers', () => {
+    const context = createContext([{ timestamp: 0, price: 2000 }], DAY, {
+      open: 1990,
+      high: 2010,
+      low: 1750,
+      close: 1980,
+    });
+    openPosition(context);
+
+    const result = executeBlock(createBlock('stop_loss', { percentage: 10 }), context);
+
+    expect(result.executed).toBe(true);
+    expect(context.portfolio.getTrades()[0]?.price).toBe(1800);
+  });
+
+  it('should realize the stop in cash at the fill price, not the close', () => {
+    const context = createContext([{ timestamp: 0, price: 2000 }], DAY, {
+      open: 1990,
+      high: 2010,
+      low: 1750,
+      close: 1980,
+    });
+    openPosition(context);
+
+    executeBlock(createBlock('stop_loss', { percentage: 10 }), context);
+    const [exit] = context.portfolio.getTrades();
+
+    expect(context.portfolio.getBalance('ETH')).toBe(0);
+    expect(exit).toMatchObject({ outputToken: 'USDC', inputValue: 1800 });
+    expect(exit?.outputAmount).toBeLessThan(1800);
+    expect(exit?.outputAmount).toBeGreaterThan(1790);
+    expect(context.portfolio.calculateEquity(context.prices)).toBeCloseTo(
+      10000 + (exit?.outputAmount ?? 0) - context.portfolio.getTotalGasSpent(),
+      9
+    );
+  });
+
+  it('should fill stop loss at the open when price gaps through the stop', () => {
+    const context = createContext([{ timestamp: 0, price: 2000 }], DAY, {
+      open: 1700,
+      high: 1750,
+      low: 1650,
+      close: 1720,
+    });
+    openPosition(context);
+
+    executeBlock(createBlock('stop_loss', { percentage: 10 }), context);
+
+    expect(context.portfolio.getTrades()[0]?.price).toBe(1700);
+  });
+
+  it('should trigger take profit on the intrabar high', () => {
+    const context = createContext([{ timestamp: 0, price: 2000 }], DAY, {
+      open: 2010,
+      high: 2450,
+      low: 2000,
+      close: 2100,
+    });
+    openPosition(context);
+
+    const result = executeBlock(createBlock('take_profit', { percentage: 20 }), context);
+
+    expect(result.executed).toBe(true);
+    expect(context.portfolio.getTrades()[0]?.price).toBe(2400);
+  });
+
+  it('should ignore intrabar range for positions opened this step', () => {
+    const context = createContext([{ timestamp: 0, price: 2000 }], DAY, {
+      open: 2000,
+      high: 2000,
+      low: 1500,
+      close: 2000,
+    });
+    context.portfolio.addPosition({
+      type: 'swap',
+      asset: 'ETH',
+      amount: 1,
+      entryPrice: 2000,
+      entryTimestamp: DAY,
+    });
+
+    const result = executeBlock(createBlock('stop_loss', { percentage: 10 }), context);
+
+    expect(result.executed).toBe(false);
+  });
+});
+
+describe('volume_trigger execution', () => {
+  const hourlyBars = Array.from({ length: 48 }, (_, i) => ({
+    timestamp: i * HOUR,
+    price: 2000,
+    volume: i < 24 ? 100 : 1000,
+  }));
+
+  it('should sum real volume over the trailing timeframe', () => {
+    const context = createContext(hourlyBars, 47 * HOUR);
+    const block = createBlock('volume_trigger', {
+      asset: 'ETH',
+      minVolume: 24000,
+      timeframe: '24h',
+    });
+
+    const result = executeBlock(block, context);
+
+    expect(result.executed).toBe(true);
+    expect((result.data as { volume: number }).volume).toBe(24000);
+  });
+
+  it('should not fire on earlier low-volume bars', () => {
+    const context = createContext(hourlyBars, 23 * HOUR);
+    const block = createBlock('volume_trigger', { asset: 'ETH', minVolume: 5000, timeframe: '4h' });
+
+    expect(executeBlock(block, context).executed).toBe(false);
+  });
+
+  it('should prorate daily bars for shorter timeframes', () => {
+    const dailyBars = [
+      { timestamp: 0, price: 2000, volume: 2400 },
+      { timestamp: DAY, price: 2000, volume: 4800 },
+    ];
+    const context = createContext(dailyBars, DAY + 2 * HOUR);
+    const block = createBlock('volume_trigger', { asset: 'ETH', minVolume: 0, timeframe: '1h' });
+
+    expect((executeBlock(block, context).data as { volume: number }).volume).toBe(200);
+  });
+
+  it('should not fire without volume data', () => {
+    const context = createContext([{ timestamp: 0, price: 2000 }], HOUR);
+    const block = createBlock('volume_trigger', { asset: 'ETH', minVolume: 0, timeframe: '1h' });
+
+    const result = executeBlock(block, context);
+
+    expect(result.executed).toBe(false);
+    expect(result.message).toContain('no volume data');
+  });
+});
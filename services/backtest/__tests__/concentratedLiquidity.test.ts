@@ -0,0 +1,181 @@
+/**
+ * Tests for the Uniswap V3 concentrated-liquidity model
+ */
+
+import { describe, expect, it } from 'vitest';
+import { BlockCategory, type LegoBlock, Protocol } from '../../../types';
+import { type ExecutionContext, executeBlock } from '../blockExecutor';
+import {
+  LiquidityTracker,
+  amountsForLiquidity,
+  liquidityForAmounts,
+  priceToTick,
+  tickToPrice,
+} from '../concentratedLiquidity';
+import { createTestContext } from './executionContext';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const liquidityBlock = (params: LegoBlock['params']): LegoBlock => ({
+  id: 'lp',
+  type: 'uniswap_v3_liquidity',
+  label: 'Uniswap V3 LP',
+  description: 'Test',
+  category: BlockCategory.PROTOCOL,
+  protocol: Protocol.UNISWAP,
+  icon: 'test',
+  params: { token0: 'ETH', token1: 'USDC', feeTier: 3000, ...params },
+});
+
+const createContext = (): ExecutionContext => {
+  const context = createTestContext();
+  context.portfolio.addBalance('ETH', 5);
+  return context;
+};
+
+describe('Concentrated liquidity math', () => {
+  it('should round-trip ticks and prices', () => {
+    const tick = priceToTick(2000);
+    expect(tickToPrice(tick)).toBeLessThanOrEqual(2000);
+    expect(tickToPrice(tick + 1)).toBeGreaterThan(2000);
+  });
+
+  it('should hold only token0 below the range and only token1 above it', () => {
+    const liquidity = liquidityForAmounts(2000, 1800, 2200, 1, 2000);
+
+    const below = amountsForLiquidity(liquidity, 1500, 1800, 2200);
+    expect(below.amount1).toBeCloseTo(0, 9);
+    expect(below.amount0).toBeGreaterThan(1);
+
+    const above = amountsForLiquidity(liquidity, 2500, 1800, 2200);
+    expect(above.amount0).toBeCloseTo(0, 9);
+    expect(above.amount1).toBeGreaterThan(2000);
+  });
+
+  it('should reproduce the deposit amounts at the entry price', () => {
+    const liquidity = liquidityForAmounts(2000, 1800, 2200, 1, 1e9);
+    const { amount0 } = amountsForLiquidity(liquidity, 2000, 1800, 2200);
+    expect(amount0).toBeCloseTo(1, 9);
+  });
+});
+
+describe('Uniswap V3 liquidity executor', () => {
+  it('should deposit only the amounts the range can absorb', () => {
+    const context = createContext();
+    const result = executeBlock(liquidityBlock({ amount0: 1, amount1: 5000 }), context);
+
+    expect(result.executed).toBe(true);
+    const data = result.data as { amount0: number; amount1: number; tickLower: number };
+    expect(data.amount0 <= 1 && data.amount1 <= 5000).toBe(true);
+    expect(context.portfolio.getBalance('ETH')).toBeCloseTo(5 - data.amount0, 9);
+    expect(context.portfolio.getBalance('USDC')).toBeCloseTo(
+      10000 - data.amount1 - context.portfolio.getTotalGasSpent(),
+      9
+    );
+    expect(data.tickLower % 60).toBe(0);
+  });
+
+  it('should widen ticks onto the fee tier spacing and the range width', () => {
+    const lp = (params: LegoBlock['params']) => {
+      const result = executeBlock(
+        liquidityBlock({ amount0: 1, amount1: 2000, ...params }),
+        createContext()
+      );
+      return result.data as { tickLower: number; tickUpper: number };
+    };
+
+    expect(lp({ feeTier: 10000, tickLower: 75930, tickUpper: 76250 })).toMatchObject({
+      tickLower: 75800,
+      tickUpper: 76400,
+    });
+    const narrow = lp({ rangeWidth: 5 });
+    const wide = lp({ rangeWidth: 20 });
+    expect(narrow.tickLower).toBeGreaterThan(wide.tickLower);
+    expect(narrow.tickUpper).toBeLessThan(wide.tickUpper);
+  });
+
+  it('should reject an inverted tick range', () => {
+    const context = createContext();
+    const result = executeBlock(
+      liquidityBlock({ amount0: 1, amount1: 2000, tickLower: 80000, tickUpper: 70000 }),
+      context
+    );
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('LiquidityTracker', () => {
+  const open = (tickLower: number, tickUpper: number) => {
+    const context = createContext();
+    executeBlock(liquidityBlock({ amount0: 1, amount1: 2000, tickLower, tickUpper }), context);
+    const tracker = new LiquidityTracker();
+    tracker.update(context.portfolio, context.prices, 0);
+    return { portfolio: context.portfolio, tracker };
+  };
+
+  it('should rebalance into token0 as the price falls and report IL vs HODL', () => {
+    const { portfolio, tracker } = open(priceToTick(1500), priceToTick(2500));
+
+    tracker.update(portfolio, new Map([['ETH', 1600]]), DAY);
+    const [report] = tracker.getReports();
+    const position = portfolio.getPositions()[0];
+
+    expect(position?.tokenAmounts?.ETH).toBeGreaterThan(1);
+    expect(report?.impermanentLoss).toBeLessThan(0);
+    expect(report?.positionValue).toBeLessThan(report?.hodlValue ?? 0);
+  });
+
+  it('should accrue fees only while the price is in range', () => {
+    const { portfolio, tracker } = open(priceToTick(1900), priceToTick(2100));
+
+    tracker.update(portfolio, new Map([['ETH', 2050]]), DAY);
+    const inRangeFees = tracker.getReports()[0]?.feesValue ?? 0;
+    expect(inRangeFees).toBeGreaterThan(0);
+
+    // Price leaves the range at day 1: the day that follows earns nothing
+    tracker.update(portfolio, new Map([['ETH', 2500]]), 2 * DAY);
+    tracker.update(portfolio, new Map([['ETH', 2600]]), 3 * DAY);
+    const [report] = tracker.getReports();
+
+    expect(report?.inRange).toBe(false);
+    expect(report?.timeInRange).toBeCloseTo(2 / 3, 9);
+    expect(report?.amounts.ETH).toBeCloseTo(0, 9);
+  });
+
+  it('should earn more fees per dollar on a narrower range', () => {
+    const wide = open(priceToTick(1000), priceToTick(4000));
+    const narrow = open(priceToTick(1900), priceToTick(2100));
+
+    for (const { portfolio, tracker } of [wide, narrow]) {
+      tracker.update(portfolio, new Map([['ETH', 2000]]), DAY);
+    }
+
+    const yieldOf = ({ tracker }: typeof wide) => {
+      const report = tracker.getReports()[0];
+      return (report?.feesValue ?? 0) / (report?.hodlValue ?? 1);
+    };
+    expect(yieldOf(narrow)).toBeGreaterThan(yieldOf(wide) * 3);
+  });
+
+  it('should unwind into the underlying tokens and fees when an exit fires', () => {
+    const { portfolio, tracker } = open(priceToTick(1500), priceToTick(2500));
+    const prices = new Map([['ETH', 2100]]);
+    tracker.update(portfolio, prices, DAY);
+    const lp = portfolio.getPositions()[0];
+    const equityBefore = portfolio.calculateEquity(prices);
+    const gasBefore = portfolio.getTotalGasSpent();
+    const ethBefore = portfolio.getBalance('ETH');
+
+    const context = createTestContext({ portfolio, prices, timestamp: DAY });
+    const exit = { ...liquidityBlock({}), id: 'exit', type: 'time_exit', params: { duration: 1 } };
+    expect(executeBlock(exit, context).executed).toBe(true);
+
+    expect(portfolio.getPositions()).toHaveLength(0);
+    expect(portfolio.getBalance('ETH/USDC')).toBe(0);
+    expect(portfolio.getBalance('ETH')).toBeCloseTo(ethBefore + (lp?.tokenAmounts?.ETH ?? 0), 9);
+    expect(portfolio.calculateEquity(prices)).toBeCloseTo(
+      equityBefore - (portfolio.getTotalGasSpent() - gasBefore),
+      6
+    );
+  });
+});
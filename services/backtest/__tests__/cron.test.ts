@@ -0,0 +1,153 @@
+/**
+ * Tests for cron schedules and scheduled time blocks
+ */
+
+import { describe, expect, it } from 'vitest';
+import { BlockCategory, type LegoBlock, Protocol } from '../../../types';
+import { type ExecutionContext, executeBlock } from '../blockExecutor';
+import { parseCron } from '../cron';
+import { createTestContext } from './executionContext';
+
+const HOUR = 60 * 60 * 1000;
+const utc = (iso: string) => new Date(iso).getTime();
+
+const timeBlock = (type: string, params: LegoBlock['params']): LegoBlock => ({
+  id: type,
+  type,
+  label: type.toUpperCase(),
+  description: 'Test',
+  category: type === 'time_exit' ? BlockCategory.EXIT : BlockCategory.ENTRY,
+  protocol: Protocol.GENERIC,
+  icon: 'clock',
+  params,
+});
+
+const createContext = (timestamp: number): ExecutionContext => createTestContext({ timestamp });
+
+describe('parseCron', () => {
+  it('should expand lists, ranges, steps and names', () => {
+    const times = parseCron('0,30 9-10/1 * JAN MON-FRI').fireTimes(
+      utc('2024-01-05T00:00:00Z'),
+      utc('2024-01-08T23:59:00Z')
+    );
+    expect(times.map((t) => new Date(t).toISOString())).toEqual([
+      '2024-01-05T09:00:00.000Z',
+      '2024-01-05T09:30:00.000Z',
+      '2024-01-05T10:00:00.000Z',
+      '2024-01-05T10:30:00.000Z',
+      '2024-01-08T09:00:00.000Z',
+      '2024-01-08T09:30:00.000Z',
+      '2024-01-08T10:00:00.000Z',
+      '2024-01-08T10:30:00.000Z',
+    ]);
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 1st of the month or any Sunday
+    const times = parseCron('0 0 1 * 0').fireTimes(
+      utc('2024-06-01T00:00:00Z'),
+      utc('2024-06-10T00:00:00Z')
+    );
+    expect(times.map((t) => new Date(t).getUTCDate())).toEqual([1, 2, 9]);
+  });
+
+  it('should reject malformed expressions and unknown timezones', () => {
+    expect(() => parseCron('0 9 * *')).toThrow('5 fields');
+    expect(() => parseCron('61 9 * * *')).toThrow('Invalid minute');
+    expect(() => parseCron('0 9 * * *', 'Mars/Olympus')).toThrow('Unknown timezone');
+  });
+});
+
+describe('Timezones and DST', () => {
+  it('should fire at 09:00 New York on weekdays across the spring change', () => {
+    const times = parseCron('0 9 * * 1-5', 'America/New_York').fireTimes(
+      utc('2024-03-08T00:00:00Z'),
+      utc('2024-03-12T23:00:00Z')
+    );
+    // EST is UTC-5 until Sunday 10 March, EDT is UTC-4 after
+    expect(times.map((t) => new Date(t).toISOString())).toEqual([
+      '2024-03-08T14:00:00.000Z',
+      '2024-03-11T13:00:00.000Z',
+      '2024-03-12T13:00:00.000Z',
+    ]);
+  });
+
+  it('should shift times skipped by spring forward past the gap', () => {
+    const times = parseCron('30 2 * * *', 'America/New_York').fireTimes(
+      utc('2024-03-09T00:00:00Z'),
+      utc('2024-03-11T23:00:00Z')
+    );
+    expect(times.map((t) => new Date(t).toISOString())).toEqual([
+      '2024-03-09T07:30:00.000Z', // 02:30 EST
+      '2024-03-10T07:30:00.000Z', // 02:30 does not exist; 03:30 EDT
+      '2024-03-11T06:30:00.000Z', // 02:30 EDT
+    ]);
+  });
+
+  it('should fire once for times repeated by fall back', () => {
+    const newYork = parseCron('30 1 * * *', 'America/New_York').fireTimes(
+      utc('2024-11-03T00:00:00Z'),
+      utc('2024-11-03T12:00:00Z')
+    );
+    expect(newYork).toEqual([utc('2024-11-03T05:30:00Z')]); // First 01:30, still EDT
+
+    const london = parseCron('30 1 * * *', 'Europe/London').fireTimes(
+      utc('2024-10-27T00:00:00Z'),
+      utc('2024-10-27T12:00:00Z')
+    );
+    expect(london).toEqual([utc('2024-10-27T00:30:00Z')]); // First 01:30, still BST
+  });
+
+  it('should find the next fire time across the change', () => {
+    const schedule = parseCron('0 9 * * *', 'Europe/London');
+    expect(schedule.next(utc('2024-03-30T09:00:00Z'))).toBe(utc('2024-03-31T08:00:00Z'));
+    expect(schedule.isDue(utc('2024-03-31T08:00:00Z'))).toBe(true);
+    expect(schedule.isDue(utc('2024-03-31T09:00:00Z'))).toBe(false);
+  });
+});
+
+describe('Scheduled time blocks', () => {
+  it('should fire the time trigger only at scheduled times in its timezone', () => {
+    const block = timeBlock('time_trigger', {
+      schedule: '0 9 * * 1-5',
+      timezone: 'America/New_York',
+    });
+
+    expect(executeBlock(block, createContext(utc('2024-03-11T13:00:00Z'))).executed).toBe(true);
+    expect(executeBlock(block, createContext(utc('2024-03-11T14:00:00Z'))).executed).toBe(false);
+    // Saturday
+    expect(executeBlock(block, createContext(utc('2024-03-09T14:00:00Z'))).executed).toBe(false);
+  });
+
+  it('should hold a time exit until the holding period ends and the schedule is due', () => {
+    const block = timeBlock('time_exit', {
+      duration: 24 * HOUR,
+      from: 'position',
+      schedule: '0 16 * * 1-5',
+      timezone: 'America/New_York',
+    });
+    const open = (context: ExecutionContext) =>
+      context.portfolio.addPosition({
+        type: 'supply',
+        asset: 'ETH',
+        amount: 1,
+        entryPrice: 2000,
+        entryTimestamp: utc('2024-03-07T21:00:00Z'),
+      });
+
+    // Friday 16:00 EST, a day after entry
+    const due = createContext(utc('2024-03-08T21:00:00Z'));
+    open(due);
+    expect(executeBlock(block, due).executed).toBe(true);
+
+    // Held long enough, but 17:00 is off schedule
+    const offSchedule = createContext(utc('2024-03-08T22:00:00Z'));
+    open(offSchedule);
+    expect(executeBlock(block, offSchedule).executed).toBe(false);
+
+    // Monday 16:00 is 20:00 UTC once EDT starts
+    const afterChange = createContext(utc('2024-03-11T20:00:00Z'));
+    open(afterChange);
+    expect(executeBlock(block, afterChange).executed).toBe(true);
+  });
+});
@@ -105,4 +105,51 @@ describe('DeFi Backtest Engine', () => {
       })
     ).rejects.toThrow('No price data fetched');
   });
+
+  it('should evaluate scheduled blocks at their fire times without adding equity points', async () => {
+    const mockPrices = new Map([
+      ['ETH', [{ timestamp: Date.now(), price: 3000 }]],
+      ['USDC', [{ timestamp: Date.now(), price: 1 }]],
+    ]);
+    vi.mocked(dataFetcher.fetchMultipleTokenPrices).mockResolvedValue(mockPrices);
+    vi.mocked(dataFetcher.getPriceAtTimestamp).mockImplementation(
+      (prices) => prices[0]?.price ?? 0
+    );
+
+    const blocks: LegoBlock[] = [
+      {
+        id: '1',
+        type: 'time_trigger',
+        label: 'TIME TRIGGER',
+        description: 'Test',
+        category: BlockCategory.ENTRY,
+        protocol: Protocol.GENERIC,
+        icon: 'clock',
+        params: { schedule: '0 9 * * *', timezone: 'America/New_York' },
+      },
+      {
+        id: '2',
+        type: 'uniswap_swap',
+        label: 'UNISWAP SWAP',
+        description: 'Test',
+        category: BlockCategory.PROTOCOL,
+        protocol: Protocol.UNISWAP,
+        icon: 'swap',
+        params: { inputToken: 'USDC', outputToken: 'ETH', amount: 100, slippage: 1 },
+      },
+    ];
+
+    const result = await runDeFiBacktest({
+      blocks,
+      startDate: new Date('2024-01-01T00:00:00Z'),
+      endDate: new Date('2024-01-02T00:00:00Z'),
+      initialCapital: 10000,
+      rebalanceInterval: 86400000,
+    });
+
+    expect(result.trades.map((trade) => trade.timestamp)).toEqual([
+      new Date('2024-01-01T14:00:00Z').getTime(),
+    ]);
+    expect(result.equityCurve).toHaveLength(2);
+  });
 });
@@ -0,0 +1,32 @@
+/**
+ * Shared execution context fixture for block executor tests
+ */
+
+import type { ExecutionContext } from '../blockExecutor';
+import { createSeededRandom } from '../determinism';
+import { createLendingAccounts } from '../lending';
+import { PortfolioManager } from '../portfolio';
+import { PriceHistory } from '../priceHistory';
+
+export interface TestContextOverrides extends Partial<ExecutionContext> {
+  cash?: number; // Starting balance of a fresh portfolio (default 10000)
+}
+
+/**
+ * Context at t=0 with ETH at 2000, no price history and lending accounts on the portfolio
+ */
+export function createTestContext(overrides: TestContextOverrides = {}): ExecutionContext {
+  const { cash = 10000, ...fields } = overrides;
+  const portfolio = fields.portfolio ?? new PortfolioManager(cash);
+  return {
+    timestamp: 0,
+    prices: new Map([['ETH', 2000]]),
+    history: new PriceHistory(new Map()),
+    candles: new Map(),
+    lending: createLendingAccounts(portfolio),
+    random: createSeededRandom(1),
+    previousResults: new Map(),
+    ...fields,
+    portfolio,
+  };
+}
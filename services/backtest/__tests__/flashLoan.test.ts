@@ -0,0 +1,97 @@
+/**
+ * Tests for atomic flash loan bundles
+ */
+
+import { describe, expect, it } from 'vitest';
+import { BlockCategory, type LegoBlock, Protocol } from '../../../types';
+import { type ExecutionContext, executeBlock, executeBlockSequence } from '../blockExecutor';
+import { createTestContext } from './executionContext';
+
+const block = (id: string, type: string, params: LegoBlock['params']): LegoBlock => ({
+  id,
+  type,
+  label: type.toUpperCase(),
+  description: 'Test',
+  category: BlockCategory.PROTOCOL,
+  protocol: type === 'flash_loan' ? Protocol.AAVE : Protocol.UNISWAP,
+  icon: 'test',
+  params,
+});
+
+const flashLoan = (params: LegoBlock['params'] = {}) =>
+  block('loan', 'flash_loan', { asset: 'USDC', amount: 10000, protocol: 'aave', ...params });
+
+const swap = (id: string, inputToken: string, outputToken: string, amount: number) =>
+  block(id, 'uniswap_swap', { inputToken, outputToken, amount, slippage: 5 });
+
+const createContext = (): ExecutionContext => createTestContext({ cash: 1000 });
+
+describe('Flash loan bundles', () => {
+  it('should repay the loan plus the 0.09% premium when the bundle ends', () => {
+    const context = createContext();
+    const loan = executeBlock(flashLoan(), context);
+
+    expect(loan.executed).toBe(true);
+    expect(context.portfolio.getBalance('USDC')).toBeCloseTo(
+      1000 - 9 - context.portfolio.getTotalGasSpent(),
+      9
+    );
+    const [trade] = context.portfolio.getTrades();
+    expect(trade).toMatchObject({ type: 'flash_loan', inputAmount: 10000 });
+    expect(trade?.fees).toBeCloseTo(9, 9);
+  });
+
+  it('should keep bundled trades when repayment succeeds', () => {
+    const context = createContext();
+    const results = executeBlockSequence(
+      [flashLoan({ bundleSize: 1 }), swap('buy', 'USDC', 'ETH', 500)],
+      context
+    );
+
+    expect(results[0]?.data).toMatchObject({ reverted: false, bundleSize: 1 });
+    expect(results[1]?.executed).toBe(true);
+    expect(context.portfolio.getBalance('ETH')).toBeGreaterThan(0.24);
+    expect(context.portfolio.getBalance('USDC')).toBeCloseTo(
+      1000 - 500 - 9 - context.portfolio.getTotalGasSpent(),
+      9
+    );
+    expect(context.portfolio.getTrades().map((trade) => trade.type)).toEqual([
+      'flash_loan',
+      'swap',
+    ]);
+  });
+
+  it('should revert the whole bundle when the loan cannot be repaid', () => {
+    const context = createContext();
+    const results = executeBlockSequence([flashLoan(), swap('buy', 'USDC', 'ETH', 10500)], context);
+
+    expect(results[0]).toMatchObject({ success: false, executed: false });
+    expect(results[0]?.message).toContain('Insufficient USDC to repay');
+    expect(results[1]?.executed).toBe(false);
+    expect(context.portfolio.getBalance('ETH')).toBe(0);
+
+    // Only the gas of the reverted transaction remains
+    const trades = context.portfolio.getTrades();
+    expect(context.portfolio.getBalance('USDC')).toBe(1000 - (trades[0]?.gasCost ?? 0));
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({ type: 'flash_loan', fees: 0 });
+    expect(trades[0]?.gasCost).toBeGreaterThan(0);
+  });
+
+  it('should revert when a bundled block fails and skip the blocks after it', () => {
+    const context = createContext();
+    const results = executeBlockSequence(
+      [
+        flashLoan({ bundleSize: 1 }),
+        swap('buy', 'USDC', 'ETH', 50000),
+        swap('after', 'USDC', 'ETH', 100),
+      ],
+      context
+    );
+
+    expect(results[0]?.message).toContain('Flash loan reverted: Insufficient balance');
+    expect(results[2]?.message).toContain('Skipped');
+    expect(context.portfolio.getBalance('USDC')).toBe(1000 - context.portfolio.getTotalGasSpent());
+    expect(context.previousResults.get('buy')).toMatchObject({ executed: false });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for the gas price model and transaction costs
+ */
+
+import { describe, expect, it } from 'vitest';
+import { BlockCategory, type LegoBlock, Protocol } from '../../../types';
+import { runDeFiBacktest } from '../../defiBacktestEngine';
+import { type ExecutionContext, executeBlock } from '../blockExecutor';
+import {
+  DatasetGasSource,
+  GAS_UNITS,
+  GasModel,
+  TypicalGasSource,
+  createGasModel,
+  getGasDataVersion,
+  loadGasModel,
+  parseGasPriceCsv,
+} from '../gas';
+import { createTestContext } from './executionContext';
+
+const DAY = 86400000;
+const START = Date.UTC(2024, 0, 1);
+
+const dataset = {
+  mainnet: [
+    { timestamp: START + DAY, baseFeeGwei: 90, priorityFeeGwei: 10 },
+    { timestamp: START, baseFeeGwei: 8, priorityFeeGwei: 2 },
+  ],
+};
+
+const buyEth: LegoBlock = {
+  id: 'buy',
+  type: 'uniswap_swap',
+  label: 'UNISWAP SWAP',
+  description: 'Test',
+  category: BlockCategory.PROTOCOL,
+  protocol: Protocol.UNISWAP,
+  icon: 'swap',
+  params: { inputToken: 'USDC', outputToken: 'ETH', amount: 100, slippage: 1 },
+};
+
+const createContext = (timestamp: number, ethPrice: number, gas?: GasModel): ExecutionContext =>
+  createTestContext({
+    timestamp,
+    prices: new Map([
+      ['ETH', ethPrice],
+      ['USDC', 1],
+    ]),
+    gas,
+  });
+
+describe('DatasetGasSource', () => {
+  const source = new DatasetGasSource(dataset, new TypicalGasSource());
+
+  it('should return the last observation at or before a timestamp', () => {
+    expect(source.getFees('mainnet', START + DAY / 2).baseFeeGwei).toBe(8);
+    expect(source.getFees('mainnet', START + DAY).baseFeeGwei).toBe(90);
+    expect(source.getFees('mainnet', START - 1).baseFeeGwei).toBe(8);
+  });
+
+  it('should fall back to typical fees for chains missing from the dataset', () => {
+    expect(source.getFees('polygon', START)).toEqual({ baseFeeGwei: 30, priorityFeeGwei: 30 });
+    expect(() => new DatasetGasSource(dataset).getFees('base', START)).toThrow('No gas data');
+  });
+
+  it('should parse a CSV export in gwei', () => {
+    const points = parseGasPriceCsv(
+      'timestamp,base_fee_gwei,priority_fee_gwei\n1704067200,12.5,1.5\n1704153600,30,2'
+    );
+    expect(points).toEqual([
+      { timestamp: START, baseFeeGwei: 12.5, priorityFeeGwei: 1.5 },
+      { timestamp: START + DAY, baseFeeGwei: 30, priorityFeeGwei: 2 },
+    ]);
+    expect(() => parseGasPriceCsv('timestamp,price\n1,2')).toThrow('base fee column');
+  });
+});
+
+describe('GasModel', () => {
+  it('should charge gas units at the base fee plus priority fee', () => {
+    const model = createGasModel({ dataset });
+    const estimate = model.estimate(GAS_UNITS.swap, START + DAY);
+    expect(estimate.gasPriceGwei).toBe(100);
+    expect(estimate.nativeCost).toBeCloseTo(0.015, 12);
+    expect(model.cost(GAS_UNITS.swap, START + DAY, 2000)).toBeCloseTo(30, 8);
+  });
+
+  it('should add the mainnet data fee on rollups', () => {
+    const arbitrum = createGasModel({ chain: 'arbitrum', dataset });
+    const estimate = arbitrum.estimate(GAS_UNITS.swap, START);
+    expect(estimate.executionCost).toBeCloseTo(GAS_UNITS.swap * 0.01e-9, 15);
+    expect(estimate.l1DataCost).toBeCloseTo(arbitrum.profile.l1DataGas * 8e-9, 15);
+
+    const mainnet = createGasModel({ dataset }).estimate(GAS_UNITS.swap, START);
+    expect(estimate.nativeCost).toBeLessThan(mainnet.nativeCost / 100);
+  });
+
+  it('should price Polygon gas in POL', () => {
+    const polygon = new GasModel('polygon');
+    expect(polygon.nativeToken).toBe('POL');
+    expect(polygon.estimate(0, START).nativeCost).toBe(0);
+  });
+
+  it('should refuse to charge gas without a price for the gas token', () => {
+    const model = new GasModel('polygon');
+    expect(() => model.cost(GAS_UNITS.swap, START, undefined)).toThrow('No POL price');
+    expect(model.cost(0, START, undefined)).toBe(0);
+  });
+
+  it('should load fee series from local files', async () => {
+    const files = new Map([['/gas/mainnet.csv', 'timestamp,base_fee_gwei\n1704067200,40']]);
+    const loader = async (source: string) => files.get(source) ?? '';
+    const config = { files: { mainnet: '/gas/mainnet.csv' } };
+    const model = await loadGasModel(config, loader);
+    expect(model.sourceId).toBe('dataset');
+    expect(model.getGasPrice(START)).toBe(40);
+
+    const version = await getGasDataVersion(config, loader);
+    files.set('/gas/mainnet.csv', 'timestamp,base_fee_gwei\n1704067200,45');
+    expect(await getGasDataVersion(config, loader)).not.toBe(version);
+  });
+});
+
+describe('Transaction costs', () => {
+  it('should price gas at the tick fees and ETH price, not the traded token', () => {
+    const gas = createGasModel({ dataset });
+    const context = createContext(START + DAY, 2500, gas);
+
+    expect(executeBlock(buyEth, context).executed).toBe(true);
+    const [trade] = context.portfolio.getTrades();
+    expect(trade?.gasCost).toBeCloseTo(GAS_UNITS.swap * 100e-9 * 2500, 8);
+  });
+
+  const eth = [0, 1, 2].map((i) => ({ timestamp: START + i * DAY, price: 2000 }));
+  const usdc = eth.map((bar) => ({ timestamp: bar.timestamp, price: 1 }));
+  const runOn = (chain: 'mainnet' | 'base') =>
+    runDeFiBacktest({
+      blocks: [buyEth],
+      startDate: new Date(START),
+      endDate: new Date(START + 2 * DAY),
+      initialCapital: 10000,
+      rebalanceInterval: DAY,
+      dataSource: { type: 'fixture', data: { ETH: eth, USDC: usdc } },
+      gasModel: { chain },
+    });
+
+  it('should fail a backtest that has no price for the gas token', async () => {
+    await expect(
+      runDeFiBacktest({
+        blocks: [buyEth],
+        startDate: new Date(START),
+        endDate: new Date(START + 2 * DAY),
+        initialCapital: 10000,
+        rebalanceInterval: DAY,
+        dataSource: { type: 'fixture', data: { ETH: eth, USDC: usdc } },
+        gasModel: { chain: 'polygon' },
+      })
+    ).rejects.toThrow('No price data for POL');
+  });
+
+  it('should cost the same strategy far less on an L2', async () => {
+    const mainnet = await runOn('mainnet');
+    const base = await runOn('base');
+    expect(base.metrics.totalTrades).toBe(mainnet.metrics.totalTrades);
+    expect(base.metrics.totalGasSpent).toBeLessThan(mainnet.metrics.totalGasSpent / 100);
+    expect(base.manifest.gas).toBe('base:typical');
+  });
+
+  it('should take the gas spent out of final equity', async () => {
+    const mainnet = await runOn('mainnet');
+    const base = await runOn('base');
+    const finalEquity = (result: typeof mainnet) => result.equityCurve.at(-1)?.equity ?? 0;
+
+    expect(mainnet.metrics.totalGasSpent).toBeGreaterThan(0);
+    expect(finalEquity(base) - finalEquity(mainnet)).toBeCloseTo(
+      mainnet.metrics.totalGasSpent - base.metrics.totalGasSpent,
+      6
+    );
+    expect(mainnet.metrics.totalReturn).toBeLessThan(base.metrics.totalReturn);
+  });
+
+  it('should pay gas from the cash balance when the trade is recorded', () => {
+    const context = createContext(START + DAY, 2500, createGasModel({ dataset }));
+    executeBlock(buyEth, context);
+
+    const [trade] = context.portfolio.getTrades();
+    expect(context.portfolio.getBalance('USDC')).toBeCloseTo(
+      10000 - 100 - (trade?.gasCost ?? 0),
+      9
+    );
+  });
+});
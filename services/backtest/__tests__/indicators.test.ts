@@ -0,0 +1,119 @@
+/**
+ * Golden-value tests for the technical indicator library
+ */
+
+import { describe, expect, it } from 'vitest';
+import { BlockCategory, type LegoBlock, Protocol } from '../../../types';
+import { type ExecutionContext, executeBlock } from '../blockExecutor';
+import { atr, bollingerBands, ema, latest, macd, rsi, sma, stochastic } from '../indicators';
+import { PriceHistory } from '../priceHistory';
+import { createTestContext } from './executionContext';
+
+// Wilder's RSI reference series (as published by StockCharts)
+const RSI_SERIES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28,
+  46.28, 46.0, 46.03, 46.41, 46.22, 45.64,
+];
+
+describe('Technical indicators', () => {
+  it('should calculate SMA over a sliding window', () => {
+    const result = sma([1, 2, 3, 4, 5], 3);
+    expect(result.slice(0, 2).every(Number.isNaN)).toBe(true);
+    expect(result.slice(2)).toEqual([2, 3, 4]);
+  });
+
+  it('should seed EMA with the SMA and smooth afterwards', () => {
+    const result = ema([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 3);
+    expect(result[2]).toBe(2);
+    expect(result[9]).toBeCloseTo(9, 10);
+  });
+
+  it('should match reference RSI values using Wilder smoothing', () => {
+    const result = rsi(RSI_SERIES, 14);
+    expect(result.slice(0, 14).every(Number.isNaN)).toBe(true);
+    const expected = [70.46, 66.25, 66.48, 69.35, 66.29, 57.92];
+    result.slice(14).forEach((value, i) => {
+      expect(value).toBeCloseTo(expected[i] ?? 0, 2);
+    });
+  });
+
+  it('should return RSI 100 when there are no losses', () => {
+    expect(latest(rsi([1, 2, 3, 4, 5, 6], 3))).toBe(100);
+  });
+
+  it('should calculate MACD with signal and histogram', () => {
+    const closes = Array.from({ length: 40 }, (_, i) => 100 + i + (i % 3));
+    const result = macd(closes);
+
+    expect(Number.isNaN(result.macd[24] ?? 0)).toBe(true);
+    expect(Number.isNaN(result.signal[32] ?? 0)).toBe(true);
+    expect(latest(result.macd)).toBeCloseTo(6.970242, 5);
+    expect(latest(result.signal)).toBeCloseTo(7.003346, 5);
+    expect(latest(result.histogram)).toBeCloseTo(-0.033104, 5);
+  });
+
+  it('should calculate Bollinger Bands with population standard deviation', () => {
+    const result = bollingerBands([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+    expect(latest(result.middle)).toBe(5);
+    expect(latest(result.upper)).toBe(9);
+    expect(latest(result.lower)).toBe(1);
+  });
+
+  it('should calculate ATR from true ranges', () => {
+    const result = atr([10, 11, 12, 13], [8, 9, 10, 9], [9, 10, 11, 10], 2);
+    expect(result[2]).toBe(2);
+    expect(result[3]).toBe(3);
+  });
+
+  it('should calculate stochastic %K and %D', () => {
+    const result = stochastic([10, 12, 14, 13], [8, 9, 10, 11], [9, 11, 13, 12], 3, 2);
+    expect(result.k[2]).toBeCloseTo(83.3333, 4);
+    expect(result.k[3]).toBe(60);
+    expect(result.d[3]).toBeCloseTo(71.6667, 4);
+  });
+
+  it('should reject invalid periods', () => {
+    expect(() => sma([1, 2, 3], 0)).toThrow('Invalid indicator period');
+  });
+});
+
+describe('technical_indicator_trigger execution', () => {
+  const block: LegoBlock = {
+    id: '1',
+    type: 'technical_indicator_trigger',
+    label: 'TECHNICAL INDICATOR',
+    description: 'Test',
+    category: BlockCategory.ENTRY,
+    protocol: Protocol.GENERIC,
+    icon: 'trending-up',
+    params: { asset: 'ETH', indicator: 'RSI', condition: '>=', value: 60, period: 14 },
+  };
+
+  const createContext = (timestamp: number): ExecutionContext => {
+    const history = new PriceHistory(
+      new Map([['ETH', RSI_SERIES.map((price, i) => ({ timestamp: i * 1000, price }))]])
+    );
+    history.advanceTo(timestamp);
+    return createTestContext({ timestamp, prices: new Map([['ETH', 3000]]), history });
+  };
+
+  it('should be deterministic across runs', () => {
+    const first = executeBlock(block, createContext(19000));
+    const second = executeBlock(block, createContext(19000));
+    expect(first).toEqual(second);
+    expect(first.executed).toBe(false);
+  });
+
+  it('should only use bars up to the current timestamp', () => {
+    const result = executeBlock(block, createContext(14000));
+    expect(result.executed).toBe(true);
+    expect((result.data as { indicatorValue: number }).indicatorValue).toBeCloseTo(70.46, 2);
+  });
+
+  it('should not fire while the indicator is warming up', () => {
+    const result = executeBlock(block, createContext(5000));
+    expect(result.success).toBe(true);
+    expect(result.executed).toBe(false);
+    expect(result.message).toContain('insufficient price history');
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Tests for the lending account model
+ */
+
+import { describe, expect, it } from 'vitest';
+import { BlockCategory, type LegoBlock, Protocol } from '../../../types';
+import { executeBlock } from '../blockExecutor';
+import { AAVE_LENDING_PARAMS, LendingAccount } from '../lending';
+import { PortfolioManager } from '../portfolio';
+import { createTestContext } from './executionContext';
+
+const setup = () => {
+  const portfolio = new PortfolioManager(0);
+  portfolio.addBalance('ETH', 10);
+  const account = new LendingAccount('Aave', portfolio, AAVE_LENDING_PARAMS);
+  account.supply('ETH', 10, 2000, 0);
+  return { portfolio, account };
+};
+
+describe('LendingAccount', () => {
+  it('should compute the health factor from liquidation thresholds', () => {
+    const { account } = setup();
+    const prices = new Map([['ETH', 2000]]);
+
+    expect(account.getHealthFactor(prices)).toBe(Number.POSITIVE_INFINITY);
+    account.borrow('USDC', 8000, 1, prices, 0);
+    // 10 ETH * 2000 * 0.83 / 8000
+    expect(account.getHealthFactor(prices)).toBeCloseTo(2.075, 6);
+  });
+
+  it('should reject borrows beyond the collateral factor', () => {
+    const { account } = setup();
+    const prices = new Map([['ETH', 2000]]);
+    expect(() => account.borrow('USDC', 16200, 1, prices, 0)).toThrow('borrowing power');
+  });
+
+  it('should reject borrows without collateral', () => {
+    const portfolio = new PortfolioManager(1000);
+    const account = new LendingAccount('Aave', portfolio, AAVE_LENDING_PARAMS);
+    expect(() => account.borrow('USDC', 1, 1, new Map(), 0)).toThrow('No collateral');
+  });
+
+  it('should refuse withdrawals that would leave debt unbacked', () => {
+    const { account, portfolio } = setup();
+    const prices = new Map([['ETH', 2000]]);
+    account.borrow('USDC', 10000, 1, prices, 0);
+
+    expect(() => account.withdraw('ETH', 5, prices)).toThrow('health factor');
+    expect(account.getSupplied('ETH')).toBe(10);
+    expect(portfolio.getBalance('ETH')).toBe(0);
+
+    account.withdraw('ETH', 1, prices);
+    expect(account.getSupplied('ETH')).toBe(9);
+  });
+
+  it('should liquidate with a penalty when the health factor drops below 1', () => {
+    const { account, portfolio } = setup();
+    account.borrow('USDC', 15000, 1, new Map([['ETH', 2000]]), 0);
+
+    const crashed = new Map([['ETH', 1800]]);
+    const equityBefore = portfolio.calculateEquity(crashed);
+    const events = account.liquidate(crashed, 1000);
+
+    expect(events.length).toBeGreaterThan(0);
+    const [first] = events;
+    expect(first?.healthFactorBefore).toBeLessThan(1);
+    expect(first?.debtRepaid).toBeCloseTo(7500, 6);
+    expect(first?.collateralSeized).toBeCloseTo((7500 * 1.05) / 1800, 6);
+    expect(account.getHealthFactor(crashed)).toBeGreaterThanOrEqual(1);
+
+    const penalty = events.reduce((sum, event) => sum + event.penalty, 0);
+    expect(portfolio.calculateEquity(crashed)).toBeCloseTo(equityBefore - penalty, 6);
+    expect(portfolio.getTrades().some((trade) => trade.type === 'liquidation')).toBe(true);
+  });
+});
+
+describe('Lending executors', () => {
+  const block = (type: string, params: LegoBlock['params']): LegoBlock => ({
+    id: type,
+    type,
+    label: type.toUpperCase(),
+    description: 'Test',
+    category: BlockCategory.PROTOCOL,
+    protocol: type.startsWith('aave') ? Protocol.AAVE : Protocol.COMPOUND,
+    icon: 'test',
+    params,
+  });
+
+  it('should share one account across Aave supply, borrow, repay and withdraw', () => {
+    const context = createTestContext();
+
+    executeBlock(block('aave_supply', { asset: 'USDC', amount: 10000, collateral: true }), context);
+    const borrow = executeBlock(block('aave_borrow', { asset: 'ETH', amount: 2 }), context);
+    expect(borrow.executed).toBe(true);
+
+    const tooMuch = executeBlock(block('aave_borrow', { asset: 'ETH', amount: 2 }), context);
+    expect(tooMuch.success).toBe(false);
+
+    const repay = executeBlock(block('aave_repay', { asset: 'ETH', amount: 5 }), context);
+    expect((repay.data as { amount: number }).amount).toBe(2);
+
+    const withdraw = executeBlock(
+      block('aave_withdraw', { asset: 'USDC', amount: 10000 }),
+      context
+    );
+    expect(withdraw.executed).toBe(true);
+    expect(context.portfolio.getBalance('USDC')).toBeCloseTo(
+      10000 - context.portfolio.getTotalGasSpent(),
+      9
+    );
+  });
+
+  it('should not count supply without collateral toward borrowing power', () => {
+    const context = createTestContext();
+    executeBlock(
+      block('aave_supply', { asset: 'USDC', amount: 10000, collateral: false }),
+      context
+    );
+    expect(executeBlock(block('aave_borrow', { asset: 'ETH', amount: 1 }), context).success).toBe(
+      false
+    );
+  });
+
+  it('should keep Compound collateral separate from Aave', () => {
+    const context = createTestContext();
+    executeBlock(block('aave_supply', { asset: 'USDC', amount: 5000, collateral: true }), context);
+    const result = executeBlock(block('compound_borrow', { asset: 'ETH', amount: 1 }), context);
+    expect(result.message).toContain('No collateral supplied to Compound');
+  });
+
+  it('should leave open debt to the lending account when exits fire', () => {
+    const context = createTestContext();
+    executeBlock(block('aave_supply', { asset: 'USDC', amount: 10000, collateral: true }), context);
+    executeBlock(block('aave_borrow', { asset: 'ETH', amount: 1 }), context);
+    const equityBefore = context.portfolio.calculateEquity(context.prices);
+
+    // The borrow was opened at 2000, so a move either way would trip a position exit
+    context.timestamp = 60000;
+    for (const [low, high] of [
+      [1500, 2000],
+      [2000, 2500],
+    ] as const) {
+      context.candles.set('ETH', {
+        timestamp: 60000,
+        open: 2000,
+        high,
+        low,
+        close: 2000,
+        volume: 0,
+      });
+      expect(executeBlock(block('stop_loss', { percentage: 10 }), context).executed).toBe(false);
+      expect(executeBlock(block('take_profit', { percentage: 20 }), context).executed).toBe(false);
+    }
+
+    expect(context.lending.get('Aave')?.getDebt('ETH')).toBe(1);
+    expect(context.portfolio.getBalance('ETH')).toBe(1);
+    expect(context.portfolio.calculateEquity(context.prices)).toBe(equityBefore);
+  });
+
+  it('should keep collateral backing open debt when exits fire', () => {
+    const context = createTestContext();
+    context.portfolio.addBalance('ETH', 5);
+    executeBlock(block('aave_supply', { asset: 'ETH', amount: 5, collateral: true }), context);
+    executeBlock(block('aave_borrow', { asset: 'USDC', amount: 7000 }), context);
+    const account = context.lending.get('Aave');
+
+    context.timestamp = 60000;
+    context.prices.set('ETH', 1800);
+    context.candles.set('ETH', {
+      timestamp: 60000,
+      open: 2000,
+      high: 2000,
+      low: 1750,
+      close: 1800,
+      volume: 0,
+    });
+    const stop = executeBlock(block('stop_loss', { percentage: 10 }), context);
+    const timeExit = executeBlock(block('time_exit', { duration: 1000 }), context);
+
+    expect(stop.executed).toBe(false);
+    expect(stop.message).toContain('health factor would drop below 1');
+    expect(timeExit.executed).toBe(false);
+    expect(account?.getSupplied('ETH')).toBe(5);
+    expect(account?.getDebt('USDC')).toBe(7000);
+    expect(account?.getHealthFactor(context.prices)).toBeGreaterThan(1);
+
+    // Once the debt is repaid the collateral is free to exit
+    executeBlock(block('aave_repay', { asset: 'USDC', amount: 7000 }), context);
+    expect(executeBlock(block('stop_loss', { percentage: 10 }), context).executed).toBe(true);
+    expect(account?.getSupplied('ETH')).toBe(0);
+  });
+});
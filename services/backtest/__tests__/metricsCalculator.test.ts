@@ -0,0 +1,141 @@
+/**
+ * Tests for the extended metrics report
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  type EquitySample,
+  calculateExtendedMetrics,
+  calculateMetrics,
+  getPeriodsPerYear,
+} from '../metricsCalculator';
+import { type EquityBreakdown, PortfolioManager, type Trade } from '../portfolio';
+
+const DAY = 86400000;
+const START = Date.UTC(2024, 0, 30);
+
+const breakdown = (total: number, idle: number): EquityBreakdown => ({
+  cash: total,
+  idle,
+  supplied: 0,
+  borrowed: 0,
+  liquidity: 0,
+  total,
+  unpriced: [],
+});
+
+// One sample per day; `deployed` is the share of equity held outside cash
+const samples = (equity: number[], deployed: number[] = []): EquitySample[] =>
+  equity.map((value, i) => ({
+    date: new Date(START + i * DAY).toISOString(),
+    equity: value,
+    breakdown: breakdown(value, value * (1 - (deployed[i] ?? 0))),
+  }));
+
+const swap = (inputValue: number, outputValue: number, fees: number, gasCost: number): Trade => ({
+  id: 'trade-1',
+  timestamp: START,
+  type: 'swap',
+  inputToken: 'USDC',
+  outputToken: 'ETH',
+  inputAmount: inputValue,
+  outputAmount: outputValue / 2000,
+  price: 2000,
+  fees,
+  gasCost,
+  inputValue,
+  outputValue,
+});
+
+describe('calculateExtendedMetrics', () => {
+  it('should split drawdowns into periods with duration and recovery', () => {
+    const metrics = calculateExtendedMetrics(samples([100, 90, 80, 95, 100, 110, 99]), []);
+
+    expect(metrics.underwaterCurve.map((point) => point.drawdown)).toEqual([
+      0, 10, 20, 5, 0, 0, 10,
+    ]);
+    expect(metrics.drawdownPeriods).toEqual([
+      {
+        start: new Date(START).toISOString(),
+        trough: new Date(START + 2 * DAY).toISOString(),
+        end: new Date(START + 4 * DAY).toISOString(),
+        depth: 20,
+        duration: 4 * DAY,
+        recoveryTime: 2 * DAY,
+      },
+      {
+        start: new Date(START + 5 * DAY).toISOString(),
+        trough: new Date(START + 6 * DAY).toISOString(),
+        end: null,
+        depth: 10,
+        duration: DAY,
+        recoveryTime: null,
+      },
+    ]);
+    expect(metrics.longestDrawdown).toBe(4 * DAY);
+  });
+
+  it('should chain monthly returns from the previous month close', () => {
+    // Jan 30, Jan 31, Feb 1, Feb 2
+    const metrics = calculateExtendedMetrics(samples([100, 110, 121, 99]), []);
+    expect(metrics.monthlyReturns).toEqual([
+      { year: 2024, month: 1, return: expect.closeTo(10, 10) },
+      { year: 2024, month: 2, return: expect.closeTo(-10, 10) },
+    ]);
+  });
+
+  it('should measure exposure, turnover and cost drag', () => {
+    const metrics = calculateExtendedMetrics(samples([1000, 1000, 1000, 1000], [0, 0.5, 1, 0]), [
+      swap(500, 490, 3, 2),
+    ]);
+
+    expect(metrics.exposureTime).toBe(50);
+    expect(metrics.averageExposure).toBeCloseTo(37.5, 10);
+    expect(metrics.turnover).toBe(0.5);
+    expect(metrics.annualizedTurnover).toBeCloseTo(0.5 * (365 / 3), 10);
+    expect(metrics.costs).toMatchObject({ fees: 3, gas: 2, priceImpact: 7, total: 12 });
+    expect(metrics.costs.drag).toBeCloseTo(1.2, 10);
+  });
+
+  it('should emit a rolling Sharpe point once the window is full', () => {
+    const metrics = calculateExtendedMetrics(samples([100, 101, 103, 102, 104, 105]), [], {
+      rollingWindow: 3,
+    });
+    expect(metrics.rollingSharpe.map((point) => point.date)).toEqual(
+      [3, 4, 5].map((i) => new Date(START + i * DAY).toISOString())
+    );
+    expect(metrics.volatility).toBeGreaterThan(0);
+    expect(metrics.calmarRatio).toBeGreaterThan(0);
+  });
+
+  it('should annualize at the sampling interval rather than assuming daily samples', () => {
+    const curve = samples([100, 101, 103, 102, 104, 105, 103]);
+    const daily = calculateExtendedMetrics(curve, [], { rollingWindow: 3 });
+    const hourly = calculateExtendedMetrics(curve, [], {
+      rollingWindow: 3,
+      samplingInterval: DAY / 24,
+    });
+
+    expect(getPeriodsPerYear(DAY / 24)).toBe(365 * 24);
+    expect(hourly.volatility).toBeCloseTo(daily.volatility * Math.sqrt(24), 8);
+    expect(hourly.downsideVolatility).toBeCloseTo(daily.downsideVolatility * Math.sqrt(24), 8);
+    expect(hourly.sortinoRatio).toBeCloseTo(daily.sortinoRatio * Math.sqrt(24), 8);
+    expect(hourly.rollingSharpe[0]?.sharpeRatio).toBeCloseTo(
+      (daily.rollingSharpe[0]?.sharpeRatio ?? 0) * Math.sqrt(24),
+      8
+    );
+  });
+
+  it('should annualize the headline Sharpe and volatility at the same interval', () => {
+    const equity = [100, 101, 103, 102, 104, 105, 103];
+    const headline = (samplingInterval: number) =>
+      calculateMetrics(new PortfolioManager(100), 100, equity, undefined, samplingInterval);
+    const hourly = calculateExtendedMetrics(samples(equity), [], { samplingInterval: DAY / 24 });
+
+    expect(headline(DAY / 24).volatility).toBeCloseTo(hourly.volatility, 8);
+    expect(headline(DAY / 24).sharpeRatio).toBeCloseTo(
+      headline(DAY).sharpeRatio * Math.sqrt(24),
+      8
+    );
+  });
+});
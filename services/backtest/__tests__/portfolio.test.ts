@@ -0,0 +1,80 @@
+/**
+ * Tests for portfolio valuation
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { logger } from '../../../utils/logger';
+import { PortfolioManager } from '../portfolio';
+
+describe('PortfolioManager valuation', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should value stablecoin cash at its peg when the price feed has no quote', () => {
+    const portfolio = new PortfolioManager(10000);
+    expect(portfolio.calculateEquity(new Map([['ETH', 2000]]))).toBe(10000);
+  });
+
+  it('should prefer market quotes over pegs', () => {
+    const portfolio = new PortfolioManager(10000);
+    expect(portfolio.calculateEquity(new Map([['USDC', 0.95]]))).toBeCloseTo(9500);
+  });
+
+  it('should value the base currency at 1 without a quote', () => {
+    const portfolio = new PortfolioManager(5, { baseCurrency: 'ETH', cashToken: 'ETH', pegs: {} });
+    expect(portfolio.calculateEquity(new Map())).toBe(5);
+  });
+
+  it('should subtract borrowed liabilities from equity', () => {
+    const portfolio = new PortfolioManager(10000);
+    const prices = new Map([['ETH', 2000]]);
+
+    portfolio.subtractBalance('USDC', 4000);
+    portfolio.addPosition({
+      type: 'supply',
+      asset: 'USDC',
+      amount: 4000,
+      entryPrice: 1,
+      entryTimestamp: 0,
+    });
+    portfolio.addBalance('ETH', 1);
+    portfolio.addPosition({
+      type: 'borrow',
+      asset: 'ETH',
+      amount: 1,
+      entryPrice: 2000,
+      entryTimestamp: 0,
+    });
+
+    const breakdown = portfolio.getEquityBreakdown(prices);
+    expect(breakdown).toMatchObject({ cash: 8000, supplied: 4000, borrowed: 2000, total: 10000 });
+  });
+
+  it('should value LP positions from their underlying token amounts', () => {
+    const portfolio = new PortfolioManager(0);
+    portfolio.addPosition({
+      type: 'liquidity',
+      asset: 'ETH/USDC',
+      amount: 2001,
+      entryPrice: 1000.5,
+      entryTimestamp: 0,
+      tokenAmounts: { ETH: 1, USDC: 2000 },
+    });
+
+    expect(portfolio.getEquityBreakdown(new Map([['ETH', 2500]])).liquidity).toBe(4500);
+  });
+
+  it('should warn once about held assets without a price', () => {
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {});
+    const portfolio = new PortfolioManager(0);
+    portfolio.addBalance('PEPE', 1000);
+
+    portfolio.calculateEquity(new Map());
+    const breakdown = portfolio.getEquityBreakdown(new Map());
+
+    expect(breakdown.unpriced).toEqual(['PEPE']);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]?.[0]).toContain('PEPE');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for the look-ahead-safe price history window
+ */
+
+import { describe, expect, it } from 'vitest';
+import { PriceHistory } from '../priceHistory';
+
+const DAY = 86400000;
+
+function createHistory(maxLookback?: number): PriceHistory {
+  const bars = Array.from({ length: 10 }, (_, i) => ({
+    timestamp: i * DAY,
+    price: 100 + i,
+    volume: 1000 * (i + 1),
+  }));
+  // Deliberately unsorted to make sure ordering does not leak future bars
+  return new PriceHistory(new Map([['ETH', [...bars].reverse()]]), maxLookback);
+}
+
+describe('PriceHistory', () => {
+  it('should expose nothing before the first advance', () => {
+    const history = createHistory();
+    expect(history.getBars('ETH')).toEqual([]);
+  });
+
+  it('should never return a bar later than the current timestamp', () => {
+    const history = createHistory();
+
+    for (let t = 0; t <= 10 * DAY; t += DAY / 4) {
+      history.advanceTo(t);
+      const bars = history.getBars('ETH');
+      expect(bars.every((bar) => bar.timestamp <= t)).toBe(true);
+      expect(bars.length).toBe(Math.min(10, Math.floor(t / DAY) + 1));
+    }
+  });
+
+  it('should include a bar stamped exactly at the current timestamp', () => {
+    const history = createHistory();
+    history.advanceTo(3 * DAY);
+    expect(history.getLatestBar('ETH')).toEqual({ timestamp: 3 * DAY, price: 103, volume: 4000 });
+  });
+
+  it('should return the last N bars in chronological order', () => {
+    const history = createHistory();
+    history.advanceTo(5 * DAY + 1);
+    expect(history.getPrices('ETH', 3)).toEqual([103, 104, 105]);
+    expect(history.getVolumes('ETH', 2)).toEqual([5000, 6000]);
+  });
+
+  it('should not leak future bars when asking for more bars than are visible', () => {
+    const history = createHistory();
+    history.advanceTo(2 * DAY);
+    expect(history.getPrices('ETH', 100)).toEqual([100, 101, 102]);
+  });
+
+  it('should cap reads at the rolling lookback window', () => {
+    const history = createHistory(4);
+    history.advanceTo(9 * DAY);
+    expect(history.getPrices('ETH')).toEqual([106, 107, 108, 109]);
+    expect(history.getPrices('ETH', 2)).toEqual([108, 109]);
+  });
+
+  it('should refuse to rewind', () => {
+    const history = createHistory();
+    history.advanceTo(5 * DAY);
+    expect(() => history.advanceTo(4 * DAY)).toThrow('Cannot rewind');
+  });
+
+  it('should return copies so blocks cannot mutate history', () => {
+    const history = createHistory();
+    history.advanceTo(DAY);
+    const [bar] = history.getBars('ETH', 1);
+    if (bar) bar.price = 0;
+    expect(history.getPrices('ETH', 1)).toEqual([101]);
+  });
+
+  it('should return empty history for unknown tokens', () => {
+    const history = createHistory();
+    history.advanceTo(DAY);
+    expect(history.getBars('BTC')).toEqual([]);
+  });
+
+  it('should merge the visible bars after a time into one candle', () => {
+    const history = createHistory();
+    history.advanceTo(6 * DAY + 1);
+
+    expect(history.getCandleSince('ETH', 3 * DAY)).toEqual({
+      timestamp: 6 * DAY,
+      open: 104,
+      high: 106,
+      low: 104,
+      close: 106,
+      volume: 5000 + 6000 + 7000,
+    });
+    expect(history.getCandleSince('ETH', -1)?.open).toBe(100);
+    expect(history.getCandleSince('ETH', 6 * DAY)).toBeUndefined();
+    expect(history.getCandleSince('BTC', 0)).toBeUndefined();
+  });
+
+  it('should keep merged candles within the rolling lookback window', () => {
+    const history = createHistory(2);
+    history.advanceTo(9 * DAY);
+    expect(history.getCandleSince('ETH', 0)).toMatchObject({ open: 108, close: 109 });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for pluggable historical price providers
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { BlockCategory, type LegoBlock, Protocol } from '../../../types';
+import { runDeFiBacktest } from '../../defiBacktestEngine';
+import {
+  FilePriceProvider,
+  FixturePriceProvider,
+  TokenRegistry,
+  createPriceDataProvider,
+  parsePriceCsv,
+  parsePriceJson,
+} from '../providers';
+
+const DAY = 86400000;
+const START = Date.UTC(2024, 0, 1);
+
+describe('parsePriceCsv', () => {
+  it('should parse ISO dates with close and volume columns', () => {
+    const csv = 'date,close,volume\n2024-01-02,2100.5,500\n2024-01-01,2000,400\n';
+    expect(parsePriceCsv(csv)).toEqual([
+      { timestamp: START, price: 2000, volume: 400 },
+      { timestamp: START + DAY, price: 2100.5, volume: 500 },
+    ]);
+  });
+
+  it('should parse optional OHLC columns', () => {
+    const csv = 'timestamp,open,high,low,close\n2024-01-01,1990,2050,1950,2000\n';
+    expect(parsePriceCsv(csv)).toEqual([
+      { timestamp: START, price: 2000, open: 1990, high: 2050, low: 1950 },
+    ]);
+  });
+
+  it('should treat small numeric timestamps as epoch seconds', () => {
+    const csv = `timestamp,price\n${START / 1000},1.0\n`;
+    expect(parsePriceCsv(csv)[0]?.timestamp).toBe(START);
+  });
+
+  it('should reject files without a price column', () => {
+    expect(() => parsePriceCsv('timestamp,foo\n1,2')).toThrow('price column');
+  });
+});
+
+describe('parsePriceJson', () => {
+  it('should parse arrays of price objects', () => {
+    const json = JSON.stringify([{ timestamp: START, close: 2000 }]);
+    expect(parsePriceJson(json)).toEqual([{ timestamp: START, price: 2000 }]);
+  });
+
+  it('should parse CoinGecko market_chart exports', () => {
+    const json = JSON.stringify({ prices: [[START, 2000]], total_volumes: [[START, 10]] });
+    expect(parsePriceJson(json)).toEqual([{ timestamp: START, price: 2000, volume: 10 }]);
+  });
+});
+
+describe('FilePriceProvider', () => {
+  it('should load each file once and filter to the requested range', async () => {
+    const rows = [0, 1, 2, 3].map((d) => `${START + d * DAY},${100 + d}`).join('\n');
+    const loader = vi.fn().mockResolvedValue(`timestamp,price\n${rows}`);
+    const provider = new FilePriceProvider({ ETH: 'eth.csv' }, 'csv', loader);
+
+    const first = await provider.fetchPrices(
+      'ETH',
+      new Date(START + DAY),
+      new Date(START + 2 * DAY),
+      'daily'
+    );
+    await provider.fetchPrices('ETH', new Date(START), new Date(START + 3 * DAY), 'daily');
+
+    expect(first.map((p) => p.price)).toEqual([101, 102]);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject tokens without a configured file', async () => {
+    const provider = new FilePriceProvider({}, 'csv', vi.fn());
+    await expect(
+      provider.fetchPrices('ETH', new Date(START), new Date(START), 'daily')
+    ).rejects.toThrow('No price file configured for ETH');
+  });
+});
+
+describe('TokenRegistry', () => {
+  it('should resolve symbols and aliases case-insensitively', () => {
+    const registry = new TokenRegistry([
+      { symbol: 'ETH', coingeckoId: 'ethereum', aliases: ['WETH'] },
+    ]);
+    expect(registry.getCoinGeckoId('weth')).toBe('ethereum');
+    expect(registry.getCoinGeckoId('ARB')).toBeNull();
+  });
+
+  it('should extend a clone without changing the original', () => {
+    const registry = new TokenRegistry([{ symbol: 'ETH', coingeckoId: 'ethereum' }]);
+    const extended = registry.clone();
+    extended.register({ symbol: 'ARB', coingeckoId: 'arbitrum' });
+    expect(extended.getCoinGeckoId('ARB')).toBe('arbitrum');
+    expect(registry.getCoinGeckoId('ARB')).toBeNull();
+  });
+});
+
+describe('Offline backtests', () => {
+  const fixture = {
+    ETH: Array.from({ length: 5 }, (_, i) => ({
+      timestamp: START + i * DAY,
+      price: 2000 + i * 100,
+    })),
+    USDC: Array.from({ length: 5 }, (_, i) => ({ timestamp: START + i * DAY, price: 1 })),
+  };
+
+  it('should create providers from serializable configs', async () => {
+    const provider = createPriceDataProvider({ type: 'fixture', data: fixture });
+    expect(provider).toBeInstanceOf(FixturePriceProvider);
+    const prices = await provider.fetchPrices(
+      'eth',
+      new Date(START),
+      new Date(START + DAY),
+      'daily'
+    );
+    expect(prices.map((p) => p.price)).toEqual([2000, 2100]);
+  });
+
+  it('should run a backtest end to end from fixture data', async () => {
+    const blocks: LegoBlock[] = [
+      {
+        id: '1',
+        type: 'uniswap_swap',
+        label: 'UNISWAP SWAP',
+        description: 'Test',
+        category: BlockCategory.PROTOCOL,
+        protocol: Protocol.UNISWAP,
+        icon: 'swap',
+        params: { inputToken: 'USDC', outputToken: 'ETH', amount: 1000, slippage: 0.5 },
+      },
+    ];
+
+    const result = await runDeFiBacktest({
+      blocks,
+      startDate: new Date(START),
+      endDate: new Date(START + 4 * DAY),
+      initialCapital: 10000,
+      rebalanceInterval: DAY,
+      dataSource: { type: 'fixture', data: fixture },
+    });
+
+    expect(result.equityCurve).toHaveLength(5);
+    expect(result.trades.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for lending rate sources and interest accrual
+ */
+
+import { describe, expect, it } from 'vitest';
+import { InterestAccrual, compoundGrowth } from '../interest';
+import { PortfolioManager } from '../portfolio';
+import {
+  DatasetRateSource,
+  UtilizationRateSource,
+  calculateUtilizationRates,
+  createRateSource,
+} from '../rates';
+
+const DAY = 86400000;
+const YEAR = 365 * DAY;
+
+describe('calculateUtilizationRates', () => {
+  const curve = {
+    baseRate: 0,
+    slope1: 0.04,
+    slope2: 0.75,
+    optimalUtilization: 0.8,
+    reserveFactor: 0.1,
+    utilization: 0.4,
+  };
+
+  it('should scale along the first slope below the kink', () => {
+    const rates = calculateUtilizationRates(curve);
+    expect(rates.borrowApr).toBeCloseTo(0.02, 10);
+    expect(rates.supplyApr).toBeCloseTo(0.02 * 0.4 * 0.9, 10);
+  });
+
+  it('should jump along the second slope above the kink', () => {
+    const rates = calculateUtilizationRates({ ...curve, utilization: 0.9 });
+    expect(rates.borrowApr).toBeCloseTo(0.04 + 0.75 * 0.5, 10);
+  });
+
+  it('should serve staking yields for staking positions', () => {
+    const source = new UtilizationRateSource({}, { ETH: 0.04 });
+    expect(source.getRates('Staking', 'ETH', 0)).toEqual({ supplyApr: 0.04, borrowApr: 0 });
+  });
+});
+
+describe('DatasetRateSource', () => {
+  const source = new DatasetRateSource({
+    Aave: {
+      USDC: [
+        { timestamp: DAY, supplyApr: 0.05, borrowApr: 0.07 },
+        { timestamp: 0, supplyApr: 0.03, borrowApr: 0.04 },
+      ],
+    },
+  });
+
+  it('should return the last observation at or before a timestamp', () => {
+    expect(source.getRates('Aave', 'USDC', DAY / 2).supplyApr).toBe(0.03);
+    expect(source.getRates('aave', 'usdc', DAY).supplyApr).toBe(0.05);
+    expect(source.getRates('Aave', 'USDC', -1).supplyApr).toBe(0.03);
+  });
+
+  it('should fall back for assets missing from the dataset', () => {
+    expect(() => source.getRates('Compound', 'USDC', 0)).toThrow('No rate data');
+    const withFallback = createRateSource({ type: 'dataset', data: {} });
+    expect(withFallback.getRates('Compound', 'USDC', 0).borrowApr).toBeGreaterThan(0);
+  });
+});
+
+describe('InterestAccrual', () => {
+  const rates = new DatasetRateSource({
+    Aave: {
+      USDC: [{ timestamp: 0, supplyApr: 0.05, borrowApr: 0.08 }],
+      ETH: [{ timestamp: 0, supplyApr: 0.01, borrowApr: 0.03 }],
+    },
+    Compound: { USDC: [{ timestamp: 0, supplyApr: 0.04, borrowApr: 0.06 }] },
+    Staking: { ETH: [{ timestamp: 0, supplyApr: 0.035, borrowApr: 0 }] },
+  });
+
+  it('should compound per second', () => {
+    expect(compoundGrowth(0.05, YEAR)).toBeCloseTo(Math.exp(0.05), 6);
+    expect(compoundGrowth(0.05, 0)).toBe(1);
+  });
+
+  it('should accrue supply, borrow and staking positions on every protocol', () => {
+    const portfolio = new PortfolioManager(0);
+    const accrual = new InterestAccrual(portfolio, rates);
+    const open = (type: 'supply' | 'borrow' | 'staking', protocol: string, asset: string) =>
+      portfolio.addPosition({
+        type,
+        protocol,
+        asset,
+        amount: 1000,
+        entryPrice: 1,
+        entryTimestamp: 0,
+      });
+
+    const aaveSupply = open('supply', 'Aave', 'USDC');
+    const compoundSupply = open('supply', 'Compound', 'USDC');
+    const debt = open('borrow', 'Aave', 'USDC');
+    const stake = open('staking', 'Staking', 'ETH');
+
+    accrual.accrue(0, new Map());
+    for (let day = 1; day <= 365; day++) {
+      accrual.accrue(day * DAY, new Map([['ETH', 2000]]));
+    }
+
+    expect(aaveSupply.amount).toBeCloseTo(1000 * compoundGrowth(0.05, YEAR), 6);
+    expect(compoundSupply.amount).toBeCloseTo(1000 * compoundGrowth(0.04, YEAR), 6);
+    expect(debt.amount).toBeCloseTo(1000 * compoundGrowth(0.08, YEAR), 6);
+    expect(stake.amount).toBeCloseTo(1000 * compoundGrowth(0.035, YEAR), 6);
+
+    const report = accrual.getReport();
+    const debtReport = report.find((entry) => entry.positionId === debt.id);
+    expect(debtReport?.paid).toBeCloseTo(debt.amount - 1000, 6);
+    expect(debtReport?.earned).toBe(0);
+    const stakeReport = report.find((entry) => entry.positionId === stake.id);
+    expect(stakeReport?.earnedValue).toBeCloseTo((stake.amount - 1000) * 2000, 3);
+  });
+
+  it('should only accrue positions from their entry time', () => {
+    const portfolio = new PortfolioManager(0);
+    const accrual = new InterestAccrual(portfolio, rates);
+    accrual.accrue(0, new Map());
+    const late = portfolio.addPosition({
+      type: 'supply',
+      protocol: 'Aave',
+      asset: 'USDC',
+      amount: 1000,
+      entryPrice: 1,
+      entryTimestamp: YEAR / 2,
+    });
+
+    accrual.accrue(YEAR, new Map());
+
+    expect(late.amount).toBeCloseTo(1000 * compoundGrowth(0.05, YEAR / 2), 6);
+  });
+});
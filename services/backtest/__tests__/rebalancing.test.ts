@@ -0,0 +1,123 @@
+/**
+ * Tests for the rebalancing block
+ */
+
+import { describe, expect, it } from 'vitest';
+import { BlockCategory, type LegoBlock, Protocol } from '../../../types';
+import { type ExecutionContext, executeBlock } from '../blockExecutor';
+import { PortfolioManager } from '../portfolio';
+import { RebalanceLedger, measureAllocation, parseTargetAllocation } from '../rebalancing';
+import { createTestContext } from './executionContext';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const rebalanceBlock = (params: LegoBlock['params'] = {}): LegoBlock => ({
+  id: 'rebalance',
+  type: 'rebalancing',
+  label: 'REBALANCING',
+  description: 'Test',
+  category: BlockCategory.RISK,
+  protocol: Protocol.GENERIC,
+  icon: 'refresh-cw',
+  params: {
+    targetAllocation: '{"ETH":50,"USDC":50}',
+    threshold: 5,
+    method: 'threshold',
+    ...params,
+  },
+});
+
+const createContext = (): ExecutionContext =>
+  createTestContext({ rebalancing: new RebalanceLedger() });
+
+describe('Allocation helpers', () => {
+  it('should parse JSON text and reject allocations above 100%', () => {
+    expect(parseTargetAllocation('{"ETH":40,"USDC":60}')).toEqual({ ETH: 40, USDC: 60 });
+    expect(() => parseTargetAllocation({ ETH: 80, USDC: 30 })).toThrow('more than 100%');
+  });
+
+  it('should measure supplied positions and debt alongside balances', () => {
+    const portfolio = new PortfolioManager(6000);
+    portfolio.addPosition({
+      type: 'supply',
+      asset: 'ETH',
+      amount: 3,
+      entryPrice: 2000,
+      entryTimestamp: 0,
+    });
+    portfolio.addBalance('ETH', 1);
+    portfolio.addPosition({
+      type: 'borrow',
+      asset: 'ETH',
+      amount: 1,
+      entryPrice: 2000,
+      entryTimestamp: 0,
+    });
+
+    const allocation = measureAllocation(portfolio, new Map([['ETH', 2000]]), { ETH: 50 });
+    expect(allocation.ETH?.value).toBe(6000);
+    expect(allocation.ETH?.percent).toBeCloseTo(50, 9);
+  });
+});
+
+describe('Rebalancing executor', () => {
+  it('should trade toward the target with fees and gas', () => {
+    const context = createContext();
+    const result = executeBlock(rebalanceBlock(), context);
+
+    expect(result.executed).toBe(true);
+    const [trade] = context.portfolio.getTrades();
+    expect(trade).toMatchObject({ type: 'swap', inputToken: 'USDC', outputToken: 'ETH' });
+    expect(trade?.fees).toBeGreaterThan(0);
+    expect(trade?.gasCost).toBeGreaterThan(0);
+
+    const allocation = measureAllocation(context.portfolio, context.prices, { ETH: 50 });
+    expect(allocation.ETH?.percent).toBeGreaterThan(49);
+  });
+
+  it('should sell overweight tokens before buying', () => {
+    const context = createContext();
+    context.portfolio.subtractBalance('USDC', 10000);
+    context.portfolio.addBalance('ETH', 5);
+
+    executeBlock(rebalanceBlock({ venue: 'curve' }), context);
+    const [sell] = context.portfolio.getTrades();
+    expect(sell).toMatchObject({ inputToken: 'ETH', outputToken: 'USDC' });
+    expect(context.portfolio.getBalance('ETH')).toBeCloseTo(2.5, 6);
+  });
+
+  it('should rebalance on calendar dates only once per period', () => {
+    const context = createContext();
+    const block = rebalanceBlock({ method: 'calendar', frequency: 'weekly' });
+
+    expect(executeBlock(block, context).executed).toBe(true);
+    context.prices = new Map([['ETH', 3000]]);
+    context.timestamp = DAY;
+    expect(executeBlock(block, context).executed).toBe(false);
+    context.timestamp = 7 * DAY;
+    expect(executeBlock(block, context).executed).toBe(true);
+  });
+
+  it('should require drift past the threshold on calendar dates with both', () => {
+    const context = createContext();
+    executeBlock(rebalanceBlock(), context);
+
+    context.timestamp = 7 * DAY;
+    context.prices = new Map([['ETH', 2050]]);
+    const result = executeBlock(rebalanceBlock({ method: 'both', frequency: 'weekly' }), context);
+    expect(result.executed).toBe(false);
+  });
+
+  it('should keep a drift snapshot every time it runs', () => {
+    const context = createContext();
+    executeBlock(rebalanceBlock(), context);
+    context.timestamp = DAY;
+    executeBlock(rebalanceBlock(), context);
+
+    const history = context.rebalancing?.getHistory() ?? [];
+    expect(history).toHaveLength(2);
+    expect(history[0]).toMatchObject({ rebalanced: true, maxDrift: 50 });
+    expect(history[1]?.rebalanced).toBe(false);
+    expect(history[1]?.allocation.ETH?.target).toBe(50);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for the risk manager
+ */
+
+import { describe, expect, it } from 'vitest';
+import { BlockCategory, type LegoBlock, Protocol } from '../../../types';
+import { type ExecutionContext, executeBlock, executeBlockSequence } from '../blockExecutor';
+import { RiskManager } from '../riskManager';
+import { createTestContext } from './executionContext';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const block = (type: string, params: LegoBlock['params']): LegoBlock => ({
+  id: type,
+  type,
+  label: type.toUpperCase(),
+  description: 'Test',
+  category:
+    type.includes('swap') || type.startsWith('aave') ? BlockCategory.PROTOCOL : BlockCategory.RISK,
+  protocol: type.startsWith('aave') ? Protocol.AAVE : Protocol.UNISWAP,
+  icon: 'test',
+  params,
+});
+
+const buyEth = (amount: number) =>
+  block('uniswap_swap', { inputToken: 'USDC', outputToken: 'ETH', amount, slippage: 5 });
+
+const createContext = (): ExecutionContext => {
+  const context = createTestContext();
+  context.risk = new RiskManager(context.portfolio, context.lending);
+  return context;
+};
+
+describe('RiskManager order review', () => {
+  it('should resize swaps to the percentage sizing rule', () => {
+    const context = createContext();
+    executeBlockSequence(
+      [block('position_sizing', { method: 'percentage', value: 10 }), buyEth(5000)],
+      context
+    );
+
+    expect(context.portfolio.getBalance('USDC')).toBeCloseTo(
+      9000 - context.portfolio.getTotalGasSpent(),
+      6
+    );
+    const [intervention] = context.risk?.getInterventions() ?? [];
+    expect(intervention).toMatchObject({ action: 'resize', requestedAmount: 5000 });
+    expect(intervention?.approvedAmount).toBeCloseTo(1000, 6);
+  });
+
+  it('should veto entries once the asset is at its position cap', () => {
+    const context = createContext();
+    context.portfolio.subtractBalance('USDC', 2000);
+    context.portfolio.addBalance('ETH', 1);
+    executeBlock(block('risk_limits', { maxDrawdown: 50, maxPositionSize: 20 }), context);
+
+    const result = executeBlock(buyEth(500), context);
+    expect(result.executed).toBe(false);
+    expect(result.message).toContain('Vetoed by risk manager');
+    expect(context.risk?.getInterventions()[0]?.action).toBe('veto');
+  });
+
+  it('should cap only the part of a supply not already held', () => {
+    const context = createContext();
+    context.portfolio.addBalance('ETH', 5);
+    executeBlock(block('risk_limits', { maxDrawdown: 50, maxPositionSize: 50 }), context);
+
+    const supply = executeBlock(block('aave_supply', { asset: 'ETH', amount: 5 }), context);
+    expect(supply.executed).toBe(true);
+    expect(context.lending.get('Aave')?.getSupplied('ETH')).toBe(5);
+
+    // Buying more ETH would still push it past half of equity
+    expect(executeBlock(buyEth(500), context).executed).toBe(false);
+    expect(context.risk?.getInterventions()).toHaveLength(1);
+  });
+
+  it('should let exits into cash through', () => {
+    const context = createContext();
+    context.portfolio.addBalance('ETH', 5);
+    executeBlock(block('position_sizing', { method: 'fixed', value: 100 }), context);
+
+    const result = executeBlock(
+      block('uniswap_swap', { inputToken: 'ETH', outputToken: 'USDC', amount: 5, slippage: 5 }),
+      context
+    );
+    expect(result.executed).toBe(true);
+    expect(context.portfolio.getBalance('ETH')).toBe(0);
+  });
+
+  it('should cap borrows at the leverage limit', () => {
+    const context = createContext();
+    executeBlock(
+      block('risk_limits', { maxDrawdown: 50, maxPositionSize: 100, maxLeverage: 1.5 }),
+      context
+    );
+    executeBlock(block('aave_supply', { asset: 'USDC', amount: 10000, collateral: true }), context);
+    const equity = 10000 - context.portfolio.getTotalGasSpent();
+
+    const result = executeBlock(block('aave_borrow', { asset: 'ETH', amount: 3 }), context);
+    expect(result.executed).toBe(true);
+    // Equity just under 10000 at 1.5x allows half of it in debt
+    expect(context.lending.get('Aave')?.getDebt('ETH')).toBeCloseTo((equity * 0.5) / 2000, 6);
+  });
+});
+
+describe('RiskManager limits', () => {
+  it('should flatten and halt trading on a drawdown breach', () => {
+    const context = createContext();
+    const risk = context.risk as RiskManager;
+    risk.setLimits({ maxDrawdown: 20 });
+    context.portfolio.subtractBalance('USDC', 8000);
+    context.portfolio.addBalance('ETH', 4);
+    risk.observe(0, new Map([['ETH', 2000]]));
+
+    const crashed = new Map([['ETH', 1000]]);
+    const [flatten] = risk.observe(DAY, crashed);
+
+    expect(flatten?.action).toBe('flatten');
+    expect(context.portfolio.getBalance('ETH')).toBe(0);
+    expect(context.portfolio.getTrades().some((trade) => trade.type === 'exit')).toBe(true);
+
+    context.timestamp = 2 * DAY;
+    context.prices = crashed;
+    expect(executeBlock(buyEth(100), context).message).toContain('trading halted');
+  });
+
+  it('should pause entries for the rest of the day after a daily-loss breach', () => {
+    const context = createContext();
+    const risk = context.risk as RiskManager;
+    risk.setLimits({ maxDailyLoss: 5 });
+    context.portfolio.subtractBalance('USDC', 5000);
+    context.portfolio.addBalance('ETH', 2.5);
+    risk.observe(DAY, new Map([['ETH', 2000]]));
+
+    const down = new Map([['ETH', 1500]]);
+    expect(risk.observe(DAY + 3600_000, down)[0]?.action).toBe('flatten');
+
+    context.prices = down;
+    context.timestamp = DAY + 7200_000;
+    expect(executeBlock(buyEth(100), context).executed).toBe(false);
+
+    risk.observe(2 * DAY, down);
+    context.timestamp = 2 * DAY;
+    expect(executeBlock(buyEth(100), context).executed).toBe(true);
+  });
+});
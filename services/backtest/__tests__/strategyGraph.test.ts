@@ -0,0 +1,158 @@
+/**
+ * Tests for branching strategy graph execution
+ */
+
+import { describe, expect, it } from 'vitest';
+import { BlockCategory, type LegoBlock, Protocol } from '../../../types';
+import { executeBlockSequence } from '../blockExecutor';
+import {
+  type StrategyGraph,
+  type StrategyGraphEdge,
+  StrategyGraphExecutor,
+  blocksToGraph,
+} from '../strategyGraph';
+import { createTestContext } from './executionContext';
+
+const trigger = (id: string, condition: string, targetPrice: number): LegoBlock => ({
+  id,
+  type: 'price_trigger',
+  label: 'PRICE TRIGGER',
+  description: 'Test',
+  category: BlockCategory.ENTRY,
+  protocol: Protocol.GENERIC,
+  icon: 'trigger',
+  params: { asset: 'ETH', targetPrice, condition },
+});
+
+const swap = (id: string, inputToken: string, outputToken: string, amount: number): LegoBlock => ({
+  id,
+  type: 'uniswap_swap',
+  label: 'UNISWAP SWAP',
+  description: 'Test',
+  category: BlockCategory.PROTOCOL,
+  protocol: Protocol.UNISWAP,
+  icon: 'swap',
+  params: { inputToken, outputToken, amount, slippage: 5 },
+});
+
+const edge = (
+  source: string,
+  target: string,
+  condition: StrategyGraphEdge['condition']
+): StrategyGraphEdge => ({ id: `${source}-${target}`, source, target, condition });
+
+describe('blocksToGraph', () => {
+  it('should gate protocol blocks on-true and run the rest always', () => {
+    const blocks = [trigger('t', '>=', 1000), swap('s', 'USDC', 'ETH', 100), trigger('u', '<', 1)];
+    const graph = blocksToGraph(blocks);
+
+    expect(graph.edges.map((e) => e.condition)).toEqual(['on_true', 'always']);
+  });
+
+  it('should execute a converted chain like the linear sequence', () => {
+    const blocks = [
+      trigger('t', '<', 1000),
+      swap('s', 'USDC', 'ETH', 100),
+      trigger('u', '>', 1000),
+      swap('v', 'USDC', 'ETH', 100),
+    ];
+    const linear = createTestContext();
+    const graphed = createTestContext();
+
+    const expected = executeBlockSequence(blocks, linear);
+    const actual = new StrategyGraphExecutor(blocksToGraph(blocks), blocks).execute(graphed);
+
+    expect(actual.map((r) => r.executed)).toEqual(expected.map((r) => r.executed));
+    expect(graphed.portfolio.getBalance('USDC')).toBe(linear.portfolio.getBalance('USDC'));
+  });
+});
+
+describe('StrategyGraphExecutor', () => {
+  it('should run a block when any of several entry conditions holds', () => {
+    const blocks = [
+      trigger('low', '<', 1000),
+      trigger('high', '>', 1500),
+      swap('buy', 'USDC', 'ETH', 100),
+    ];
+    const graph: StrategyGraph = {
+      nodes: blocks.map((b) => ({ id: b.id, kind: 'block' })),
+      edges: [edge('low', 'buy', 'on_true'), edge('high', 'buy', 'on_true')],
+    };
+
+    const context = createTestContext();
+    const results = new StrategyGraphExecutor(graph, blocks).execute(context);
+
+    expect(results[2]?.executed).toBe(true);
+    expect(context.portfolio.getBalance('USDC')).toBeCloseTo(
+      9900 - context.portfolio.getTotalGasSpent(),
+      9
+    );
+  });
+
+  it('should require every input of an AND join', () => {
+    const blocks = [
+      trigger('a', '>', 1500),
+      trigger('b', '>', 2500),
+      swap('buy', 'USDC', 'ETH', 100),
+    ];
+    const graph: StrategyGraph = {
+      nodes: [
+        ...blocks.map((b) => ({ id: b.id, kind: 'block' as const })),
+        { id: 'j', kind: 'join', mode: 'and' },
+      ],
+      edges: [edge('a', 'j', 'on_true'), edge('b', 'j', 'on_true'), edge('j', 'buy', 'on_true')],
+    };
+
+    const context = createTestContext();
+    new StrategyGraphExecutor(graph, blocks).execute(context);
+    expect(context.portfolio.getBalance('USDC')).toBeCloseTo(
+      10000 - context.portfolio.getTotalGasSpent(),
+      9
+    );
+
+    const or: StrategyGraph = {
+      ...graph,
+      nodes: [...graph.nodes.slice(0, 3), { id: 'j', kind: 'join', mode: 'or' }],
+    };
+    new StrategyGraphExecutor(or, blocks).execute(context);
+    expect(context.portfolio.getBalance('USDC')).toBeCloseTo(
+      9900 - context.portfolio.getTotalGasSpent(),
+      9
+    );
+  });
+
+  it('should follow the on-false branch when a condition does not hold', () => {
+    const blocks = [
+      trigger('up', '>', 2500),
+      swap('buy', 'USDC', 'ETH', 100),
+      swap('hedge', 'USDC', 'DAI', 50),
+    ];
+    const graph: StrategyGraph = {
+      nodes: blocks.map((b) => ({ id: b.id, kind: 'block' })),
+      edges: [edge('up', 'buy', 'on_true'), edge('up', 'hedge', 'on_false')],
+    };
+
+    const context = createTestContext();
+    const results = new StrategyGraphExecutor(graph, blocks).execute(context);
+
+    expect(results.map((r) => r.executed)).toEqual([false, false, true]);
+    expect(context.portfolio.getBalance('DAI')).toBeGreaterThan(49);
+    expect(context.portfolio.getBalance('ETH')).toBe(0);
+  });
+
+  it('should reject cycles and edges to unknown nodes', () => {
+    const blocks = [swap('a', 'USDC', 'ETH', 1), swap('b', 'ETH', 'USDC', 1)];
+    const nodes = blocks.map((b) => ({ id: b.id, kind: 'block' as const }));
+
+    expect(
+      () =>
+        new StrategyGraphExecutor(
+          { nodes, edges: [edge('a', 'b', 'always'), edge('b', 'a', 'always')] },
+          blocks
+        )
+    ).toThrow('cycle');
+    expect(
+      () => new StrategyGraphExecutor({ nodes, edges: [edge('a', 'x', 'always')] }, blocks)
+    ).toThrow('unknown node');
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Tests for FIFO round-trip matching and round-trip statistics
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Trade } from '../portfolio';
+import { TradeLedger, summarizeRoundTrips } from '../tradeLedger';
+
+const DAY = 86400000;
+const isCash = (token: string) => token === 'USDC';
+
+let tradeId = 0;
+const trade = (fields: Partial<Trade> & Pick<Trade, 'timestamp'>): Trade => ({
+  id: `trade-${++tradeId}`,
+  type: 'swap',
+  inputToken: 'USDC',
+  inputAmount: 0,
+  price: 0,
+  fees: 0,
+  gasCost: 0,
+  ...fields,
+});
+
+// Buy `amount` ETH at `price` with USDC
+const buy = (timestamp: number, amount: number, price: number, gasCost = 0): Trade =>
+  trade({
+    timestamp,
+    inputToken: 'USDC',
+    outputToken: 'ETH',
+    inputAmount: amount * price,
+    outputAmount: amount,
+    price,
+    gasCost,
+    inputValue: amount * price,
+    outputValue: amount * price,
+  });
+
+// Sell `amount` ETH at `price` for USDC
+const sell = (timestamp: number, amount: number, price: number, gasCost = 0): Trade =>
+  trade({
+    timestamp,
+    inputToken: 'ETH',
+    outputToken: 'USDC',
+    inputAmount: amount,
+    outputAmount: amount * price,
+    price: 1,
+    gasCost,
+    inputValue: amount * price,
+    outputValue: amount * price,
+  });
+
+describe('TradeLedger', () => {
+  it('should match exits to the oldest lots first', () => {
+    const ledger = new TradeLedger(isCash);
+    ledger.recordAll([buy(0, 1, 2000, 5), buy(DAY, 1, 3000), sell(2 * DAY, 1.5, 2500, 10)]);
+
+    const [first, second] = ledger.getRoundTrips();
+    expect(first).toMatchObject({
+      amount: 1,
+      entryPrice: 2000,
+      exitPrice: 2500,
+      holdingTime: 2 * DAY,
+    });
+    // Cost carries the entry gas; proceeds carry this slice's share of the exit gas
+    expect(first?.cost).toBe(2005);
+    expect(first?.pnl).toBeCloseTo(2500 - 10 / 1.5 - 2005, 8);
+    expect(second?.amount).toBe(0.5);
+    expect(second?.pnl).toBeCloseTo(1250 - 5 / 1.5 - 1500, 8);
+
+    const [open] = ledger.getOpenLots(new Map([['ETH', 2800]]));
+    expect(open).toMatchObject({ amount: 0.5, entryPrice: 3000, cost: 1500 });
+    expect(open?.unrealizedPnl).toBeCloseTo(-100, 8);
+  });
+
+  it('should carry the cost basis through a token-to-token rotation', () => {
+    const ledger = new TradeLedger(isCash);
+    ledger.recordAll([
+      buy(0, 1, 2000),
+      trade({
+        timestamp: DAY,
+        inputToken: 'ETH',
+        outputToken: 'WBTC',
+        inputAmount: 1,
+        outputAmount: 0.05,
+        price: 44000,
+        gasCost: 2,
+        inputValue: 2220,
+        outputValue: 2200,
+      }),
+      trade({
+        timestamp: 2 * DAY,
+        inputToken: 'WBTC',
+        outputToken: 'USDC',
+        inputAmount: 0.05,
+        outputAmount: 2300,
+        price: 1,
+        inputValue: 2300,
+        outputValue: 2300,
+      }),
+    ]);
+
+    expect(ledger.getRoundTrips().map((trip) => [trip.asset, trip.pnl])).toEqual([
+      ['ETH', 198],
+      ['WBTC', 100],
+    ]);
+    expect(ledger.getOpenLots()).toEqual([]);
+  });
+
+  it('should measure excursions from the bars while the lot was open', () => {
+    const prices = new Map([
+      [
+        'ETH',
+        [
+          { timestamp: 0, price: 2000, low: 1000, high: 3000 }, // Before the fill
+          { timestamp: DAY, price: 1900, low: 1800, high: 2050 },
+          { timestamp: 2 * DAY, price: 2300, low: 1950, high: 2400 },
+          { timestamp: 3 * DAY, price: 5000, low: 4000, high: 6000 }, // After the exit
+        ],
+      ],
+    ]);
+    const ledger = new TradeLedger(isCash, prices);
+    ledger.recordAll([buy(0, 2, 2000), sell(2 * DAY, 2, 2300)]);
+
+    const [trip] = ledger.getRoundTrips();
+    expect(trip?.mae).toBe(-400);
+    expect(trip?.mfe).toBe(800);
+  });
+
+  it('should dispose of seized collateral without acquiring the repaid debt', () => {
+    const ledger = new TradeLedger(isCash);
+    ledger.recordAll([
+      buy(0, 1, 2000),
+      trade({
+        timestamp: DAY,
+        type: 'liquidation',
+        inputToken: 'ETH',
+        outputToken: 'DAI',
+        inputAmount: 0.5,
+        outputAmount: 700,
+        price: 1470,
+        fees: 35,
+        inputValue: 735,
+        outputValue: 700,
+      }),
+    ]);
+
+    expect(ledger.getRoundTrips()[0]?.pnl).toBe(700 - 1000);
+    expect(ledger.getOpenLots().map((lot) => [lot.asset, lot.amount])).toEqual([['ETH', 0.5]]);
+  });
+
+  it('should ignore trades that do not exchange tokens and unmatched disposals', () => {
+    const ledger = new TradeLedger(isCash);
+    ledger.recordAll([
+      trade({ timestamp: 0, type: 'supply', inputToken: 'ETH', inputAmount: 1, price: 2000 }),
+      sell(DAY, 1, 2000),
+    ]);
+    expect(ledger.getRoundTrips()).toEqual([]);
+    expect(ledger.getOpenLots()).toEqual([]);
+  });
+});
+
+describe('summarizeRoundTrips', () => {
+  it('should derive win rate, profit factor and expectancy', () => {
+    const ledger = new TradeLedger(isCash);
+    ledger.recordAll([
+      buy(0, 1, 100),
+      sell(DAY, 1, 130),
+      buy(2 * DAY, 1, 100),
+      sell(3 * DAY, 1, 90),
+      buy(4 * DAY, 1, 100),
+      sell(5 * DAY, 1, 100),
+    ]);
+
+    const stats = summarizeRoundTrips(ledger.getRoundTrips());
+    expect(stats).toMatchObject({
+      roundTrips: 3,
+      wins: 1,
+      losses: 1,
+      grossProfit: 30,
+      grossLoss: 10,
+    });
+    expect(stats.winRate).toBeCloseTo(100 / 3, 10);
+    expect(stats.profitFactor).toBe(3);
+    expect(stats.expectancy).toBeCloseTo(20 / 3, 10);
+    expect(stats.averageHoldingTime).toBe(DAY);
+  });
+
+  it('should report an unbounded profit factor when nothing was lost', () => {
+    const ledger = new TradeLedger(isCash);
+    ledger.recordAll([buy(0, 1, 100), sell(DAY, 1, 110)]);
+    expect(ledger.getStats().profitFactor).toBe(Number.POSITIVE_INFINITY);
+    expect(summarizeRoundTrips([]).profitFactor).toBe(0);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * AMM execution models for swap price impact
+ * Pools are sized from a configured TVL and centred on the oracle price, so a
+ * swap's impact depends on its size relative to the pool, not on a flat spread.
+ */
+
+export type AmmProtocol = 'uniswap' | 'curve' | 'balancer';
+
+export interface PoolConfig {
+  liquidity: number; // Pool TVL in the base currency
+  fee?: number; // Swap fee as a fraction; defaults per protocol
+  amplification?: number; // StableSwap A (Curve)
+  weights?: Record<string, number>; // Token weights (Balancer); unlisted tokens share the rest
+}
+
+/** protocol -> pair ('ETH/USDC', either order, or '*' for any pair) -> pool */
+export type PoolLiquidityConfig = Partial<Record<AmmProtocol, Record<string, PoolConfig>>>;
+
+export interface SwapQuote {
+  venue: string; // Protocol, or the protocols of a split route joined with '+'
+  outputAmount: number;
+  fee: number; // Input token units paid in swap and aggregator fees
+  priceImpact: number; // Shortfall vs the oracle price after fees (fraction)
+}
+
+export const DEFAULT_POOLS: Record<AmmProtocol, Required<Omit<PoolConfig, 'weights'>>> = {
+  uniswap: { liquidity: 50_000_000, fee: 0.003, amplification: 0 },
+  curve: { liquidity: 100_000_000, fee: 0.0004, amplification: 100 },
+  balancer: { liquidity: 10_000_000, fee: 0.002, amplification: 0 },
+};
+
+export const AGGREGATOR_FEE = 0.001; // 1inch routing fee
+
+const ROUTE_VENUES: AmmProtocol[] = ['uniswap', 'curve', 'balancer'];
+
+/**
+ * Pool for a pair, falling back to the protocol's wildcard and default pools
+ */
+export function resolvePool(
+  protocol: AmmProtocol,
+  input: string,
+  output: string,
+  pools: PoolLiquidityConfig = {}
+): PoolConfig {
+  const configured = pools[protocol];
+  const pool =
+    configured?.[`${input}/${output}`] ?? configured?.[`${output}/${input}`] ?? configured?.['*'];
+  return { ...DEFAULT_POOLS[protocol], ...pool };
+}
+
+/**
+ * Output of a constant-product (x·y = k) pool
+ */
+export function constantProductOut(
+  reserveIn: number,
+  reserveOut: number,
+  amountIn: number
+): number {
+  return (reserveOut * amountIn) / (reserveIn + amountIn);
+}
+
+/**
+ * Output of a weighted pool (Balancer invariant)
+ */
+export function weightedOut(
+  reserveIn: number,
+  weightIn: number,
+  reserveOut: number,
+  weightOut: number,
+  amountIn: number
+): number {
+  return reserveOut * (1 - (reserveIn / (reserveIn + amountIn)) ** (weightIn / weightOut));
+}
+
+/**
+ * Output of a two-coin StableSwap pool (Curve invariant)
+ * Balances are in value terms, so the pool is pegged at the oracle price.
+ */
+export function stableSwapOut(
+  balanceIn: number,
+  balanceOut: number,
+  amplification: number,
+  amountIn: number
+): number {
+  const d = stableSwapInvariant(balanceIn, balanceOut, amplification);
+  const ann = amplification * 4;
+  const x = balanceIn + amountIn;
+
+  // Solve the invariant for the new output balance (Newton's method)
+  const c = (d * d * d) / (4 * x * ann);
+  const b = x + d / ann;
+  let y = d;
+  for (let i = 0; i < 255; i++) {
+    const next = (y * y + c) / (2 * y + b - d);
+    if (Math.abs(next - y) <= 1e-12 * d) {
+      y = next;
+      break;
+    }
+    y = next;
+  }
+
+  return Math.max(0, balanceOut - y);
+}
+
+function stableSwapInvariant(x0: number, x1: number, amplification: number): number {
+  const sum = x0 + x1;
+  if (sum === 0) return 0;
+  const ann = amplification * 4;
+
+  let d = sum;
+  for (let i = 0; i < 255; i++) {
+    const dP = (d * d * d) / (4 * x0 * x1);
+    const next = ((ann * sum + 2 * dP) * d) / ((ann - 1) * d + 3 * dP);
+    if (Math.abs(next - d) <= 1e-12 * d) return next;
+    d = next;
+  }
+  return d;
+}
+
+/**
+ * Quote a swap against a single protocol's pool
+ * @param inputPrice - oracle price of the input token in the base currency
+ * @param outputPrice - oracle price of the output token in the base currency
+ */
+export function quoteSwap(
+  protocol: AmmProtocol,
+  input: string,
+  output: string,
+  amountIn: number,
+  inputPrice: number,
+  outputPrice: number,
+  pools?: PoolLiquidityConfig
+): SwapQuote {
+  const pool = resolvePool(protocol, input, output, pools);
+  const fee = amountIn * (pool.fee ?? DEFAULT_POOLS[protocol].fee);
+  const amountAfterFee = amountIn - fee;
+
+  let outputAmount: number;
+  switch (protocol) {
+    case 'curve': {
+      // Value units; pool split evenly between the two coins
+      const half = pool.liquidity / 2;
+      const amplification = pool.amplification ?? DEFAULT_POOLS.curve.amplification;
+      const valueOut = stableSwapOut(half, half, amplification, amountAfterFee * inputPrice);
+      outputAmount = valueOut / outputPrice;
+      break;
+    }
+    case 'balancer': {
+      const weightIn = pool.weights?.[input] ?? 1 - (pool.weights?.[output] ?? 0.5);
+      const weightOut = pool.weights?.[output] ?? 1 - weightIn;
+      outputAmount = weightedOut(
+        (pool.liquidity * weightIn) / inputPrice,
+        weightIn,
+        (pool.liquidity * weightOut) / outputPrice,
+        weightOut,
+        amountAfterFee
+      );
+      break;
+    }
+    default: {
+      const half = pool.liquidity / 2;
+      outputAmount = constantProductOut(half / inputPrice, half / outputPrice, amountAfterFee);
+    }
+  }
+
+  return {
+    venue: protocol,
+    outputAmount,
+    fee,
+    priceImpact: impactOf(amountAfterFee, outputAmount, inputPrice, outputPrice),
+  };
+}
+
+/**
+ * Quote the best 1inch-style route: each venue alone, or an even split across
+ * the two best venues, after the aggregator fee
+ */
+export function quoteBestRoute(
+  input: string,
+  output: string,
+  amountIn: number,
+  inputPrice: number,
+  outputPrice: number,
+  pools?: PoolLiquidityConfig
+): SwapQuote {
+  const aggregatorFee = amountIn * AGGREGATOR_FEE;
+  const routed = amountIn - aggregatorFee;
+
+  const singles = ROUTE_VENUES.map((venue) =>
+    quoteSwap(venue, input, output, routed, inputPrice, outputPrice, pools)
+  ).sort((a, b) => b.outputAmount - a.outputAmount);
+
+  const candidates = [...singles];
+  const [first, second] = singles;
+  if (first && second) {
+    const legs = [first, second].map((leg) =>
+      quoteSwap(leg.venue as AmmProtocol, input, output, routed / 2, inputPrice, outputPrice, pools)
+    );
+    candidates.push({
+      venue: legs.map((leg) => leg.venue).join('+'),
+      outputAmount: legs.reduce((sum, leg) => sum + leg.outputAmount, 0),
+      fee: legs.reduce((sum, leg) => sum + leg.fee, 0),
+      priceImpact: 0,
+    });
+  }
+
+  const best = candidates.reduce((a, b) => (b.outputAmount > a.outputAmount ? b : a));
+  const fee = best.fee + aggregatorFee;
+  return {
+    ...best,
+    fee,
+    priceImpact: impactOf(amountIn - fee, best.outputAmount, inputPrice, outputPrice),
+  };
+}
+
+function impactOf(
+  amountAfterFee: number,
+  outputAmount: number,
+  inputPrice: number,
+  outputPrice: number
+): number {
+  const ideal = (amountAfterFee * inputPrice) / outputPrice;
+  return ideal > 0 ? Math.max(0, 1 - outputAmount / ideal) : 0;
+}
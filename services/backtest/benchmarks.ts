@@ -0,0 +1,268 @@
+/**
+ * Benchmark equity curves and relative metrics
+ * Benchmarks start with the strategy's capital and are valued on its sample timeline, so
+ * alpha, beta, tracking error and information ratio compare returns period by period.
+ */
+
+import {
+  calculateAlpha,
+  calculateBeta,
+  calculateInformationRatio,
+  calculateTrackingError,
+} from '../../utils/advancedMetrics';
+import { compoundGrowth } from './interest';
+import { getPeriodsPerYear } from './metricsCalculator';
+import type { RateSource } from './rates';
+
+/**
+ * Serializable benchmark selection
+ */
+export type BenchmarkConfig =
+  | {
+      type: 'hodl';
+      token: string;
+      label?: string;
+    }
+  | {
+      type: 'portfolio';
+      weights: Record<string, number>; // token -> weight, normalized to sum to 1
+      rebalanceInterval?: number; // Reset to the weights this often, in ms (default never)
+      label?: string;
+    }
+  | {
+      type: 'lending';
+      asset: string;
+      protocol?: string; // Rate source market (default Aave)
+      label?: string;
+    };
+
+export const BENCHMARK_PRESETS = {
+  hodlEth: { type: 'hodl', token: 'ETH' },
+  ethUsdc6040: { type: 'portfolio', weights: { ETH: 60, USDC: 40 } },
+  usdcLending: { type: 'lending', asset: 'USDC' },
+} as const satisfies Record<string, BenchmarkConfig>;
+
+export const DEFAULT_BENCHMARKS: BenchmarkConfig[] = Object.values(BENCHMARK_PRESETS);
+
+export interface RelativeMetrics {
+  alpha: number; // Annualized excess return over the beta-adjusted benchmark, in percent
+  beta: number;
+  trackingError: number; // Annualized deviation of excess returns, in percent
+  informationRatio: number;
+}
+
+export interface BenchmarkResult extends RelativeMetrics {
+  id: string;
+  label: string;
+  config: BenchmarkConfig;
+  equityCurve: Array<{ date: string; equity: number }>;
+  totalReturn: number; // Percent
+}
+
+type PriceLookup = (token: string, prices: Map<string, number>) => number | undefined;
+
+/**
+ * Label a benchmark, e.g. 'HODL ETH', '60/40 ETH/USDC' or 'USDC lending (Aave)'
+ */
+export function describeBenchmark(config: BenchmarkConfig): string {
+  if (config.label) return config.label;
+  switch (config.type) {
+    case 'hodl':
+      return `HODL ${config.token}`;
+    case 'portfolio': {
+      const weights = normalizeWeights(config.weights);
+      const tokens = Object.keys(weights);
+      const percents = tokens.map((token) => Math.round((weights[token] ?? 0) * 100));
+      return `${percents.join('/')} ${tokens.join('/')}`;
+    }
+    case 'lending':
+      return `${config.asset} lending (${config.protocol ?? 'Aave'})`;
+  }
+}
+
+/**
+ * Tokens a benchmark needs prices for
+ */
+export function getBenchmarkTokens(config: BenchmarkConfig): string[] {
+  switch (config.type) {
+    case 'hodl':
+      return [config.token];
+    case 'portfolio':
+      return Object.keys(config.weights);
+    case 'lending':
+      return [config.asset];
+  }
+}
+
+function normalizeWeights(weights: Record<string, number>): Record<string, number> {
+  const total = Object.values(weights).reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  if (total <= 0) throw new Error('Benchmark weights must include a positive weight');
+  return Object.fromEntries(
+    Object.entries(weights)
+      .filter(([, weight]) => weight > 0)
+      .map(([token, weight]) => [token, weight / total])
+  );
+}
+
+/**
+ * Alpha, beta, tracking error and information ratio of one equity curve against another
+ * Both curves must share a timeline; periods where either curve starts at zero are skipped.
+ */
+export function calculateRelativeMetrics(
+  strategyEquity: number[],
+  benchmarkEquity: number[],
+  days: number,
+  periodsPerYear = 365
+): RelativeMetrics {
+  const strategyReturns: number[] = [];
+  const benchmarkReturns: number[] = [];
+  for (let i = 1; i < Math.min(strategyEquity.length, benchmarkEquity.length); i++) {
+    const prevStrategy = strategyEquity[i - 1] ?? 0;
+    const prevBenchmark = benchmarkEquity[i - 1] ?? 0;
+    if (prevStrategy <= 0 || prevBenchmark <= 0) continue;
+    strategyReturns.push((strategyEquity[i] ?? 0) / prevStrategy - 1);
+    benchmarkReturns.push((benchmarkEquity[i] ?? 0) / prevBenchmark - 1);
+  }
+
+  if (strategyReturns.length === 0) {
+    return { alpha: 0, beta: 1, trackingError: 0, informationRatio: 0 };
+  }
+
+  const totalReturn = (curve: number[]) => {
+    const first = curve[0] ?? 0;
+    return first > 0 ? ((curve[curve.length - 1] ?? 0) / first - 1) * 100 : 0;
+  };
+  const beta = calculateBeta(strategyReturns, benchmarkReturns);
+
+  return {
+    alpha: calculateAlpha(
+      totalReturn(strategyEquity),
+      totalReturn(benchmarkEquity),
+      beta,
+      0,
+      Math.max(1, days)
+    ),
+    beta,
+    trackingError: calculateTrackingError(strategyReturns, benchmarkReturns, periodsPerYear) * 100,
+    informationRatio: calculateInformationRatio(strategyReturns, benchmarkReturns, periodsPerYear),
+  };
+}
+
+interface BenchmarkState {
+  config: BenchmarkConfig;
+  weights: Record<string, number>;
+  units: Map<string, number> | null; // null until every component has a price
+  lastRebalance: number;
+  lastSample: number;
+  equityCurve: Array<{ date: string; equity: number }>;
+}
+
+/**
+ * Values each benchmark at the backtest's equity samples
+ * Capital is allocated at the first sample where every component has a price and is held as
+ * cash until then. Lending benchmarks accrue at the rate in effect at the start of each
+ * interval, like supply positions do.
+ */
+export class BenchmarkTracker {
+  private states: BenchmarkState[];
+
+  /**
+   * @param getPrice - Price lookup that honors the run's base currency and pegs
+   */
+  constructor(
+    benchmarks: BenchmarkConfig[],
+    private initialCapital: number,
+    private getPrice: PriceLookup,
+    private rates: RateSource
+  ) {
+    this.states = benchmarks.map((config) => ({
+      config,
+      weights:
+        config.type === 'portfolio'
+          ? normalizeWeights(config.weights)
+          : { [config.type === 'hodl' ? config.token : config.asset]: 1 },
+      units: null,
+      lastRebalance: 0,
+      lastSample: 0,
+      equityCurve: [],
+    }));
+  }
+
+  sample(timestamp: number, prices: Map<string, number>): void {
+    for (const state of this.states) {
+      if (state.units && state.config.type === 'lending') {
+        const { asset, protocol = 'Aave' } = state.config;
+        const { supplyApr } = this.rates.getRates(protocol, asset, state.lastSample);
+        const units = state.units.get(asset) ?? 0;
+        state.units.set(asset, units * compoundGrowth(supplyApr, timestamp - state.lastSample));
+      }
+
+      const equity = this.value(state, prices);
+      const rebalanceInterval =
+        state.config.type === 'portfolio' ? state.config.rebalanceInterval : undefined;
+      const rebalanceDue =
+        rebalanceInterval !== undefined && timestamp - state.lastRebalance >= rebalanceInterval;
+
+      if (equity !== undefined && (!state.units || rebalanceDue)) {
+        state.units = this.allocate(state.weights, equity, prices) ?? state.units;
+        state.lastRebalance = timestamp;
+      }
+
+      // A component missing a price keeps its last value
+      const previous = state.equityCurve[state.equityCurve.length - 1];
+      state.lastSample = timestamp;
+      state.equityCurve.push({
+        date: new Date(timestamp).toISOString(),
+        equity: this.value(state, prices) ?? previous?.equity ?? this.initialCapital,
+      });
+    }
+  }
+
+  /**
+   * Benchmark curves with metrics relative to the strategy's equity at the same samples
+   */
+  getResults(strategyEquity: number[], days: number, samplingInterval: number): BenchmarkResult[] {
+    const periodsPerYear = getPeriodsPerYear(samplingInterval);
+    return this.states.map((state, index) => {
+      const curve = state.equityCurve.map((point) => point.equity);
+      const finalEquity = curve[curve.length - 1] ?? this.initialCapital;
+      return {
+        id: `${index}:${state.config.type}`,
+        label: describeBenchmark(state.config),
+        config: state.config,
+        equityCurve: state.equityCurve.map((point) => ({ ...point })),
+        totalReturn: this.initialCapital > 0 ? (finalEquity / this.initialCapital - 1) * 100 : 0,
+        ...calculateRelativeMetrics(strategyEquity, curve, days, periodsPerYear),
+      };
+    });
+  }
+
+  /**
+   * Current value, or the initial capital before allocation; undefined when a held token
+   * has no price
+   */
+  private value(state: BenchmarkState, prices: Map<string, number>): number | undefined {
+    if (!state.units) return this.initialCapital;
+    let equity = 0;
+    for (const [token, units] of state.units) {
+      const price = this.getPrice(token, prices);
+      if (price === undefined) return undefined;
+      equity += units * price;
+    }
+    return equity;
+  }
+
+  private allocate(
+    weights: Record<string, number>,
+    capital: number,
+    prices: Map<string, number>
+  ): Map<string, number> | null {
+    const units = new Map<string, number>();
+    for (const [token, weight] of Object.entries(weights)) {
+      const price = this.getPrice(token, prices);
+      if (price === undefined || price <= 0) return null;
+      units.set(token, (capital * weight) / price);
+    }
+    return units;
+  }
+}
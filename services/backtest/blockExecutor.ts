@@ -4,14 +4,56 @@
  */
 
 import type { LegoBlock } from '../../types';
-import { PriceDataPoint, getPriceAtTimestamp } from './dataFetcher';
-import { type PortfolioManager, Trade } from './portfolio';
+import { type AmmProtocol, type PoolLiquidityConfig, quoteBestRoute, quoteSwap } from './amm';
+import { type Candle, flatCandle } from './candles';
+import {
+  alignTickRange,
+  amountsForLiquidity,
+  defaultTickRange,
+  liquidityForAmounts,
+  tickToPrice,
+} from './concentratedLiquidity';
+import { type CronSchedule, parseCron } from './cron';
+import type { RandomSource } from './determinism';
+import { GAS_UNITS, type GasModel, createGasModel, getBlockGasUnits } from './gas';
+import {
+  DEFAULT_INDICATOR_PERIODS,
+  atr,
+  bollingerBands,
+  ema,
+  latest,
+  macd,
+  rsi,
+  sma,
+  stochastic,
+} from './indicators';
+import type { LendingAccount } from './lending';
+import type { PortfolioManager, Position } from './portfolio';
+import type { PriceHistory } from './priceHistory';
+import {
+  REBALANCE_FREQUENCY_MS,
+  type RebalanceFrequency,
+  type RebalanceLedger,
+  measureAllocation,
+  parseRebalanceMethod,
+  parseTargetAllocation,
+} from './rebalancing';
+import type { OrderKind, RiskLimits, RiskManager, RiskReview, SizingMethod } from './riskManager';
 
 export interface ExecutionContext {
   timestamp: number;
   prices: Map<string, number>; // token -> current price
+  history: PriceHistory; // look-ahead-safe bars up to `timestamp`
+  candles: Map<string, Candle>; // token -> OHLCV range traded since the previous step
+  crosses?: Map<string, number>; // blockId -> fill price where a bar crossed its trigger level
   portfolio: PortfolioManager;
+  lending: Map<string, LendingAccount>; // protocol -> lending account (Aave, Compound)
+  random: RandomSource; // Seeded per run; executors must not call Math.random()
   previousResults: Map<string, unknown>; // blockId -> execution result
+  pools?: PoolLiquidityConfig; // AMM pool liquidity; protocol defaults when omitted
+  risk?: RiskManager; // Applies sizing and risk limits to orders; unrestricted when omitted
+  rebalancing?: RebalanceLedger; // Calendar state and drift history for rebalancing blocks
+  gas?: GasModel; // Chain and historical gas fees; mainnet typical fees when omitted
 }
 
 export interface ExecutionResult {
@@ -21,36 +63,36 @@ export interface ExecutionResult {
   data?: unknown;
 }
 
-// Gas costs (in ETH, approximate)
-const GAS_COSTS = {
-  swap: 0.001, // ~150k gas at 20 gwei
-  supply: 0.0015, // ~200k gas
-  borrow: 0.002, // ~250k gas
-  repay: 0.0015,
-  withdraw: 0.001,
-  liquidity: 0.003, // ~400k gas for adding liquidity
-  trigger: 0, // No on-chain transaction
-  stopLoss: 0.0005, // Exit transaction
-  flashLoan: 0.002,
-  staking: 0.0015,
-};
+// Used when the context carries no gas model
+const DEFAULT_GAS_MODEL = createGasModel();
+
+const FLASH_LOAN_PREMIUM = 0.0009; // Aave V3 flash loan premium (9 bps)
 
-// Protocol fees
-const PROTOCOL_FEES = {
-  uniswap: 0.003, // 0.3% swap fee
-  aave: 0, // No fee for supply (earns interest instead)
-  compound: 0,
-  curve: 0.0004, // 0.04% swap fee
-  balancer: 0.002, // 0.2% swap fee
-  oneinch: 0.001, // 0.1% aggregator fee
+// Swap fees come from the AMM pool models (see ./amm)
+const SWAP_VENUE_NAMES: Record<AmmProtocol | 'oneinch', string> = {
+  uniswap: 'Uniswap',
+  curve: 'Curve',
+  balancer: 'Balancer',
+  oneinch: '1inch',
 };
 
+/**
+ * Cost of a transaction in the base currency, at this tick's gas fees and gas token price
+ */
+function getGasCost(context: ExecutionContext, gasUnits: number): number {
+  const gas = context.gas ?? DEFAULT_GAS_MODEL;
+  const nativePrice = context.portfolio.getPrice(gas.nativeToken, context.prices);
+  return gas.cost(gasUnits, context.timestamp, nativePrice);
+}
+
 /**
  * Execute a price trigger block
  */
 function executePriceTrigger(block: LegoBlock, context: ExecutionContext): ExecutionResult {
   const { asset, targetPrice, condition } = block.params;
-  const currentPrice = context.prices.get(String(asset)) || 0;
+  // A level crossed intrabar is evaluated at its fill, even if the bar closed back past it
+  const marketPrice = context.portfolio.getPrice(String(asset), context.prices) ?? 0;
+  const currentPrice = context.crosses?.get(block.id) ?? marketPrice;
   const target = Number(targetPrice) || 0;
 
   if (!asset || !targetPrice) {
@@ -97,14 +139,54 @@ function executePriceTrigger(block: LegoBlock, context: ExecutionContext): Execu
 }
 
 /**
- * Execute a Uniswap swap block
+ * Let the risk manager resize or veto an order
  */
-function executeUniswapSwap(block: LegoBlock, context: ExecutionContext): ExecutionResult {
+function reviewOrder(
+  context: ExecutionContext,
+  block: LegoBlock,
+  kind: OrderKind,
+  asset: string,
+  amount: number,
+  price: number
+): RiskReview {
+  if (!context.risk) return { amount };
+  return context.risk.reviewOrder(
+    { kind, blockId: block.id, asset, amount, price },
+    context.timestamp,
+    context.prices,
+    context.history
+  );
+}
+
+/**
+ * Result for an order the risk manager vetoed
+ * Not a failure: later protocol blocks are skipped as if a trigger had not fired.
+ */
+function vetoedResult(review: RiskReview): ExecutionResult {
+  return {
+    success: true,
+    executed: false,
+    message: `Vetoed by risk manager: ${review.intervention?.reason ?? 'risk limits'}`,
+    data: { intervention: review.intervention },
+  };
+}
+
+/**
+ * Execute a swap against a protocol's pool model (or the best 1inch route)
+ * The block's slippage is the maximum price impact accepted before the swap reverts.
+ */
+function executeSwap(
+  block: LegoBlock,
+  context: ExecutionContext,
+  protocol: AmmProtocol | 'oneinch',
+  defaultSlippage: number
+): ExecutionResult {
   const { inputToken, outputToken, amount, slippage } = block.params;
   const input = String(inputToken);
   const output = String(outputToken);
-  const inputAmount = Number(amount) || 0;
-  const slippageTolerance = Number(slippage) || 0.5; // Default 0.5%
+  let inputAmount = Number(amount) || 0;
+  const slippageTolerance = Number(slippage) || defaultSlippage;
+  const venue = SWAP_VENUE_NAMES[protocol];
 
   if (!inputToken || !outputToken || inputAmount <= 0) {
     return {
@@ -125,8 +207,8 @@ function executeUniswapSwap(block: LegoBlock, context: ExecutionContext): Execut
   }
 
   // Get prices
-  const inputPrice = context.prices.get(input) || 0;
-  const outputPrice = context.prices.get(output) || 0;
+  const inputPrice = context.portfolio.getPrice(input, context.prices) ?? 0;
+  const outputPrice = context.portfolio.getPrice(output, context.prices) ?? 0;
 
   if (inputPrice === 0 || outputPrice === 0) {
     return {
@@ -136,62 +218,88 @@ function executeUniswapSwap(block: LegoBlock, context: ExecutionContext): Execut
     };
   }
 
-  // Calculate output using constant product formula (simplified)
-  // For simplicity, we use price ratio (real Uniswap uses reserves)
-  const priceRatio = inputPrice / outputPrice;
-  let outputAmount = inputAmount * priceRatio;
+  // Risk limits may shrink or veto the order
+  const review = reviewOrder(context, block, 'swap', output, inputAmount, inputPrice);
+  if (review.amount <= 0) return vetoedResult(review);
+  inputAmount = review.amount;
 
-  // Apply slippage
-  const slippageAmount = outputAmount * (slippageTolerance / 100);
-  outputAmount = outputAmount - slippageAmount;
+  const quote =
+    protocol === 'oneinch'
+      ? quoteBestRoute(input, output, inputAmount, inputPrice, outputPrice, context.pools)
+      : quoteSwap(protocol, input, output, inputAmount, inputPrice, outputPrice, context.pools);
+  const impactPercent = quote.priceImpact * 100;
 
-  // Calculate fees (0.3% Uniswap fee)
-  const feeAmount = inputAmount * PROTOCOL_FEES.uniswap;
-  const inputAfterFee = inputAmount - feeAmount;
-  outputAmount = inputAfterFee * priceRatio - slippageAmount;
+  if (impactPercent > slippageTolerance) {
+    return {
+      success: false,
+      executed: false,
+      message: `Swap reverted on ${venue}: price impact ${impactPercent.toFixed(2)}% exceeds slippage tolerance ${slippageTolerance}%`,
+      data: { priceImpact: impactPercent, slippageTolerance },
+    };
+  }
 
   // Execute swap
   try {
     context.portfolio.subtractBalance(input, inputAmount);
-    context.portfolio.addBalance(output, outputAmount);
+    context.portfolio.addBalance(output, quote.outputAmount);
 
     // Record trade
-    const gasCost = GAS_COSTS.swap * inputPrice; // Convert to USD
+    const gasCost = getGasCost(context, getBlockGasUnits(`${protocol}_swap`));
     context.portfolio.recordTrade({
       timestamp: context.timestamp,
       type: 'swap',
       inputToken: input,
       outputToken: output,
       inputAmount,
-      outputAmount,
+      outputAmount: quote.outputAmount,
       price: outputPrice,
-      slippage: slippageTolerance,
-      fees: feeAmount * inputPrice,
+      slippage: impactPercent,
+      fees: quote.fee * inputPrice,
       gasCost,
+      inputValue: inputAmount * inputPrice,
+      outputValue: quote.outputAmount * outputPrice,
     });
 
     return {
       success: true,
       executed: true,
-      message: `Swapped ${inputAmount} ${input} for ${outputAmount.toFixed(4)} ${output}`,
-      data: { inputAmount, outputAmount, fees: feeAmount, gasCost },
+      message: `Swapped ${inputAmount} ${input} for ${quote.outputAmount.toFixed(4)} ${output} on ${venue}`,
+      data: {
+        inputAmount,
+        outputAmount: quote.outputAmount,
+        fees: quote.fee,
+        priceImpact: impactPercent,
+        route: quote.venue,
+        gasCost,
+      },
     };
   } catch (error) {
     return {
       success: false,
       executed: false,
-      message: error instanceof Error ? error.message : 'Swap execution failed',
+      message: error instanceof Error ? error.message : `${venue} swap failed`,
     };
   }
 }
 
+/**
+ * Get the lending account for a protocol
+ */
+function getLendingAccount(context: ExecutionContext, protocol: string): LendingAccount {
+  const account = context.lending.get(protocol);
+  if (!account) {
+    throw new Error(`No lending account for ${protocol}`);
+  }
+  return account;
+}
+
 /**
  * Execute an Aave supply block
  */
 function executeAaveSupply(block: LegoBlock, context: ExecutionContext): ExecutionResult {
   const { asset, amount, collateral } = block.params;
   const token = String(asset);
-  const supplyAmount = Number(amount) || 0;
+  let supplyAmount = Number(amount) || 0;
 
   if (!asset || supplyAmount <= 0) {
     return {
@@ -212,7 +320,7 @@ function executeAaveSupply(block: LegoBlock, context: ExecutionContext): Executi
   }
 
   // Get price
-  const price = context.prices.get(token) || 0;
+  const price = context.portfolio.getPrice(token, context.prices) ?? 0;
   if (price === 0) {
     return {
       success: false,
@@ -221,22 +329,23 @@ function executeAaveSupply(block: LegoBlock, context: ExecutionContext): Executi
     };
   }
 
-  try {
-    // Move from balance to position
-    context.portfolio.subtractBalance(token, supplyAmount);
+  // Risk limits may shrink or veto the order
+  const review = reviewOrder(context, block, 'supply', token, supplyAmount, price);
+  if (review.amount <= 0) return vetoedResult(review);
+  supplyAmount = review.amount;
 
-    // Add position (will earn interest over time)
-    context.portfolio.addPosition({
-      type: 'supply',
-      asset: token,
-      amount: supplyAmount,
-      entryPrice: price,
-      entryTimestamp: context.timestamp,
-      protocol: 'Aave',
-    });
+  try {
+    // Move from balance to a supply position (will earn interest over time)
+    getLendingAccount(context, 'Aave').supply(
+      token,
+      supplyAmount,
+      price,
+      context.timestamp,
+      collateral !== false
+    );
 
     // Record trade
-    const gasCost = GAS_COSTS.supply * price;
+    const gasCost = getGasCost(context, GAS_UNITS.supply);
     context.portfolio.recordTrade({
       timestamp: context.timestamp,
       type: 'supply',
@@ -251,7 +360,7 @@ function executeAaveSupply(block: LegoBlock, context: ExecutionContext): Executi
       success: true,
       executed: true,
       message: `Supplied ${supplyAmount} ${token} to Aave`,
-      data: { amount: supplyAmount, gasCost },
+      data: { amount: supplyAmount, collateral: collateral !== false, gasCost },
     };
   } catch (error) {
     return {
@@ -262,15 +371,115 @@ function executeAaveSupply(block: LegoBlock, context: ExecutionContext): Executi
   }
 }
 
+/**
+ * Positions an exit block may close
+ * Debt is left to its lending account: only a repay settles it.
+ */
+function getExitablePositions(context: ExecutionContext): Position[] {
+  return context.portfolio.getPositions().filter((position) => position.type !== 'borrow');
+}
+
+/**
+ * Move a position back into the wallet, or return why it cannot close
+ * Lending supplies are withdrawn through their account, which refuses to leave debt unbacked.
+ */
+function closePosition(position: Position, context: ExecutionContext): string | undefined {
+  const account =
+    position.type === 'supply' ? context.lending.get(position.protocol ?? '') : undefined;
+  if (account) {
+    try {
+      account.withdraw(position.asset, position.amount, context.prices);
+    } catch (error) {
+      return error instanceof Error ? error.message : `Cannot withdraw ${position.asset}`;
+    }
+    return undefined;
+  }
+
+  // LP positions return their underlying tokens and accrued fees, as last marked by the tracker
+  context.portfolio.removePosition(position.id);
+  const amounts = position.tokenAmounts ?? { [position.asset]: position.amount };
+  for (const [token, amount] of Object.entries(amounts)) {
+    context.portfolio.addBalance(token, amount);
+  }
+  return undefined;
+}
+
+/**
+ * Sell an asset a stop or target closed into cash at its fill price, and record the exit
+ * Cash-equivalents, and assets when cash has no price, stay in the wallet.
+ */
+function realizeExit(position: Position, fillPrice: number, context: ExecutionContext): void {
+  const { portfolio } = context;
+  const cash = portfolio.getCashToken();
+  const cashPrice = portfolio.getPrice(cash, context.prices) ?? 0;
+  const gasCost = getGasCost(context, GAS_UNITS.exit);
+
+  if (portfolio.isCashEquivalent(position.asset) || cashPrice <= 0) {
+    portfolio.recordTrade({
+      timestamp: context.timestamp,
+      type: 'exit',
+      inputToken: position.asset,
+      inputAmount: position.amount,
+      price: fillPrice,
+      fees: 0,
+      gasCost,
+    });
+    return;
+  }
+
+  const quote = quoteSwap(
+    'uniswap',
+    position.asset,
+    cash,
+    position.amount,
+    fillPrice,
+    cashPrice,
+    context.pools
+  );
+  portfolio.subtractBalance(position.asset, position.amount);
+  portfolio.addBalance(cash, quote.outputAmount);
+  portfolio.recordTrade({
+    timestamp: context.timestamp,
+    type: 'exit',
+    inputToken: position.asset,
+    outputToken: cash,
+    inputAmount: position.amount,
+    outputAmount: quote.outputAmount,
+    price: fillPrice,
+    slippage: quote.priceImpact * 100,
+    fees: quote.fee * fillPrice,
+    gasCost,
+    inputValue: position.amount * fillPrice,
+    outputValue: quote.outputAmount * cashPrice,
+  });
+}
+
+/**
+ * Get the price range a position was exposed to during the current step
+ * Positions opened this step only see the current price.
+ */
+function getExposedCandle(position: Position, context: ExecutionContext): Candle | undefined {
+  const currentPrice = context.portfolio.getPrice(position.asset, context.prices) ?? 0;
+  if (currentPrice === 0) return undefined;
+
+  const candle = context.candles.get(position.asset);
+  if (!candle || position.entryTimestamp >= context.timestamp) {
+    return flatCandle(context.timestamp, currentPrice);
+  }
+  return candle;
+}
+
 /**
  * Execute a stop loss block
+ * Triggers on the intrabar low and sells to cash at the stop price, or at the open
+ * when the market gapped through it.
  */
 function executeStopLoss(block: LegoBlock, context: ExecutionContext): ExecutionResult {
   const { percentage } = block.params;
   const maxDrawdown = Number(percentage) || 10; // Default 10%
 
   // Calculate current drawdown
-  const positions = context.portfolio.getPositions();
+  const positions = getExitablePositions(context);
   if (positions.length === 0) {
     return {
       success: true,
@@ -281,35 +490,29 @@ function executeStopLoss(block: LegoBlock, context: ExecutionContext): Execution
 
   let shouldExit = false;
   const exits: string[] = [];
+  const held: string[] = []; // Why triggered positions could not close
+  const fills: Array<{ asset: string; price: number }> = [];
 
   for (const position of positions) {
-    const currentPrice = context.prices.get(position.asset) || 0;
-    if (currentPrice === 0) continue;
+    const candle = getExposedCandle(position, context);
+    if (!candle) continue;
 
-    const entryValue = position.amount * position.entryPrice;
-    const currentValue = position.amount * currentPrice;
-    const drawdown = ((entryValue - currentValue) / entryValue) * 100;
+    const stopPrice = position.entryPrice * (1 - maxDrawdown / 100);
 
-    if (drawdown >= maxDrawdown) {
-      shouldExit = true;
+    if (candle.low <= stopPrice) {
+      const fillPrice = Math.min(candle.open, stopPrice);
 
       // Exit position
-      context.portfolio.removePosition(position.id);
-      context.portfolio.addBalance(position.asset, position.amount);
-
-      // Record exit trade
-      const gasCost = GAS_COSTS.stopLoss * currentPrice;
-      context.portfolio.recordTrade({
-        timestamp: context.timestamp,
-        type: 'exit',
-        inputToken: position.asset,
-        inputAmount: position.amount,
-        price: currentPrice,
-        fees: 0,
-        gasCost,
-      });
+      const blocked = closePosition(position, context);
+      if (blocked) {
+        held.push(blocked);
+        continue;
+      }
+      shouldExit = true;
+      realizeExit(position, fillPrice, context);
 
       exits.push(position.asset);
+      fills.push({ asset: position.asset, price: fillPrice });
     }
   }
 
@@ -318,29 +521,43 @@ function executeStopLoss(block: LegoBlock, context: ExecutionContext): Execution
     executed: shouldExit,
     message: shouldExit
       ? `Stop loss triggered: Exited positions in ${exits.join(', ')}`
-      : `Stop loss not triggered (max drawdown: ${maxDrawdown}%)`,
-    data: { exits, maxDrawdown },
+      : held.length > 0
+        ? `Stop loss triggered but held: ${held.join('; ')}`
+        : `Stop loss not triggered (max drawdown: ${maxDrawdown}%)`,
+    data: { exits, fills, held, maxDrawdown },
   };
 }
 
+/**
+ * Parse a block's schedule/timezone params, or describe why they are invalid
+ */
+function getSchedule(block: LegoBlock): CronSchedule | string {
+  const { schedule, timezone } = block.params;
+  try {
+    return parseCron(String(schedule ?? ''), timezone ? String(timezone) : undefined);
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid schedule';
+  }
+}
+
 /**
  * Execute a time trigger block
+ * Fires when a scheduled time falls in the minute ending at the current step; the
+ * engine adds every fire time to the timeline so none fall between steps.
  */
 function executeTimeTrigger(block: LegoBlock, context: ExecutionContext): ExecutionResult {
   const { schedule } = block.params;
-  // Simplified: check if current time matches schedule
-  // In real implementation, would parse cron expression
-  const now = new Date(context.timestamp);
-  const hour = now.getUTCHours();
-  const minute = now.getUTCMinutes();
-
-  // Simple check for "9 AM daily" pattern: "0 9 * * *"
-  if (schedule === '0 9 * * *' && hour === 9 && minute === 0) {
+  const cron = getSchedule(block);
+  if (typeof cron === 'string') {
+    return { success: false, executed: false, message: cron };
+  }
+
+  if (cron.isDue(context.timestamp)) {
     return {
       success: true,
       executed: true,
       message: 'Time trigger executed: Schedule matched',
-      data: { schedule, timestamp: context.timestamp },
+      data: { schedule, timezone: cron.timezone, timestamp: context.timestamp },
     };
   }
 
@@ -348,38 +565,139 @@ function executeTimeTrigger(block: LegoBlock, context: ExecutionContext): Execut
     success: true,
     executed: false,
     message: 'Time trigger not executed: Schedule not matched',
-    data: { schedule, timestamp: context.timestamp },
+    data: {
+      schedule,
+      timezone: cron.timezone,
+      timestamp: context.timestamp,
+      next: cron.next(context.timestamp),
+    },
   };
 }
 
+const TIMEFRAME_MS: Record<string, number> = {
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Sum traded volume over the trailing timeframe
+ * When bars are coarser than the timeframe, the latest bar is prorated.
+ */
+function getTrailingVolume(context: ExecutionContext, token: string, timeframeMs: number): number {
+  const windowBars = context.history.getBarsSince(token, context.timestamp - timeframeMs + 1);
+  if (windowBars.length > 0) {
+    return windowBars.reduce((sum, bar) => sum + (bar.volume ?? 0), 0);
+  }
+
+  const recent = context.history.getBars(token, 2);
+  const latestBar = recent[recent.length - 1];
+  const previous = recent.length > 1 ? recent[0] : undefined;
+  if (!latestBar) return 0;
+  if (!previous) return latestBar.volume ?? 0;
+  const barDuration = latestBar.timestamp - previous.timestamp;
+  return (latestBar.volume ?? 0) * Math.min(1, timeframeMs / barDuration);
+}
+
 /**
  * Execute a volume trigger block
  */
 function executeVolumeTrigger(block: LegoBlock, context: ExecutionContext): ExecutionResult {
   const { asset, minVolume, timeframe } = block.params;
-  // Simplified: would need historical volume data
-  // For now, simulate based on price movement
-  const price = context.prices.get(String(asset)) || 0;
-  const simulatedVolume = price * 1000000; // Simplified volume calculation
+  const token = String(asset);
+  const timeframeMs = TIMEFRAME_MS[String(timeframe)] ?? 24 * 60 * 60 * 1000;
+
+  const bars = context.history.getBars(token);
+  if (!bars.some((bar) => bar.volume !== undefined)) {
+    return {
+      success: true,
+      executed: false,
+      message: `Volume trigger not evaluated: no volume data for ${token}`,
+      data: { requiredVolume: Number(minVolume) || 0 },
+    };
+  }
+
+  const volume = getTrailingVolume(context, token, timeframeMs);
   const requiredVolume = Number(minVolume) || 0;
 
-  if (simulatedVolume >= requiredVolume) {
+  if (volume >= requiredVolume) {
     return {
       success: true,
       executed: true,
-      message: `Volume trigger met: ${asset} volume ${simulatedVolume.toFixed(0)} >= ${requiredVolume}`,
-      data: { volume: simulatedVolume, requiredVolume },
+      message: `Volume trigger met: ${asset} ${timeframe} volume ${volume.toFixed(0)} >= ${requiredVolume}`,
+      data: { volume, requiredVolume, timeframe },
     };
   }
 
   return {
     success: true,
     executed: false,
-    message: `Volume trigger not met: ${asset} volume ${simulatedVolume.toFixed(0)} < ${requiredVolume}`,
-    data: { volume: simulatedVolume, requiredVolume },
+    message: `Volume trigger not met: ${asset} ${timeframe} volume ${volume.toFixed(0)} < ${requiredVolume}`,
+    data: { volume, requiredVolume, timeframe },
   };
 }
 
+/**
+ * Calculate the current value of a technical indicator from price history
+ */
+function calculateIndicator(
+  indicator: string,
+  candles: Candle[],
+  period: number | undefined,
+  band: string
+): { value: number; details: Record<string, number> } {
+  const closes = candles.map((candle) => candle.close);
+  const highs = candles.map((candle) => candle.high);
+  const lows = candles.map((candle) => candle.low);
+
+  switch (indicator) {
+    case 'RSI': {
+      const value = latest(rsi(closes, period ?? DEFAULT_INDICATOR_PERIODS.RSI));
+      return { value, details: { rsi: value } };
+    }
+    case 'MACD': {
+      const result = macd(closes);
+      const details = {
+        macd: latest(result.macd),
+        signal: latest(result.signal),
+        histogram: latest(result.histogram),
+      };
+      return { value: details.macd, details };
+    }
+    case 'BB': {
+      const result = bollingerBands(closes, period ?? DEFAULT_INDICATOR_PERIODS.BB);
+      const details = {
+        upper: latest(result.upper),
+        middle: latest(result.middle),
+        lower: latest(result.lower),
+      };
+      const value =
+        band === 'upper' ? details.upper : band === 'middle' ? details.middle : details.lower;
+      return { value, details };
+    }
+    case 'MA': {
+      const value = latest(sma(closes, period ?? DEFAULT_INDICATOR_PERIODS.MA));
+      return { value, details: { sma: value } };
+    }
+    case 'EMA': {
+      const value = latest(ema(closes, period ?? DEFAULT_INDICATOR_PERIODS.EMA));
+      return { value, details: { ema: value } };
+    }
+    case 'ATR': {
+      const value = latest(atr(highs, lows, closes, period ?? DEFAULT_INDICATOR_PERIODS.ATR));
+      return { value, details: { atr: value } };
+    }
+    case 'STOCH': {
+      const result = stochastic(highs, lows, closes, period ?? DEFAULT_INDICATOR_PERIODS.STOCH);
+      const details = { k: latest(result.k), d: latest(result.d) };
+      return { value: details.k, details };
+    }
+    default:
+      throw new Error(`Unsupported indicator: ${indicator}`);
+  }
+}
+
 /**
  * Execute a technical indicator trigger block
  */
@@ -387,25 +705,36 @@ function executeTechnicalIndicatorTrigger(
   block: LegoBlock,
   context: ExecutionContext
 ): ExecutionResult {
-  const { asset, indicator, condition, value, period } = block.params;
-  const price = context.prices.get(String(asset)) || 0;
+  const { asset, indicator, condition, value, period, band } = block.params;
+  const token = String(asset);
 
-  // Simplified indicator calculation
-  // In real implementation, would calculate actual RSI, MACD, etc.
-  let indicatorValue = 0;
-  switch (indicator) {
-    case 'RSI':
-      indicatorValue = 50 + (Math.random() - 0.5) * 40; // Simulated RSI 30-70
-      break;
-    case 'MACD':
-      indicatorValue = (Math.random() - 0.5) * 100; // Simulated MACD
-      break;
-    case 'BB':
-      indicatorValue = price * 0.95; // Simulated Bollinger Band
-      break;
-    case 'MA':
-      indicatorValue = price; // Moving average = current price (simplified)
-      break;
+  const candles = context.history.getCandles(token);
+  const indicatorPeriod = period !== undefined ? Number(period) : undefined;
+
+  let indicatorValue: number;
+  let details: Record<string, number>;
+  try {
+    ({ value: indicatorValue, details } = calculateIndicator(
+      String(indicator),
+      candles,
+      indicatorPeriod,
+      band ? String(band) : 'lower'
+    ));
+  } catch (error) {
+    return {
+      success: false,
+      executed: false,
+      message: error instanceof Error ? error.message : 'Indicator calculation failed',
+    };
+  }
+
+  if (Number.isNaN(indicatorValue)) {
+    return {
+      success: true,
+      executed: false,
+      message: `${indicator} trigger not evaluated: insufficient price history for ${token} (${candles.length} bars)`,
+      data: { indicator, bars: candles.length },
+    };
   }
 
   const targetValue = Number(value) || 0;
@@ -435,7 +764,7 @@ function executeTechnicalIndicatorTrigger(
     message: conditionMet
       ? `${indicator} trigger met: ${indicatorValue.toFixed(2)} ${condition} ${targetValue}`
       : `${indicator} trigger not met: ${indicatorValue.toFixed(2)} ${condition} ${targetValue}`,
-    data: { indicator, indicatorValue, targetValue, conditionMet },
+    data: { indicator, indicatorValue, targetValue, conditionMet, ...details },
   };
 }
 
@@ -445,21 +774,9 @@ function executeTechnicalIndicatorTrigger(
 function executeAaveBorrow(block: LegoBlock, context: ExecutionContext): ExecutionResult {
   const { asset, amount, interestRateMode } = block.params;
   const token = String(asset);
-  const borrowAmount = Number(amount) || 0;
-
-  // Check if user has collateral (simplified check)
-  const positions = context.portfolio.getPositions();
-  const hasCollateral = positions.some((p) => p.protocol === 'Aave' && p.type === 'supply');
-
-  if (!hasCollateral) {
-    return {
-      success: false,
-      executed: false,
-      message: 'Cannot borrow: No collateral supplied to Aave',
-    };
-  }
+  let borrowAmount = Number(amount) || 0;
 
-  const price = context.prices.get(token) || 0;
+  const price = context.portfolio.getPrice(token, context.prices) ?? 0;
   if (price === 0) {
     return {
       success: false,
@@ -468,20 +785,18 @@ function executeAaveBorrow(block: LegoBlock, context: ExecutionContext): Executi
     };
   }
 
-  try {
-    context.portfolio.addBalance(token, borrowAmount);
+  // Risk limits may shrink or veto the order
+  const review = reviewOrder(context, block, 'borrow', token, borrowAmount, price);
+  if (review.amount <= 0) return vetoedResult(review);
+  borrowAmount = review.amount;
 
-    // Add debt position
-    context.portfolio.addPosition({
-      type: 'borrow',
-      asset: token,
-      amount: borrowAmount,
-      entryPrice: price,
-      entryTimestamp: context.timestamp,
-      protocol: 'Aave',
-    });
+  try {
+    // Variable-rate debt; the account rejects borrows beyond the collateral's capacity
+    const account = getLendingAccount(context, 'Aave');
+    account.borrow(token, borrowAmount, price, context.prices, context.timestamp);
+    const healthFactor = account.getHealthFactor(context.prices);
 
-    const gasCost = GAS_COSTS.borrow * price;
+    const gasCost = getGasCost(context, GAS_UNITS.borrow);
     context.portfolio.recordTrade({
       timestamp: context.timestamp,
       type: 'borrow',
@@ -495,8 +810,8 @@ function executeAaveBorrow(block: LegoBlock, context: ExecutionContext): Executi
     return {
       success: true,
       executed: true,
-      message: `Borrowed ${borrowAmount} ${token} from Aave`,
-      data: { amount: borrowAmount, interestRateMode, gasCost },
+      message: `Borrowed ${borrowAmount} ${token} from Aave (health factor ${healthFactor.toFixed(2)})`,
+      data: { amount: borrowAmount, interestRateMode, healthFactor, gasCost },
     };
   } catch (error) {
     return {
@@ -515,40 +830,37 @@ function executeAaveRepay(block: LegoBlock, context: ExecutionContext): Executio
   const token = String(asset);
   const repayAmount = Number(amount) || 0;
 
-  const balance = context.portfolio.getBalance(token);
-  if (balance < repayAmount) {
+  const account = getLendingAccount(context, 'Aave');
+  const debt = account.getDebt(token);
+  if (debt <= 0) {
     return {
       success: false,
       executed: false,
-      message: `Insufficient balance to repay: ${token}. Have ${balance}, need ${repayAmount}`,
+      message: `No debt to repay for ${token}`,
     };
   }
 
-  // Find and remove debt position
-  const positions = context.portfolio.getPositions();
-  const debtPosition = positions.find(
-    (p) => p.protocol === 'Aave' && p.type === 'borrow' && p.asset === token
-  );
-
-  if (!debtPosition) {
+  // Repaying more than the outstanding debt only repays the debt
+  const dueAmount = Math.min(repayAmount, debt);
+  const balance = context.portfolio.getBalance(token);
+  if (balance < dueAmount) {
     return {
       success: false,
       executed: false,
-      message: `No debt to repay for ${token}`,
+      message: `Insufficient balance to repay: ${token}. Have ${balance}, need ${dueAmount}`,
     };
   }
 
-  const price = context.prices.get(token) || 0;
+  const price = context.portfolio.getPrice(token, context.prices) ?? 0;
   try {
-    context.portfolio.subtractBalance(token, repayAmount);
-    context.portfolio.removePosition(debtPosition.id);
+    const repaid = account.repay(token, dueAmount);
 
-    const gasCost = GAS_COSTS.repay * price;
+    const gasCost = getGasCost(context, GAS_UNITS.repay);
     context.portfolio.recordTrade({
       timestamp: context.timestamp,
       type: 'repay',
       inputToken: token,
-      inputAmount: repayAmount,
+      inputAmount: repaid,
       price,
       fees: 0,
       gasCost,
@@ -557,8 +869,8 @@ function executeAaveRepay(block: LegoBlock, context: ExecutionContext): Executio
     return {
       success: true,
       executed: true,
-      message: `Repaid ${repayAmount} ${token} to Aave`,
-      data: { amount: repayAmount, gasCost },
+      message: `Repaid ${repaid} ${token} to Aave`,
+      data: { amount: repaid, remainingDebt: account.getDebt(token), interestRateMode, gasCost },
     };
   } catch (error) {
     return {
@@ -577,32 +889,12 @@ function executeAaveWithdraw(block: LegoBlock, context: ExecutionContext): Execu
   const token = String(asset);
   const withdrawAmount = Number(amount) || 0;
 
-  // Find supply position
-  const positions = context.portfolio.getPositions();
-  const supplyPosition = positions.find(
-    (p) => p.protocol === 'Aave' && p.type === 'supply' && p.asset === token
-  );
-
-  if (!supplyPosition || supplyPosition.amount < withdrawAmount) {
-    return {
-      success: false,
-      executed: false,
-      message: `Cannot withdraw: Insufficient supplied amount for ${token}`,
-    };
-  }
-
-  const price = context.prices.get(token) || 0;
+  const price = context.portfolio.getPrice(token, context.prices) ?? 0;
   try {
-    // Update position
-    supplyPosition.amount -= withdrawAmount;
-    if (supplyPosition.amount <= 0) {
-      context.portfolio.removePosition(supplyPosition.id);
-    }
-
-    // Add back to balance
-    context.portfolio.addBalance(token, withdrawAmount);
+    // Fails if the remaining collateral would not cover outstanding debt
+    getLendingAccount(context, 'Aave').withdraw(token, withdrawAmount, context.prices);
 
-    const gasCost = GAS_COSTS.withdraw * price;
+    const gasCost = getGasCost(context, GAS_UNITS.withdraw);
     context.portfolio.recordTrade({
       timestamp: context.timestamp,
       type: 'withdraw',
@@ -632,11 +924,13 @@ function executeAaveWithdraw(block: LegoBlock, context: ExecutionContext): Execu
  * Execute a Uniswap V3 liquidity block
  */
 function executeUniswapV3Liquidity(block: LegoBlock, context: ExecutionContext): ExecutionResult {
-  const { token0, token1, amount0, amount1, feeTier } = block.params;
+  const { token0, token1, amount0, amount1, feeTier, tickLower, tickUpper, rangeWidth } =
+    block.params;
   const t0 = String(token0);
   const t1 = String(token1);
   const amt0 = Number(amount0) || 0;
   const amt1 = Number(amount1) || 0;
+  const tier = Number(feeTier) || 3000;
 
   const balance0 = context.portfolio.getBalance(t0);
   const balance1 = context.portfolio.getBalance(t1);
@@ -649,30 +943,92 @@ function executeUniswapV3Liquidity(block: LegoBlock, context: ExecutionContext):
     };
   }
 
-  const price0 = context.prices.get(t0) || 0;
-  const price1 = context.prices.get(t1) || 0;
+  const price0 = context.portfolio.getPrice(t0, context.prices) ?? 0;
+  const price1 = context.portfolio.getPrice(t1, context.prices) ?? 0;
+
+  if (price0 <= 0 || price1 <= 0) {
+    return {
+      success: false,
+      executed: false,
+      message: `No price available for ${t0}/${t1}`,
+    };
+  }
+
+  // Pool price is token1 per token0; ticks default to ±rangeWidth% around it
+  const poolPrice = price0 / price1;
+  const width = Number(rangeWidth);
+  const [defaultLower, defaultUpper] = defaultTickRange(
+    poolPrice,
+    tier,
+    width > 0 && width < 100 ? width / 100 : undefined
+  );
+  // Pools only accept ticks on the fee tier's spacing, so explicit ticks widen onto it
+  const [lower, upper] = alignTickRange(
+    tickLower !== undefined ? Number(tickLower) : defaultLower,
+    tickUpper !== undefined ? Number(tickUpper) : defaultUpper,
+    tier
+  );
+
+  if (!Number.isFinite(lower) || !Number.isFinite(upper) || lower >= upper) {
+    return {
+      success: false,
+      executed: false,
+      message: `Invalid tick range: ${lower} to ${upper}`,
+    };
+  }
+
+  const priceLower = tickToPrice(lower);
+  const priceUpper = tickToPrice(upper);
+  const liquidity = liquidityForAmounts(poolPrice, priceLower, priceUpper, amt0, amt1);
+
+  if (!(liquidity > 0)) {
+    return {
+      success: false,
+      executed: false,
+      message: `Amounts provide no liquidity in range ${priceLower.toFixed(4)}-${priceUpper.toFixed(4)}`,
+    };
+  }
+
+  // Only the amounts the range can absorb leave the wallet
+  const used = amountsForLiquidity(liquidity, poolPrice, priceLower, priceUpper);
+  const used0 = Math.min(used.amount0, amt0);
+  const used1 = Math.min(used.amount1, amt1);
 
   try {
-    context.portfolio.subtractBalance(t0, amt0);
-    context.portfolio.subtractBalance(t1, amt1);
+    context.portfolio.subtractBalance(t0, used0);
+    context.portfolio.subtractBalance(t1, used1);
 
-    // Add liquidity position
-    context.portfolio.addPosition({
+    const position = context.portfolio.addPosition({
       type: 'liquidity',
       asset: `${t0}/${t1}`,
-      amount: amt0 + amt1, // Simplified
-      entryPrice: (price0 + price1) / 2,
+      amount: liquidity,
+      entryPrice: poolPrice,
       entryTimestamp: context.timestamp,
       protocol: 'Uniswap',
+      tokenAmounts: { [t0]: used0, [t1]: used1 },
+      concentrated: {
+        token0: t0,
+        token1: t1,
+        feeTier: tier,
+        tickLower: lower,
+        tickUpper: upper,
+        liquidity,
+        deposited: { [t0]: used0, [t1]: used1 },
+        fees: {},
+        price: poolPrice,
+        lastUpdate: context.timestamp,
+        inRangeMs: 0,
+        trackedMs: 0,
+      },
     });
 
-    const gasCost = GAS_COSTS.liquidity * price0;
+    const gasCost = getGasCost(context, GAS_UNITS.liquidity);
     context.portfolio.recordTrade({
       timestamp: context.timestamp,
       type: 'liquidity',
       inputToken: `${t0}/${t1}`,
-      inputAmount: amt0 + amt1,
-      price: (price0 + price1) / 2,
+      inputAmount: used0 * price0 + used1 * price1,
+      price: poolPrice,
       fees: 0,
       gasCost,
     });
@@ -680,8 +1036,17 @@ function executeUniswapV3Liquidity(block: LegoBlock, context: ExecutionContext):
     return {
       success: true,
       executed: true,
-      message: `Added liquidity: ${amt0} ${t0} + ${amt1} ${t1}`,
-      data: { amount0: amt0, amount1: amt1, feeTier, gasCost },
+      message: `Added liquidity: ${used0.toFixed(4)} ${t0} + ${used1.toFixed(2)} ${t1} in range ${priceLower.toFixed(2)}-${priceUpper.toFixed(2)}`,
+      data: {
+        positionId: position.id,
+        amount0: used0,
+        amount1: used1,
+        liquidity,
+        tickLower: lower,
+        tickUpper: upper,
+        feeTier: tier,
+        gasCost,
+      },
     };
   } catch (error) {
     return {
@@ -698,7 +1063,7 @@ function executeUniswapV3Liquidity(block: LegoBlock, context: ExecutionContext):
 function executeCompoundSupply(block: LegoBlock, context: ExecutionContext): ExecutionResult {
   const { asset, amount } = block.params;
   const token = String(asset);
-  const supplyAmount = Number(amount) || 0;
+  let supplyAmount = Number(amount) || 0;
 
   const balance = context.portfolio.getBalance(token);
   if (balance < supplyAmount) {
@@ -709,19 +1074,16 @@ function executeCompoundSupply(block: LegoBlock, context: ExecutionContext): Exe
     };
   }
 
-  const price = context.prices.get(token) || 0;
+  const price = context.portfolio.getPrice(token, context.prices) ?? 0;
+
+  // Risk limits may shrink or veto the order
+  const review = reviewOrder(context, block, 'supply', token, supplyAmount, price);
+  if (review.amount <= 0) return vetoedResult(review);
+  supplyAmount = review.amount;
   try {
-    context.portfolio.subtractBalance(token, supplyAmount);
-    context.portfolio.addPosition({
-      type: 'supply',
-      asset: token,
-      amount: supplyAmount,
-      entryPrice: price,
-      entryTimestamp: context.timestamp,
-      protocol: 'Compound',
-    });
+    getLendingAccount(context, 'Compound').supply(token, supplyAmount, price, context.timestamp);
 
-    const gasCost = GAS_COSTS.supply * price;
+    const gasCost = getGasCost(context, GAS_UNITS.supply);
     context.portfolio.recordTrade({
       timestamp: context.timestamp,
       type: 'supply',
@@ -753,33 +1115,20 @@ function executeCompoundSupply(block: LegoBlock, context: ExecutionContext): Exe
 function executeCompoundBorrow(block: LegoBlock, context: ExecutionContext): ExecutionResult {
   const { asset, amount } = block.params;
   const token = String(asset);
-  const borrowAmount = Number(amount) || 0;
-
-  // Check collateral (simplified)
-  const positions = context.portfolio.getPositions();
-  const hasCollateral = positions.some((p) => p.protocol === 'Compound' && p.type === 'supply');
+  let borrowAmount = Number(amount) || 0;
 
-  if (!hasCollateral) {
-    return {
-      success: false,
-      executed: false,
-      message: 'Cannot borrow: No collateral supplied to Compound',
-    };
-  }
+  const price = context.portfolio.getPrice(token, context.prices) ?? 0;
 
-  const price = context.prices.get(token) || 0;
+  // Risk limits may shrink or veto the order
+  const review = reviewOrder(context, block, 'borrow', token, borrowAmount, price);
+  if (review.amount <= 0) return vetoedResult(review);
+  borrowAmount = review.amount;
   try {
-    context.portfolio.addBalance(token, borrowAmount);
-    context.portfolio.addPosition({
-      type: 'borrow',
-      asset: token,
-      amount: borrowAmount,
-      entryPrice: price,
-      entryTimestamp: context.timestamp,
-      protocol: 'Compound',
-    });
+    const account = getLendingAccount(context, 'Compound');
+    account.borrow(token, borrowAmount, price, context.prices, context.timestamp);
+    const healthFactor = account.getHealthFactor(context.prices);
 
-    const gasCost = GAS_COSTS.borrow * price;
+    const gasCost = getGasCost(context, GAS_UNITS.borrow);
     context.portfolio.recordTrade({
       timestamp: context.timestamp,
       type: 'borrow',
@@ -793,8 +1142,8 @@ function executeCompoundBorrow(block: LegoBlock, context: ExecutionContext): Exe
     return {
       success: true,
       executed: true,
-      message: `Borrowed ${borrowAmount} ${token} from Compound`,
-      data: { amount: borrowAmount, gasCost },
+      message: `Borrowed ${borrowAmount} ${token} from Compound (health factor ${healthFactor.toFixed(2)})`,
+      data: { amount: borrowAmount, healthFactor, gasCost },
     };
   } catch (error) {
     return {
@@ -806,263 +1155,111 @@ function executeCompoundBorrow(block: LegoBlock, context: ExecutionContext): Exe
 }
 
 /**
- * Execute a Curve swap block
- */
-function executeCurveSwap(block: LegoBlock, context: ExecutionContext): ExecutionResult {
-  const { inputToken, outputToken, amount, slippage } = block.params;
-  const input = String(inputToken);
-  const output = String(outputToken);
-  const inputAmount = Number(amount) || 0;
-  const slippageTolerance = Number(slippage) || 0.1;
-
-  const balance = context.portfolio.getBalance(input);
-  if (balance < inputAmount) {
-    return {
-      success: false,
-      executed: false,
-      message: `Insufficient balance: ${input}`,
-    };
-  }
-
-  const inputPrice = context.prices.get(input) || 0;
-  const outputPrice = context.prices.get(output) || 0;
-
-  if (inputPrice === 0 || outputPrice === 0) {
-    return {
-      success: false,
-      executed: false,
-      message: `Missing price data`,
-    };
-  }
-
-  const priceRatio = inputPrice / outputPrice;
-  let outputAmount = inputAmount * priceRatio;
-  const slippageAmount = outputAmount * (slippageTolerance / 100);
-  outputAmount = outputAmount - slippageAmount;
-
-  const feeAmount = inputAmount * PROTOCOL_FEES.curve;
-  const inputAfterFee = inputAmount - feeAmount;
-  outputAmount = inputAfterFee * priceRatio - slippageAmount;
-
-  try {
-    context.portfolio.subtractBalance(input, inputAmount);
-    context.portfolio.addBalance(output, outputAmount);
-
-    const gasCost = GAS_COSTS.swap * inputPrice;
-    context.portfolio.recordTrade({
-      timestamp: context.timestamp,
-      type: 'swap',
-      inputToken: input,
-      outputToken: output,
-      inputAmount,
-      outputAmount,
-      price: outputPrice,
-      slippage: slippageTolerance,
-      fees: feeAmount * inputPrice,
-      gasCost,
-    });
-
-    return {
-      success: true,
-      executed: true,
-      message: `Swapped ${inputAmount} ${input} for ${outputAmount.toFixed(4)} ${output} on Curve`,
-      data: { inputAmount, outputAmount, fees: feeAmount, gasCost },
-    };
-  } catch (error) {
-    return {
-      success: false,
-      executed: false,
-      message: error instanceof Error ? error.message : 'Curve swap failed',
-    };
-  }
-}
-
-/**
- * Execute a Balancer swap block
- */
-function executeBalancerSwap(block: LegoBlock, context: ExecutionContext): ExecutionResult {
-  const { inputToken, outputToken, amount, slippage } = block.params;
-  const input = String(inputToken);
-  const output = String(outputToken);
-  const inputAmount = Number(amount) || 0;
-  const slippageTolerance = Number(slippage) || 0.5;
-
-  const balance = context.portfolio.getBalance(input);
-  if (balance < inputAmount) {
-    return {
-      success: false,
-      executed: false,
-      message: `Insufficient balance: ${input}`,
-    };
-  }
-
-  const inputPrice = context.prices.get(input) || 0;
-  const outputPrice = context.prices.get(output) || 0;
-
-  if (inputPrice === 0 || outputPrice === 0) {
-    return {
-      success: false,
-      executed: false,
-      message: `Missing price data`,
-    };
-  }
-
-  const priceRatio = inputPrice / outputPrice;
-  let outputAmount = inputAmount * priceRatio;
-  const slippageAmount = outputAmount * (slippageTolerance / 100);
-  outputAmount = outputAmount - slippageAmount;
-
-  const feeAmount = inputAmount * PROTOCOL_FEES.balancer;
-  const inputAfterFee = inputAmount - feeAmount;
-  outputAmount = inputAfterFee * priceRatio - slippageAmount;
-
-  try {
-    context.portfolio.subtractBalance(input, inputAmount);
-    context.portfolio.addBalance(output, outputAmount);
-
-    const gasCost = GAS_COSTS.swap * inputPrice;
-    context.portfolio.recordTrade({
-      timestamp: context.timestamp,
-      type: 'swap',
-      inputToken: input,
-      outputToken: output,
-      inputAmount,
-      outputAmount,
-      price: outputPrice,
-      slippage: slippageTolerance,
-      fees: feeAmount * inputPrice,
-      gasCost,
-    });
-
-    return {
-      success: true,
-      executed: true,
-      message: `Swapped ${inputAmount} ${input} for ${outputAmount.toFixed(4)} ${output} on Balancer`,
-      data: { inputAmount, outputAmount, fees: feeAmount, gasCost },
-    };
-  } catch (error) {
-    return {
-      success: false,
-      executed: false,
-      message: error instanceof Error ? error.message : 'Balancer swap failed',
-    };
-  }
-}
-
-/**
- * Execute a 1inch swap block
- */
-function executeOneInchSwap(block: LegoBlock, context: ExecutionContext): ExecutionResult {
-  const { inputToken, outputToken, amount, slippage } = block.params;
-  const input = String(inputToken);
-  const output = String(outputToken);
-  const inputAmount = Number(amount) || 0;
-  const slippageTolerance = Number(slippage) || 0.5;
-
-  const balance = context.portfolio.getBalance(input);
-  if (balance < inputAmount) {
-    return {
-      success: false,
-      executed: false,
-      message: `Insufficient balance: ${input}`,
-    };
-  }
-
-  const inputPrice = context.prices.get(input) || 0;
-  const outputPrice = context.prices.get(output) || 0;
-
-  if (inputPrice === 0 || outputPrice === 0) {
-    return {
-      success: false,
-      executed: false,
-      message: `Missing price data`,
-    };
-  }
-
-  // 1inch typically gets better rates (simulate 0.1% better)
-  const priceRatio = (inputPrice / outputPrice) * 1.001;
-  let outputAmount = inputAmount * priceRatio;
-  const slippageAmount = outputAmount * (slippageTolerance / 100);
-  outputAmount = outputAmount - slippageAmount;
-
-  const feeAmount = inputAmount * PROTOCOL_FEES.oneinch;
-  const inputAfterFee = inputAmount - feeAmount;
-  outputAmount = inputAfterFee * priceRatio - slippageAmount;
-
-  try {
-    context.portfolio.subtractBalance(input, inputAmount);
-    context.portfolio.addBalance(output, outputAmount);
-
-    const gasCost = GAS_COSTS.swap * inputPrice;
-    context.portfolio.recordTrade({
-      timestamp: context.timestamp,
-      type: 'swap',
-      inputToken: input,
-      outputToken: output,
-      inputAmount,
-      outputAmount,
-      price: outputPrice,
-      slippage: slippageTolerance,
-      fees: feeAmount * inputPrice,
-      gasCost,
-    });
-
-    return {
-      success: true,
-      executed: true,
-      message: `Swapped ${inputAmount} ${input} for ${outputAmount.toFixed(4)} ${output} via 1inch`,
-      data: { inputAmount, outputAmount, fees: feeAmount, gasCost },
-    };
-  } catch (error) {
-    return {
-      success: false,
-      executed: false,
-      message: error instanceof Error ? error.message : '1inch swap failed',
-    };
-  }
-}
-
-/**
- * Execute a flash loan block
+ * Execute a flash loan together with the blocks bundled into its transaction
+ * The loan plus the 0.09% premium is repaid when the bundle ends. If a bundled block
+ * fails or the balance cannot cover repayment, the whole bundle reverts to the
+ * pre-loan portfolio and only the gas of the failed transaction is paid, as in
+ * contracts/src/FlashLoanArbitrage.sol.
  */
-function executeFlashLoan(block: LegoBlock, context: ExecutionContext): ExecutionResult {
+export function executeFlashLoanBundle(
+  block: LegoBlock,
+  bundle: LegoBlock[],
+  context: ExecutionContext,
+  runBundle: () => ExecutionResult[] = () => executeBlockSequence(bundle, context)
+): ExecutionResult[] {
   const { asset, amount } = block.params;
   const token = String(asset);
   const loanAmount = Number(amount) || 0;
+  if (loanAmount <= 0) {
+    return [
+      { success: false, executed: false, message: 'Flash loan amount must be positive' },
+      ...bundle.map((bundled) => ({
+        success: true,
+        executed: false,
+        message: `Skipped ${bundled.label}: Flash loan failed`,
+      })),
+    ];
+  }
 
-  // Flash loans must be repaid in same transaction
-  // This is a simplified simulation
-  const price = context.prices.get(token) || 0;
-  const fee = loanAmount * 0.0009; // 0.09% flash loan fee
-
-  try {
-    // Temporarily add balance (must be repaid)
-    context.portfolio.addBalance(token, loanAmount);
-
-    const gasCost = GAS_COSTS.flashLoan * price;
+  const price = context.portfolio.getPrice(token, context.prices) ?? 0;
+  const premium = loanAmount * FLASH_LOAN_PREMIUM;
+  const totalOwed = loanAmount + premium;
+  const gasCost = getGasCost(context, GAS_UNITS.flashLoan);
+
+  const snapshot = context.portfolio.snapshot();
+  const startingBalance = context.portfolio.getBalance(token);
+  context.portfolio.addBalance(token, loanAmount);
+  context.portfolio.recordTrade({
+    timestamp: context.timestamp,
+    type: 'flash_loan',
+    inputToken: token,
+    inputAmount: loanAmount,
+    price,
+    fees: premium * price,
+    gasCost,
+  });
+
+  const results = runBundle();
+  const failed = results.find((result) => !result.success);
+  const balance = context.portfolio.getBalance(token);
+  const reason = failed
+    ? failed.message || 'Bundled block failed'
+    : balance < totalOwed
+      ? `Insufficient ${token} to repay ${totalOwed}: have ${balance}`
+      : undefined;
+
+  if (reason !== undefined) {
+    context.portfolio.restore(snapshot);
+    // A reverted transaction still pays for its gas
     context.portfolio.recordTrade({
       timestamp: context.timestamp,
       type: 'flash_loan',
       inputToken: token,
       inputAmount: loanAmount,
       price,
-      fees: fee * price,
+      fees: 0,
       gasCost,
     });
 
-    return {
+    const reverted = results.map((result, index) => {
+      const revertedResult: ExecutionResult = {
+        ...result,
+        executed: false,
+        message: `Reverted with flash loan: ${result.message ?? ''}`.trim(),
+      };
+      const bundled = bundle[index];
+      if (bundled) context.previousResults.set(bundled.id, revertedResult);
+      return revertedResult;
+    });
+    return [
+      {
+        success: false,
+        executed: false,
+        message: `Flash loan reverted: ${reason}`,
+        data: { amount: loanAmount, gasCost, bundleSize: bundle.length, reverted: true, reason },
+      },
+      ...reverted,
+    ];
+  }
+
+  context.portfolio.subtractBalance(token, totalOwed);
+  const profit = context.portfolio.getBalance(token) - startingBalance;
+  return [
+    {
       success: true,
       executed: true,
-      message: `Flash loan executed: ${loanAmount} ${token} (must be repaid)`,
-      data: { amount: loanAmount, fee, gasCost },
-    };
-  } catch (error) {
-    return {
-      success: false,
-      executed: false,
-      message: error instanceof Error ? error.message : 'Flash loan failed',
-    };
-  }
+      message: `Flash loan of ${loanAmount} ${token} repaid with ${premium} premium (profit ${profit})`,
+      data: {
+        amount: loanAmount,
+        fee: premium,
+        gasCost,
+        bundleSize: bundle.length,
+        reverted: false,
+        profit,
+      },
+    },
+    ...results,
+  ];
 }
 
 /**
@@ -1082,7 +1279,7 @@ function executeStaking(block: LegoBlock, context: ExecutionContext): ExecutionR
     };
   }
 
-  const price = context.prices.get(token) || 0;
+  const price = context.portfolio.getPrice(token, context.prices) ?? 0;
   try {
     context.portfolio.subtractBalance(token, stakeAmount);
     context.portfolio.addPosition({
@@ -1094,7 +1291,7 @@ function executeStaking(block: LegoBlock, context: ExecutionContext): ExecutionR
       protocol: 'Staking',
     });
 
-    const gasCost = GAS_COSTS.staking * price;
+    const gasCost = getGasCost(context, GAS_UNITS.staking);
     context.portfolio.recordTrade({
       timestamp: context.timestamp,
       type: 'staking',
@@ -1122,13 +1319,15 @@ function executeStaking(block: LegoBlock, context: ExecutionContext): ExecutionR
 
 /**
  * Execute a take profit block
+ * Triggers on the intrabar high and sells to cash at the target, or at the open
+ * when the market gapped through it.
  */
 function executeTakeProfit(block: LegoBlock, context: ExecutionContext): ExecutionResult {
   const { percentage, asset } = block.params;
   const profitTarget = Number(percentage) || 20;
   const targetAsset = asset ? String(asset) : null;
 
-  const positions = context.portfolio.getPositions();
+  const positions = getExitablePositions(context);
   if (positions.length === 0) {
     return {
       success: true,
@@ -1139,34 +1338,29 @@ function executeTakeProfit(block: LegoBlock, context: ExecutionContext): Executi
 
   let shouldExit = false;
   const exits: string[] = [];
+  const held: string[] = []; // Why triggered positions could not close
+  const fills: Array<{ asset: string; price: number }> = [];
 
   for (const position of positions) {
     if (targetAsset && position.asset !== targetAsset) continue;
 
-    const currentPrice = context.prices.get(position.asset) || 0;
-    if (currentPrice === 0) continue;
+    const candle = getExposedCandle(position, context);
+    if (!candle) continue;
 
-    const entryValue = position.amount * position.entryPrice;
-    const currentValue = position.amount * currentPrice;
-    const profit = ((currentValue - entryValue) / entryValue) * 100;
+    const targetPrice = position.entryPrice * (1 + profitTarget / 100);
 
-    if (profit >= profitTarget) {
+    if (candle.high >= targetPrice) {
+      const fillPrice = Math.max(candle.open, targetPrice);
+      const blocked = closePosition(position, context);
+      if (blocked) {
+        held.push(blocked);
+        continue;
+      }
       shouldExit = true;
-      context.portfolio.removePosition(position.id);
-      context.portfolio.addBalance(position.asset, position.amount);
-
-      const gasCost = GAS_COSTS.stopLoss * currentPrice;
-      context.portfolio.recordTrade({
-        timestamp: context.timestamp,
-        type: 'exit',
-        inputToken: position.asset,
-        inputAmount: position.amount,
-        price: currentPrice,
-        fees: 0,
-        gasCost,
-      });
+      realizeExit(position, fillPrice, context);
 
       exits.push(position.asset);
+      fills.push({ asset: position.asset, price: fillPrice });
     }
   }
 
@@ -1175,8 +1369,10 @@ function executeTakeProfit(block: LegoBlock, context: ExecutionContext): Executi
     executed: shouldExit,
     message: shouldExit
       ? `Take profit triggered: Exited positions in ${exits.join(', ')}`
-      : `Take profit not triggered (target: ${profitTarget}%)`,
-    data: { exits, profitTarget },
+      : held.length > 0
+        ? `Take profit triggered but held: ${held.join('; ')}`
+        : `Take profit not triggered (target: ${profitTarget}%)`,
+    data: { exits, fills, held, profitTarget },
   };
 }
 
@@ -1184,11 +1380,25 @@ function executeTakeProfit(block: LegoBlock, context: ExecutionContext): Executi
  * Execute a time exit block
  */
 function executeTimeExit(block: LegoBlock, context: ExecutionContext): ExecutionResult {
-  const { duration, from } = block.params;
+  const { duration, from, schedule } = block.params;
   const durationMs = Number(duration) || 86400000;
   const startPoint = from === 'entry' ? 'entry' : 'position';
 
-  const positions = context.portfolio.getPositions();
+  // With a schedule, positions held long enough exit only at scheduled times
+  const cron = schedule ? getSchedule(block) : undefined;
+  if (typeof cron === 'string') {
+    return { success: false, executed: false, message: cron };
+  }
+  if (cron && !cron.isDue(context.timestamp)) {
+    return {
+      success: true,
+      executed: false,
+      message: 'Time exit not triggered: Schedule not matched',
+      data: { duration: durationMs, next: cron.next(context.timestamp) },
+    };
+  }
+
+  const positions = getExitablePositions(context);
   if (positions.length === 0) {
     return {
       success: true,
@@ -1199,17 +1409,21 @@ function executeTimeExit(block: LegoBlock, context: ExecutionContext): Execution
 
   let shouldExit = false;
   const exits: string[] = [];
+  const held: string[] = [];
 
   for (const position of positions) {
     const timeElapsed = context.timestamp - position.entryTimestamp;
     if (timeElapsed >= durationMs) {
-      shouldExit = true;
-      const currentPrice = context.prices.get(position.asset) || 0;
+      const currentPrice = context.portfolio.getPrice(position.asset, context.prices) ?? 0;
 
-      context.portfolio.removePosition(position.id);
-      context.portfolio.addBalance(position.asset, position.amount);
+      const blocked = closePosition(position, context);
+      if (blocked) {
+        held.push(blocked);
+        continue;
+      }
+      shouldExit = true;
 
-      const gasCost = GAS_COSTS.stopLoss * currentPrice;
+      const gasCost = getGasCost(context, GAS_UNITS.exit);
       context.portfolio.recordTrade({
         timestamp: context.timestamp,
         type: 'exit',
@@ -1229,8 +1443,10 @@ function executeTimeExit(block: LegoBlock, context: ExecutionContext): Execution
     executed: shouldExit,
     message: shouldExit
       ? `Time exit triggered: Exited positions in ${exits.join(', ')}`
-      : `Time exit not triggered (duration: ${durationMs}ms)`,
-    data: { exits, duration: durationMs },
+      : held.length > 0
+        ? `Time exit triggered but held: ${held.join('; ')}`
+        : `Time exit not triggered (duration: ${durationMs}ms)`,
+    data: { exits, held, duration: durationMs },
   };
 }
 
@@ -1243,7 +1459,7 @@ function executeConditionalExit(block: LegoBlock, context: ExecutionContext): Ex
   // For now, check if condition string contains profit keywords
   const targetAsset = asset ? String(asset) : null;
 
-  const positions = context.portfolio.getPositions();
+  const positions = getExitablePositions(context);
   if (positions.length === 0) {
     return {
       success: true,
@@ -1265,14 +1481,18 @@ function executeConditionalExit(block: LegoBlock, context: ExecutionContext): Ex
   }
 
   const exits: string[] = [];
+  const held: string[] = [];
   for (const position of positions) {
     if (targetAsset && position.asset !== targetAsset) continue;
 
-    const currentPrice = context.prices.get(position.asset) || 0;
-    context.portfolio.removePosition(position.id);
-    context.portfolio.addBalance(position.asset, position.amount);
+    const currentPrice = context.portfolio.getPrice(position.asset, context.prices) ?? 0;
+    const blocked = closePosition(position, context);
+    if (blocked) {
+      held.push(blocked);
+      continue;
+    }
 
-    const gasCost = GAS_COSTS.stopLoss * currentPrice;
+    const gasCost = getGasCost(context, GAS_UNITS.exit);
     context.portfolio.recordTrade({
       timestamp: context.timestamp,
       type: 'exit',
@@ -1292,8 +1512,10 @@ function executeConditionalExit(block: LegoBlock, context: ExecutionContext): Ex
     message:
       exits.length > 0
         ? `Conditional exit triggered: Exited positions in ${exits.join(', ')}`
-        : 'Conditional exit not triggered',
-    data: { exits, condition },
+        : held.length > 0
+          ? `Conditional exit held: ${held.join('; ')}`
+          : 'Conditional exit not triggered',
+    data: { exits, held, condition },
   };
 }
 
@@ -1302,16 +1524,18 @@ function executeConditionalExit(block: LegoBlock, context: ExecutionContext): Ex
  */
 function executePositionSizing(block: LegoBlock, context: ExecutionContext): ExecutionResult {
   const { method, value, maxPosition } = block.params;
-  // Position sizing affects future block execution
-  // Store sizing rules in context for use by subsequent blocks
+  // Sizing rules apply to every later swap and supply through the risk manager
   const sizingValue = Number(value) || 10;
   const maxPos = maxPosition ? Number(maxPosition) : undefined;
+  const sizingMethod = (method as SizingMethod) || 'percentage';
+
+  context.risk?.setSizing({ method: sizingMethod, value: sizingValue, maxPosition: maxPos });
 
   return {
     success: true,
     executed: true,
-    message: `Position sizing set: ${method} (${sizingValue}%)`,
-    data: { method, value: sizingValue, maxPosition: maxPos },
+    message: `Position sizing set: ${sizingMethod} (${sizingValue}%)`,
+    data: { method: sizingMethod, value: sizingValue, maxPosition: maxPos },
   };
 }
 
@@ -1320,68 +1544,145 @@ function executePositionSizing(block: LegoBlock, context: ExecutionContext): Exe
  */
 function executeRiskLimits(block: LegoBlock, context: ExecutionContext): ExecutionResult {
   const { maxDrawdown, maxPositionSize, maxLeverage, maxDailyLoss } = block.params;
-  // Risk limits affect strategy execution
-  // Store limits in context for validation
+  const optional = (value: unknown) => (value === undefined ? undefined : Number(value));
+  const limits: RiskLimits = {
+    maxDrawdown: optional(maxDrawdown),
+    maxPositionSize: optional(maxPositionSize),
+    maxLeverage: optional(maxLeverage),
+    maxDailyLoss: optional(maxDailyLoss),
+  };
+
+  // Enforced by the risk manager on later orders and at each tick
+  context.risk?.setLimits(limits);
 
   return {
     success: true,
     executed: true,
     message: 'Risk limits set',
-    data: { maxDrawdown, maxPositionSize, maxLeverage, maxDailyLoss },
+    data: limits,
   };
 }
 
 /**
  * Execute a rebalancing block
+ * Sells overweight tokens into the cash token, then buys underweight tokens with
+ * it, through the chosen venue. 'both' rebalances on calendar dates only when
+ * drift also exceeds the threshold.
  */
 function executeRebalancing(block: LegoBlock, context: ExecutionContext): ExecutionResult {
-  const { targetAllocation, threshold, method } = block.params;
-  // Simplified rebalancing logic
-  // In real implementation, would calculate current allocation and rebalance
-
-  // Calculate total equity from balances and positions
-  let totalValue = 0;
-  for (const [token, balance] of context.portfolio.getPortfolio().balances.entries()) {
-    const price = context.prices.get(token) || 0;
-    totalValue += balance * price;
+  const { targetAllocation, threshold, method, frequency, venue, slippage } = block.params;
+  const rebalanceMethod = parseRebalanceMethod(method);
+  const driftThreshold = Number(threshold) || 0;
+  const frequencyKey = String(frequency || 'weekly');
+  const calendar: RebalanceFrequency =
+    frequencyKey in REBALANCE_FREQUENCY_MS ? (frequencyKey as RebalanceFrequency) : 'weekly';
+  const swapVenue = venue === 'curve' || venue === 'oneinch' ? venue : 'uniswap';
+
+  let targets: Record<string, number>;
+  try {
+    targets = parseTargetAllocation(targetAllocation);
+  } catch (error) {
+    return {
+      success: false,
+      executed: false,
+      message: error instanceof Error ? error.message : 'Invalid target allocation',
+    };
   }
-  for (const position of context.portfolio.getPositions()) {
-    const price = context.prices.get(position.asset) || 0;
-    totalValue += position.amount * price;
+
+  const unpriced = Object.keys(targets).filter(
+    (token) => !context.portfolio.getPrice(token, context.prices)
+  );
+  if (unpriced.length > 0) {
+    return {
+      success: false,
+      executed: false,
+      message: `Missing price data for ${unpriced.join(', ')}`,
+    };
   }
-  const allocations = targetAllocation as Record<string, number>;
 
-  let rebalanced = false;
+  // Net equity: debt reduces the value being allocated
+  const totalValue = context.portfolio.getEquityBreakdown(context.prices).total;
+  const allocation = measureAllocation(context.portfolio, context.prices, targets);
+  const maxDrift = Math.max(0, ...Object.values(allocation).map((entry) => Math.abs(entry.drift)));
+
+  const drifted = maxDrift > driftThreshold;
+  const due = context.rebalancing?.isDue(block.id, context.timestamp, calendar) ?? true;
+  const shouldRebalance =
+    rebalanceMethod === 'threshold'
+      ? drifted
+      : rebalanceMethod === 'calendar'
+        ? due
+        : due && drifted;
+
   const changes: string[] = [];
+  const legs: ExecutionResult[] = [];
+
+  // Each calendar date opens a new period, even when drift is within the threshold
+  if (due && rebalanceMethod !== 'threshold') {
+    context.rebalancing?.markChecked(block.id, context.timestamp);
+  }
+
+  if (shouldRebalance) {
+    const cash = context.portfolio.getCashToken();
+    const cashPrice = context.portfolio.getPrice(cash, context.prices) ?? 1;
+    const legBlock = (input: string, output: string, amount: number): LegoBlock => ({
+      ...block,
+      id: `${block.id}:${input === cash ? output : input}`,
+      params: { inputToken: input, outputToken: output, amount, slippage: Number(slippage) || 1 },
+    });
+    const entries = Object.entries(allocation).filter(([token]) => token !== cash);
+
+    // Sells first so buys can spend the proceeds
+    for (const [token, entry] of entries) {
+      const price = context.portfolio.getPrice(token, context.prices) ?? 0;
+      const excess = entry.value - (totalValue * entry.target) / 100;
+      const amount = Math.min(excess / price, context.portfolio.getBalance(token));
+      if (excess <= 0 || amount <= 0) continue;
+      const leg = executeSwap(legBlock(token, cash, amount), context, swapVenue, 1);
+      legs.push(leg);
+      if (leg.executed) changes.push(`-${amount.toFixed(4)} ${token}`);
+    }
 
-  for (const [token, targetPercent] of Object.entries(allocations)) {
-    const currentBalance = context.portfolio.getBalance(token);
-    const currentPrice = context.prices.get(token) || 0;
-    const currentValue = currentBalance * currentPrice;
-    const currentPercent = (currentValue / totalValue) * 100;
-    const targetValue = (totalValue * targetPercent) / 100;
-
-    const deviation = Math.abs(currentPercent - targetPercent);
-    if (deviation > Number(threshold)) {
-      rebalanced = true;
-      const diff = targetValue - currentValue;
-      if (diff > 0) {
-        // Need to buy more
-        changes.push(`+${diff.toFixed(2)} ${token}`);
-      } else {
-        // Need to sell
-        changes.push(`${diff.toFixed(2)} ${token}`);
+    for (const [token, entry] of entries) {
+      const shortfall = (totalValue * entry.target) / 100 - entry.value;
+      const amount = Math.min(shortfall / cashPrice, context.portfolio.getBalance(cash));
+      if (shortfall <= 0 || amount <= 0) continue;
+      const leg = executeSwap(legBlock(cash, token, amount), context, swapVenue, 1);
+      legs.push(leg);
+      if (leg.executed) {
+        const { outputAmount } = leg.data as { outputAmount: number };
+        changes.push(`+${outputAmount.toFixed(4)} ${token}`);
       }
     }
   }
 
+  const rebalanced = changes.length > 0;
+  context.rebalancing?.record({
+    timestamp: context.timestamp,
+    blockId: block.id,
+    allocation,
+    maxDrift,
+    rebalanced,
+  });
+
+  const failed = legs.filter((leg) => !leg.executed).map((leg) => leg.message);
+
   return {
     success: true,
     executed: rebalanced,
     message: rebalanced
       ? `Rebalancing executed: ${changes.join(', ')}`
-      : 'Rebalancing not needed (within threshold)',
-    data: { changes, targetAllocation, threshold, method },
+      : shouldRebalance
+        ? `Rebalancing attempted but no trades filled${failed.length > 0 ? `: ${failed.join('; ')}` : ''}`
+        : `Rebalancing not needed (max drift ${maxDrift.toFixed(2)}%)`,
+    data: {
+      changes,
+      allocation,
+      maxDrift,
+      method: rebalanceMethod,
+      venue: swapVenue,
+      legs: legs.map((leg) => leg.data),
+    },
   };
 }
 
@@ -1394,7 +1695,7 @@ export function executeBlock(block: LegoBlock, context: ExecutionContext): Execu
       return executePriceTrigger(block, context);
 
     case 'uniswap_swap':
-      return executeUniswapSwap(block, context);
+      return executeSwap(block, context, 'uniswap', 0.5);
 
     case 'aave_supply':
       return executeAaveSupply(block, context);
@@ -1430,16 +1731,17 @@ export function executeBlock(block: LegoBlock, context: ExecutionContext): Execu
       return executeCompoundBorrow(block, context);
 
     case 'curve_swap':
-      return executeCurveSwap(block, context);
+      return executeSwap(block, context, 'curve', 0.1);
 
     case 'balancer_swap':
-      return executeBalancerSwap(block, context);
+      return executeSwap(block, context, 'balancer', 0.5);
 
     case 'oneinch_swap':
-      return executeOneInchSwap(block, context);
+      return executeSwap(block, context, 'oneinch', 0.5);
 
     case 'flash_loan':
-      return executeFlashLoan(block, context);
+      // On its own the loan is repaid immediately; executeBlockSequence bundles the blocks after it
+      return executeFlashLoanBundle(block, [], context)[0] as ExecutionResult;
 
     case 'staking':
       return executeStaking(block, context);
@@ -1480,7 +1782,9 @@ export function executeBlockSequence(
 ): ExecutionResult[] {
   const results: ExecutionResult[] = [];
 
-  for (const block of blocks) {
+  for (let index = 0; index < blocks.length; index++) {
+    const block = blocks[index] as LegoBlock;
+
     // Check if previous block executed (for conditional blocks)
     if (block.category === 'PROTOCOL' || block.category === 'EXIT') {
       const previousResult = results[results.length - 1];
@@ -1495,6 +1799,21 @@ export function executeBlockSequence(
       }
     }
 
+    if (block.type === 'flash_loan') {
+      // The loan spans the next bundleSize blocks, or the rest of the sequence
+      const remaining = blocks.length - index - 1;
+      const requested = Math.floor(Number(block.params.bundleSize));
+      const size = Number.isFinite(requested)
+        ? Math.max(0, Math.min(requested, remaining))
+        : remaining;
+      const bundle = blocks.slice(index + 1, index + 1 + size);
+      const [loanResult, ...bundleResults] = executeFlashLoanBundle(block, bundle, context);
+      context.previousResults.set(block.id, loanResult);
+      results.push(loanResult as ExecutionResult, ...bundleResults);
+      index += size;
+      continue;
+    }
+
     const result = executeBlock(block, context);
     results.push(result);
 
@@ -0,0 +1,62 @@
+/**
+ * OHLCV candle helpers for backtesting
+ */
+
+import type { PriceDataPoint } from './dataFetcher';
+
+export interface Candle {
+  timestamp: number; // Bar close time
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // USD traded during the bar (0 when unknown)
+}
+
+/**
+ * Convert a price point to a candle
+ * Close-only points become flat candles (open = high = low = close).
+ */
+export function toCandle(point: PriceDataPoint): Candle {
+  const close = point.price;
+  const open = point.open ?? close;
+  return {
+    timestamp: point.timestamp,
+    open,
+    high: Math.max(point.high ?? close, open, close),
+    low: Math.min(point.low ?? close, open, close),
+    close,
+    volume: point.volume ?? 0,
+  };
+}
+
+/**
+ * Merge consecutive bars into one candle spanning all of them
+ */
+export function aggregateCandles(points: PriceDataPoint[]): Candle | undefined {
+  const [first, ...rest] = points.map(toCandle);
+  if (!first) return undefined;
+
+  return rest.reduce(mergeCandles, first);
+}
+
+/**
+ * Extend a candle with the bar that follows it
+ */
+export function mergeCandles(merged: Candle, candle: Candle): Candle {
+  return {
+    timestamp: candle.timestamp,
+    open: merged.open,
+    high: Math.max(merged.high, candle.high),
+    low: Math.min(merged.low, candle.low),
+    close: candle.close,
+    volume: merged.volume + candle.volume,
+  };
+}
+
+/**
+ * Flat candle for a single observed price
+ */
+export function flatCandle(timestamp: number, price: number): Candle {
+  return { timestamp, open: price, high: price, low: price, close: price, volume: 0 };
+}
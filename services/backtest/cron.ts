@@ -0,0 +1,297 @@
+/**
+ * Cron schedules evaluated in an IANA timezone
+ * Supports the five standard fields, lists, ranges, steps, month and weekday names,
+ * and the @hourly/@daily/@weekly/@monthly/@yearly macros.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// Search horizon for the next fire time; covers leap days on a given weekday
+const MAX_SEARCH_DAYS = 8 * 366;
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = [
+  'JAN',
+  'FEB',
+  'MAR',
+  'APR',
+  'MAY',
+  'JUN',
+  'JUL',
+  'AUG',
+  'SEP',
+  'OCT',
+  'NOV',
+  'DEC',
+];
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesOffset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES, namesOffset: 0 },
+];
+
+interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+    } catch {
+      throw new Error(`Unknown timezone: ${timezone}`);
+    }
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock time of an instant in a timezone
+ */
+function toWallClock(timestamp: number, timezone: string): WallClock {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(new Date(timestamp))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year ?? 1970,
+    month: parts.month ?? 1,
+    day: parts.day ?? 1,
+    hour: (parts.hour ?? 0) % 24,
+    minute: parts.minute ?? 0,
+    second: parts.second ?? 0,
+  };
+}
+
+/**
+ * UTC offset of a timezone at an instant, in milliseconds
+ */
+function getOffset(timestamp: number, timezone: string): number {
+  const wall = toWallClock(timestamp, timezone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return asUtc - (timestamp - (((timestamp % 1000) + 1000) % 1000));
+}
+
+function parseValue(token: string, spec: FieldSpec): number {
+  const index = spec.names?.indexOf(token.toUpperCase()) ?? -1;
+  const value = index >= 0 ? index + (spec.namesOffset ?? 0) : Number(token);
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new Error(`Invalid ${spec.name} in cron expression: ${token}`);
+  }
+  return value;
+}
+
+interface ParsedField {
+  values: Set<number>;
+  wildcard: boolean; // '*' or '*/n'; matters for the day-of-month/day-of-week rule
+}
+
+function parseField(field: string, spec: FieldSpec): ParsedField {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range = '', stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in cron ${spec.name}: ${part}`);
+    }
+
+    let start = spec.min;
+    let end = spec.max;
+    if (range !== '*') {
+      const [from = '', to] = range.split('-');
+      start = parseValue(from, spec);
+      end = to === undefined ? (stepText === undefined ? start : spec.max) : parseValue(to, spec);
+      if (end < start) {
+        throw new Error(`Invalid range in cron ${spec.name}: ${part}`);
+      }
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard: field === '*' || field.startsWith('*/') };
+}
+
+/**
+ * A parsed cron expression bound to a timezone
+ *
+ * Local times skipped by a DST change fire shifted forward by the gap (02:30 becomes
+ * 03:30 when clocks spring forward); times repeated when clocks fall back fire once,
+ * at the first occurrence.
+ */
+export class CronSchedule {
+  private minutes: number[];
+  private hours: number[];
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private restrictDayOfMonth: boolean;
+  private restrictDayOfWeek: boolean;
+
+  constructor(
+    readonly expression: string,
+    readonly timezone = 'UTC'
+  ) {
+    const normalized = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+    const fields = normalized.split(/\s+/);
+    if (fields.length !== 5) {
+      throw new Error(`Cron expression must have 5 fields: ${expression}`);
+    }
+    getFormatter(timezone);
+
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map((field, index) =>
+      parseField(field, FIELDS[index] as FieldSpec)
+    ) as [ParsedField, ParsedField, ParsedField, ParsedField, ParsedField];
+
+    this.minutes = [...minute.values].sort((a, b) => a - b);
+    this.hours = [...hour.values].sort((a, b) => a - b);
+    this.daysOfMonth = dayOfMonth.values;
+    this.months = month.values;
+    this.daysOfWeek = new Set([...dayOfWeek.values].map((day) => day % 7));
+    this.restrictDayOfMonth = !dayOfMonth.wildcard;
+    this.restrictDayOfWeek = !dayOfWeek.wildcard;
+  }
+
+  /**
+   * Fire times in [start, end], ascending
+   */
+  fireTimes(start: number, end: number): number[] {
+    const times: number[] = [];
+    const first = toWallClock(start - DAY_MS, this.timezone);
+    const last = toWallClock(end + DAY_MS, this.timezone);
+    const lastDay = Date.UTC(last.year, last.month - 1, last.day);
+
+    for (
+      let day = Date.UTC(first.year, first.month - 1, first.day);
+      day <= lastDay;
+      day += DAY_MS
+    ) {
+      for (const time of this.fireTimesOnDay(day)) {
+        if (time >= start && time <= end) times.push(time);
+      }
+    }
+    return [...new Set(times)].sort((a, b) => a - b);
+  }
+
+  /**
+   * First fire time strictly after a timestamp, if any within the search horizon
+   */
+  next(after: number): number | undefined {
+    const wall = toWallClock(after - DAY_MS, this.timezone);
+    const firstDay = Date.UTC(wall.year, wall.month - 1, wall.day);
+
+    for (let offset = 0; offset < MAX_SEARCH_DAYS; offset++) {
+      const upcoming = this.fireTimesOnDay(firstDay + offset * DAY_MS).filter(
+        (time) => time > after
+      );
+      if (upcoming.length > 0) return Math.min(...upcoming);
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether a fire time falls within the minute ending at a timestamp
+   */
+  isDue(timestamp: number): boolean {
+    const next = this.next(timestamp - MINUTE_MS);
+    return next !== undefined && next <= timestamp;
+  }
+
+  /**
+   * Fire times for one local calendar day, given as midnight UTC of that date
+   */
+  private fireTimesOnDay(day: number): number[] {
+    const date = new Date(day);
+    const month = date.getUTCMonth() + 1;
+    const dayOfMonth = date.getUTCDate();
+    if (!this.months.has(month) || !this.matchesDay(dayOfMonth, date.getUTCDay())) return [];
+
+    // Offsets either side of the day; they only differ around a DST change
+    const before = getOffset(day - DAY_MS, this.timezone);
+    const after = getOffset(day + 2 * DAY_MS, this.timezone);
+    const times: number[] = [];
+
+    for (const hour of this.hours) {
+      for (const minute of this.minutes) {
+        const wall = day + hour * 60 * MINUTE_MS + minute * MINUTE_MS;
+        times.push(before === after ? wall - before : this.resolveLocal(wall, before, after));
+      }
+    }
+    return times;
+  }
+
+  /**
+   * Convert a wall-clock time near a DST change to UTC
+   */
+  private resolveLocal(wall: number, before: number, after: number): number {
+    const candidates = [wall - before, wall - after].filter((timestamp) => {
+      const clock = toWallClock(timestamp, this.timezone);
+      const encoded = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute);
+      return encoded === wall;
+    });
+    // Skipped times keep the pre-change offset, which moves them forward by the gap
+    return candidates.length > 0 ? Math.min(...candidates) : wall - before;
+  }
+
+  /**
+   * Vixie cron rule: when both day fields are restricted, either may match
+   */
+  private matchesDay(dayOfMonth: number, dayOfWeek: number): boolean {
+    const domMatch = this.daysOfMonth.has(dayOfMonth);
+    const dowMatch = this.daysOfWeek.has(dayOfWeek);
+    if (this.restrictDayOfMonth && this.restrictDayOfWeek) return domMatch || dowMatch;
+    if (this.restrictDayOfMonth) return domMatch;
+    if (this.restrictDayOfWeek) return dowMatch;
+    return true;
+  }
+}
+
+/**
+ * Parse a cron expression for a timezone (default UTC)
+ */
+export function parseCron(expression: string, timezone?: string): CronSchedule {
+  return new CronSchedule(expression, timezone || 'UTC');
+}
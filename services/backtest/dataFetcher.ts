@@ -1,15 +1,18 @@
 /**
  * Historical price data fetcher for backtesting
- * Uses CoinGecko API (free, no API key required)
- * Implements rate limiting to respect API limits
+ * Delegates to a pluggable PriceDataProvider (CoinGecko by default)
  */
 
-import { generalRateLimiter, requestDeduplicator } from '../../utils/rateLimiter';
-import { logger } from '../../utils/logger';
+import { CoinGeckoPriceProvider } from './providers/coinGeckoProvider';
+import type { PriceDataProvider, PriceInterval } from './providers/types';
 
 export interface PriceDataPoint {
   timestamp: number;
-  price: number;
+  price: number; // Close price of the bar
+  open?: number; // OHLC fields are optional; close-only sources leave them unset
+  high?: number;
+  low?: number;
+  volume?: number; // USD traded during the bar, when the source provides it
 }
 
 export interface TokenPriceData {
@@ -17,164 +20,30 @@ export interface TokenPriceData {
   prices: PriceDataPoint[];
 }
 
-// CoinGecko token ID mapping
-const TOKEN_IDS: Record<string, string> = {
-  ETH: 'ethereum',
-  USDC: 'usd-coin',
-  USDT: 'tether',
-  DAI: 'dai',
-  WBTC: 'wrapped-bitcoin',
-  AAVE: 'aave',
-  UNI: 'uniswap',
-  LINK: 'chainlink',
-};
-
-const COINGECKO_API = 'https://api.coingecko.com/api/v3';
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-
-interface CacheEntry {
-  data: PriceDataPoint[];
-  timestamp: number;
-}
-
-const priceCache = new Map<string, CacheEntry>();
+const defaultProvider = new CoinGeckoPriceProvider();
 
 /**
- * Get CoinGecko token ID from symbol
+ * Get the provider used when a backtest does not select one
  */
-function getTokenId(symbol: string): string | null {
-  return TOKEN_IDS[symbol.toUpperCase()] || null;
+export function getDefaultPriceDataProvider(): PriceDataProvider {
+  return defaultProvider;
 }
 
 /**
- * Fetch historical price data from CoinGecko
+ * Fetch historical price data for a token
  */
 export async function fetchHistoricalPrices(
   token: string,
   startDate: Date,
   endDate: Date,
-  interval: 'hourly' | 'daily' = 'daily'
+  interval: PriceInterval = 'daily',
+  provider: PriceDataProvider = defaultProvider
 ): Promise<PriceDataPoint[]> {
-  const tokenId = getTokenId(token);
-  if (!tokenId) {
-    throw new Error(
-      `Unsupported token: ${token}. Supported tokens: ${Object.keys(TOKEN_IDS).join(', ')}`
-    );
-  }
-
-  // Check cache
-  const cacheKey = `${tokenId}-${startDate.getTime()}-${endDate.getTime()}-${interval}`;
-  const cached = priceCache.get(cacheKey);
-  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-    return cached.data;
-  }
-
-  try {
-    // Calculate days between dates
-    const days = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-
-    // CoinGecko free tier limit: max 90 days for historical data
-    const maxDays = 90;
-    if (days > maxDays) {
-      // For longer periods, fetch in chunks
-      return await fetchHistoricalPricesChunked(tokenId, startDate, endDate, interval);
-    }
-
-    const url = `${COINGECKO_API}/coins/${tokenId}/market_chart?vs_currency=usd&days=${days}&interval=${interval === 'hourly' ? 'hourly' : 'daily'}`;
-
-    // Use rate limiter and deduplication
-    const response = await generalRateLimiter.enqueue(
-      () =>
-        requestDeduplicator.deduplicate(cacheKey, async () => {
-          const res = await fetch(url);
-          if (!res.ok) {
-            if (res.status === 429) {
-              // Rate limited - throw error to trigger retry in rate limiter
-              throw new Error('Rate limit exceeded (429)');
-            }
-            throw new Error(`CoinGecko API error: ${res.status} ${res.statusText}`);
-          }
-          return res;
-        }),
-      `historical-${cacheKey}`
-    ) as Response;
-
-    if (!response.ok) {
-      throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-
-    // Extract prices from response
-    const prices: PriceDataPoint[] = (data.prices || []).map(
-      ([timestamp, price]: [number, number]) => ({
-        timestamp,
-        price,
-      })
-    );
-
-    // Cache the result
-    priceCache.set(cacheKey, {
-      data: prices,
-      timestamp: Date.now(),
-    });
-
-    return prices;
-  } catch (error) {
-    logger.error(`Error fetching prices for ${token}`, error instanceof Error ? error : new Error(String(error)), 'DataFetcher');
-    throw error;
-  }
-}
-
-/**
- * Fetch historical prices in chunks for periods > 90 days
- */
-async function fetchHistoricalPricesChunked(
-  tokenId: string,
-  startDate: Date,
-  endDate: Date,
-  interval: 'hourly' | 'daily'
-): Promise<PriceDataPoint[]> {
-  const allPrices: PriceDataPoint[] = [];
-  let currentStart = new Date(startDate);
-
-  while (currentStart < endDate) {
-    const currentEnd = new Date(currentStart);
-    currentEnd.setDate(currentEnd.getDate() + 89); // 90 days max
-
-    if (currentEnd > endDate) {
-      currentEnd.setTime(endDate.getTime());
-    }
-
-    const chunkPrices = await fetchHistoricalPrices(
-      Object.keys(TOKEN_IDS).find((k) => TOKEN_IDS[k] === tokenId) || tokenId,
-      currentStart,
-      currentEnd,
-      interval
-    );
-
-    allPrices.push(...chunkPrices);
-
-    // Move to next chunk
-    currentStart = new Date(currentEnd);
-    currentStart.setDate(currentStart.getDate() + 1);
-
-    // Rate limiting: wait 1 second between chunks
-    if (currentStart < endDate) {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-    }
-  }
-
-  // Remove duplicates and sort by timestamp
-  const uniquePrices = Array.from(new Map(allPrices.map((p) => [p.timestamp, p])).values()).sort(
-    (a, b) => a.timestamp - b.timestamp
-  );
-
-  return uniquePrices;
+  return provider.fetchPrices(token, startDate, endDate, interval);
 }
 
 /**
- * Get price at a specific timestamp (interpolate if needed)
+ * Get close price at a specific timestamp (interpolate if needed)
  */
 export function getPriceAtTimestamp(prices: PriceDataPoint[], timestamp: number): number {
   if (prices.length === 0) {
@@ -217,7 +86,8 @@ export async function fetchMultipleTokenPrices(
   tokens: string[],
   startDate: Date,
   endDate: Date,
-  interval: 'hourly' | 'daily' = 'daily'
+  interval: PriceInterval = 'daily',
+  provider: PriceDataProvider = defaultProvider
 ): Promise<Map<string, PriceDataPoint[]>> {
   const priceMap = new Map<string, PriceDataPoint[]>();
 
@@ -229,7 +99,7 @@ export async function fetchMultipleTokenPrices(
     }
 
     try {
-      const prices = await fetchHistoricalPrices(token, startDate, endDate, interval);
+      const prices = await fetchHistoricalPrices(token, startDate, endDate, interval, provider);
       priceMap.set(token, prices);
     } catch (error) {
       console.error(`Failed to fetch prices for ${token}:`, error);
@@ -242,8 +112,8 @@ export async function fetchMultipleTokenPrices(
 }
 
 /**
- * Clear price cache
+ * Clear the default provider's price cache
  */
 export function clearPriceCache(): void {
-  priceCache.clear();
+  defaultProvider.clearCache();
 }
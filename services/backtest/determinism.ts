@@ -0,0 +1,113 @@
+/**
+ * Deterministic clock, random source and hashing for reproducible backtests
+ */
+
+export interface Clock {
+  now(): number; // Epoch milliseconds
+}
+
+export interface RandomSource {
+  next(): number; // Uniform in [0, 1)
+}
+
+export const DEFAULT_BACKTEST_SEED = 1;
+
+/**
+ * Wall-clock time, for code running outside a simulation
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+/**
+ * Clock driven by the backtest loop instead of the wall clock
+ */
+export class SimulationClock implements Clock {
+  constructor(private current = 0) {}
+
+  now(): number {
+    return this.current;
+  }
+
+  /**
+   * Move simulated time to a timestamp
+   */
+  set(timestamp: number): void {
+    this.current = timestamp;
+  }
+}
+
+/**
+ * Create a seeded pseudo-random source (mulberry32)
+ * Same seed, same sequence on every platform.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return {
+    next: () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+  };
+}
+
+/**
+ * Serialize a value to JSON with object keys sorted
+ * Maps become sorted entry lists and Dates become ISO strings, so equal
+ * values always serialize identically.
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(normalize(value));
+}
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Map) {
+    return Array.from(value.entries())
+      .map(([key, entry]) => [String(key), normalize(entry)] as const)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const entry = (value as Record<string, unknown>)[key];
+      if (entry !== undefined && typeof entry !== 'function') {
+        sorted[key] = normalize(entry);
+      }
+    }
+    return sorted;
+  }
+  return value;
+}
+
+/**
+ * Hash a string to a 53-bit hex digest (cyrb53)
+ * Not cryptographic; fast and synchronous so it runs in web workers.
+ */
+export function hashString(input: string, seed = 0): string {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  const digest = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return digest.toString(16).padStart(14, '0');
+}
+
+/**
+ * Hash any value via its stable serialization
+ */
+export function hashValue(value: unknown): string {
+  return hashString(stableStringify(value));
+}
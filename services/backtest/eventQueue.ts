@@ -0,0 +1,247 @@
+/**
+ * Time-ordered event queue driving the backtest timeline
+ * Each data bar, cron fire, price cross, interest tick and equity sample is an event,
+ * so run time scales with the number of events rather than the time resolution.
+ */
+
+import type { LegoBlock } from '../../types';
+import { toCandle } from './candles';
+import { parseCron } from './cron';
+import type { PriceDataPoint } from './dataFetcher';
+
+export type BacktestEventType = 'bar' | 'price_cross' | 'schedule' | 'interest' | 'sample';
+
+export interface BacktestEvent {
+  timestamp: number;
+  type: BacktestEventType;
+  token?: string; // bar and price_cross events
+  price?: number; // price_cross events: fill price on the bar that crossed the level
+  blockId?: string; // schedule and price_cross events
+}
+
+// Events sharing a timestamp are handled as one batch in this order
+const EVENT_PRIORITY: Record<BacktestEventType, number> = {
+  bar: 0,
+  price_cross: 1,
+  schedule: 2,
+  interest: 3,
+  sample: 4,
+};
+
+// Event types that make the strategy's blocks run
+export const BLOCK_EVENT_TYPES: ReadonlySet<BacktestEventType> = new Set([
+  'bar',
+  'price_cross',
+  'schedule',
+]);
+
+export const INTEREST_TICK_MS = 24 * 60 * 60 * 1000;
+
+interface QueuedEvent {
+  event: BacktestEvent;
+  sequence: number; // Insertion order breaks remaining ties deterministically
+}
+
+/**
+ * Binary min-heap of events keyed by timestamp, then type priority, then insertion order
+ */
+export class EventQueue {
+  private heap: QueuedEvent[] = [];
+  private sequence = 0;
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  push(event: BacktestEvent): void {
+    this.heap.push({ event, sequence: this.sequence++ });
+    this.siftUp(this.heap.length - 1);
+  }
+
+  pushAll(events: Iterable<BacktestEvent>): void {
+    for (const event of events) {
+      this.push(event);
+    }
+  }
+
+  peek(): BacktestEvent | undefined {
+    return this.heap[0]?.event;
+  }
+
+  pop(): BacktestEvent | undefined {
+    const top = this.heap[0];
+    const last = this.heap.pop();
+    if (top && last && this.heap.length > 0) {
+      this.heap[0] = last;
+      this.siftDown(0);
+    }
+    return top?.event;
+  }
+
+  /**
+   * Remove every event at the earliest timestamp
+   */
+  popBatch(): BacktestEvent[] {
+    const batch: BacktestEvent[] = [];
+    const timestamp = this.peek()?.timestamp;
+    while (this.size > 0 && this.peek()?.timestamp === timestamp) {
+      batch.push(this.pop() as BacktestEvent);
+    }
+    return batch;
+  }
+
+  private before(a: QueuedEvent, b: QueuedEvent): boolean {
+    if (a.event.timestamp !== b.event.timestamp) return a.event.timestamp < b.event.timestamp;
+    const priority = EVENT_PRIORITY[a.event.type] - EVENT_PRIORITY[b.event.type];
+    return priority !== 0 ? priority < 0 : a.sequence < b.sequence;
+  }
+
+  private siftUp(index: number): void {
+    let child = index;
+    while (child > 0) {
+      const parent = (child - 1) >> 1;
+      if (!this.before(this.heap[child] as QueuedEvent, this.heap[parent] as QueuedEvent)) break;
+      this.swap(child, parent);
+      child = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    let parent = index;
+    for (;;) {
+      const left = parent * 2 + 1;
+      const right = left + 1;
+      let first = parent;
+      if (
+        left < this.heap.length &&
+        this.before(this.heap[left] as QueuedEvent, this.heap[first] as QueuedEvent)
+      ) {
+        first = left;
+      }
+      if (
+        right < this.heap.length &&
+        this.before(this.heap[right] as QueuedEvent, this.heap[first] as QueuedEvent)
+      ) {
+        first = right;
+      }
+      if (first === parent) return;
+      this.swap(parent, first);
+      parent = first;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    const held = this.heap[a] as QueuedEvent;
+    this.heap[a] = this.heap[b] as QueuedEvent;
+    this.heap[b] = held;
+  }
+}
+
+/**
+ * One event per fetched bar inside the window
+ */
+export function barEvents(
+  tokenPrices: Map<string, PriceDataPoint[]>,
+  start: number,
+  end: number
+): BacktestEvent[] {
+  const events: BacktestEvent[] = [];
+  for (const [token, points] of tokenPrices.entries()) {
+    for (const point of points) {
+      if (point.timestamp >= start && point.timestamp <= end) {
+        events.push({ timestamp: point.timestamp, type: 'bar', token });
+      }
+    }
+  }
+  return events;
+}
+
+/**
+ * Fire times of scheduled time_trigger and time_exit blocks within the window
+ */
+export function scheduleEvents(blocks: LegoBlock[], start: number, end: number): BacktestEvent[] {
+  const events: BacktestEvent[] = [];
+  for (const block of blocks) {
+    if (block.type !== 'time_trigger' && block.type !== 'time_exit') continue;
+    if (!block.params.schedule) continue;
+    const timezone = block.params.timezone ? String(block.params.timezone) : undefined;
+    for (const timestamp of parseCron(String(block.params.schedule), timezone).fireTimes(
+      start,
+      end
+    )) {
+      events.push({ timestamp, type: 'schedule', blockId: block.id });
+    }
+  }
+  return events;
+}
+
+/**
+ * Bars that traded through a price trigger's level
+ * A cross is only known once the bar revealing it is visible, so it fires at that bar's
+ * timestamp. Like a stop order it fills at the level, or at the bar's open when the market
+ * gapped past it; close-only bars are taken to open at the previous close. Strict '>' and
+ * '<' triggers are left to bar events, since a price exactly at the level does not satisfy
+ * them.
+ */
+export function priceCrossEvents(
+  blocks: LegoBlock[],
+  tokenPrices: Map<string, PriceDataPoint[]>,
+  start: number,
+  end: number
+): BacktestEvent[] {
+  const events: BacktestEvent[] = [];
+  for (const block of blocks) {
+    if (block.type !== 'price_trigger') continue;
+    const { asset, targetPrice, condition } = block.params;
+    const level = Number(targetPrice);
+    const rising = condition === '>=' || condition === '==';
+    const falling = condition === '<=' || condition === '==';
+    if (!asset || !Number.isFinite(level) || (!rising && !falling)) continue;
+
+    const points = [...(tokenPrices.get(String(asset)) ?? [])].sort(
+      (a, b) => a.timestamp - b.timestamp
+    );
+    for (let index = 1; index < points.length; index++) {
+      const previous = (points[index - 1] as PriceDataPoint).price;
+      const bar = points[index] as PriceDataPoint;
+      if (bar.timestamp < start || bar.timestamp > end) continue;
+
+      const candle = toCandle({ ...bar, open: bar.open ?? previous });
+      let price: number | undefined;
+      if (rising && previous < level && candle.high >= level) {
+        price = Math.max(candle.open, level);
+      } else if (falling && previous > level && candle.low <= level) {
+        price = Math.min(candle.open, level);
+      }
+      if (price === undefined) continue;
+
+      events.push({
+        timestamp: bar.timestamp,
+        type: 'price_cross',
+        token: String(asset),
+        price,
+        blockId: block.id,
+      });
+    }
+  }
+  return events;
+}
+
+/**
+ * Evenly spaced events from start to end, always including end
+ */
+export function intervalEvents(
+  type: 'interest' | 'sample',
+  start: number,
+  end: number,
+  step: number
+): BacktestEvent[] {
+  const events: BacktestEvent[] = [];
+  for (let timestamp = start; timestamp <= end; timestamp += step) {
+    events.push({ timestamp, type });
+  }
+  if (events[events.length - 1]?.timestamp !== end) {
+    events.push({ timestamp: end, type });
+  }
+  return events;
+}
@@ -0,0 +1,107 @@
+/**
+ * Chain gas profiles and gas units per action
+ */
+
+import type { ChainGasProfile, ChainId, GasFees, GasPriceSource } from './types';
+
+export const CHAIN_GAS_PROFILES: Record<ChainId, ChainGasProfile> = {
+  mainnet: {
+    id: 'mainnet',
+    name: 'Ethereum',
+    evmChainId: 1,
+    nativeToken: 'ETH',
+    typicalFees: { baseFeeGwei: 18, priorityFeeGwei: 2 },
+    l1DataGas: 0,
+  },
+  arbitrum: {
+    id: 'arbitrum',
+    name: 'Arbitrum One',
+    evmChainId: 42161,
+    nativeToken: 'ETH',
+    typicalFees: { baseFeeGwei: 0.01, priorityFeeGwei: 0 },
+    l1DataGas: 200, // Blob-posted calldata, compressed
+  },
+  base: {
+    id: 'base',
+    name: 'Base',
+    evmChainId: 8453,
+    nativeToken: 'ETH',
+    typicalFees: { baseFeeGwei: 0.005, priorityFeeGwei: 0.001 },
+    l1DataGas: 200,
+  },
+  polygon: {
+    id: 'polygon',
+    name: 'Polygon PoS',
+    evmChainId: 137,
+    nativeToken: 'POL',
+    typicalFees: { baseFeeGwei: 30, priorityFeeGwei: 30 }, // Validators enforce a ~30 gwei tip floor
+    l1DataGas: 0,
+  },
+};
+
+// Approximate gas units per transaction, shared by the backtester and the simulator
+export const GAS_UNITS = {
+  swap: 150_000,
+  supply: 200_000,
+  borrow: 250_000,
+  repay: 180_000,
+  withdraw: 150_000,
+  liquidity: 400_000, // Mint a concentrated liquidity position
+  flashLoan: 300_000,
+  staking: 150_000,
+  exit: 150_000, // Swap back to cash when a stop, target or risk limit closes a position
+} as const;
+
+export type GasAction = keyof typeof GAS_UNITS;
+
+export const DEFAULT_GAS_UNITS = 100_000;
+
+// Gas units per block type; trigger and risk blocks send no transaction
+const BLOCK_GAS_UNITS: Record<string, number> = {
+  uniswap_swap: GAS_UNITS.swap,
+  curve_swap: 180_000,
+  balancer_swap: 200_000,
+  oneinch_swap: 200_000, // Aggregator routing overhead
+  aave_supply: GAS_UNITS.supply,
+  aave_borrow: GAS_UNITS.borrow,
+  aave_repay: GAS_UNITS.repay,
+  aave_withdraw: GAS_UNITS.withdraw,
+  compound_supply: GAS_UNITS.supply,
+  compound_borrow: GAS_UNITS.borrow,
+  uniswap_v3_liquidity: GAS_UNITS.liquidity,
+  flash_loan: GAS_UNITS.flashLoan,
+  staking: GAS_UNITS.staking,
+};
+
+/**
+ * Gas units for one transaction of a block type
+ */
+export function getBlockGasUnits(blockType: string): number {
+  return BLOCK_GAS_UNITS[blockType] ?? DEFAULT_GAS_UNITS;
+}
+
+export function getChainGasProfile(chain: ChainId): ChainGasProfile {
+  const profile = CHAIN_GAS_PROFILES[chain];
+  if (!profile) {
+    throw new Error(`Unknown chain: ${chain}`);
+  }
+  return profile;
+}
+
+/**
+ * Profile for an EVM chain id; testnets and unknown chains have none
+ */
+export function findChainGasProfile(evmChainId: number): ChainGasProfile | undefined {
+  return Object.values(CHAIN_GAS_PROFILES).find((profile) => profile.evmChainId === evmChainId);
+}
+
+/**
+ * Each chain's typical fees at every timestamp
+ */
+export class TypicalGasSource implements GasPriceSource {
+  readonly id = 'typical';
+
+  getFees(chain: ChainId): GasFees {
+    return { ...getChainGasProfile(chain).typicalFees };
+  }
+}
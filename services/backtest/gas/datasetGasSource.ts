@@ -0,0 +1,99 @@
+/**
+ * Historical gas fee dataset source
+ * Serves recorded base fee and priority fee series, e.g. exported from a node or block explorer
+ */
+
+import { parseTimestamp } from '../providers/filePriceProvider';
+import type { ChainId, GasFees, GasPricePoint, GasPriceSource } from './types';
+
+const TIMESTAMP_COLUMNS = ['timestamp', 'time', 'date', 'datetime', 'block_timestamp'];
+const BASE_FEE_COLUMNS = ['base_fee_gwei', 'basefee_gwei', 'base_fee', 'basefee'];
+const PRIORITY_FEE_COLUMNS = ['priority_fee_gwei', 'priority_fee', 'tip_gwei', 'tip'];
+
+export class DatasetGasSource implements GasPriceSource {
+  readonly id = 'dataset';
+  private series = new Map<ChainId, GasPricePoint[]>(); // chain -> sorted series
+
+  /**
+   * @param data - chain -> fee series (any order)
+   * @param fallback - Used for chains missing from the dataset
+   */
+  constructor(
+    data: Partial<Record<ChainId, GasPricePoint[]>>,
+    private fallback?: GasPriceSource
+  ) {
+    for (const [chain, points] of Object.entries(data) as [ChainId, GasPricePoint[]][]) {
+      this.series.set(
+        chain,
+        [...points].sort((a, b) => a.timestamp - b.timestamp)
+      );
+    }
+  }
+
+  /**
+   * Fees in effect at a timestamp: the last observation at or before it
+   * Before the first observation the earliest fees apply.
+   */
+  getFees(chain: ChainId, timestamp: number): GasFees {
+    const points = this.series.get(chain);
+    if (!points || points.length === 0) {
+      if (this.fallback) return this.fallback.getFees(chain, timestamp);
+      throw new Error(`No gas data for ${chain}`);
+    }
+
+    let low = 0;
+    let high = points.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if ((points[mid]?.timestamp ?? 0) <= timestamp) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    const point = points[low] as GasPricePoint;
+    return { baseFeeGwei: point.baseFeeGwei, priorityFeeGwei: point.priorityFeeGwei };
+  }
+}
+
+/**
+ * Parse a CSV gas fee export
+ * Requires a header row with a timestamp column and a base fee column, both in gwei.
+ * The priority fee column is optional and defaults to 0.
+ */
+export function parseGasPriceCsv(content: string): GasPricePoint[] {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'));
+
+  const [headerLine, ...rows] = lines;
+  if (!headerLine) return [];
+
+  const headers = headerLine.split(',').map((h) => h.trim().replace(/"/g, '').toLowerCase());
+  const find = (candidates: string[]) => headers.findIndex((h) => candidates.includes(h));
+  const timestampIndex = find(TIMESTAMP_COLUMNS);
+  const baseFeeIndex = find(BASE_FEE_COLUMNS);
+  const priorityFeeIndex = find(PRIORITY_FEE_COLUMNS);
+
+  if (timestampIndex === -1 || baseFeeIndex === -1) {
+    throw new Error(
+      `Gas CSV must have a timestamp column (${TIMESTAMP_COLUMNS.join('/')}) and a base fee column (${BASE_FEE_COLUMNS.join('/')})`
+    );
+  }
+
+  return rows.map((row, index) => {
+    const cells = row.split(',').map((cell) => cell.trim().replace(/"/g, ''));
+    const baseFeeGwei = Number(cells[baseFeeIndex]);
+    const priorityFeeGwei = priorityFeeIndex === -1 ? 0 : Number(cells[priorityFeeIndex]);
+    if (!Number.isFinite(baseFeeGwei) || !Number.isFinite(priorityFeeGwei)) {
+      throw new Error(`Invalid gas fee on CSV row ${index + 2}: ${row}`);
+    }
+    return {
+      timestamp: parseTimestamp(cells[timestampIndex] ?? ''),
+      baseFeeGwei,
+      priorityFeeGwei,
+    };
+  });
+}
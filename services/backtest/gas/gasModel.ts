@@ -0,0 +1,86 @@
+/**
+ * Transaction cost model: gas units x (base fee + priority fee), plus the L1 data fee on rollups
+ */
+
+import { TypicalGasSource, getChainGasProfile } from './chains';
+import type { ChainGasProfile, ChainId, GasPriceSource } from './types';
+
+const GWEI = 1e-9;
+
+export interface GasCostBreakdown {
+  gasUnits: number;
+  gasPriceGwei: number; // Base fee plus priority fee
+  executionCost: number; // Native token paid for execution
+  l1DataCost: number; // ETH paid for posting rollup data to mainnet
+  nativeCost: number; // Total in the native token
+}
+
+export class GasModel {
+  readonly profile: ChainGasProfile;
+
+  /**
+   * @param chain - Chain the strategy transacts on
+   * @param source - Fee series; each chain's typical fees when omitted
+   */
+  constructor(
+    readonly chain: ChainId = 'mainnet',
+    private source: GasPriceSource = new TypicalGasSource()
+  ) {
+    this.profile = getChainGasProfile(chain);
+  }
+
+  get sourceId(): string {
+    return this.source.id;
+  }
+
+  /** Token gas is paid in */
+  get nativeToken(): string {
+    return this.profile.nativeToken;
+  }
+
+  /**
+   * Effective gas price in gwei at a timestamp
+   */
+  getGasPrice(timestamp: number): number {
+    const fees = this.source.getFees(this.chain, timestamp);
+    return fees.baseFeeGwei + fees.priorityFeeGwei;
+  }
+
+  /**
+   * Native-token cost of a transaction using `gasUnits` gas at a timestamp
+   * Rollups also pay mainnet's base fee on their posted data.
+   */
+  estimate(gasUnits: number, timestamp: number): GasCostBreakdown {
+    if (gasUnits <= 0) {
+      return { gasUnits: 0, gasPriceGwei: 0, executionCost: 0, l1DataCost: 0, nativeCost: 0 };
+    }
+
+    const gasPriceGwei = this.getGasPrice(timestamp);
+    const executionCost = gasUnits * gasPriceGwei * GWEI;
+    const l1DataCost =
+      this.profile.l1DataGas > 0
+        ? this.profile.l1DataGas * this.source.getFees('mainnet', timestamp).baseFeeGwei * GWEI
+        : 0;
+
+    return {
+      gasUnits,
+      gasPriceGwei,
+      executionCost,
+      l1DataCost,
+      nativeCost: executionCost + l1DataCost,
+    };
+  }
+
+  /**
+   * Cost in the base currency, given the native token's price at the same tick
+   * Throws when the price is missing rather than letting the transaction go free.
+   */
+  cost(gasUnits: number, timestamp: number, nativePrice: number | undefined): number {
+    const { nativeCost } = this.estimate(gasUnits, timestamp);
+    if (nativeCost === 0) return 0;
+    if (nativePrice === undefined) {
+      throw new Error(`No ${this.nativeToken} price to pay ${this.profile.name} gas with`);
+    }
+    return nativeCost * nativePrice;
+  }
+}
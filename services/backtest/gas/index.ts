@@ -0,0 +1,73 @@
+/**
+ * Gas price sources and the transaction cost model
+ */
+
+import { hashValue } from '../determinism';
+import {
+  type FileFingerprint,
+  type FileLoader,
+  fingerprintFile,
+  loadFile,
+} from '../providers/filePriceProvider';
+import { TypicalGasSource } from './chains';
+import { DatasetGasSource, parseGasPriceCsv } from './datasetGasSource';
+import { GasModel } from './gasModel';
+import type { ChainId, GasModelConfig } from './types';
+
+export * from './types';
+export * from './chains';
+export * from './datasetGasSource';
+export * from './gasModel';
+
+/**
+ * Create a gas model from a serializable config
+ * Datasets fall back to each chain's typical fees for chains they do not cover.
+ */
+export function createGasModel(config: GasModelConfig = {}): GasModel {
+  const typical = new TypicalGasSource();
+  const source = config.dataset ? new DatasetGasSource(config.dataset, typical) : typical;
+  return new GasModel(config.chain ?? 'mainnet', source);
+}
+
+/**
+ * Create a gas model, first reading the config's fee files
+ * A series given inline takes precedence over a file for the same chain.
+ */
+export async function loadGasModel(
+  config: GasModelConfig = {},
+  loader: FileLoader = loadFile
+): Promise<GasModel> {
+  const files = Object.entries(config.files ?? {}) as [ChainId, string][];
+  if (files.length === 0) return createGasModel(config);
+
+  const series = await Promise.all(
+    files.map(async ([chain, file]) => [chain, parseGasPriceCsv(await loader(file))] as const)
+  );
+  return createGasModel({
+    ...config,
+    dataset: { ...Object.fromEntries(series), ...config.dataset },
+  });
+}
+
+/**
+ * Identify the fee files a config reads by their contents, as price files are
+ */
+export async function getGasDataVersion(
+  config: GasModelConfig = {},
+  fingerprint: FileFingerprint = fingerprintFile
+): Promise<string> {
+  const contents = await Promise.all(
+    Object.entries(config.files ?? {}).map(async ([chain, file]) => [
+      chain,
+      await fingerprint(file),
+    ])
+  );
+  return hashValue(contents);
+}
+
+/**
+ * Accept either a gas model instance or a gas model config
+ */
+export async function resolveGasModel(model: GasModelConfig | GasModel): Promise<GasModel> {
+  return model instanceof GasModel ? model : loadGasModel(model);
+}
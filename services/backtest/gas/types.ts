@@ -0,0 +1,42 @@
+/**
+ * Gas price data and chain profiles for transaction costs
+ */
+
+export type ChainId = 'mainnet' | 'arbitrum' | 'base' | 'polygon';
+
+export interface GasFees {
+  baseFeeGwei: number; // Protocol base fee per gas unit
+  priorityFeeGwei: number; // Tip paid to the block producer per gas unit
+}
+
+export interface GasPricePoint extends GasFees {
+  timestamp: number;
+}
+
+/**
+ * Source of per-chain gas fees over time
+ * Lookups are synchronous so costs can be charged inside the backtest loop.
+ */
+export interface GasPriceSource {
+  /** Stable identifier, e.g. 'dataset' or 'typical' */
+  readonly id: string;
+  getFees(chain: ChainId, timestamp: number): GasFees;
+}
+
+export interface ChainGasProfile {
+  id: ChainId;
+  name: string;
+  evmChainId: number;
+  nativeToken: string; // Token gas is paid in
+  typicalFees: GasFees; // Used where no dataset covers the chain
+  l1DataGas: number; // Mainnet gas billed per transaction for posting rollup data; 0 elsewhere
+}
+
+/**
+ * Serializable gas model selection, safe to post to a web worker
+ */
+export interface GasModelConfig {
+  chain?: ChainId; // Default mainnet
+  dataset?: Partial<Record<ChainId, GasPricePoint[]>>; // chain -> fee series (any order)
+  files?: Partial<Record<ChainId, string>>; // chain -> CSV fee export, read when a backtest starts
+}
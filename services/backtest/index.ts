@@ -6,3 +6,21 @@ export * from './dataFetcher';
 export * from './portfolio';
 export * from './blockExecutor';
 export * from './metricsCalculator';
+export * from './indicators';
+export * from './interest';
+export * from './lending';
+export * from './candles';
+export * from './determinism';
+export * from './priceHistory';
+export * from './providers';
+export * from './rates';
+export * from './gas';
+export * from './concentratedLiquidity';
+export * from './amm';
+export * from './riskManager';
+export * from './rebalancing';
+export * from './cron';
+export * from './eventQueue';
+export * from './strategyGraph';
+export * from './tradeLedger';
+export * from './benchmarks';
@@ -0,0 +1,270 @@
+/**
+ * Technical indicator library for backtesting
+ * Pure, deterministic calculations over price series
+ *
+ * Every series function returns an array aligned with its input. Entries
+ * inside the warm-up window (not enough bars yet) are NaN.
+ */
+
+export interface MACDResult {
+  macd: number[];
+  signal: number[];
+  histogram: number[];
+}
+
+export interface BollingerBandsResult {
+  upper: number[];
+  middle: number[];
+  lower: number[];
+}
+
+export interface StochasticResult {
+  k: number[];
+  d: number[];
+}
+
+export const DEFAULT_INDICATOR_PERIODS = {
+  RSI: 14,
+  MA: 20,
+  EMA: 20,
+  BB: 20,
+  ATR: 14,
+  STOCH: 14,
+  MACD_FAST: 12,
+  MACD_SLOW: 26,
+  MACD_SIGNAL: 9,
+} as const;
+
+function assertPeriod(period: number): void {
+  if (!Number.isInteger(period) || period <= 0) {
+    throw new Error(`Invalid indicator period: ${period}`);
+  }
+}
+
+/**
+ * Simple moving average
+ */
+export function sma(values: number[], period: number): number[] {
+  assertPeriod(period);
+  const result = new Array<number>(values.length).fill(Number.NaN);
+  let windowSum = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    windowSum += values[i] ?? 0;
+    if (i >= period) {
+      windowSum -= values[i - period] ?? 0;
+    }
+    if (i >= period - 1) {
+      result[i] = windowSum / period;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first `period` values
+ */
+export function ema(values: number[], period: number): number[] {
+  assertPeriod(period);
+  const result = new Array<number>(values.length).fill(Number.NaN);
+
+  // Skip leading NaNs so EMA can be chained onto other warm-up series (e.g. MACD signal)
+  let start = 0;
+  while (start < values.length && Number.isNaN(values[start] ?? Number.NaN)) start++;
+  if (values.length - start < period) return result;
+
+  const multiplier = 2 / (period + 1);
+  let seed = 0;
+  for (let i = start; i < start + period; i++) {
+    seed += values[i] ?? 0;
+  }
+  let previous = seed / period;
+  result[start + period - 1] = previous;
+
+  for (let i = start + period; i < values.length; i++) {
+    previous = ((values[i] ?? 0) - previous) * multiplier + previous;
+    result[i] = previous;
+  }
+
+  return result;
+}
+
+/**
+ * Relative Strength Index using Wilder's smoothing
+ */
+export function rsi(values: number[], period: number = DEFAULT_INDICATOR_PERIODS.RSI): number[] {
+  assertPeriod(period);
+  const result = new Array<number>(values.length).fill(Number.NaN);
+  if (values.length <= period) return result;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = (values[i] ?? 0) - (values[i - 1] ?? 0);
+    if (change > 0) avgGain += change;
+    else avgLoss -= change;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  const toRsi = (gain: number, loss: number): number => {
+    if (loss === 0) return gain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + gain / loss);
+  };
+
+  result[period] = toRsi(avgGain, avgLoss);
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = (values[i] ?? 0) - (values[i - 1] ?? 0);
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+    avgGain = (avgGain * (period - 1) + gain) / period;
+    avgLoss = (avgLoss * (period - 1) + loss) / period;
+    result[i] = toRsi(avgGain, avgLoss);
+  }
+
+  return result;
+}
+
+/**
+ * Moving Average Convergence Divergence
+ * MACD = EMA(fast) - EMA(slow), signal = EMA(MACD, signalPeriod)
+ */
+export function macd(
+  values: number[],
+  fastPeriod: number = DEFAULT_INDICATOR_PERIODS.MACD_FAST,
+  slowPeriod: number = DEFAULT_INDICATOR_PERIODS.MACD_SLOW,
+  signalPeriod: number = DEFAULT_INDICATOR_PERIODS.MACD_SIGNAL
+): MACDResult {
+  if (fastPeriod >= slowPeriod) {
+    throw new Error(`MACD fast period (${fastPeriod}) must be less than slow (${slowPeriod})`);
+  }
+
+  const fast = ema(values, fastPeriod);
+  const slow = ema(values, slowPeriod);
+  const macdLine = values.map((_, i) => (fast[i] ?? Number.NaN) - (slow[i] ?? Number.NaN));
+  const signal = ema(macdLine, signalPeriod);
+  const histogram = macdLine.map((value, i) => value - (signal[i] ?? Number.NaN));
+
+  return { macd: macdLine, signal, histogram };
+}
+
+/**
+ * Bollinger Bands: SMA middle band +/- `stdDevMultiplier` population standard deviations
+ */
+export function bollingerBands(
+  values: number[],
+  period: number = DEFAULT_INDICATOR_PERIODS.BB,
+  stdDevMultiplier = 2
+): BollingerBandsResult {
+  const middle = sma(values, period);
+  const upper = new Array<number>(values.length).fill(Number.NaN);
+  const lower = new Array<number>(values.length).fill(Number.NaN);
+
+  for (let i = period - 1; i < values.length; i++) {
+    const mean = middle[i] ?? Number.NaN;
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      variance += ((values[j] ?? 0) - mean) ** 2;
+    }
+    const stdDev = Math.sqrt(variance / period);
+    upper[i] = mean + stdDevMultiplier * stdDev;
+    lower[i] = mean - stdDevMultiplier * stdDev;
+  }
+
+  return { upper, middle, lower };
+}
+
+/**
+ * Average True Range using Wilder's smoothing
+ * With close-only data pass the closes as highs and lows; true range then
+ * degrades to the absolute close-to-close change.
+ */
+export function atr(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  period: number = DEFAULT_INDICATOR_PERIODS.ATR
+): number[] {
+  assertPeriod(period);
+  const length = closes.length;
+  if (highs.length !== length || lows.length !== length) {
+    throw new Error('ATR requires high, low and close series of equal length');
+  }
+
+  const result = new Array<number>(length).fill(Number.NaN);
+  if (length <= period) return result;
+
+  const trueRanges: number[] = [];
+  for (let i = 1; i < length; i++) {
+    const high = highs[i] ?? 0;
+    const low = lows[i] ?? 0;
+    const prevClose = closes[i - 1] ?? 0;
+    trueRanges.push(Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose)));
+  }
+
+  let average = 0;
+  for (let i = 0; i < period; i++) {
+    average += trueRanges[i] ?? 0;
+  }
+  average /= period;
+  result[period] = average;
+
+  for (let i = period + 1; i < length; i++) {
+    average = (average * (period - 1) + (trueRanges[i - 1] ?? 0)) / period;
+    result[i] = average;
+  }
+
+  return result;
+}
+
+/**
+ * Stochastic oscillator
+ * %K = 100 * (close - lowest low) / (highest high - lowest low) over `kPeriod`,
+ * %D = SMA(%K, dPeriod)
+ */
+export function stochastic(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  kPeriod: number = DEFAULT_INDICATOR_PERIODS.STOCH,
+  dPeriod = 3
+): StochasticResult {
+  assertPeriod(kPeriod);
+  assertPeriod(dPeriod);
+  const length = closes.length;
+  if (highs.length !== length || lows.length !== length) {
+    throw new Error('Stochastic requires high, low and close series of equal length');
+  }
+
+  const k = new Array<number>(length).fill(Number.NaN);
+  for (let i = kPeriod - 1; i < length; i++) {
+    let highest = Number.NEGATIVE_INFINITY;
+    let lowest = Number.POSITIVE_INFINITY;
+    for (let j = i - kPeriod + 1; j <= i; j++) {
+      highest = Math.max(highest, highs[j] ?? Number.NEGATIVE_INFINITY);
+      lowest = Math.min(lowest, lows[j] ?? Number.POSITIVE_INFINITY);
+    }
+    const range = highest - lowest;
+    k[i] = range === 0 ? 50 : (100 * ((closes[i] ?? 0) - lowest)) / range;
+  }
+
+  const d = new Array<number>(length).fill(Number.NaN);
+  for (let i = kPeriod + dPeriod - 2; i < length; i++) {
+    let sum = 0;
+    for (let j = i - dPeriod + 1; j <= i; j++) {
+      sum += k[j] ?? 0;
+    }
+    d[i] = sum / dPeriod;
+  }
+
+  return { k, d };
+}
+
+/**
+ * Last value of a series, or NaN when the series is empty or still warming up
+ */
+export function latest(series: number[]): number {
+  return series.length > 0 ? (series[series.length - 1] ?? Number.NaN) : Number.NaN;
+}
@@ -0,0 +1,478 @@
+/**
+ * Lending account model for backtesting
+ * Tracks collateral, debt, health factor and liquidations for one lending
+ * protocol. Balances live in the portfolio as supply/borrow positions; interest
+ * accrues through InterestAccrual.
+ */
+
+import type { PortfolioManager, Position } from './portfolio';
+
+const MAX_LIQUIDATION_ROUNDS = 10;
+
+export interface LendingMarketParams {
+  collateralFactor: number; // Max loan-to-value for new borrows (0-1)
+  liquidationThreshold: number; // Collateral weight in the health factor (0-1)
+  liquidationPenalty: number; // Bonus paid to the liquidator on seized collateral (0-1)
+}
+
+export interface LendingProtocolParams {
+  closeFactor: number; // Max share of a debt one liquidation may repay
+  markets: Record<string, LendingMarketParams>;
+  defaultMarket: LendingMarketParams; // Used for assets without a listed market
+}
+
+export interface LiquidationEvent {
+  timestamp: number;
+  protocol: string;
+  debtAsset: string;
+  debtRepaid: number; // Debt token units
+  collateralAsset: string;
+  collateralSeized: number; // Collateral token units, including the penalty
+  penalty: number; // Value lost to the liquidation bonus, in base currency
+  healthFactorBefore: number;
+  healthFactorAfter: number;
+}
+
+// Approximate Aave V3 mainnet risk parameters
+export const AAVE_LENDING_PARAMS: LendingProtocolParams = {
+  closeFactor: 0.5,
+  markets: {
+    ETH: {
+      collateralFactor: 0.805,
+      liquidationThreshold: 0.83,
+      liquidationPenalty: 0.05,
+    },
+    WBTC: {
+      collateralFactor: 0.73,
+      liquidationThreshold: 0.78,
+      liquidationPenalty: 0.05,
+    },
+    USDC: {
+      collateralFactor: 0.77,
+      liquidationThreshold: 0.8,
+      liquidationPenalty: 0.045,
+    },
+    USDT: {
+      collateralFactor: 0.75,
+      liquidationThreshold: 0.78,
+      liquidationPenalty: 0.045,
+    },
+    DAI: {
+      collateralFactor: 0.63,
+      liquidationThreshold: 0.77,
+      liquidationPenalty: 0.05,
+    },
+    LINK: {
+      collateralFactor: 0.53,
+      liquidationThreshold: 0.68,
+      liquidationPenalty: 0.07,
+    },
+    AAVE: {
+      collateralFactor: 0.66,
+      liquidationThreshold: 0.73,
+      liquidationPenalty: 0.075,
+    },
+    UNI: {
+      collateralFactor: 0.65,
+      liquidationThreshold: 0.77,
+      liquidationPenalty: 0.1,
+    },
+  },
+  defaultMarket: {
+    collateralFactor: 0.5,
+    liquidationThreshold: 0.65,
+    liquidationPenalty: 0.1,
+  },
+};
+
+// Approximate Compound V2 parameters: liquidation happens at the collateral factor
+export const COMPOUND_LENDING_PARAMS: LendingProtocolParams = {
+  closeFactor: 0.5,
+  markets: {
+    ETH: {
+      collateralFactor: 0.825,
+      liquidationThreshold: 0.825,
+      liquidationPenalty: 0.08,
+    },
+    WBTC: {
+      collateralFactor: 0.7,
+      liquidationThreshold: 0.7,
+      liquidationPenalty: 0.08,
+    },
+    USDC: {
+      collateralFactor: 0.855,
+      liquidationThreshold: 0.855,
+      liquidationPenalty: 0.08,
+    },
+    USDT: {
+      collateralFactor: 0,
+      liquidationThreshold: 0,
+      liquidationPenalty: 0.08,
+    },
+    DAI: {
+      collateralFactor: 0.835,
+      liquidationThreshold: 0.835,
+      liquidationPenalty: 0.08,
+    },
+    LINK: {
+      collateralFactor: 0.79,
+      liquidationThreshold: 0.79,
+      liquidationPenalty: 0.08,
+    },
+    UNI: {
+      collateralFactor: 0.75,
+      liquidationThreshold: 0.75,
+      liquidationPenalty: 0.08,
+    },
+    AAVE: {
+      collateralFactor: 0.6,
+      liquidationThreshold: 0.6,
+      liquidationPenalty: 0.08,
+    },
+  },
+  defaultMarket: {
+    collateralFactor: 0.5,
+    liquidationThreshold: 0.5,
+    liquidationPenalty: 0.08,
+  },
+};
+
+export class LendingAccount {
+  private liquidations: LiquidationEvent[] = [];
+
+  constructor(
+    readonly protocol: string,
+    private portfolio: PortfolioManager,
+    private params: LendingProtocolParams
+  ) {}
+
+  /**
+   * Get risk parameters for an asset
+   */
+  getMarket(asset: string): LendingMarketParams {
+    return this.params.markets[asset] ?? this.params.defaultMarket;
+  }
+
+  /**
+   * Get this protocol's supply positions
+   */
+  getSupplyPositions(asset?: string): Position[] {
+    return this.getPositions('supply', asset);
+  }
+
+  /**
+   * Get this protocol's debt positions
+   */
+  getBorrowPositions(asset?: string): Position[] {
+    return this.getPositions('borrow', asset);
+  }
+
+  /**
+   * Total supplied amount of an asset
+   */
+  getSupplied(asset: string): number {
+    return sumAmounts(this.getSupplyPositions(asset));
+  }
+
+  /**
+   * Total outstanding debt of an asset, including accrued interest
+   */
+  getDebt(asset: string): number {
+    return sumAmounts(this.getBorrowPositions(asset));
+  }
+
+  /**
+   * Value of all debt in base currency
+   */
+  getDebtValue(prices: Map<string, number>): number {
+    return this.getBorrowPositions().reduce(
+      (sum, position) => sum + position.amount * this.priceOf(position.asset, prices),
+      0
+    );
+  }
+
+  /**
+   * Maximum debt value the current collateral supports
+   */
+  getBorrowingPower(prices: Map<string, number>): number {
+    return this.getCollateral().reduce(
+      (sum, position) =>
+        sum +
+        position.amount *
+          this.priceOf(position.asset, prices) *
+          this.getMarket(position.asset).collateralFactor,
+      0
+    );
+  }
+
+  /**
+   * Health factor: threshold-weighted collateral over debt
+   * Infinity when there is no debt; below 1 the account can be liquidated.
+   */
+  getHealthFactor(prices: Map<string, number>): number {
+    const debtValue = this.getDebtValue(prices);
+    if (debtValue <= 0) return Number.POSITIVE_INFINITY;
+
+    const weightedCollateral = this.getCollateral().reduce(
+      (sum, position) =>
+        sum +
+        position.amount *
+          this.priceOf(position.asset, prices) *
+          this.getMarket(position.asset).liquidationThreshold,
+      0
+    );
+    return weightedCollateral / debtValue;
+  }
+
+  /**
+   * Move tokens from the wallet into the protocol
+   */
+  supply(
+    asset: string,
+    amount: number,
+    price: number,
+    timestamp: number,
+    collateral = true
+  ): Position {
+    this.portfolio.subtractBalance(asset, amount);
+    return this.portfolio.addPosition({
+      type: 'supply',
+      asset,
+      amount,
+      entryPrice: price,
+      entryTimestamp: timestamp,
+      protocol: this.protocol,
+      collateral,
+    });
+  }
+
+  /**
+   * Withdraw supplied tokens, refusing withdrawals that would leave debt unbacked
+   */
+  withdraw(asset: string, amount: number, prices: Map<string, number>): void {
+    const supplied = this.getSupplied(asset);
+    if (supplied < amount) {
+      throw new Error(
+        `Cannot withdraw: Insufficient supplied amount for ${asset}. Have ${supplied}, need ${amount}`
+      );
+    }
+
+    const taken = takeFifo(this.getSupplyPositions(asset), amount);
+    if (this.getHealthFactor(prices) < 1) {
+      for (const [position, takenAmount] of taken) {
+        position.amount += takenAmount;
+      }
+      throw new Error(`Cannot withdraw ${amount} ${asset}: health factor would drop below 1`);
+    }
+
+    removeEmpty(this.portfolio, taken);
+    this.portfolio.addBalance(asset, amount);
+  }
+
+  /**
+   * Borrow against collateral at the variable rate
+   */
+  borrow(
+    asset: string,
+    amount: number,
+    price: number,
+    prices: Map<string, number>,
+    timestamp: number
+  ): Position {
+    if (this.getCollateral().length === 0) {
+      throw new Error(`Cannot borrow: No collateral supplied to ${this.protocol}`);
+    }
+    if (price <= 0) {
+      throw new Error(`Missing price data for ${asset}`);
+    }
+
+    const borrowingPower = this.getBorrowingPower(prices);
+    const debtAfter = this.getDebtValue(prices) + amount * price;
+    if (debtAfter > borrowingPower) {
+      throw new Error(
+        `Cannot borrow ${amount} ${asset}: debt ${debtAfter.toFixed(2)} would exceed borrowing power ${borrowingPower.toFixed(2)}`
+      );
+    }
+
+    this.portfolio.addBalance(asset, amount);
+    return this.portfolio.addPosition({
+      type: 'borrow',
+      asset,
+      amount,
+      entryPrice: price,
+      entryTimestamp: timestamp,
+      protocol: this.protocol,
+    });
+  }
+
+  /**
+   * Repay debt from the wallet; returns the amount actually repaid
+   */
+  repay(asset: string, amount: number): number {
+    const repaid = Math.min(amount, this.getDebt(asset));
+    if (repaid <= 0) {
+      throw new Error(`No debt to repay for ${asset}`);
+    }
+
+    this.portfolio.subtractBalance(asset, repaid);
+    reduceFifo(this.portfolio, this.getBorrowPositions(asset), repaid);
+    return repaid;
+  }
+
+  /**
+   * Liquidate while the health factor is below 1
+   * Each round repays up to the close factor of the largest debt and seizes
+   * collateral worth the repaid value plus the liquidation penalty.
+   */
+  liquidate(prices: Map<string, number>, timestamp: number): LiquidationEvent[] {
+    const events: LiquidationEvent[] = [];
+
+    for (let round = 0; round < MAX_LIQUIDATION_ROUNDS; round++) {
+      const healthFactorBefore = this.getHealthFactor(prices);
+      if (healthFactorBefore >= 1) break;
+
+      const debt = this.largestByValue(this.getBorrowPositions(), prices);
+      const collateral = this.largestByValue(this.getCollateral(), prices);
+      if (!debt || !collateral) break;
+
+      const debtPrice = this.priceOf(debt.asset, prices);
+      const collateralPrice = this.priceOf(collateral.asset, prices);
+      if (debtPrice <= 0 || collateralPrice <= 0) break;
+
+      const penalty = this.getMarket(collateral.asset).liquidationPenalty;
+      const maxRepayValue = Math.min(
+        this.getDebt(debt.asset) * debtPrice * this.params.closeFactor,
+        (this.getSupplied(collateral.asset) * collateralPrice) / (1 + penalty)
+      );
+      if (maxRepayValue <= 0) break;
+
+      const debtRepaid = maxRepayValue / debtPrice;
+      const collateralSeized = (maxRepayValue * (1 + penalty)) / collateralPrice;
+
+      reduceFifo(this.portfolio, this.getBorrowPositions(debt.asset), debtRepaid);
+      reduceFifo(
+        this.portfolio,
+        this.getCollateral().filter((p) => p.asset === collateral.asset),
+        collateralSeized
+      );
+
+      // The liquidator's bonus is a realized cost to the account
+      this.portfolio.recordTrade({
+        timestamp,
+        type: 'liquidation',
+        inputToken: collateral.asset,
+        outputToken: debt.asset,
+        inputAmount: collateralSeized,
+        outputAmount: debtRepaid,
+        price: collateralPrice,
+        fees: maxRepayValue * penalty,
+        gasCost: 0,
+        inputValue: collateralSeized * collateralPrice,
+        outputValue: maxRepayValue,
+      });
+
+      events.push({
+        timestamp,
+        protocol: this.protocol,
+        debtAsset: debt.asset,
+        debtRepaid,
+        collateralAsset: collateral.asset,
+        collateralSeized,
+        penalty: maxRepayValue * penalty,
+        healthFactorBefore,
+        healthFactorAfter: this.getHealthFactor(prices),
+      });
+    }
+
+    this.liquidations.push(...events);
+    return events;
+  }
+
+  /**
+   * All liquidations that have hit this account
+   */
+  getLiquidations(): LiquidationEvent[] {
+    return [...this.liquidations];
+  }
+
+  private getPositions(type: 'supply' | 'borrow', asset?: string): Position[] {
+    return this.portfolio
+      .getPositions()
+      .filter(
+        (p) =>
+          p.protocol === this.protocol &&
+          p.type === type &&
+          (asset === undefined || p.asset === asset)
+      );
+  }
+
+  private getCollateral(): Position[] {
+    return this.getSupplyPositions().filter((p) => p.collateral !== false);
+  }
+
+  private priceOf(asset: string, prices: Map<string, number>): number {
+    return this.portfolio.getPrice(asset, prices) ?? 0;
+  }
+
+  private largestByValue(positions: Position[], prices: Map<string, number>): Position | undefined {
+    let largest: Position | undefined;
+    let largestValue = 0;
+    for (const position of positions) {
+      const value = position.amount * this.priceOf(position.asset, prices);
+      if (value > largestValue) {
+        largest = position;
+        largestValue = value;
+      }
+    }
+    return largest;
+  }
+}
+
+function sumAmounts(positions: Position[]): number {
+  return positions.reduce((sum, position) => sum + position.amount, 0);
+}
+
+/**
+ * Take an amount from positions oldest-first; returns what was taken from each
+ */
+function takeFifo(positions: Position[], amount: number): Array<[Position, number]> {
+  const taken: Array<[Position, number]> = [];
+  let remaining = amount;
+  const ordered = [...positions].sort((a, b) => a.entryTimestamp - b.entryTimestamp);
+  for (const position of ordered) {
+    if (remaining <= 0) break;
+    const take = Math.min(position.amount, remaining);
+    position.amount -= take;
+    remaining -= take;
+    taken.push([position, take]);
+  }
+  return taken;
+}
+
+/**
+ * Drop positions emptied by takeFifo
+ */
+function removeEmpty(portfolio: PortfolioManager, taken: Array<[Position, number]>): void {
+  for (const [position] of taken) {
+    if (position.amount <= 1e-12) {
+      portfolio.removePosition(position.id);
+    }
+  }
+}
+
+/**
+ * Reduce positions oldest-first by an amount, removing emptied positions
+ */
+function reduceFifo(portfolio: PortfolioManager, positions: Position[], amount: number): void {
+  removeEmpty(portfolio, takeFifo(positions, amount));
+}
+
+/**
+ * Create the Aave and Compound accounts for a portfolio
+ */
+export function createLendingAccounts(portfolio: PortfolioManager): Map<string, LendingAccount> {
+  return new Map([
+    ['Aave', new LendingAccount('Aave', portfolio, AAVE_LENDING_PARAMS)],
+    ['Compound', new LendingAccount('Compound', portfolio, COMPOUND_LENDING_PARAMS)],
+  ]);
+}
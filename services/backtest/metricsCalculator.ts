@@ -2,26 +2,99 @@
  * Metrics calculation for backtest results
  */
 
-import type { PortfolioManager, Trade } from './portfolio';
+import {
+  calculateCalmarRatio,
+  calculateConditionalVaR,
+  calculateSortinoRatio,
+  calculateValueAtRisk,
+} from '../../utils/advancedMetrics';
+import type { EquityBreakdown, PortfolioManager, Trade } from './portfolio';
+import { TradeLedger } from './tradeLedger';
+
+const DAY_MS = 86400000;
+const YEAR_MS = 365 * DAY_MS;
+const DEFAULT_ROLLING_WINDOW = 30; // Samples per rolling Sharpe window
+
+// Deployed capital below this share of equity counts as flat
+const EXPOSURE_THRESHOLD = 1e-4;
 
 export interface CalculatedMetrics {
   sharpeRatio: number;
   totalReturn: number;
   maxDrawdown: number;
   winTrades: number;
-  totalTrades: number;
+  totalTrades: number; // Closed round trips
   totalGasSpent: number;
   totalFeesSpent: number;
   averageReturn: number;
-  volatility: number;
+  volatility: number; // Annualized, in percent
   winRate: number;
+  profitFactor: number;
+  expectancy: number; // Mean P&L per round trip in the base currency
+}
+
+export interface DrawdownPeriod {
+  start: string; // Peak the decline started from
+  trough: string;
+  end: string | null; // First sample back at the peak; null if not recovered by the end
+  depth: number; // Percent below the peak at the trough
+  duration: number; // ms from the peak to recovery, or to the last sample
+  recoveryTime: number | null; // ms from the trough to recovery
+}
+
+export interface MonthlyReturn {
+  year: number;
+  month: number; // 1-12, UTC
+  return: number; // Percent, from the previous month's close
+}
+
+export interface CostBreakdown {
+  fees: number; // Protocol and pool fees in the base currency
+  gas: number;
+  priceImpact: number; // Value lost to slippage beyond the quoted fee
+  total: number;
+  drag: number; // Total as a percent of average equity
+  annualizedDrag: number;
+}
+
+export interface ExtendedMetrics {
+  volatility: number; // Annualized, in percent
+  downsideVolatility: number;
+  sortinoRatio: number;
+  calmarRatio: number;
+  valueAtRisk95: number; // Percent loss per sample
+  conditionalVaR95: number;
+  rollingWindow: number; // Samples per rolling Sharpe window
+  rollingSharpe: Array<{ date: string; sharpeRatio: number }>;
+  underwaterCurve: Array<{ date: string; drawdown: number }>; // Percent below the running peak
+  drawdownPeriods: DrawdownPeriod[];
+  longestDrawdown: number; // ms
+  monthlyReturns: MonthlyReturn[];
+  exposureTime: number; // Percent of samples with capital deployed outside cash
+  averageExposure: number; // Mean deployed share of equity, in percent
+  turnover: number; // Traded value / average equity
+  annualizedTurnover: number;
+  costs: CostBreakdown;
+}
+
+export interface EquitySample {
+  date: string;
+  equity: number;
+  breakdown?: EquityBreakdown;
+}
+
+/**
+ * Equity samples per year at a sampling interval (daily when unknown)
+ */
+export function getPeriodsPerYear(samplingInterval: number): number {
+  return samplingInterval > 0 ? YEAR_MS / samplingInterval : 365;
 }
 
 /**
  * Calculate Sharpe ratio from returns
  * Sharpe = (Mean Return - Risk Free Rate) / Standard Deviation of Returns
  */
-function calculateSharpeRatio(returns: number[], riskFreeRate = 0): number {
+function calculateSharpeRatio(returns: number[], riskFreeRate = 0, periodsPerYear = 365): number {
   if (returns.length === 0) return 0;
 
   // Calculate mean return
@@ -34,9 +107,9 @@ function calculateSharpeRatio(returns: number[], riskFreeRate = 0): number {
 
   if (stdDev === 0) return 0;
 
-  // Annualize (assuming daily returns)
-  const annualizedReturn = meanReturn * 365;
-  const annualizedStdDev = stdDev * Math.sqrt(365);
+  // Annualize at the sampling frequency (daily by default)
+  const annualizedReturn = meanReturn * periodsPerYear;
+  const annualizedStdDev = stdDev * Math.sqrt(periodsPerYear);
 
   return (annualizedReturn - riskFreeRate) / annualizedStdDev;
 }
@@ -66,59 +139,20 @@ function calculateMaxDrawdown(equityCurve: number[]): number {
   return maxDrawdown;
 }
 
-/**
- * Calculate win rate from trades
- */
-function calculateWinRate(trades: Trade[]): { winTrades: number; totalTrades: number } {
-  // Only count swap trades for win/loss
-  const swapTrades = trades.filter(
-    (t) => t.type === 'swap' || t.type === 'entry' || t.type === 'exit'
-  );
-
-  if (swapTrades.length < 2) {
-    return { winTrades: 0, totalTrades: swapTrades.length };
-  }
-
-  let winCount = 0;
-  let tradePairs = 0;
-
-  // Pair entry and exit trades
-  for (let i = 0; i < swapTrades.length - 1; i++) {
-    const entry = swapTrades[i];
-    const exit = swapTrades[i + 1];
-
-    if (entry.type === 'entry' || entry.type === 'swap') {
-      if (exit.type === 'exit' || exit.type === 'swap') {
-        tradePairs++;
-
-        // Calculate P&L
-        const entryValue = entry.inputAmount * entry.price;
-        const exitValue = exit.outputAmount
-          ? exit.outputAmount * exit.price
-          : entry.inputAmount * exit.price;
-
-        if (exitValue > entryValue) {
-          winCount++;
-        }
-      }
-    }
-  }
-
-  return {
-    winTrades: winCount,
-    totalTrades: tradePairs || swapTrades.length,
-  };
-}
-
 /**
  * Calculate all metrics from portfolio and equity curve
+ * Trade statistics come from the FIFO round trips of `ledger`, built from the
+ * portfolio's trades when omitted. Sharpe and volatility are annualized at `samplingInterval`,
+ * as in calculateExtendedMetrics().
  */
 export function calculateMetrics(
   portfolio: PortfolioManager,
   initialCapital: number,
-  equityCurve: number[]
+  equityCurve: number[],
+  ledger?: TradeLedger,
+  samplingInterval = DAY_MS
 ): CalculatedMetrics {
-  const trades = portfolio.getTrades();
+  const periodsPerYear = getPeriodsPerYear(samplingInterval);
   const totalGasSpent = portfolio.getTotalGasSpent();
   const totalFeesSpent = portfolio.getTotalFeesSpent();
 
@@ -137,9 +171,8 @@ export function calculateMetrics(
   const finalEquity = equityCurve[equityCurve.length - 1] || initialCapital;
   const totalReturn = ((finalEquity - initialCapital) / initialCapital) * 100;
   const maxDrawdown = calculateMaxDrawdown(equityCurve);
-  const sharpeRatio = calculateSharpeRatio(returns);
-  const { winTrades, totalTrades } = calculateWinRate(trades);
-  const winRate = totalTrades > 0 ? (winTrades / totalTrades) * 100 : 0;
+  const sharpeRatio = calculateSharpeRatio(returns, 0, periodsPerYear);
+  const tradeStats = (ledger ?? buildLedger(portfolio)).getStats();
 
   // Average return and volatility
   const averageReturn =
@@ -149,18 +182,223 @@ export function calculateMetrics(
     returns.length > 0
       ? returns.reduce((sum, r) => sum + Math.pow(r - averageReturn, 2), 0) / returns.length
       : 0;
-  const volatility = Math.sqrt(variance) * Math.sqrt(365) * 100; // Annualized volatility in %
+  const volatility = Math.sqrt(variance) * Math.sqrt(periodsPerYear) * 100;
 
   return {
     sharpeRatio,
     totalReturn,
     maxDrawdown,
-    winTrades,
-    totalTrades,
+    winTrades: tradeStats.wins,
+    totalTrades: tradeStats.roundTrips,
     totalGasSpent,
     totalFeesSpent,
     averageReturn: averageReturn * 100,
     volatility,
-    winRate,
+    winRate: tradeStats.winRate,
+    profitFactor: tradeStats.profitFactor,
+    expectancy: tradeStats.expectancy,
+  };
+}
+
+function buildLedger(portfolio: PortfolioManager): TradeLedger {
+  const ledger = new TradeLedger((token) => portfolio.isCashEquivalent(token));
+  ledger.recordAll(portfolio.getTrades());
+  return ledger;
+}
+
+/**
+ * Period returns between consecutive equity samples
+ */
+function toReturns(equityCurve: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    const prevEquity = equityCurve[i - 1] ?? 0;
+    if (prevEquity > 0) returns.push((equityCurve[i] ?? 0) / prevEquity - 1);
+  }
+  return returns;
+}
+
+/**
+ * Percent below the running peak at each sample
+ */
+function calculateUnderwaterCurve(curve: EquitySample[]): ExtendedMetrics['underwaterCurve'] {
+  let peak = Number.NEGATIVE_INFINITY;
+  return curve.map(({ date, equity }) => {
+    peak = Math.max(peak, equity);
+    return { date, drawdown: peak > 0 ? ((peak - equity) / peak) * 100 : 0 };
+  });
+}
+
+/**
+ * Each decline from a peak until equity first regains it
+ */
+function calculateDrawdownPeriods(curve: EquitySample[]): DrawdownPeriod[] {
+  const periods: DrawdownPeriod[] = [];
+  const time = (index: number) => Date.parse(curve[index]?.date ?? '');
+  let peakIndex = 0;
+  let troughIndex: number | null = null;
+
+  const close = (endIndex: number | null) => {
+    if (troughIndex === null) return;
+    const peak = curve[peakIndex]?.equity ?? 0;
+    const trough = curve[troughIndex]?.equity ?? 0;
+    const last = endIndex ?? curve.length - 1;
+    periods.push({
+      start: curve[peakIndex]?.date ?? '',
+      trough: curve[troughIndex]?.date ?? '',
+      end: endIndex === null ? null : (curve[endIndex]?.date ?? null),
+      depth: peak > 0 ? ((peak - trough) / peak) * 100 : 0,
+      duration: time(last) - time(peakIndex),
+      recoveryTime: endIndex === null ? null : time(endIndex) - time(troughIndex),
+    });
+    troughIndex = null;
+  };
+
+  for (let i = 1; i < curve.length; i++) {
+    const equity = curve[i]?.equity ?? 0;
+    const peak = curve[peakIndex]?.equity ?? 0;
+    if (equity >= peak) {
+      close(i);
+      peakIndex = i;
+    } else if (troughIndex === null || equity < (curve[troughIndex]?.equity ?? 0)) {
+      troughIndex = i;
+    }
+  }
+  close(null);
+
+  return periods;
+}
+
+/**
+ * Return of each calendar month (UTC) from the previous month's last sample
+ */
+function calculateMonthlyReturns(curve: EquitySample[]): MonthlyReturn[] {
+  const closes = new Map<string, { year: number; month: number; equity: number }>();
+  for (const { date, equity } of curve) {
+    const at = new Date(date);
+    const year = at.getUTCFullYear();
+    const month = at.getUTCMonth() + 1;
+    closes.set(`${year}-${month}`, { year, month, equity });
+  }
+
+  let previous = curve[0]?.equity ?? 0;
+  return Array.from(closes.values()).map(({ year, month, equity }) => {
+    const monthly = previous > 0 ? (equity / previous - 1) * 100 : 0;
+    previous = equity;
+    return { year, month, return: monthly };
+  });
+}
+
+/**
+ * Fees, gas and price impact paid across all trades
+ */
+function calculateCosts(trades: Trade[], averageEquity: number, days: number): CostBreakdown {
+  let fees = 0;
+  let gas = 0;
+  let priceImpact = 0;
+  for (const trade of trades) {
+    fees += trade.fees;
+    gas += trade.gasCost;
+    if (trade.inputValue !== undefined && trade.outputValue !== undefined) {
+      priceImpact += Math.max(0, trade.inputValue - trade.outputValue - trade.fees);
+    }
+  }
+
+  const total = fees + gas + priceImpact;
+  const drag = averageEquity > 0 ? (total / averageEquity) * 100 : 0;
+  return {
+    fees,
+    gas,
+    priceImpact,
+    total,
+    drag,
+    annualizedDrag: days > 0 ? drag * (365 / days) : 0,
+  };
+}
+
+/**
+ * Risk, drawdown, exposure and cost analysis of a run's equity samples and trades
+ * Exposure needs each sample's breakdown; samples without one count as flat. Ratios are
+ * annualized at `samplingInterval`, the spacing of the samples (daily when omitted).
+ */
+export function calculateExtendedMetrics(
+  curve: EquitySample[],
+  trades: Trade[],
+  options: { rollingWindow?: number; samplingInterval?: number } = {}
+): ExtendedMetrics {
+  const rollingWindow = options.rollingWindow ?? DEFAULT_ROLLING_WINDOW;
+  const periodsPerYear = getPeriodsPerYear(options.samplingInterval ?? DAY_MS);
+  const equity = curve.map((sample) => sample.equity);
+  const returns = toReturns(equity);
+  const first = curve[0];
+  const last = curve[curve.length - 1];
+  const days = first && last ? (Date.parse(last.date) - Date.parse(first.date)) / DAY_MS : 0;
+
+  // Volatility
+  const meanReturn =
+    returns.length > 0 ? returns.reduce((sum, r) => sum + r, 0) / returns.length : 0;
+  const variance =
+    returns.length > 0
+      ? returns.reduce((sum, r) => sum + (r - meanReturn) ** 2, 0) / returns.length
+      : 0;
+  const negativeReturns = returns.filter((r) => r < 0);
+  const downsideVariance =
+    negativeReturns.length > 0
+      ? negativeReturns.reduce((sum, r) => sum + r ** 2, 0) / negativeReturns.length
+      : 0;
+
+  // Sharpe over the trailing window, once the window is full
+  const rollingSharpe: ExtendedMetrics['rollingSharpe'] = [];
+  for (let i = rollingWindow; i < curve.length; i++) {
+    rollingSharpe.push({
+      date: curve[i]?.date ?? '',
+      sharpeRatio: calculateSharpeRatio(
+        toReturns(equity.slice(i - rollingWindow, i + 1)),
+        0,
+        periodsPerYear
+      ),
+    });
+  }
+
+  const underwaterCurve = calculateUnderwaterCurve(curve);
+  const drawdownPeriods = calculateDrawdownPeriods(curve);
+  const maxDrawdown = underwaterCurve.reduce((max, point) => Math.max(max, point.drawdown), 0);
+  const totalReturn =
+    first && first.equity > 0 ? ((last?.equity ?? 0) / first.equity - 1) * 100 : 0;
+
+  // Capital outside idle cash: wallet tokens, supplied, staked and LP positions
+  const exposures = curve.map(({ equity: total, breakdown }) => {
+    if (!breakdown || total <= 0) return 0;
+    const deployed = breakdown.cash - breakdown.idle + breakdown.supplied + breakdown.liquidity;
+    return deployed / total;
+  });
+  const exposed = exposures.filter((share) => share > EXPOSURE_THRESHOLD).length;
+
+  const averageEquity =
+    equity.length > 0 ? equity.reduce((sum, value) => sum + value, 0) / equity.length : 0;
+  const tradedValue = trades.reduce((sum, trade) => sum + (trade.inputValue ?? 0), 0);
+  const turnover = averageEquity > 0 ? tradedValue / averageEquity : 0;
+
+  return {
+    volatility: Math.sqrt(variance) * Math.sqrt(periodsPerYear) * 100,
+    downsideVolatility: Math.sqrt(downsideVariance) * Math.sqrt(periodsPerYear) * 100,
+    sortinoRatio: calculateSortinoRatio(returns, 0, periodsPerYear),
+    calmarRatio: calculateCalmarRatio(totalReturn, maxDrawdown, Math.max(1, days)),
+    valueAtRisk95: calculateValueAtRisk(returns, 0.95),
+    conditionalVaR95: calculateConditionalVaR(returns, 0.95),
+    rollingWindow,
+    rollingSharpe,
+    underwaterCurve,
+    drawdownPeriods,
+    longestDrawdown: drawdownPeriods.reduce((max, period) => Math.max(max, period.duration), 0),
+    monthlyReturns: calculateMonthlyReturns(curve),
+    exposureTime: curve.length > 0 ? (exposed / curve.length) * 100 : 0,
+    averageExposure:
+      exposures.length > 0
+        ? (exposures.reduce((sum, share) => sum + share, 0) / exposures.length) * 100
+        : 0,
+    turnover,
+    annualizedTurnover: days > 0 ? turnover * (365 / days) : 0,
+    costs: calculateCosts(trades, averageEquity, days),
   };
 }
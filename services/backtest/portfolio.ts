@@ -2,49 +2,142 @@
  * Portfolio state management for backtesting
  */
 
+import { logger } from '../../utils/logger';
+import type { ConcentratedLiquidityState } from './concentratedLiquidity';
+import { type Clock, systemClock } from './determinism';
+
 export interface Portfolio {
   balances: Map<string, number>; // token -> amount
   positions: Map<string, Position>; // positionId -> position
-  totalEquity: number; // Total portfolio value in USD
+  totalEquity: number; // Total portfolio value in the base currency
 }
 
 export interface Position {
   id: string;
-  type: 'supply' | 'borrow' | 'liquidity' | 'swap';
+  type: 'supply' | 'borrow' | 'liquidity' | 'swap' | 'staking';
   asset: string;
   amount: number;
   entryPrice: number;
   entryTimestamp: number;
   protocol?: string;
+  tokenAmounts?: Record<string, number>; // Underlying token amounts for LP positions
+  collateral?: boolean; // Supply positions only; false when not enabled as collateral
+  concentrated?: ConcentratedLiquidityState; // Uniswap V3 range, liquidity and fees
+}
+
+export interface EquityBreakdown {
+  cash: number; // Wallet balances
+  idle: number; // Cash-equivalent wallet balances, included in cash
+  supplied: number; // Supplied, staked and held positions
+  borrowed: number; // Outstanding debt (subtracted from total)
+  liquidity: number; // LP positions
+  total: number; // cash + supplied + liquidity - borrowed
+  unpriced: string[]; // Held assets valued at zero for lack of a price
+}
+
+export interface PortfolioSnapshot {
+  balances: Map<string, number>;
+  positions: Map<string, Position>;
+  tradeCount: number;
+  tradeCounter: number;
+  positionCounter: number;
+}
+
+export interface PortfolioOptions {
+  clock?: Clock; // Source of id timestamps; pass the simulation clock for reproducible ids
+  baseCurrency?: string; // Unit every valuation is quoted in (default USD)
+  cashToken?: string; // Token the initial capital is held in (default USDC)
+  pegs?: Record<string, number>; // token -> fixed price in base currency when no quote is available
 }
 
+export const DEFAULT_STABLECOIN_PEGS: Record<string, number> = {
+  USDC: 1,
+  USDT: 1,
+  DAI: 1,
+};
+
 export interface Trade {
   id: string;
   timestamp: number;
-  type: 'entry' | 'exit' | 'swap' | 'supply' | 'withdraw';
+  type:
+    | 'entry'
+    | 'exit'
+    | 'swap'
+    | 'supply'
+    | 'withdraw'
+    | 'borrow'
+    | 'repay'
+    | 'liquidity'
+    | 'flash_loan'
+    | 'staking'
+    | 'liquidation';
   inputToken: string;
   outputToken?: string;
   inputAmount: number;
   outputAmount?: number;
   price: number;
-  slippage?: number;
+  slippage?: number; // Realized price impact in percent
   fees: number;
   gasCost: number;
+  inputValue?: number; // Base-currency value given up, for trades exchanging one token for another
+  outputValue?: number; // Base-currency value received, after fees and price impact
 }
 
 export class PortfolioManager {
   private portfolio: Portfolio;
   private trades: Trade[] = [];
   private tradeCounter = 0;
+  private positionCounter = 0;
+  private clock: Clock;
+  private baseCurrency: string;
+  private cashToken: string;
+  private pegs: Record<string, number>;
+  private warnedUnpriced = new Set<string>();
 
-  constructor(initialCapital: number) {
+  constructor(initialCapital: number, options: PortfolioOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.baseCurrency = options.baseCurrency || 'USD';
+    this.cashToken = options.cashToken || 'USDC';
+    this.pegs = options.pegs || DEFAULT_STABLECOIN_PEGS;
     this.portfolio = {
-      balances: new Map([['USDC', initialCapital]]), // Start with USDC
+      balances: new Map([[this.cashToken, initialCapital]]),
       positions: new Map(),
       totalEquity: initialCapital,
     };
   }
 
+  /**
+   * Get the currency all valuations are quoted in
+   */
+  getBaseCurrency(): string {
+    return this.baseCurrency;
+  }
+
+  /**
+   * Get the token the initial capital is held in
+   */
+  getCashToken(): string {
+    return this.cashToken;
+  }
+
+  /**
+   * Whether a token counts as cash: the base currency, the cash token or a pegged stablecoin
+   */
+  isCashEquivalent(token: string): boolean {
+    return token === this.baseCurrency || token === this.cashToken || token in this.pegs;
+  }
+
+  /**
+   * Get a token's price in the base currency
+   * Market quotes win over pegs, so a depegged stablecoin is valued at market.
+   */
+  getPrice(token: string, tokenPrices: Map<string, number>): number | undefined {
+    if (token === this.baseCurrency) return 1;
+    const quoted = tokenPrices.get(token);
+    if (quoted !== undefined && quoted > 0) return quoted;
+    return this.pegs[token];
+  }
+
   /**
    * Get current portfolio
    */
@@ -93,14 +186,20 @@ export class PortfolioManager {
   }
 
   /**
-   * Record a trade
+   * Record a trade and pay its gas from the cash balance
+   * Gas is owed whatever the balance, so short cash goes negative rather than
+   * leaving the cost out of equity.
    */
   recordTrade(trade: Omit<Trade, 'id'>): Trade {
     const fullTrade: Trade = {
       ...trade,
-      id: `trade-${++this.tradeCounter}-${Date.now()}`,
+      id: `trade-${++this.tradeCounter}-${this.clock.now()}`,
     };
     this.trades.push(fullTrade);
+    if (trade.gasCost > 0) {
+      const cashPrice = this.getPrice(this.cashToken, new Map()) ?? 1;
+      this.addBalance(this.cashToken, -trade.gasCost / cashPrice);
+    }
     return fullTrade;
   }
 
@@ -110,7 +209,7 @@ export class PortfolioManager {
   addPosition(position: Omit<Position, 'id'>): Position {
     const fullPosition: Position = {
       ...position,
-      id: `position-${Date.now()}-${Math.random()}`,
+      id: `position-${++this.positionCounter}-${this.clock.now()}`,
     };
     this.portfolio.positions.set(fullPosition.id, fullPosition);
     return fullPosition;
@@ -127,6 +226,34 @@ export class PortfolioManager {
     return position;
   }
 
+  /**
+   * Capture balances, positions and the trade log so an atomic bundle can be reverted
+   */
+  snapshot(): PortfolioSnapshot {
+    return {
+      balances: new Map(this.portfolio.balances),
+      positions: new Map(
+        Array.from(this.portfolio.positions, ([id, position]) => [id, structuredClone(position)])
+      ),
+      tradeCount: this.trades.length,
+      tradeCounter: this.tradeCounter,
+      positionCounter: this.positionCounter,
+    };
+  }
+
+  /**
+   * Roll back to a snapshot, dropping every trade recorded since it was taken
+   */
+  restore(snapshot: PortfolioSnapshot): void {
+    this.portfolio.balances = new Map(snapshot.balances);
+    this.portfolio.positions = new Map(
+      Array.from(snapshot.positions, ([id, position]) => [id, structuredClone(position)])
+    );
+    this.trades.length = snapshot.tradeCount;
+    this.tradeCounter = snapshot.tradeCounter;
+    this.positionCounter = snapshot.positionCounter;
+  }
+
   /**
    * Get all positions
    */
@@ -135,27 +262,83 @@ export class PortfolioManager {
   }
 
   /**
-   * Calculate total equity in USD using current prices
+   * Split equity into cash, supplied, borrowed and LP buckets
    */
-  calculateEquity(tokenPrices: Map<string, number>): number {
-    let total = 0;
+  getEquityBreakdown(tokenPrices: Map<string, number>): EquityBreakdown {
+    const breakdown: EquityBreakdown = {
+      cash: 0,
+      idle: 0,
+      supplied: 0,
+      borrowed: 0,
+      liquidity: 0,
+      total: 0,
+      unpriced: [],
+    };
+    const unpriced = new Set<string>();
+
+    const valueIn = (token: string, amount: number): number => {
+      if (amount === 0) return 0;
+      const price = this.getPrice(token, tokenPrices);
+      if (price === undefined) {
+        unpriced.add(token);
+        return 0;
+      }
+      return amount * price;
+    };
 
-    // Add token balances
     for (const [token, amount] of this.portfolio.balances.entries()) {
-      const price = tokenPrices.get(token) || 0;
-      total += amount * price;
+      const value = valueIn(token, amount);
+      breakdown.cash += value;
+      if (this.isCashEquivalent(token)) breakdown.idle += value;
     }
 
-    // Add position values
     for (const position of this.portfolio.positions.values()) {
-      const price = tokenPrices.get(position.asset) || 0;
-      total += position.amount * price;
+      switch (position.type) {
+        case 'borrow':
+          breakdown.borrowed += valueIn(position.asset, position.amount);
+          break;
+        case 'liquidity':
+          for (const [token, amount] of Object.entries(position.tokenAmounts || {})) {
+            breakdown.liquidity += valueIn(token, amount);
+          }
+          if (!position.tokenAmounts) unpriced.add(position.asset);
+          break;
+        default:
+          breakdown.supplied += valueIn(position.asset, position.amount);
+      }
     }
 
+    breakdown.total =
+      breakdown.cash + breakdown.supplied + breakdown.liquidity - breakdown.borrowed;
+    breakdown.unpriced = Array.from(unpriced).sort();
+    this.warnUnpriced(breakdown.unpriced);
+    return breakdown;
+  }
+
+  /**
+   * Calculate total equity in the base currency using current prices
+   * Borrowed amounts are liabilities and reduce equity.
+   */
+  calculateEquity(tokenPrices: Map<string, number>): number {
+    const { total } = this.getEquityBreakdown(tokenPrices);
     this.portfolio.totalEquity = total;
     return total;
   }
 
+  /**
+   * Warn once per asset that is held but cannot be valued
+   */
+  private warnUnpriced(assets: string[]): void {
+    for (const asset of assets) {
+      if (this.warnedUnpriced.has(asset)) continue;
+      this.warnedUnpriced.add(asset);
+      logger.warn(
+        `No ${this.baseCurrency} price for held asset ${asset}; valuing it at 0`,
+        'PortfolioManager'
+      );
+    }
+  }
+
   /**
    * Get total gas spent
    */
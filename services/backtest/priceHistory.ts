@@ -0,0 +1,141 @@
+/**
+ * Look-ahead-safe price history for backtesting
+ * Exposes only bars at or before the current backtest timestamp
+ */
+
+import { type Candle, mergeCandles, toCandle } from './candles';
+import type { PriceDataPoint } from './dataFetcher';
+
+export class PriceHistory {
+  private series = new Map<string, PriceDataPoint[]>();
+  private cursors = new Map<string, number>(); // token -> number of visible bars
+  private currentTimestamp = Number.NEGATIVE_INFINITY;
+
+  /**
+   * @param series - Full fetched series per token (any order)
+   * @param maxLookback - Maximum number of bars a block may read back (rolling window)
+   */
+  constructor(
+    series: Map<string, PriceDataPoint[]>,
+    private readonly maxLookback = Number.POSITIVE_INFINITY
+  ) {
+    for (const [token, points] of series.entries()) {
+      const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+      this.series.set(token, sorted);
+      this.cursors.set(token, 0);
+    }
+  }
+
+  /**
+   * Move the visibility cursor forward to a timestamp
+   * Time only moves forward; rewinding would let blocks observe a mutated past.
+   */
+  advanceTo(timestamp: number): void {
+    if (timestamp < this.currentTimestamp) {
+      throw new Error(
+        `Cannot rewind price history from ${new Date(this.currentTimestamp).toISOString()} to ${new Date(timestamp).toISOString()}`
+      );
+    }
+
+    this.currentTimestamp = timestamp;
+    for (const [token, points] of this.series.entries()) {
+      let cursor = this.cursors.get(token) || 0;
+      while (cursor < points.length && (points[cursor]?.timestamp ?? 0) <= timestamp) {
+        cursor++;
+      }
+      this.cursors.set(token, cursor);
+    }
+  }
+
+  /**
+   * Get the current backtest timestamp
+   */
+  getTimestamp(): number {
+    return this.currentTimestamp;
+  }
+
+  /**
+   * Get tokens with history
+   */
+  getTokens(): string[] {
+    return Array.from(this.series.keys());
+  }
+
+  /**
+   * Get the last `count` visible bars for a token (all visible bars if omitted)
+   */
+  getBars(token: string, count?: number): PriceDataPoint[] {
+    const points = this.series.get(token);
+    if (!points) return [];
+
+    const end = this.cursors.get(token) || 0;
+    const limit = Math.min(count ?? Number.POSITIVE_INFINITY, this.maxLookback);
+    const start = Number.isFinite(limit) ? Math.max(0, end - Math.max(0, limit)) : 0;
+
+    return points.slice(start, end).map((point) => ({ ...point }));
+  }
+
+  /**
+   * Get the last `count` visible prices for a token
+   */
+  getPrices(token: string, count?: number): number[] {
+    return this.getBars(token, count).map((point) => point.price);
+  }
+
+  /**
+   * Get the last `count` visible bars as OHLCV candles
+   */
+  getCandles(token: string, count?: number): Candle[] {
+    return this.getBars(token, count).map(toCandle);
+  }
+
+  /**
+   * Merge all visible bars after `since` into a single candle
+   * Gives the intrabar range covered between two evaluation steps. Called for every
+   * token on every event, so it reads the series in place instead of copying it.
+   */
+  getCandleSince(token: string, since: number): Candle | undefined {
+    const points = this.series.get(token);
+    if (!points) return undefined;
+
+    const end = this.cursors.get(token) || 0;
+    let low = Number.isFinite(this.maxLookback) ? Math.max(0, end - this.maxLookback) : 0;
+    let high = end;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if ((points[middle]?.timestamp ?? 0) > since) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+
+    let candle: Candle | undefined;
+    for (let index = low; index < end; index++) {
+      const next = toCandle(points[index] as PriceDataPoint);
+      candle = candle ? mergeCandles(candle, next) : next;
+    }
+    return candle;
+  }
+
+  /**
+   * Get the last `count` visible volumes for a token (0 where the source has no volume)
+   */
+  getVolumes(token: string, count?: number): number[] {
+    return this.getBars(token, count).map((point) => point.volume ?? 0);
+  }
+
+  /**
+   * Get the most recent visible bar for a token
+   */
+  getLatestBar(token: string): PriceDataPoint | undefined {
+    return this.getBars(token, 1)[0];
+  }
+
+  /**
+   * Get visible bars within a time range ending at the current timestamp
+   */
+  getBarsSince(token: string, since: number): PriceDataPoint[] {
+    return this.getBars(token).filter((point) => point.timestamp >= since);
+  }
+}
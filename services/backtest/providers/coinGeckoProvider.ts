@@ -0,0 +1,161 @@
+/**
+ * CoinGecko historical price provider
+ * Free API, no key required. Requests are rate limited and deduplicated.
+ */
+
+import { logger } from '../../../utils/logger';
+import { generalRateLimiter, requestDeduplicator } from '../../../utils/rateLimiter';
+import type { PriceDataPoint } from '../dataFetcher';
+import { type TokenRegistry, defaultTokenRegistry } from './tokenRegistry';
+import type { PriceDataProvider, PriceInterval } from './types';
+
+const COINGECKO_API = 'https://api.coingecko.com/api/v3';
+const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CacheEntry {
+  data: PriceDataPoint[];
+  timestamp: number;
+}
+
+export interface CoinGeckoProviderOptions {
+  registry?: TokenRegistry;
+  maxDaysPerRequest?: number; // Range requests longer than this are split into chunks
+  chunkDelayMs?: number; // Pause between chunk requests
+}
+
+export class CoinGeckoPriceProvider implements PriceDataProvider {
+  readonly id = 'coingecko';
+  private registry: TokenRegistry;
+  private maxDaysPerRequest: number;
+  private chunkDelayMs: number;
+  private cache = new Map<string, CacheEntry>();
+
+  constructor(options: CoinGeckoProviderOptions = {}) {
+    this.registry = options.registry || defaultTokenRegistry;
+    this.maxDaysPerRequest = options.maxDaysPerRequest ?? 90;
+    this.chunkDelayMs = options.chunkDelayMs ?? 1000;
+  }
+
+  async fetchPrices(
+    token: string,
+    startDate: Date,
+    endDate: Date,
+    interval: PriceInterval
+  ): Promise<PriceDataPoint[]> {
+    const tokenId = this.registry.getCoinGeckoId(token);
+    if (!tokenId) {
+      throw new Error(
+        `Unsupported token: ${token}. Supported tokens: ${this.registry.getSymbols().join(', ')}`
+      );
+    }
+
+    const cacheKey = `${tokenId}-${startDate.getTime()}-${endDate.getTime()}-${interval}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+      return cached.data;
+    }
+
+    try {
+      const allPrices: PriceDataPoint[] = [];
+      const chunkMs = this.maxDaysPerRequest * DAY_MS;
+      let chunkStart = startDate.getTime();
+      const end = endDate.getTime();
+
+      while (chunkStart < end) {
+        const chunkEnd = Math.min(chunkStart + chunkMs, end);
+        allPrices.push(...(await this.fetchRange(tokenId, chunkStart, chunkEnd)));
+        chunkStart = chunkEnd;
+
+        if (chunkStart < end && this.chunkDelayMs > 0) {
+          await new Promise((resolve) => setTimeout(resolve, this.chunkDelayMs));
+        }
+      }
+
+      // Remove duplicates at chunk boundaries and sort by timestamp
+      const uniquePrices = Array.from(
+        new Map(allPrices.map((p) => [p.timestamp, p])).values()
+      ).sort((a, b) => a.timestamp - b.timestamp);
+
+      const prices = this.toBarVolumes(
+        interval === 'daily' ? this.toDaily(uniquePrices) : uniquePrices
+      );
+
+      this.cache.set(cacheKey, { data: prices, timestamp: Date.now() });
+      return prices;
+    } catch (error) {
+      logger.error(
+        `Error fetching prices for ${token}`,
+        error instanceof Error ? error : new Error(String(error)),
+        'CoinGeckoPriceProvider'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Clear cached responses
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async fetchRange(tokenId: string, from: number, to: number): Promise<PriceDataPoint[]> {
+    const url = `${COINGECKO_API}/coins/${tokenId}/market_chart/range?vs_currency=usd&from=${Math.floor(from / 1000)}&to=${Math.ceil(to / 1000)}`;
+    const requestKey = `${tokenId}-${from}-${to}`;
+
+    const response = (await generalRateLimiter.enqueue(
+      () =>
+        requestDeduplicator.deduplicate(requestKey, async () => {
+          const res = await fetch(url);
+          if (!res.ok) {
+            if (res.status === 429) {
+              // Rate limited - throw error to trigger retry in rate limiter
+              throw new Error('Rate limit exceeded (429)');
+            }
+            throw new Error(`CoinGecko API error: ${res.status} ${res.statusText}`);
+          }
+          return res;
+        }),
+      `historical-${requestKey}`
+    )) as Response;
+
+    const data = await response.json();
+
+    // Extract prices (and volumes, keyed by timestamp) from response.
+    // CoinGecko only returns closes, so candles from this source are flat.
+    const volumes = new Map<number, number>(
+      (data.total_volumes || []).map(([timestamp, volume]: [number, number]) => [timestamp, volume])
+    );
+    return (data.prices || []).map(([timestamp, price]: [number, number]) => ({
+      timestamp,
+      price,
+      volume: volumes.get(timestamp),
+    }));
+  }
+
+  /**
+   * Keep the last observation of each UTC day
+   * CoinGecko range responses are hourly for ranges under 90 days.
+   */
+  private toDaily(prices: PriceDataPoint[]): PriceDataPoint[] {
+    const byDay = new Map<number, PriceDataPoint>();
+    for (const point of prices) {
+      byDay.set(Math.floor(point.timestamp / DAY_MS), point);
+    }
+    return Array.from(byDay.values());
+  }
+
+  /**
+   * Convert CoinGecko's rolling 24h volumes into per-bar volumes
+   * Bars shorter than a day get their share of the rolling volume.
+   */
+  private toBarVolumes(prices: PriceDataPoint[]): PriceDataPoint[] {
+    return prices.map((point, i) => {
+      const neighbour = prices[i === 0 ? 1 : i - 1];
+      if (point.volume === undefined || !neighbour) return point;
+      const spacing = Math.abs(point.timestamp - neighbour.timestamp);
+      return { ...point, volume: point.volume * Math.min(1, spacing / DAY_MS) };
+    });
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Local file price provider
+ * Loads exported price series (CSV or JSON) so backtests can run offline
+ */
+
+import type { PriceDataPoint } from '../dataFetcher';
+import { hashValue } from '../determinism';
+import type { PriceDataProvider, PriceInterval } from './types';
+
+export type FileLoader = (source: string) => Promise<string>;
+export type FileFingerprint = (source: string) => Promise<string>;
+
+const TIMESTAMP_COLUMNS = ['timestamp', 'time', 'date', 'datetime'];
+const PRICE_COLUMNS = ['price', 'close'];
+const VOLUME_COLUMNS = ['volume', 'total_volume'];
+const OHLC_FIELDS = ['open', 'high', 'low'] as const;
+
+/**
+ * Parse a timestamp cell: epoch seconds, epoch milliseconds or an ISO date
+ */
+export function parseTimestamp(value: string | number): number {
+  if (typeof value === 'number' || /^\d+(\.\d+)?$/.test(String(value).trim())) {
+    const numeric = Number(value);
+    // Heuristic: anything below 1e11 is epoch seconds (1e11 ms is 1973)
+    return numeric < 1e11 ? numeric * 1000 : numeric;
+  }
+  const parsed = Date.parse(String(value).trim());
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid timestamp: ${value}`);
+  }
+  return parsed;
+}
+
+function findColumn(headers: string[], candidates: string[]): number {
+  return headers.findIndex((header) => candidates.includes(header));
+}
+
+/**
+ * Parse a CSV price export
+ * Requires a header row with a timestamp column (timestamp/time/date) and a
+ * price column (price/close). open/high/low and volume columns are optional.
+ */
+export function parsePriceCsv(content: string): PriceDataPoint[] {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'));
+
+  const [headerLine, ...rows] = lines;
+  if (!headerLine) return [];
+
+  const headers = headerLine.split(',').map((h) => h.trim().replace(/"/g, '').toLowerCase());
+  const timestampIndex = findColumn(headers, TIMESTAMP_COLUMNS);
+  const priceIndex = findColumn(headers, PRICE_COLUMNS);
+  const volumeIndex = findColumn(headers, VOLUME_COLUMNS);
+  const ohlcIndexes = OHLC_FIELDS.map((field) => [field, headers.indexOf(field)] as const);
+
+  if (timestampIndex === -1 || priceIndex === -1) {
+    throw new Error(
+      `CSV must have a timestamp column (${TIMESTAMP_COLUMNS.join('/')}) and a price column (${PRICE_COLUMNS.join('/')})`
+    );
+  }
+
+  return rows
+    .map((row, i) => {
+      const cells = row.split(',').map((c) => c.trim().replace(/"/g, ''));
+      const price = Number(cells[priceIndex]);
+      if (!Number.isFinite(price)) {
+        throw new Error(`Invalid price on CSV row ${i + 2}: ${cells[priceIndex]}`);
+      }
+      const point: PriceDataPoint = {
+        timestamp: parseTimestamp(cells[timestampIndex] ?? ''),
+        price,
+      };
+      for (const [field, index] of ohlcIndexes) {
+        if (index !== -1 && cells[index]) {
+          point[field] = Number(cells[index]);
+        }
+      }
+      if (volumeIndex !== -1 && cells[volumeIndex]) {
+        point.volume = Number(cells[volumeIndex]);
+      }
+      return point;
+    })
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Parse a JSON price export
+ * Accepts an array of { timestamp, price | close, open?, high?, low?, volume? } objects or a
+ * CoinGecko market_chart response ({ prices: [[ts, price]], total_volumes }).
+ */
+export function parsePriceJson(content: string): PriceDataPoint[] {
+  const data: unknown = JSON.parse(content);
+
+  if (Array.isArray(data)) {
+    return data
+      .map((entry: Record<string, string | number>) => {
+        const price = Number(entry.price ?? entry.close);
+        const rawTimestamp = entry.timestamp ?? entry.time ?? entry.date;
+        if (rawTimestamp === undefined || !Number.isFinite(price)) {
+          throw new Error(`Invalid price entry: ${JSON.stringify(entry)}`);
+        }
+        const point: PriceDataPoint = { timestamp: parseTimestamp(rawTimestamp), price };
+        for (const field of OHLC_FIELDS) {
+          if (entry[field] !== undefined) {
+            point[field] = Number(entry[field]);
+          }
+        }
+        if (entry.volume !== undefined) {
+          point.volume = Number(entry.volume);
+        }
+        return point;
+      })
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  if (data && typeof data === 'object' && 'prices' in data) {
+    const chart = data as { prices: [number, number][]; total_volumes?: [number, number][] };
+    const volumes = new Map(chart.total_volumes || []);
+    return chart.prices.map(([timestamp, price]) => ({
+      timestamp,
+      price,
+      volume: volumes.get(timestamp),
+    }));
+  }
+
+  throw new Error('Unrecognized JSON price format');
+}
+
+/**
+ * Read a data file with fetch(), so local exports can be served alongside the app
+ */
+export const loadFile: FileLoader = async (source) => {
+  const res = await fetch(source);
+  if (!res.ok) {
+    throw new Error(`Failed to load data file ${source}: ${res.status} ${res.statusText}`);
+  }
+  return res.text();
+};
+
+/**
+ * Identify the current contents of a file: its ETag, else its modification time and length,
+ * else a hash of the body when the server sends neither
+ */
+export const fingerprintFile: FileFingerprint = async (source) => {
+  const res = await fetch(source, { method: 'HEAD' }).catch(() => null);
+  if (res?.ok) {
+    const etag = res.headers.get('etag');
+    if (etag) return etag;
+    const modified = res.headers.get('last-modified');
+    const length = res.headers.get('content-length');
+    if (modified && length) return `${modified}:${length}`;
+  }
+  return hashValue(await loadFile(source));
+};
+
+export class FilePriceProvider implements PriceDataProvider {
+  readonly id = 'file';
+  private parsed = new Map<string, Promise<PriceDataPoint[]>>();
+
+  /**
+   * @param files - token -> file source (URL, or path understood by `loader`)
+   * @param format - 'csv' or 'json'
+   * @param loader - Reads a source into text; defaults to fetch()
+   */
+  constructor(
+    private files: Record<string, string>,
+    private format: 'csv' | 'json',
+    private loader: FileLoader = loadFile
+  ) {}
+
+  async fetchPrices(
+    token: string,
+    startDate: Date,
+    endDate: Date,
+    _interval: PriceInterval
+  ): Promise<PriceDataPoint[]> {
+    const source = this.files[token] ?? this.files[token.toUpperCase()];
+    if (!source) {
+      throw new Error(
+        `No price file configured for ${token}. Configured tokens: ${Object.keys(this.files).join(', ')}`
+      );
+    }
+
+    let series = this.parsed.get(source);
+    if (!series) {
+      series = this.loader(source).then((content) =>
+        this.format === 'csv' ? parsePriceCsv(content) : parsePriceJson(content)
+      );
+      this.parsed.set(source, series);
+    }
+
+    const start = startDate.getTime();
+    const end = endDate.getTime();
+    return (await series)
+      .filter((point) => point.timestamp >= start && point.timestamp <= end)
+      .map((point) => ({ ...point }));
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * In-memory fixture price provider
+ * Serves fixed series for tests, CI and offline runs
+ */
+
+import type { PriceDataPoint } from '../dataFetcher';
+import type { PriceDataProvider, PriceInterval } from './types';
+
+export class FixturePriceProvider implements PriceDataProvider {
+  readonly id = 'fixture';
+  private data = new Map<string, PriceDataPoint[]>();
+
+  constructor(data: Record<string, PriceDataPoint[]> | Map<string, PriceDataPoint[]>) {
+    const entries = data instanceof Map ? data.entries() : Object.entries(data);
+    for (const [token, points] of entries) {
+      this.data.set(
+        token.toUpperCase(),
+        [...points].sort((a, b) => a.timestamp - b.timestamp)
+      );
+    }
+  }
+
+  async fetchPrices(
+    token: string,
+    startDate: Date,
+    endDate: Date,
+    _interval: PriceInterval
+  ): Promise<PriceDataPoint[]> {
+    const points = this.data.get(token.toUpperCase());
+    if (!points) {
+      throw new Error(`No fixture data for ${token}`);
+    }
+
+    const start = startDate.getTime();
+    const end = endDate.getTime();
+    return points
+      .filter((point) => point.timestamp >= start && point.timestamp <= end)
+      .map((point) => ({ ...point }));
+  }
+}
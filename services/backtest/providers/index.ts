@@ -0,0 +1,70 @@
+/**
+ * Historical price data providers
+ */
+
+import { hashValue } from '../determinism';
+import { CoinGeckoPriceProvider } from './coinGeckoProvider';
+import { type FileFingerprint, FilePriceProvider, fingerprintFile } from './filePriceProvider';
+import { FixturePriceProvider } from './fixturePriceProvider';
+import { defaultTokenRegistry } from './tokenRegistry';
+import type { DataSourceConfig, PriceDataProvider } from './types';
+
+export * from './types';
+export * from './tokenRegistry';
+export * from './coinGeckoProvider';
+export * from './filePriceProvider';
+export * from './fixturePriceProvider';
+
+/**
+ * Bump when fetching or normalization changes the series a data source config yields,
+ * so results cached against older data are not reused
+ */
+export const PRICE_DATA_VERSION = 1;
+
+/**
+ * Identify the price data a config resolves to; CoinGecko is the default source
+ * Files can be edited in place, so file sources are identified by their contents, not their URLs.
+ */
+export async function getDataSourceVersion(
+  config: DataSourceConfig = { type: 'coingecko' },
+  fingerprint: FileFingerprint = fingerprintFile
+): Promise<string> {
+  const files = config.type === 'file' ? Object.entries(config.files) : [];
+  const contents = await Promise.all(
+    files.map(async ([token, file]) => [token, await fingerprint(file)])
+  );
+  return hashValue({ version: PRICE_DATA_VERSION, source: config, contents });
+}
+
+/**
+ * Create a provider from a serializable data source config
+ */
+export function createPriceDataProvider(config: DataSourceConfig): PriceDataProvider {
+  switch (config.type) {
+    case 'coingecko': {
+      if (!config.tokenIds) {
+        return new CoinGeckoPriceProvider();
+      }
+      const registry = defaultTokenRegistry.clone();
+      for (const [symbol, coingeckoId] of Object.entries(config.tokenIds)) {
+        registry.register({ symbol, coingeckoId });
+      }
+      return new CoinGeckoPriceProvider({ registry });
+    }
+    case 'file':
+      return new FilePriceProvider(config.files, config.format);
+    case 'fixture':
+      return new FixturePriceProvider(config.data);
+    default:
+      throw new Error(`Unknown data source: ${(config as { type: string }).type}`);
+  }
+}
+
+/**
+ * Accept either a provider instance or a data source config
+ */
+export function resolvePriceDataProvider(
+  source: DataSourceConfig | PriceDataProvider
+): PriceDataProvider {
+  return 'fetchPrices' in source ? source : createPriceDataProvider(source);
+}
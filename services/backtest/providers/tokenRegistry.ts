@@ -0,0 +1,75 @@
+/**
+ * Token symbol registry for price data providers
+ * Maps strategy symbols (ETH, USDC, ...) to provider-specific identifiers
+ */
+
+export interface TokenInfo {
+  symbol: string;
+  coingeckoId?: string;
+  aliases?: string[];
+}
+
+const DEFAULT_TOKENS: TokenInfo[] = [
+  { symbol: 'ETH', coingeckoId: 'ethereum', aliases: ['WETH'] },
+  { symbol: 'USDC', coingeckoId: 'usd-coin' },
+  { symbol: 'USDT', coingeckoId: 'tether' },
+  { symbol: 'DAI', coingeckoId: 'dai' },
+  { symbol: 'WBTC', coingeckoId: 'wrapped-bitcoin', aliases: ['BTC'] },
+  { symbol: 'AAVE', coingeckoId: 'aave' },
+  { symbol: 'UNI', coingeckoId: 'uniswap' },
+  { symbol: 'LINK', coingeckoId: 'chainlink' },
+  { symbol: 'POL', coingeckoId: 'polygon-ecosystem-token', aliases: ['MATIC'] },
+];
+
+export class TokenRegistry {
+  private tokens = new Map<string, TokenInfo>();
+  private aliases = new Map<string, string>(); // alias -> canonical symbol
+
+  constructor(tokens: TokenInfo[] = []) {
+    for (const token of tokens) {
+      this.register(token);
+    }
+  }
+
+  /**
+   * Register or replace a token
+   */
+  register(token: TokenInfo): void {
+    const symbol = token.symbol.toUpperCase();
+    this.tokens.set(symbol, { ...token, symbol });
+    for (const alias of token.aliases || []) {
+      this.aliases.set(alias.toUpperCase(), symbol);
+    }
+  }
+
+  /**
+   * Resolve a symbol or alias to its token info
+   */
+  resolve(symbol: string): TokenInfo | undefined {
+    const upper = symbol.toUpperCase();
+    return this.tokens.get(upper) || this.tokens.get(this.aliases.get(upper) || '');
+  }
+
+  /**
+   * Get the CoinGecko id for a symbol
+   */
+  getCoinGeckoId(symbol: string): string | null {
+    return this.resolve(symbol)?.coingeckoId || null;
+  }
+
+  /**
+   * Get all registered canonical symbols
+   */
+  getSymbols(): string[] {
+    return Array.from(this.tokens.keys());
+  }
+
+  /**
+   * Create a copy that can be extended without touching this registry
+   */
+  clone(): TokenRegistry {
+    return new TokenRegistry(Array.from(this.tokens.values()));
+  }
+}
+
+export const defaultTokenRegistry = new TokenRegistry(DEFAULT_TOKENS);
@@ -0,0 +1,35 @@
+import type { PriceDataPoint } from '../dataFetcher';
+
+export type PriceInterval = 'hourly' | 'daily';
+
+/**
+ * Source of historical price data for backtests
+ */
+export interface PriceDataProvider {
+  /** Stable identifier, e.g. 'coingecko' or 'fixture' */
+  readonly id: string;
+  fetchPrices(
+    token: string,
+    startDate: Date,
+    endDate: Date,
+    interval: PriceInterval
+  ): Promise<PriceDataPoint[]>;
+}
+
+/**
+ * Serializable provider selection, safe to post to a web worker
+ */
+export type DataSourceConfig =
+  | {
+      type: 'coingecko';
+      tokenIds?: Record<string, string>; // Extra symbol -> CoinGecko id mappings
+    }
+  | {
+      type: 'file';
+      format: 'csv' | 'json';
+      files: Record<string, string>; // token -> URL or path of its exported series
+    }
+  | {
+      type: 'fixture';
+      data: Record<string, PriceDataPoint[]>;
+    };
@@ -0,0 +1,59 @@
+/**
+ * Historical rate dataset source
+ * Serves recorded supply/borrow rate series, e.g. exported from a subgraph
+ */
+
+import type { LendingRates, RatePoint, RateSource } from './types';
+
+export class DatasetRateSource implements RateSource {
+  readonly id = 'dataset';
+  private series = new Map<string, RatePoint[]>(); // `${protocol}:${asset}` -> sorted series
+
+  /**
+   * @param data - protocol -> asset -> rate series (any order)
+   * @param fallback - Used for protocol/asset pairs missing from the dataset
+   */
+  constructor(
+    data: Record<string, Record<string, RatePoint[]>>,
+    private fallback?: RateSource
+  ) {
+    for (const [protocol, assets] of Object.entries(data)) {
+      for (const [asset, points] of Object.entries(assets)) {
+        this.series.set(
+          seriesKey(protocol, asset),
+          [...points].sort((a, b) => a.timestamp - b.timestamp)
+        );
+      }
+    }
+  }
+
+  /**
+   * Rates in effect at a timestamp: the last observation at or before it
+   * Before the first observation the earliest rate applies.
+   */
+  getRates(protocol: string, asset: string, timestamp: number): LendingRates {
+    const points = this.series.get(seriesKey(protocol, asset));
+    if (!points || points.length === 0) {
+      if (this.fallback) return this.fallback.getRates(protocol, asset, timestamp);
+      throw new Error(`No rate data for ${asset} on ${protocol}`);
+    }
+
+    let low = 0;
+    let high = points.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if ((points[mid]?.timestamp ?? 0) <= timestamp) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    const point = points[low] as RatePoint;
+    return { supplyApr: point.supplyApr, borrowApr: point.borrowApr };
+  }
+}
+
+function seriesKey(protocol: string, asset: string): string {
+  return `${protocol.toLowerCase()}:${asset.toUpperCase()}`;
+}
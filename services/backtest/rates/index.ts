@@ -0,0 +1,33 @@
+/**
+ * Lending and staking rate sources
+ */
+
+import { DatasetRateSource } from './datasetRateSource';
+import type { RateSource, RateSourceConfig } from './types';
+import { UtilizationRateSource } from './utilizationRateSource';
+
+export * from './types';
+export * from './datasetRateSource';
+export * from './utilizationRateSource';
+
+/**
+ * Create a rate source from a serializable config
+ * Datasets fall back to the utilization model for assets they do not cover.
+ */
+export function createRateSource(config: RateSourceConfig): RateSource {
+  switch (config.type) {
+    case 'dataset':
+      return new DatasetRateSource(config.data, new UtilizationRateSource());
+    case 'utilization':
+      return new UtilizationRateSource(config.markets, config.stakingAprs);
+    default:
+      throw new Error(`Unknown rate source: ${(config as { type: string }).type}`);
+  }
+}
+
+/**
+ * Accept either a rate source instance or a rate source config
+ */
+export function resolveRateSource(source: RateSourceConfig | RateSource): RateSource {
+  return 'getRates' in source ? source : createRateSource(source);
+}
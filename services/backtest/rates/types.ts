@@ -0,0 +1,45 @@
+/**
+ * Rate data for supply, borrow and staking positions
+ */
+
+export interface LendingRates {
+  supplyApr: number; // Annualized rate paid to suppliers and stakers
+  borrowApr: number; // Annualized variable rate charged to borrowers
+}
+
+export interface RatePoint extends LendingRates {
+  timestamp: number;
+}
+
+/**
+ * Source of per-asset lending rates over time
+ * Lookups are synchronous so accrual can run inside the backtest loop.
+ */
+export interface RateSource {
+  /** Stable identifier, e.g. 'dataset' or 'utilization' */
+  readonly id: string;
+  getRates(protocol: string, asset: string, timestamp: number): LendingRates;
+}
+
+export interface UtilizationCurveParams {
+  baseRate: number; // Borrow rate at 0% utilization
+  slope1: number; // Rate added between 0% and optimal utilization
+  slope2: number; // Rate added between optimal and 100% utilization
+  optimalUtilization: number; // Kink of the curve (0-1)
+  reserveFactor: number; // Share of borrow interest kept by the protocol (0-1)
+  utilization: number; // Assumed pool utilization (0-1)
+}
+
+/**
+ * Serializable rate source selection, safe to post to a web worker
+ */
+export type RateSourceConfig =
+  | {
+      type: 'dataset';
+      data: Record<string, Record<string, RatePoint[]>>; // protocol -> asset -> rate series
+    }
+  | {
+      type: 'utilization';
+      markets?: Record<string, Partial<UtilizationCurveParams>>; // asset -> overrides
+      stakingAprs?: Record<string, number>; // asset -> staking yield
+    };
@@ -0,0 +1,97 @@
+/**
+ * Kinked utilization-curve rate model (Aave/Compound jump-rate style)
+ */
+
+import type { LendingRates, RateSource, UtilizationCurveParams } from './types';
+
+const STABLECOIN_CURVE: UtilizationCurveParams = {
+  baseRate: 0,
+  slope1: 0.06,
+  slope2: 0.6,
+  optimalUtilization: 0.9,
+  reserveFactor: 0.1,
+  utilization: 0.8,
+};
+
+// Approximate Aave V3 mainnet curves
+export const DEFAULT_UTILIZATION_CURVES: Record<string, UtilizationCurveParams> = {
+  USDC: STABLECOIN_CURVE,
+  USDT: STABLECOIN_CURVE,
+  DAI: STABLECOIN_CURVE,
+  ETH: {
+    baseRate: 0,
+    slope1: 0.027,
+    slope2: 0.8,
+    optimalUtilization: 0.9,
+    reserveFactor: 0.15,
+    utilization: 0.75,
+  },
+  WBTC: {
+    baseRate: 0,
+    slope1: 0.04,
+    slope2: 3,
+    optimalUtilization: 0.45,
+    reserveFactor: 0.2,
+    utilization: 0.2,
+  },
+};
+
+const FALLBACK_CURVE: UtilizationCurveParams = {
+  baseRate: 0,
+  slope1: 0.07,
+  slope2: 3,
+  optimalUtilization: 0.45,
+  reserveFactor: 0.2,
+  utilization: 0.3,
+};
+
+export const DEFAULT_STAKING_APRS: Record<string, number> = {
+  ETH: 0.035,
+};
+
+const FALLBACK_STAKING_APR = 0.04;
+
+/**
+ * Borrow and supply APR at a utilization
+ */
+export function calculateUtilizationRates(params: UtilizationCurveParams): LendingRates {
+  const { baseRate, slope1, slope2, optimalUtilization, reserveFactor } = params;
+  const utilization = Math.min(1, Math.max(0, params.utilization));
+
+  const borrowApr =
+    utilization <= optimalUtilization
+      ? baseRate + slope1 * (utilization / optimalUtilization)
+      : baseRate +
+        slope1 +
+        slope2 * ((utilization - optimalUtilization) / (1 - optimalUtilization));
+
+  return {
+    borrowApr,
+    supplyApr: borrowApr * utilization * (1 - reserveFactor),
+  };
+}
+
+export class UtilizationRateSource implements RateSource {
+  readonly id = 'utilization';
+
+  /**
+   * @param markets - asset -> curve overrides, merged over the defaults
+   * @param stakingAprs - asset -> staking yield for 'Staking' positions
+   */
+  constructor(
+    private markets: Record<string, Partial<UtilizationCurveParams>> = {},
+    private stakingAprs: Record<string, number> = {}
+  ) {}
+
+  getRates(protocol: string, asset: string, _timestamp: number): LendingRates {
+    if (protocol === 'Staking') {
+      const apr = this.stakingAprs[asset] ?? DEFAULT_STAKING_APRS[asset] ?? FALLBACK_STAKING_APR;
+      return { supplyApr: apr, borrowApr: 0 };
+    }
+
+    return calculateUtilizationRates({
+      ...(DEFAULT_UTILIZATION_CURVES[asset] ?? FALLBACK_CURVE),
+      ...this.markets[asset],
+    });
+  }
+}
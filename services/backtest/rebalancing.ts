@@ -0,0 +1,126 @@
+/**
+ * Allocation measurement and drift history for rebalancing blocks
+ */
+
+import type { PortfolioManager } from './portfolio';
+
+export type RebalanceMethod = 'threshold' | 'calendar' | 'both';
+export type RebalanceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export const REBALANCE_FREQUENCY_MS: Record<RebalanceFrequency, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+  monthly: 30 * 24 * 60 * 60 * 1000,
+};
+
+export interface AllocationEntry {
+  value: number; // Net exposure in the base currency
+  percent: number; // Share of equity
+  target: number; // Target share of equity
+  drift: number; // percent - target
+}
+
+export interface DriftSnapshot {
+  timestamp: number;
+  blockId: string;
+  allocation: Record<string, AllocationEntry>;
+  maxDrift: number; // Largest absolute drift across target tokens
+  rebalanced: boolean; // Trades were executed at this snapshot
+}
+
+/**
+ * Parse a targetAllocation param, which the config panel stores as JSON text
+ */
+export function parseTargetAllocation(value: unknown): Record<string, number> {
+  const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Target allocation must be an object of token percentages');
+  }
+
+  const targets: Record<string, number> = {};
+  for (const [token, percent] of Object.entries(parsed as Record<string, unknown>)) {
+    const share = Number(percent);
+    if (!Number.isFinite(share) || share < 0) {
+      throw new Error(`Invalid target allocation for ${token}: ${String(percent)}`);
+    }
+    targets[token] = share;
+  }
+
+  const total = Object.values(targets).reduce((sum, share) => sum + share, 0);
+  if (total > 100 + 1e-6) {
+    throw new Error(`Target allocation sums to ${total}%, more than 100%`);
+  }
+  return targets;
+}
+
+/**
+ * Normalize legacy method values; 'proportional' and 'equal' predate calendar rebalancing
+ */
+export function parseRebalanceMethod(value: unknown): RebalanceMethod {
+  return value === 'calendar' || value === 'both' ? value : 'threshold';
+}
+
+/**
+ * Current share of equity held in each target token
+ * Counts wallet balances, supplied, staked and LP amounts net of debt, so the
+ * comparison matches the equity it is measured against.
+ */
+export function measureAllocation(
+  portfolio: PortfolioManager,
+  prices: Map<string, number>,
+  targets: Record<string, number>
+): Record<string, AllocationEntry> {
+  const equity = portfolio.calculateEquity(prices);
+  const allocation: Record<string, AllocationEntry> = {};
+
+  for (const [token, target] of Object.entries(targets)) {
+    const value = getNetAmount(portfolio, token) * (portfolio.getPrice(token, prices) ?? 0);
+    const percent = equity > 0 ? (value / equity) * 100 : 0;
+    allocation[token] = { value, percent, target, drift: percent - target };
+  }
+
+  return allocation;
+}
+
+function getNetAmount(portfolio: PortfolioManager, token: string): number {
+  let amount = portfolio.getBalance(token);
+  for (const position of portfolio.getPositions()) {
+    if (position.tokenAmounts) {
+      amount += position.tokenAmounts[token] ?? 0;
+    } else if (position.asset === token) {
+      amount += position.type === 'borrow' ? -position.amount : position.amount;
+    }
+  }
+  return amount;
+}
+
+/**
+ * Drift history and calendar state shared by every rebalancing block in a run
+ */
+export class RebalanceLedger {
+  private lastRebalance = new Map<string, number>();
+  private history: DriftSnapshot[] = [];
+
+  /**
+   * Whether a calendar rebalance is due; the first check is always due
+   */
+  isDue(blockId: string, timestamp: number, frequency: RebalanceFrequency): boolean {
+    const last = this.lastRebalance.get(blockId);
+    return last === undefined || timestamp - last >= REBALANCE_FREQUENCY_MS[frequency];
+  }
+
+  /**
+   * Start a new calendar period, whether or not any trade was needed
+   */
+  markChecked(blockId: string, timestamp: number): void {
+    this.lastRebalance.set(blockId, timestamp);
+  }
+
+  record(snapshot: DriftSnapshot): void {
+    this.history.push(snapshot);
+  }
+
+  getHistory(): DriftSnapshot[] {
+    return this.history.map((snapshot) => ({ ...snapshot }));
+  }
+}
@@ -0,0 +1,441 @@
+/**
+ * Risk manager for backtesting
+ * Applies position_sizing and risk_limits blocks to later orders, and
+ * force-flattens the portfolio when drawdown or daily-loss limits are breached.
+ */
+
+import { type PoolLiquidityConfig, quoteSwap } from './amm';
+import { GAS_UNITS, type GasModel, createGasModel } from './gas';
+import type { LendingAccount } from './lending';
+import type { PortfolioManager } from './portfolio';
+import type { PriceHistory } from './priceHistory';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_KELLY_OBSERVATIONS = 10;
+const VOLATILITY_LOOKBACK = 20;
+
+export type SizingMethod = 'fixed' | 'percentage' | 'kelly' | 'risk_based';
+
+export interface PositionSizingRule {
+  method: SizingMethod;
+  value: number; // fixed: base currency; percentage/risk_based: % of equity; kelly: % of full Kelly
+  maxPosition?: number; // % of equity held in one asset
+}
+
+export interface RiskLimits {
+  maxDrawdown?: number; // % below peak equity that triggers a flatten and halts trading
+  maxPositionSize?: number; // % of equity held in one asset
+  maxLeverage?: number; // (equity + debt) / equity
+  maxDailyLoss?: number; // % below the day's opening equity that flattens until the next UTC day
+}
+
+export type OrderKind = 'swap' | 'supply' | 'borrow';
+
+export interface RiskOrder {
+  kind: OrderKind;
+  blockId: string;
+  asset: string; // Asset the order adds exposure to (swap output, supplied or borrowed asset)
+  amount: number; // Order size in units of the token spent (swap input, supplied or borrowed)
+  price: number; // Price of those units in the base currency
+}
+
+export interface RiskIntervention {
+  timestamp: number;
+  action: 'resize' | 'veto' | 'flatten';
+  reason: string;
+  blockId?: string;
+  asset?: string;
+  requestedAmount?: number;
+  approvedAmount?: number;
+  equity: number;
+}
+
+export interface RiskReview {
+  amount: number; // Approved order size; 0 when vetoed
+  intervention?: RiskIntervention;
+}
+
+export class RiskManager {
+  private sizing?: PositionSizingRule;
+  private limits: RiskLimits = {};
+  private interventions: RiskIntervention[] = [];
+  private equityHistory: number[] = [];
+  private peakEquity = 0;
+  private day?: number;
+  private dayOpenEquity = 0;
+  private haltedReason?: string; // Max drawdown breach; permanent
+  private haltedDay?: number; // Daily loss breach; lifts on the next day
+
+  constructor(
+    private portfolio: PortfolioManager,
+    private lending: Map<string, LendingAccount>,
+    private pools?: PoolLiquidityConfig,
+    private gas: GasModel = createGasModel()
+  ) {}
+
+  setSizing(rule: PositionSizingRule): void {
+    this.sizing = rule;
+  }
+
+  setLimits(limits: RiskLimits): void {
+    this.limits = limits;
+  }
+
+  /**
+   * Track equity at a tick and flatten on a drawdown or daily-loss breach
+   * Call once per tick before blocks execute.
+   */
+  observe(timestamp: number, prices: Map<string, number>): RiskIntervention[] {
+    const equity = this.portfolio.calculateEquity(prices);
+    this.equityHistory.push(equity);
+    this.peakEquity = Math.max(this.peakEquity, equity);
+
+    const day = Math.floor(timestamp / DAY_MS);
+    if (day !== this.day) {
+      this.day = day;
+      this.dayOpenEquity = equity;
+    }
+
+    const { maxDrawdown, maxDailyLoss } = this.limits;
+    const drawdown = this.peakEquity > 0 ? (this.peakEquity - equity) / this.peakEquity : 0;
+    const dailyLoss =
+      this.dayOpenEquity > 0 ? (this.dayOpenEquity - equity) / this.dayOpenEquity : 0;
+
+    if (!this.haltedReason && maxDrawdown !== undefined && drawdown * 100 >= maxDrawdown) {
+      this.haltedReason = `drawdown ${(drawdown * 100).toFixed(2)}% breached max ${maxDrawdown}%`;
+      return [this.flatten(timestamp, prices, this.haltedReason)];
+    }
+
+    if (
+      !this.haltedReason &&
+      this.haltedDay !== day &&
+      maxDailyLoss !== undefined &&
+      dailyLoss * 100 >= maxDailyLoss
+    ) {
+      this.haltedDay = day;
+      return [
+        this.flatten(
+          timestamp,
+          prices,
+          `daily loss ${(dailyLoss * 100).toFixed(2)}% breached max ${maxDailyLoss}%`
+        ),
+      ];
+    }
+
+    return [];
+  }
+
+  /**
+   * Resize or veto an order against the sizing rule and risk limits
+   */
+  reviewOrder(
+    order: RiskOrder,
+    timestamp: number,
+    prices: Map<string, number>,
+    history?: PriceHistory
+  ): RiskReview {
+    // Exits into cash always pass; unpriced orders cannot be sized
+    if (order.kind === 'swap' && this.portfolio.isCashEquivalent(order.asset)) {
+      return { amount: order.amount };
+    }
+    if (!(order.price > 0)) return { amount: order.amount };
+
+    const equity = this.portfolio.calculateEquity(prices);
+    const halted =
+      this.haltedReason ??
+      (this.haltedDay === Math.floor(timestamp / DAY_MS) ? 'daily loss limit hit' : undefined);
+    if (halted) {
+      return this.decide(order, 0, `trading halted: ${halted}`, timestamp, equity);
+    }
+
+    const requested = order.amount * order.price;
+    let approved = requested;
+    let reason = '';
+    const cap = (limit: number, why: string) => {
+      if (limit < approved) {
+        approved = Math.max(0, limit);
+        reason = why;
+      }
+    };
+
+    if (order.kind === 'borrow') {
+      const { maxLeverage } = this.limits;
+      if (maxLeverage !== undefined) {
+        const debt = this.getDebtValue(prices);
+        cap(equity * maxLeverage - equity - debt, `leverage above ${maxLeverage}x`);
+      }
+    } else {
+      if (this.sizing) {
+        cap(this.getSizingBudget(order, equity, history), `${this.sizing.method} position sizing`);
+      }
+
+      const caps = [this.sizing?.maxPosition, this.limits.maxPositionSize].filter(
+        (limit): limit is number => limit !== undefined
+      );
+      if (caps.length > 0 && !this.portfolio.isCashEquivalent(order.asset)) {
+        const maxPercent = Math.min(...caps);
+        const exposure = this.getExposure(order.asset, prices);
+        // Supplying tokens already in the wallet moves exposure rather than adding to it
+        const held =
+          order.kind === 'supply' ? this.portfolio.getBalance(order.asset) * order.price : 0;
+        cap(
+          held + Math.max(0, (equity * maxPercent) / 100 - exposure),
+          `${order.asset} exposure above ${maxPercent}%`
+        );
+      }
+    }
+
+    return this.decide(order, approved / order.price, reason, timestamp, equity);
+  }
+
+  /**
+   * Every resize, veto and forced flatten so far
+   */
+  getInterventions(): RiskIntervention[] {
+    return this.interventions.map((intervention) => ({ ...intervention }));
+  }
+
+  private decide(
+    order: RiskOrder,
+    amount: number,
+    reason: string,
+    timestamp: number,
+    equity: number
+  ): RiskReview {
+    // Tolerate rounding so orders at exactly the limit are not logged as resized
+    if (amount >= order.amount * (1 - 1e-9)) return { amount: order.amount };
+
+    const intervention: RiskIntervention = {
+      timestamp,
+      action: amount > 0 ? 'resize' : 'veto',
+      reason,
+      blockId: order.blockId,
+      asset: order.asset,
+      requestedAmount: order.amount,
+      approvedAmount: Math.max(0, amount),
+      equity,
+    };
+    this.interventions.push(intervention);
+    return { amount: intervention.approvedAmount ?? 0, intervention };
+  }
+
+  /**
+   * Largest order value the sizing rule allows, in the base currency
+   */
+  private getSizingBudget(order: RiskOrder, equity: number, history?: PriceHistory): number {
+    const { method, value } = this.sizing as PositionSizingRule;
+    const percentOfEquity = (equity * value) / 100;
+
+    switch (method) {
+      case 'fixed':
+        return value;
+      case 'kelly': {
+        // Continuous Kelly fraction from per-tick equity returns, scaled by value%
+        const fraction = kellyFraction(this.equityHistory);
+        if (fraction === undefined) return percentOfEquity;
+        return equity * Math.min(1, Math.max(0, (fraction * value) / 100));
+      }
+      case 'risk_based': {
+        // Risk value% of equity against a two-sigma adverse move
+        const volatility = history ? recentVolatility(history.getPrices(order.asset)) : undefined;
+        if (!volatility) return percentOfEquity;
+        return Math.min(equity, percentOfEquity / (2 * volatility));
+      }
+      default:
+        return percentOfEquity;
+    }
+  }
+
+  private getExposure(asset: string, prices: Map<string, number>): number {
+    const price = this.portfolio.getPrice(asset, prices) ?? 0;
+    let amount = this.portfolio.getBalance(asset);
+
+    for (const position of this.portfolio.getPositions()) {
+      if (position.type === 'borrow') continue;
+      if (position.tokenAmounts) {
+        amount += position.tokenAmounts[asset] ?? 0;
+      } else if (position.asset === asset) {
+        amount += position.amount;
+      }
+    }
+
+    return amount * price;
+  }
+
+  private getDebtValue(prices: Map<string, number>): number {
+    let debt = 0;
+    for (const account of this.lending.values()) {
+      debt += account.getDebtValue(prices);
+    }
+    return debt;
+  }
+
+  /**
+   * Close every position and sell everything into the cash token
+   */
+  private flatten(
+    timestamp: number,
+    prices: Map<string, number>,
+    reason: string
+  ): RiskIntervention {
+    const equity = this.portfolio.calculateEquity(prices);
+
+    // Unwind LP, staking and held positions into wallet balances
+    for (const position of this.portfolio.getPositions()) {
+      if (position.type === 'supply' || position.type === 'borrow') continue;
+      this.portfolio.removePosition(position.id);
+      if (position.tokenAmounts) {
+        for (const [token, amount] of Object.entries(position.tokenAmounts)) {
+          this.portfolio.addBalance(token, amount);
+        }
+      } else {
+        this.portfolio.addBalance(position.asset, position.amount);
+      }
+    }
+
+    // Repay debt (buying any shortfall with cash), then withdraw supplies
+    for (const account of this.lending.values()) {
+      for (const position of account.getBorrowPositions()) {
+        const debt = account.getDebt(position.asset);
+        if (debt <= 0) continue;
+        const shortfall = debt - this.portfolio.getBalance(position.asset);
+        if (shortfall > 0) this.buyWithCash(position.asset, shortfall, timestamp, prices);
+        const repayable = Math.min(debt, this.portfolio.getBalance(position.asset));
+        if (repayable > 0) account.repay(position.asset, repayable);
+      }
+
+      for (const position of account.getSupplyPositions()) {
+        const supplied = account.getSupplied(position.asset);
+        if (supplied <= 0) continue;
+        try {
+          account.withdraw(position.asset, supplied, prices);
+        } catch {
+          // Debt that could not be repaid keeps this collateral locked
+        }
+      }
+    }
+
+    for (const [token, amount] of this.portfolio.getPortfolio().balances) {
+      if (amount > 0 && !this.portfolio.isCashEquivalent(token)) {
+        this.sellToCash(token, amount, timestamp, prices);
+      }
+    }
+
+    const intervention: RiskIntervention = {
+      timestamp,
+      action: 'flatten',
+      reason,
+      equity,
+    };
+    this.interventions.push(intervention);
+    return intervention;
+  }
+
+  /**
+   * Gas for one forced exit leg, same as a stop-loss exit
+   */
+  private getExitGasCost(timestamp: number, prices: Map<string, number>): number {
+    const nativePrice = this.portfolio.getPrice(this.gas.nativeToken, prices);
+    return this.gas.cost(GAS_UNITS.exit, timestamp, nativePrice);
+  }
+
+  private sellToCash(
+    token: string,
+    amount: number,
+    timestamp: number,
+    prices: Map<string, number>
+  ): void {
+    const cash = this.portfolio.getCashToken();
+    const price = this.portfolio.getPrice(token, prices);
+    const cashPrice = this.portfolio.getPrice(cash, prices);
+    if (!price || !cashPrice) return;
+
+    const quote = quoteSwap('uniswap', token, cash, amount, price, cashPrice, this.pools);
+    this.portfolio.subtractBalance(token, amount);
+    this.portfolio.addBalance(cash, quote.outputAmount);
+    this.portfolio.recordTrade({
+      timestamp,
+      type: 'exit',
+      inputToken: token,
+      outputToken: cash,
+      inputAmount: amount,
+      outputAmount: quote.outputAmount,
+      price,
+      slippage: quote.priceImpact * 100,
+      fees: quote.fee * price,
+      gasCost: this.getExitGasCost(timestamp, prices),
+      inputValue: amount * price,
+      outputValue: quote.outputAmount * cashPrice,
+    });
+  }
+
+  private buyWithCash(
+    token: string,
+    amount: number,
+    timestamp: number,
+    prices: Map<string, number>
+  ): void {
+    const cash = this.portfolio.getCashToken();
+    const price = this.portfolio.getPrice(token, prices);
+    const cashPrice = this.portfolio.getPrice(cash, prices);
+    if (!price || !cashPrice) return;
+
+    // Overpay slightly for fees and impact; any excess is sold back with the rest
+    const spend = Math.min(
+      this.portfolio.getBalance(cash),
+      ((amount * price) / cashPrice) * 1.01 + 1e-9
+    );
+    if (spend <= 0) return;
+
+    const quote = quoteSwap('uniswap', cash, token, spend, cashPrice, price, this.pools);
+    this.portfolio.subtractBalance(cash, spend);
+    this.portfolio.addBalance(token, quote.outputAmount);
+    this.portfolio.recordTrade({
+      timestamp,
+      type: 'swap',
+      inputToken: cash,
+      outputToken: token,
+      inputAmount: spend,
+      outputAmount: quote.outputAmount,
+      price,
+      slippage: quote.priceImpact * 100,
+      fees: quote.fee * cashPrice,
+      gasCost: this.getExitGasCost(timestamp, prices),
+      inputValue: spend * cashPrice,
+      outputValue: quote.outputAmount * price,
+    });
+  }
+}
+
+/**
+ * Kelly fraction mean / variance of per-tick returns
+ */
+function kellyFraction(equity: number[]): number | undefined {
+  const returns: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    const previous = equity[i - 1] ?? 0;
+    if (previous > 0) returns.push((equity[i] ?? 0) / previous - 1);
+  }
+  if (returns.length < MIN_KELLY_OBSERVATIONS) return undefined;
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / returns.length;
+  return variance > 0 ? mean / variance : undefined;
+}
+
+/**
+ * Standard deviation of recent bar-to-bar returns
+ */
+function recentVolatility(prices: number[]): number | undefined {
+  const window = prices.slice(-(VOLATILITY_LOOKBACK + 1));
+  if (window.length < 3) return undefined;
+
+  const returns: number[] = [];
+  for (let i = 1; i < window.length; i++) {
+    const previous = window[i - 1] ?? 0;
+    if (previous > 0) returns.push((window[i] ?? 0) / previous - 1);
+  }
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / returns.length;
+  return variance > 0 ? Math.sqrt(variance) : undefined;
+}
@@ -0,0 +1,235 @@
+/**
+ * Branching strategy graphs: blocks joined by conditional edges and AND/OR joins
+ */
+
+import { BlockCategory, type LegoBlock } from '../../types';
+import {
+  type ExecutionContext,
+  type ExecutionResult,
+  executeBlock,
+  executeFlashLoanBundle,
+} from './blockExecutor';
+
+export type EdgeCondition = 'on_true' | 'on_false' | 'always';
+export type JoinMode = 'and' | 'or';
+
+export type StrategyGraphNode =
+  | { id: string; kind: 'block' } // id matches a LegoBlock id
+  | { id: string; kind: 'join'; mode: JoinMode };
+
+export interface StrategyGraphEdge {
+  id: string;
+  source: string;
+  target: string;
+  condition: EdgeCondition;
+}
+
+export interface StrategyGraph {
+  nodes: StrategyGraphNode[];
+  edges: StrategyGraphEdge[];
+}
+
+/**
+ * Convert a linear block list into a chain
+ * PROTOCOL and EXIT blocks follow the previous block on-true, everything else always,
+ * which matches executeBlockSequence.
+ */
+export function blocksToGraph(blocks: LegoBlock[]): StrategyGraph {
+  const nodes: StrategyGraphNode[] = blocks.map((block) => ({ id: block.id, kind: 'block' }));
+  const edges: StrategyGraphEdge[] = [];
+
+  for (let index = 1; index < blocks.length; index++) {
+    const source = blocks[index - 1] as LegoBlock;
+    const target = blocks[index] as LegoBlock;
+    const gated =
+      target.category === BlockCategory.PROTOCOL || target.category === BlockCategory.EXIT;
+    edges.push({
+      id: `edge-${source.id}-${target.id}`,
+      source: source.id,
+      target: target.id,
+      condition: gated ? 'on_true' : 'always',
+    });
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * Executes a validated strategy graph once per backtest step
+ *
+ * Nodes run in topological order. A block runs when any incoming edge fires (or it
+ * has none); a join runs when all (AND) or any (OR) of its incoming edges fire. An
+ * edge fires on-true when its source executed, on-false when the source ran without
+ * executing, and always once the source was reached, even if it was skipped.
+ */
+export class StrategyGraphExecutor {
+  private blocks = new Map<string, LegoBlock>();
+  private nodes = new Map<string, StrategyGraphNode>();
+  private incoming = new Map<string, StrategyGraphEdge[]>();
+  private order: string[];
+
+  constructor(graph: StrategyGraph, blocks: LegoBlock[]) {
+    for (const block of blocks) {
+      this.blocks.set(block.id, block);
+    }
+
+    for (const node of graph.nodes) {
+      if (this.nodes.has(node.id)) {
+        throw new Error(`Duplicate strategy graph node: ${node.id}`);
+      }
+      if (node.kind === 'block' && !this.blocks.has(node.id)) {
+        throw new Error(`Strategy graph node ${node.id} has no matching block`);
+      }
+      this.nodes.set(node.id, node);
+      this.incoming.set(node.id, []);
+    }
+
+    for (const edge of graph.edges) {
+      if (!this.nodes.has(edge.source) || !this.nodes.has(edge.target)) {
+        throw new Error(`Strategy graph edge ${edge.id} references an unknown node`);
+      }
+      this.incoming.get(edge.target)?.push(edge);
+    }
+
+    for (const node of graph.nodes) {
+      if (node.kind === 'join' && this.incoming.get(node.id)?.length === 0) {
+        throw new Error(`Join node ${node.id} has no incoming edges`);
+      }
+    }
+
+    this.order = this.sortTopologically(graph);
+  }
+
+  /**
+   * Run every node for one step, returning block results in execution order
+   */
+  execute(context: ExecutionContext): ExecutionResult[] {
+    const outcomes = new Map<string, ExecutionResult>();
+    const skipped = new Set<string>();
+    return this.run(this.order, context, outcomes, skipped);
+  }
+
+  private run(
+    ids: string[],
+    context: ExecutionContext,
+    outcomes: Map<string, ExecutionResult>,
+    skipped: Set<string>
+  ): ExecutionResult[] {
+    const results: ExecutionResult[] = [];
+
+    for (let index = 0; index < ids.length; index++) {
+      const node = this.nodes.get(ids[index] as string) as StrategyGraphNode;
+      const edges = this.incoming.get(node.id) ?? [];
+      const fired = edges.filter((edge) => this.fires(edge, outcomes, skipped));
+
+      if (node.kind === 'join') {
+        if (fired.length === 0) {
+          skipped.add(node.id);
+        } else {
+          const met = node.mode === 'and' ? fired.length === edges.length : true;
+          outcomes.set(node.id, { success: true, executed: met });
+        }
+        continue;
+      }
+
+      const block = this.blocks.get(node.id) as LegoBlock;
+      if (edges.length > 0 && fired.length === 0) {
+        skipped.add(node.id);
+        const result: ExecutionResult = {
+          success: true,
+          executed: false,
+          message: `Skipped ${block.label}: Previous condition not met`,
+        };
+        outcomes.set(node.id, result);
+        results.push(result);
+        continue;
+      }
+
+      if (block.type === 'flash_loan') {
+        // The loan spans the next bundleSize blocks in execution order, or all that remain
+        const bundleIds = this.takeBundle(ids.slice(index + 1), block);
+        const bundle = bundleIds
+          .map((id) => this.blocks.get(id))
+          .filter((bundled): bundled is LegoBlock => bundled !== undefined);
+        const loanResults = executeFlashLoanBundle(block, bundle, context, () => {
+          // Bundled blocks see the loan as executed until repayment decides otherwise
+          outcomes.set(block.id, { success: true, executed: true });
+          return this.run(bundleIds, context, outcomes, skipped);
+        });
+        [block, ...bundle].forEach((bundled, position) => {
+          const result = loanResults[position] as ExecutionResult;
+          outcomes.set(bundled.id, result);
+          context.previousResults.set(bundled.id, result);
+        });
+        results.push(...loanResults);
+        index += bundleIds.length;
+        continue;
+      }
+
+      const result = executeBlock(block, context);
+      outcomes.set(node.id, result);
+      context.previousResults.set(node.id, result);
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  private fires(
+    edge: StrategyGraphEdge,
+    outcomes: Map<string, ExecutionResult>,
+    skipped: Set<string>
+  ): boolean {
+    const outcome = outcomes.get(edge.source);
+    const reached = outcome !== undefined || skipped.has(edge.source);
+    if (!reached) return false;
+    if (edge.condition === 'always') return true;
+    if (skipped.has(edge.source) || !outcome) return false;
+    return edge.condition === 'on_true' ? outcome.executed : !outcome.executed;
+  }
+
+  /**
+   * Node ids inside a flash loan bundle; joins between bundled blocks ride along
+   */
+  private takeBundle(remaining: string[], loan: LegoBlock): string[] {
+    const requested = Math.floor(Number(loan.params.bundleSize));
+    let blocksLeft = Number.isFinite(requested) ? Math.max(0, requested) : remaining.length;
+    const bundle: string[] = [];
+
+    for (const id of remaining) {
+      if (blocksLeft === 0) break;
+      bundle.push(id);
+      if (this.nodes.get(id)?.kind === 'block') blocksLeft--;
+    }
+    return bundle;
+  }
+
+  /**
+   * Kahn's algorithm, keeping declaration order among ready nodes
+   */
+  private sortTopologically(graph: StrategyGraph): string[] {
+    const indegree = new Map<string, number>();
+    for (const node of graph.nodes) {
+      indegree.set(node.id, this.incoming.get(node.id)?.length ?? 0);
+    }
+
+    const order: string[] = [];
+    const ready = graph.nodes.filter((node) => indegree.get(node.id) === 0).map((node) => node.id);
+    while (ready.length > 0) {
+      const id = ready.shift() as string;
+      order.push(id);
+      for (const edge of graph.edges) {
+        if (edge.source !== id) continue;
+        const remaining = (indegree.get(edge.target) ?? 0) - 1;
+        indegree.set(edge.target, remaining);
+        if (remaining === 0) ready.push(edge.target);
+      }
+    }
+
+    if (order.length !== graph.nodes.length) {
+      const cyclic = graph.nodes.filter((node) => !order.includes(node.id)).map((node) => node.id);
+      throw new Error(`Strategy graph contains a cycle through: ${cyclic.join(', ')}`);
+    }
+    return order;
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * Lot-based trade ledger
+ * Matches disposals to acquisitions FIFO per asset and reports each matched slice as a
+ * round trip with its P&L after fees and gas, holding time and excursions.
+ */
+
+import type { PriceDataPoint } from './dataFetcher';
+import type { Trade } from './portfolio';
+
+// Remainders below this fraction of the matched amount count as fully closed
+const DUST = 1e-9;
+
+export interface RoundTrip {
+  asset: string;
+  amount: number;
+  entryTradeId: string;
+  exitTradeId: string;
+  entryTimestamp: number;
+  exitTimestamp: number;
+  holdingTime: number; // ms
+  entryPrice: number; // Market price per unit at entry
+  exitPrice: number; // Net proceeds per unit at exit, before gas
+  cost: number; // Paid to acquire, including fees and gas
+  proceeds: number; // Received on disposal, net of fees and gas
+  fees: number; // Entry and exit protocol fees attributed to this slice
+  gas: number; // Entry and exit gas attributed to this slice
+  pnl: number; // proceeds - cost
+  returnPercent: number;
+  mae: number; // Maximum adverse excursion: worst unrealized P&L while open (<= 0)
+  mfe: number; // Maximum favorable excursion: best unrealized P&L while open (>= 0)
+}
+
+export interface OpenLot {
+  asset: string;
+  amount: number;
+  entryTradeId: string;
+  entryTimestamp: number;
+  entryPrice: number;
+  cost: number; // Including fees and gas
+  markPrice?: number; // Undefined when the asset has no price
+  unrealizedPnl: number;
+}
+
+export interface RoundTripStats {
+  roundTrips: number;
+  wins: number;
+  losses: number;
+  winRate: number; // Percent of round trips with positive P&L
+  grossProfit: number;
+  grossLoss: number; // Positive
+  profitFactor: number; // grossProfit / grossLoss; Infinity when nothing lost
+  expectancy: number; // Mean P&L per round trip
+  averageWin: number;
+  averageLoss: number; // Negative
+  averageHoldingTime: number; // ms
+  realizedPnl: number;
+}
+
+interface Lot {
+  asset: string;
+  amount: number;
+  entryTradeId: string;
+  entryTimestamp: number;
+  entryPrice: number;
+  costPerUnit: number; // Value paid plus entry gas
+  feesPerUnit: number;
+  gasPerUnit: number;
+}
+
+/**
+ * FIFO lot ledger over a run's trades
+ *
+ * Only trades that exchange one token for another (they carry inputValue and outputValue)
+ * move lots; supplying, staking and unwinding positions change where an asset is held, not
+ * whether it is held. Cash-equivalents are the unit of account and never form lots.
+ * Disposals beyond the open lots, such as selling borrowed units, are left unmatched.
+ */
+export class TradeLedger {
+  private lots = new Map<string, Lot[]>(); // asset -> open lots, oldest first
+  private roundTrips: RoundTrip[] = [];
+
+  /**
+   * @param isCash - Whether a token is the unit of account (base currency, cash or pegged)
+   * @param priceSeries - token -> price bars, for excursions while a lot is open
+   */
+  constructor(
+    private isCash: (token: string) => boolean,
+    private priceSeries: Map<string, PriceDataPoint[]> = new Map()
+  ) {}
+
+  record(trade: Trade): void {
+    const { inputValue, outputValue, outputToken, outputAmount } = trade;
+    if (inputValue === undefined || outputValue === undefined) return;
+    if (!outputToken || !outputAmount || trade.inputAmount <= 0) return;
+
+    const inputIsCash = this.isCash(trade.inputToken);
+    const outputIsCash = this.isCash(outputToken);
+
+    // Friction goes to the disposal when there is one, otherwise to the acquisition
+    if (!inputIsCash) {
+      this.dispose(trade, outputValue - trade.gasCost, trade.fees, trade.gasCost);
+    }
+
+    // Liquidations repay debt with the seized collateral; nothing enters the wallet
+    if (!outputIsCash && trade.type !== 'liquidation') {
+      const paid = inputIsCash
+        ? { cost: inputValue + trade.gasCost, fees: trade.fees, gas: trade.gasCost }
+        : { cost: outputValue, fees: 0, gas: 0 };
+      this.acquire(trade, outputToken, outputAmount, outputValue / outputAmount, paid);
+    }
+  }
+
+  recordAll(trades: Trade[]): void {
+    for (const trade of [...trades].sort((a, b) => a.timestamp - b.timestamp)) {
+      this.record(trade);
+    }
+  }
+
+  getRoundTrips(): RoundTrip[] {
+    return [...this.roundTrips];
+  }
+
+  /**
+   * Lots still held, marked at the given prices
+   */
+  getOpenLots(marks: Map<string, number> = new Map()): OpenLot[] {
+    const open: OpenLot[] = [];
+    for (const lots of this.lots.values()) {
+      for (const lot of lots) {
+        const markPrice = marks.get(lot.asset);
+        const cost = lot.costPerUnit * lot.amount;
+        open.push({
+          asset: lot.asset,
+          amount: lot.amount,
+          entryTradeId: lot.entryTradeId,
+          entryTimestamp: lot.entryTimestamp,
+          entryPrice: lot.entryPrice,
+          cost,
+          markPrice,
+          unrealizedPnl: markPrice === undefined ? 0 : markPrice * lot.amount - cost,
+        });
+      }
+    }
+    return open;
+  }
+
+  getStats(): RoundTripStats {
+    return summarizeRoundTrips(this.roundTrips);
+  }
+
+  private acquire(
+    trade: Trade,
+    asset: string,
+    amount: number,
+    entryPrice: number,
+    paid: { cost: number; fees: number; gas: number }
+  ): void {
+    const lots = this.lots.get(asset) ?? [];
+    lots.push({
+      asset,
+      amount,
+      entryTradeId: trade.id,
+      entryTimestamp: trade.timestamp,
+      entryPrice,
+      costPerUnit: paid.cost / amount,
+      feesPerUnit: paid.fees / amount,
+      gasPerUnit: paid.gas / amount,
+    });
+    this.lots.set(asset, lots);
+  }
+
+  private dispose(trade: Trade, proceeds: number, fees: number, gas: number): void {
+    const lots = this.lots.get(trade.inputToken);
+    if (!lots) return;
+
+    const total = trade.inputAmount;
+    const exitPrice = (proceeds + gas) / total;
+    let remaining = total;
+
+    while (remaining > total * DUST && lots.length > 0) {
+      const lot = lots[0] as Lot;
+      const amount = Math.min(lot.amount, remaining);
+      const share = amount / total;
+      const cost = lot.costPerUnit * amount;
+      const sliceProceeds = proceeds * share;
+      const { mae, mfe } = this.getExcursions(lot, trade.timestamp, exitPrice, amount);
+
+      this.roundTrips.push({
+        asset: lot.asset,
+        amount,
+        entryTradeId: lot.entryTradeId,
+        exitTradeId: trade.id,
+        entryTimestamp: lot.entryTimestamp,
+        exitTimestamp: trade.timestamp,
+        holdingTime: trade.timestamp - lot.entryTimestamp,
+        entryPrice: lot.entryPrice,
+        exitPrice,
+        cost,
+        proceeds: sliceProceeds,
+        fees: lot.feesPerUnit * amount + fees * share,
+        gas: lot.gasPerUnit * amount + gas * share,
+        pnl: sliceProceeds - cost,
+        returnPercent: cost > 0 ? ((sliceProceeds - cost) / cost) * 100 : 0,
+        mae,
+        mfe,
+      });
+
+      lot.amount -= amount;
+      remaining -= amount;
+      if (lot.amount <= amount * DUST) lots.shift();
+    }
+
+    if (lots.length === 0) this.lots.delete(trade.inputToken);
+  }
+
+  /**
+   * Worst and best unrealized P&L of a slice between its entry and exit
+   * Uses bar lows and highs after entry, so a bar's range before the fill is not counted.
+   */
+  private getExcursions(
+    lot: Lot,
+    exitTimestamp: number,
+    exitPrice: number,
+    amount: number
+  ): { mae: number; mfe: number } {
+    let low = Math.min(lot.entryPrice, exitPrice);
+    let high = Math.max(lot.entryPrice, exitPrice);
+
+    for (const bar of this.priceSeries.get(lot.asset) ?? []) {
+      if (bar.timestamp <= lot.entryTimestamp) continue;
+      if (bar.timestamp > exitTimestamp) break;
+      low = Math.min(low, bar.low ?? bar.price);
+      high = Math.max(high, bar.high ?? bar.price);
+    }
+
+    const cost = lot.costPerUnit * amount;
+    return {
+      mae: Math.min(0, low * amount - cost),
+      mfe: Math.max(0, high * amount - cost),
+    };
+  }
+}
+
+/**
+ * Win rate, profit factor and expectancy over closed round trips
+ */
+export function summarizeRoundTrips(roundTrips: RoundTrip[]): RoundTripStats {
+  const wins = roundTrips.filter((trip) => trip.pnl > 0);
+  const losses = roundTrips.filter((trip) => trip.pnl < 0);
+  const grossProfit = wins.reduce((sum, trip) => sum + trip.pnl, 0);
+  const grossLoss = -losses.reduce((sum, trip) => sum + trip.pnl, 0);
+  const realizedPnl = grossProfit - grossLoss;
+  const count = roundTrips.length;
+
+  return {
+    roundTrips: count,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: count > 0 ? (wins.length / count) * 100 : 0,
+    grossProfit,
+    grossLoss,
+    profitFactor:
+      grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Number.POSITIVE_INFINITY : 0,
+    expectancy: count > 0 ? realizedPnl / count : 0,
+    averageWin: wins.length > 0 ? grossProfit / wins.length : 0,
+    averageLoss: losses.length > 0 ? -grossLoss / losses.length : 0,
+    averageHoldingTime:
+      count > 0 ? roundTrips.reduce((sum, trip) => sum + trip.holdingTime, 0) / count : 0,
+    realizedPnl,
+  };
+}
@@ -4,15 +4,68 @@
  */
 
 import type { LegoBlock } from '../types';
-import { type ExecutionContext, executeBlockSequence } from './backtest/blockExecutor';
+import type { PoolLiquidityConfig } from './backtest/amm';
+import {
+  type BenchmarkConfig,
+  type BenchmarkResult,
+  BenchmarkTracker,
+  getBenchmarkTokens,
+} from './backtest/benchmarks';
+import type { ExecutionContext } from './backtest/blockExecutor';
+import { type Candle, flatCandle } from './backtest/candles';
+import { type LiquidityPositionReport, LiquidityTracker } from './backtest/concentratedLiquidity';
 import {
   type PriceDataPoint,
-  fetchHistoricalPrices,
   fetchMultipleTokenPrices,
   getPriceAtTimestamp,
 } from './backtest/dataFetcher';
-import { calculateMetrics } from './backtest/metricsCalculator';
-import { PortfolioManager, type Trade } from './backtest/portfolio';
+import {
+  DEFAULT_BACKTEST_SEED,
+  SimulationClock,
+  createSeededRandom,
+  hashValue,
+} from './backtest/determinism';
+import {
+  BLOCK_EVENT_TYPES,
+  EventQueue,
+  INTEREST_TICK_MS,
+  barEvents,
+  intervalEvents,
+  priceCrossEvents,
+  scheduleEvents,
+} from './backtest/eventQueue';
+import { GasModel, type GasModelConfig, resolveGasModel } from './backtest/gas';
+import { InterestAccrual, type PositionInterest } from './backtest/interest';
+import { type LiquidationEvent, createLendingAccounts } from './backtest/lending';
+import {
+  type ExtendedMetrics,
+  calculateExtendedMetrics,
+  calculateMetrics,
+} from './backtest/metricsCalculator';
+import { type EquityBreakdown, PortfolioManager, type Trade } from './backtest/portfolio';
+import { PriceHistory } from './backtest/priceHistory';
+import {
+  type DataSourceConfig,
+  type PriceDataProvider,
+  resolvePriceDataProvider,
+} from './backtest/providers';
+import { type RateSource, type RateSourceConfig, resolveRateSource } from './backtest/rates';
+import { type DriftSnapshot, RebalanceLedger } from './backtest/rebalancing';
+import { type RiskIntervention, RiskManager } from './backtest/riskManager';
+import { type StrategyGraph, StrategyGraphExecutor, blocksToGraph } from './backtest/strategyGraph';
+import { type OpenLot, type RoundTrip, TradeLedger } from './backtest/tradeLedger';
+
+export const BACKTEST_ENGINE_VERSION = '1.1.0';
+
+export interface BacktestManifest {
+  seed: number;
+  engineVersion: string;
+  configHash: string; // Hash of blocks, window, capital, interval, seed and data source
+  dataSource: string; // Provider id
+  rateSource: string; // Rate source id
+  gas: string; // Chain and gas fee source, e.g. 'arbitrum:dataset'
+  dataHashes: Record<string, string>; // token -> hash of the price series used
+}
 
 export interface DeFiBacktestResult {
   metrics: {
@@ -20,15 +73,28 @@ export interface DeFiBacktestResult {
     totalReturn: number;
     maxDrawdown: number;
     winTrades: number;
-    totalTrades: number;
+    totalTrades: number; // Closed round trips
     totalGasSpent: number;
     totalFeesSpent: number;
+    profitFactor: number; // Gross profit / gross loss over round trips
+    expectancy: number; // Mean round-trip P&L in the base currency
   };
-  equityCurve: Array<{ date: string; equity: number }>;
+  extendedMetrics: ExtendedMetrics; // Risk ratios, drawdown periods, monthly returns, exposure and costs
+  equityCurve: Array<{ date: string; equity: number; breakdown: EquityBreakdown }>;
   trades: Trade[];
+  roundTrips: RoundTrip[]; // FIFO-matched entries and exits with P&L, holding time, MAE and MFE
+  openLots: OpenLot[]; // Lots still held at the end, marked at the final prices
   startDate: Date;
   endDate: Date;
   initialCapital: number;
+  liquidations: LiquidationEvent[];
+  interest: PositionInterest[]; // Interest earned and paid per position
+  liquidityPositions: LiquidityPositionReport[]; // Fees, time in range and IL vs HODL per LP position
+  riskInterventions: RiskIntervention[]; // Orders resized or vetoed and forced flattens
+  allocationHistory: DriftSnapshot[]; // Allocation vs target each time a rebalancing block runs
+  healthFactorCurve: Array<{ date: string; protocol: string; healthFactor: number }>; // Ticks with open debt
+  benchmarks: BenchmarkResult[]; // Benchmark curves on the equity timeline with relative metrics
+  manifest: BacktestManifest; // Everything needed to replay this run exactly
 }
 
 export interface BacktestConfig {
@@ -36,7 +102,60 @@ export interface BacktestConfig {
   startDate: Date;
   endDate: Date;
   initialCapital: number;
-  rebalanceInterval: number;
+  rebalanceInterval: number; // Equity sampling interval; blocks run on bar, cron and cross events
+  dataSource?: DataSourceConfig | PriceDataProvider; // Defaults to CoinGecko
+  seed?: number; // Seeds the executors' random source (default 1)
+  baseCurrency?: string; // Valuation currency; must match the data source's quotes (default USD)
+  pegs?: Record<string, number>; // Fallback prices for stablecoins (default USDC/USDT/DAI at 1)
+  rateSource?: RateSourceConfig | RateSource; // Lending/staking rates (default utilization model)
+  gasModel?: GasModelConfig | GasModel; // Chain and gas fee series (default mainnet typical fees)
+  poolLiquidity?: PoolLiquidityConfig; // AMM pool sizes for swap price impact (default per protocol)
+  graph?: StrategyGraph; // Branching topology over `blocks` (default: the blocks as a linear chain)
+  benchmarks?: BenchmarkConfig[]; // Compared against on the same timeline (default none)
+}
+
+/**
+ * Identify the data source for the manifest
+ */
+function describeDataSource(dataSource: BacktestConfig['dataSource']): string {
+  if (!dataSource) return 'coingecko';
+  return 'fetchPrices' in dataSource ? dataSource.id : dataSource.type;
+}
+
+/**
+ * Identify the chain and gas fee source for the manifest
+ */
+function describeGasModel(gasModel: GasModel): string {
+  return `${gasModel.chain}:${gasModel.sourceId}`;
+}
+
+/**
+ * Hash the inputs that determine a backtest's outcome
+ * Provider, rate source and gas model instances are not serializable, so only their id is hashed.
+ */
+function hashBacktestConfig(config: BacktestConfig, seed: number): string {
+  const { blocks, startDate, endDate, initialCapital, rebalanceInterval, dataSource } = config;
+  return hashValue({
+    blocks,
+    startDate,
+    endDate,
+    initialCapital,
+    rebalanceInterval,
+    seed,
+    baseCurrency: config.baseCurrency,
+    pegs: config.pegs,
+    dataSource:
+      dataSource && !('fetchPrices' in dataSource) ? dataSource : describeDataSource(dataSource),
+    rateSource:
+      config.rateSource && 'getRates' in config.rateSource
+        ? config.rateSource.id
+        : config.rateSource,
+    gasModel:
+      config.gasModel instanceof GasModel ? describeGasModel(config.gasModel) : config.gasModel,
+    poolLiquidity: config.poolLiquidity,
+    graph: config.graph,
+    benchmarks: config.benchmarks,
+  });
 }
 
 /**
@@ -61,25 +180,23 @@ function extractTokens(blocks: LegoBlock[]): string[] {
 }
 
 /**
- * Apply Aave interest to positions over time
+ * Price of a token at an event: its latest visible bar, never an interpolation
+ * toward a future bar. Before the first bar the series' opening price is used.
  */
-function applyAaveInterest(
-  portfolio: PortfolioManager,
-  prices: Map<string, number>,
-  daysElapsed: number
-): void {
-  const positions = portfolio.getPositions();
-  const aaveAPY = 0.05; // 5% APY (simplified, real Aave has variable rates)
-
-  for (const position of positions) {
-    if (position.protocol === 'Aave' && position.type === 'supply') {
-      // Calculate interest earned
-      const dailyRate = aaveAPY / 365;
-      const interest = position.amount * dailyRate * daysElapsed;
-
-      // Add interest to position
-      position.amount += interest;
-    }
+function getEventPrice(
+  prices: PriceDataPoint[] | undefined,
+  history: PriceHistory,
+  token: string,
+  timestamp: number
+): number | undefined {
+  const latest = history.getLatestBar(token);
+  if (latest && latest.price > 0) return latest.price;
+  if (!prices || prices.length === 0) return undefined;
+  try {
+    const price = getPriceAtTimestamp(prices, timestamp);
+    return price > 0 ? price : undefined;
+  } catch {
+    return undefined;
   }
 }
 
@@ -87,7 +204,8 @@ function applyAaveInterest(
  * Run a DeFi strategy backtest
  */
 export async function runDeFiBacktest(config: BacktestConfig): Promise<DeFiBacktestResult> {
-  const { blocks, startDate, endDate, initialCapital, rebalanceInterval } = config;
+  const { blocks, startDate, endDate, initialCapital, rebalanceInterval, dataSource } = config;
+  const seed = config.seed ?? DEFAULT_BACKTEST_SEED;
 
   if (blocks.length === 0) {
     throw new Error('Cannot backtest empty strategy');
@@ -99,13 +217,32 @@ export async function runDeFiBacktest(config: BacktestConfig): Promise<DeFiBackt
     throw new Error('No tokens found in strategy blocks');
   }
 
+  // Validate the topology up front so a malformed graph fails before any data is fetched
+  const graphExecutor = new StrategyGraphExecutor(config.graph ?? blocksToGraph(blocks), blocks);
+  const scheduled = scheduleEvents(blocks, startDate.getTime(), endDate.getTime());
+  const gasModel = await resolveGasModel(config.gasModel ?? {});
+
+  // The gas token and benchmark components are priced every tick, even when no block trades them
+  const benchmarks = config.benchmarks ?? [];
+  const pricedTokens = Array.from(
+    new Set([...tokens, gasModel.nativeToken, ...benchmarks.flatMap(getBenchmarkTokens)])
+  );
+
   // Determine interval based on rebalance interval
   const interval = rebalanceInterval < 3600000 ? 'hourly' : 'daily'; // < 1 hour = hourly
 
   // Fetch historical price data for all tokens
   let tokenPrices: Map<string, PriceDataPoint[]>;
   try {
-    const priceMap = await fetchMultipleTokenPrices(tokens, startDate, endDate, interval);
+    const priceMap = dataSource
+      ? await fetchMultipleTokenPrices(
+          pricedTokens,
+          startDate,
+          endDate,
+          interval,
+          resolvePriceDataProvider(dataSource)
+        )
+      : await fetchMultipleTokenPrices(pricedTokens, startDate, endDate, interval);
     tokenPrices = priceMap;
 
     // Validate we have data for at least one token
@@ -127,109 +264,197 @@ export async function runDeFiBacktest(config: BacktestConfig): Promise<DeFiBackt
     );
   }
 
+  // Without the gas token's price every transaction would run free
+  if (!tokenPrices.get(gasModel.nativeToken)?.length) {
+    throw new Error(
+      `No price data for ${gasModel.nativeToken}, the ${gasModel.profile.name} gas token`
+    );
+  }
+
+  // Executors read simulated time and a seeded random source, never the wall clock
+  const clock = new SimulationClock(startDate.getTime());
+  const random = createSeededRandom(seed);
+
   // Initialize portfolio
-  const portfolio = new PortfolioManager(initialCapital);
+  const portfolio = new PortfolioManager(initialCapital, {
+    clock,
+    baseCurrency: config.baseCurrency,
+    pegs: config.pegs,
+  });
 
-  // Generate time points based on rebalance interval
-  const timePoints: number[] = [];
-  let currentTime = startDate.getTime();
-  const endTime = endDate.getTime();
+  const lendingAccounts = createLendingAccounts(portfolio);
+  const rateSource = resolveRateSource(config.rateSource ?? { type: 'utilization' });
+  const interestAccrual = new InterestAccrual(portfolio, rateSource);
+  const liquidityTracker = new LiquidityTracker();
+  const riskManager = new RiskManager(portfolio, lendingAccounts, config.poolLiquidity, gasModel);
+  const rebalanceLedger = new RebalanceLedger();
+  const benchmarkTracker = new BenchmarkTracker(
+    benchmarks,
+    initialCapital,
+    (token, prices) => portfolio.getPrice(token, prices),
+    rateSource
+  );
 
-  while (currentTime <= endTime) {
-    timePoints.push(currentTime);
-    currentTime += rebalanceInterval;
-  }
+  // History window only ever advances, so blocks cannot see bars past the current step
+  const history = new PriceHistory(tokenPrices);
 
-  // Ensure we have end time
-  if (timePoints[timePoints.length - 1] !== endTime) {
-    timePoints.push(endTime);
-  }
+  // Every bar, cron fire, price cross, interest tick and equity sample is an event.
+  // Samples keep the rebalance interval's spacing so returns stay evenly spaced.
+  const startTime = startDate.getTime();
+  const endTime = endDate.getTime();
+  const queue = new EventQueue();
+  queue.pushAll(
+    barEvents(tokenPrices, startTime, endTime).filter((event) =>
+      tokens.includes(event.token as string)
+    )
+  );
+  queue.pushAll(priceCrossEvents(blocks, tokenPrices, startTime, endTime));
+  queue.pushAll(scheduled);
+  queue.pushAll(intervalEvents('interest', startTime, endTime, INTEREST_TICK_MS));
+  queue.pushAll(intervalEvents('sample', startTime, endTime, rebalanceInterval));
 
   // Run backtest
   const equityCurve: number[] = [];
-  const equityCurveData: Array<{ date: string; equity: number }> = [];
-  let lastExecutionTime = startDate.getTime();
+  const equityCurveData: DeFiBacktestResult['equityCurve'] = [];
+  const liquidations: LiquidationEvent[] = [];
+  const healthFactorCurve: DeFiBacktestResult['healthFactorCurve'] = [];
+  let lastExecutionTime = startTime;
 
-  for (let i = 0; i < timePoints.length; i++) {
-    const timestamp = timePoints[i];
+  while (queue.size > 0) {
+    const batch = queue.popBatch();
+    const timestamp = batch[0]?.timestamp;
+    if (timestamp === undefined) continue;
     const currentDate = new Date(timestamp);
+    clock.set(timestamp);
+    history.advanceTo(timestamp);
 
-    // Get current prices for all tokens
+    // Last bar at or before the event
     const currentPrices = new Map<string, number>();
-    for (const token of tokens) {
-      const prices = tokenPrices.get(token);
-      if (prices && prices.length > 0) {
-        try {
-          const price = getPriceAtTimestamp(prices, timestamp);
-          if (price > 0) {
-            currentPrices.set(token, price);
-          } else {
-            // Fallback to last known price
-            const lastPrice = prices[prices.length - 1];
-            if (lastPrice && lastPrice.price > 0) {
-              currentPrices.set(token, lastPrice.price);
-            }
-          }
-        } catch (error) {
-          // Use last known price if interpolation fails
-          const lastPrice = prices[prices.length - 1];
-          if (lastPrice && lastPrice.price > 0) {
-            currentPrices.set(token, lastPrice.price);
-          } else {
-            console.warn(
-              `Warning: No valid price data for ${token} at ${currentDate.toISOString()}`
-            );
-          }
-        }
-      } else {
-        console.warn(`Warning: No price data available for ${token}`);
+    for (const token of pricedTokens) {
+      const price = getEventPrice(tokenPrices.get(token), history, token, timestamp);
+      if (price !== undefined) {
+        currentPrices.set(token, price);
       }
     }
 
-    // Skip this iteration if we don't have prices for required tokens
+    // Only the trigger whose level was crossed sees the fill; everything else marks at the bar
+    const crosses = new Map<string, number>();
+    for (const event of batch) {
+      if (event.type === 'price_cross' && event.blockId && event.price !== undefined) {
+        crosses.set(event.blockId, event.price);
+      }
+    }
+
+    // Skip this event if we don't have prices for required tokens
     if (currentPrices.size === 0) {
       console.warn(
-        `Skipping backtest iteration at ${currentDate.toISOString()}: No price data available`
+        `Skipping backtest event at ${currentDate.toISOString()}: No price data available`
       );
       continue;
     }
 
-    // Apply interest to Aave positions
-    const daysSinceLastExecution = (timestamp - lastExecutionTime) / (1000 * 60 * 60 * 24);
-    if (daysSinceLastExecution > 0) {
-      applyAaveInterest(portfolio, currentPrices, daysSinceLastExecution);
+    // Accrue interest and LP fees, rebalance LP token amounts to the new price,
+    // then liquidate accounts that prices moved below HF 1
+    interestAccrual.accrue(timestamp, currentPrices);
+    liquidityTracker.update(portfolio, currentPrices, timestamp);
+    for (const account of lendingAccounts.values()) {
+      liquidations.push(...account.liquidate(currentPrices, timestamp));
     }
 
-    // Create execution context
-    const context: ExecutionContext = {
-      timestamp,
-      prices: currentPrices,
-      portfolio,
-      previousResults: new Map(),
-    };
-
-    // Execute blocks
-    try {
-      executeBlockSequence(blocks, context);
-    } catch (error) {
-      console.warn(`Error executing blocks at ${currentDate.toISOString()}:`, error);
-      // Continue with backtest
+    // Flatten on drawdown or daily-loss breaches before any block trades
+    riskManager.observe(timestamp, currentPrices);
+
+    if (batch.some((event) => BLOCK_EVENT_TYPES.has(event.type))) {
+      // Intrabar range since the previous evaluation, closed at the current price
+      const candles = new Map<string, Candle>();
+      for (const [token, price] of currentPrices.entries()) {
+        const candle = history.getCandleSince(token, lastExecutionTime);
+        candles.set(
+          token,
+          candle
+            ? {
+                ...candle,
+                timestamp,
+                high: Math.max(candle.high, price),
+                low: Math.min(candle.low, price),
+                close: price,
+              }
+            : flatCandle(timestamp, price)
+        );
+      }
+
+      // Create execution context
+      const context: ExecutionContext = {
+        timestamp,
+        prices: currentPrices,
+        history,
+        candles,
+        crosses,
+        portfolio,
+        lending: lendingAccounts,
+        random,
+        previousResults: new Map(),
+        pools: config.poolLiquidity,
+        risk: riskManager,
+        rebalancing: rebalanceLedger,
+        gas: gasModel,
+      };
+
+      // Execute blocks
+      try {
+        graphExecutor.execute(context);
+      } catch (error) {
+        console.warn(`Error executing blocks at ${currentDate.toISOString()}:`, error);
+        // Continue with backtest
+      }
+      // Pick up LP positions opened this event
+      liquidityTracker.update(portfolio, currentPrices, timestamp);
+      lastExecutionTime = timestamp;
     }
 
+    if (!batch.some((event) => event.type === 'sample')) continue;
+
     // Calculate current equity
+    for (const account of lendingAccounts.values()) {
+      const healthFactor = account.getHealthFactor(currentPrices);
+      if (Number.isFinite(healthFactor)) {
+        healthFactorCurve.push({
+          date: currentDate.toISOString(),
+          protocol: account.protocol,
+          healthFactor,
+        });
+      }
+    }
+
+    const breakdown = portfolio.getEquityBreakdown(currentPrices);
     const equity = portfolio.calculateEquity(currentPrices);
     equityCurve.push(equity);
     equityCurveData.push({
       date: currentDate.toISOString(),
       equity,
+      breakdown,
     });
+    benchmarkTracker.sample(timestamp, currentPrices);
+  }
 
-    lastExecutionTime = timestamp;
+  // Match entries to exits and mark what is still held at the last prices
+  const trades = portfolio.getTrades();
+  const ledger = new TradeLedger((token) => portfolio.isCashEquivalent(token), tokenPrices);
+  ledger.recordAll(trades);
+  const finalPrices = new Map<string, number>();
+  for (const token of pricedTokens) {
+    const price = history.getLatestBar(token)?.price;
+    if (price !== undefined && price > 0) finalPrices.set(token, price);
   }
 
   // Calculate final metrics
-  const metrics = calculateMetrics(portfolio, initialCapital, equityCurve);
-  const trades = portfolio.getTrades();
+  const metrics = calculateMetrics(
+    portfolio,
+    initialCapital,
+    equityCurve,
+    ledger,
+    rebalanceInterval
+  );
 
   return {
     metrics: {
@@ -240,11 +465,42 @@ export async function runDeFiBacktest(config: BacktestConfig): Promise<DeFiBackt
       totalTrades: metrics.totalTrades,
       totalGasSpent: metrics.totalGasSpent,
       totalFeesSpent: metrics.totalFeesSpent,
+      profitFactor: metrics.profitFactor,
+      expectancy: metrics.expectancy,
     },
+    extendedMetrics: calculateExtendedMetrics(equityCurveData, trades, {
+      samplingInterval: rebalanceInterval,
+    }),
     equityCurve: equityCurveData,
     trades,
+    roundTrips: ledger.getRoundTrips(),
+    openLots: ledger.getOpenLots(finalPrices),
     startDate,
     endDate,
     initialCapital,
+    liquidations,
+    interest: interestAccrual.getReport(),
+    liquidityPositions: liquidityTracker.getReports(),
+    riskInterventions: riskManager.getInterventions(),
+    allocationHistory: rebalanceLedger.getHistory(),
+    healthFactorCurve,
+    benchmarks: benchmarkTracker.getResults(
+      equityCurve,
+      (endTime - startTime) / 86400000,
+      rebalanceInterval
+    ),
+    manifest: {
+      seed,
+      engineVersion: BACKTEST_ENGINE_VERSION,
+      configHash: hashBacktestConfig(config, seed),
+      dataSource: describeDataSource(dataSource),
+      rateSource: rateSource.id,
+      gas: describeGasModel(gasModel),
+      dataHashes: Object.fromEntries(
+        Array.from(tokenPrices.entries())
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([token, prices]) => [token, hashValue(prices)])
+      ),
+    },
   };
 }
@@ -1,5 +1,6 @@
 import type { LegoBlock } from '../types';
 import { isRetryableError, retryWithBackoff } from '../utils/retry';
+import { DEFAULT_BENCHMARKS } from './backtest/benchmarks';
 import { type DeFiBacktestResult, runDeFiBacktest } from './defiBacktestEngine';
 
 export class BacktestExecutionError extends Error {
@@ -51,6 +52,7 @@ export const executeStrategy = async (blocks: LegoBlock[]): Promise<DeFiBacktest
           endDate,
           initialCapital: 10000,
           rebalanceInterval: 86400000, // 1 day in ms
+          benchmarks: DEFAULT_BENCHMARKS,
         });
       },
       {
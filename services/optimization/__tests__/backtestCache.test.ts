@@ -0,0 +1,102 @@
+/**
+ * Tests for the content-addressed backtest result cache
+ */
+
+import { describe, expect, it } from 'vitest';
+import { BlockCategory, type LegoBlock, Protocol } from '../../../types';
+import { getDataSourceVersion } from '../../backtest/providers';
+import type { DeFiBacktestResult } from '../../defiBacktestEngine';
+import { BacktestResultCache, getBacktestCacheKey, getBacktestDataVersion } from '../backtestCache';
+
+const config = {
+  startDate: new Date('2024-01-01'),
+  endDate: new Date('2024-02-01'),
+  initialCapital: 1000,
+  rebalanceInterval: 86400000,
+};
+
+const result = (totalReturn: number) => ({ metrics: { totalReturn } }) as DeFiBacktestResult;
+
+describe('getBacktestCacheKey', () => {
+  it('should change with every input that affects the result', async () => {
+    const blocks: LegoBlock[] = [
+      {
+        id: 'swap',
+        type: 'uniswap_swap',
+        label: 'SWAP',
+        description: 'Test',
+        category: BlockCategory.PROTOCOL,
+        protocol: Protocol.UNISWAP,
+        icon: 'swap',
+        params: { amount: 1 },
+      },
+    ];
+    const parameters = { swap: { amount: 2 } };
+    const base = await getBacktestCacheKey(blocks, parameters, config);
+
+    expect(await getBacktestCacheKey(blocks, { swap: { amount: 2 } }, { ...config })).toBe(base);
+    const variants = await Promise.all([
+      getBacktestCacheKey(blocks, { swap: { amount: 3 } }, config),
+      getBacktestCacheKey([], parameters, config),
+      getBacktestCacheKey(blocks, parameters, { ...config, endDate: new Date('2024-03-01') }),
+      getBacktestCacheKey(blocks, parameters, { ...config, initialCapital: 2000 }),
+      getBacktestCacheKey(blocks, parameters, { ...config, rebalanceInterval: 3600000 }),
+      getBacktestCacheKey(blocks, parameters, {
+        ...config,
+        dataSource: { type: 'fixture', data: {} },
+      }),
+    ]);
+    expect(new Set([base, ...variants]).size).toBe(variants.length + 1);
+  });
+
+  it('should change when a price file is edited in place', async () => {
+    const files = new Map([['/eth.csv', 'timestamp,price\n1704067200,2000']]);
+    const fingerprint = async (source: string) => files.get(source) ?? '';
+    const fileConfig = {
+      ...config,
+      dataSource: { type: 'file' as const, format: 'csv' as const, files: { ETH: '/eth.csv' } },
+    };
+    const key = async () =>
+      getBacktestCacheKey(
+        [],
+        {},
+        fileConfig,
+        await getDataSourceVersion(fileConfig.dataSource, fingerprint)
+      );
+    const before = await key();
+
+    expect(await key()).toBe(before);
+    files.set('/eth.csv', 'timestamp,price\n1704067200,2100');
+    expect(await key()).not.toBe(before);
+  });
+
+  it('should key a precomputed data version the same as computing it', async () => {
+    const version = await getBacktestDataVersion(config);
+
+    expect(await getBacktestCacheKey([], {}, config, version)).toBe(
+      await getBacktestCacheKey([], {}, config)
+    );
+  });
+});
+
+describe('BacktestResultCache', () => {
+  it('should evict the least recently used result and count hits', async () => {
+    const cache = new BacktestResultCache({ maxEntries: 2 });
+    cache.set('a', result(1));
+    cache.set('b', result(2));
+    await cache.get('a');
+    cache.set('c', result(3));
+
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('a')).toMatchObject({ metrics: { totalReturn: 1 } });
+    expect(await cache.get('c')).toMatchObject({ metrics: { totalReturn: 3 } });
+    expect(cache.getStats()).toEqual({ size: 2, hits: 3, misses: 1, hitRate: 0.75 });
+  });
+
+  it('should fall back to memory when IndexedDB is unavailable', async () => {
+    const cache = new BacktestResultCache({ persist: true });
+    cache.set('a', result(1));
+    expect(await cache.get('a')).toMatchObject({ metrics: { totalReturn: 1 } });
+    expect(await cache.get('b')).toBeUndefined();
+  });
+});
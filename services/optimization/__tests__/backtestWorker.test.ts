@@ -0,0 +1,181 @@
+/**
+ * Tests for backtest scheduling across the worker pool
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DeFiBacktestResult } from '../../defiBacktestEngine';
+import { BacktestWorkerPool } from '../backtestWorker';
+import type { BacktestWorkerRequest, BacktestWorkerResponse } from '../types';
+
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: MessageEvent<BacktestWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  onmessageerror: ((event: MessageEvent) => void) | null = null;
+  received: BacktestWorkerRequest[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: BacktestWorkerRequest): void {
+    this.received.push(request);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  crash(message: string): void {
+    this.onerror?.({ message } as ErrorEvent);
+  }
+
+  // Answer the most recent request this worker was given
+  respond(totalReturn: number): void {
+    const request = this.received[this.received.length - 1] as BacktestWorkerRequest;
+    this.onmessage?.({
+      data: {
+        type: 'RESULT',
+        id: request.id,
+        parameters: request.parameters,
+        result: { metrics: { totalReturn } } as DeFiBacktestResult,
+      },
+    } as MessageEvent<BacktestWorkerResponse>);
+  }
+}
+
+// Let queued cache lookups settle so tasks reach the workers
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const config = {
+  startDate: new Date('2024-01-01'),
+  endDate: new Date('2024-02-01'),
+  initialCapital: 1000,
+  rebalanceInterval: 86400000,
+};
+
+describe('BacktestWorkerPool', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should run tasks on every idle worker and queue the rest', async () => {
+    const pool = new BacktestWorkerPool(2);
+    const [first, second] = FakeWorker.instances as [FakeWorker, FakeWorker];
+
+    const runs = [1, 2, 3].map((amount) => pool.runBacktest([], { swap: { amount } }, config));
+    await flush();
+    expect(first.received).toHaveLength(1);
+    expect(second.received).toHaveLength(1);
+    expect(pool.getActiveWorkerCount()).toBe(2);
+
+    // Finishing out of order frees that worker for the queued task
+    second.respond(20);
+    await expect(runs[1]).resolves.toMatchObject({ metrics: { totalReturn: 20 } });
+    await flush();
+    expect(second.received).toHaveLength(2);
+    expect(second.received[1]?.parameters).toEqual({ swap: { amount: 3 } });
+
+    first.respond(10);
+    second.respond(30);
+    await expect(Promise.all(runs)).resolves.toMatchObject([
+      { metrics: { totalReturn: 10 } },
+      { metrics: { totalReturn: 20 } },
+      { metrics: { totalReturn: 30 } },
+    ]);
+    expect(pool.getActiveWorkerCount()).toBe(0);
+  });
+
+  it('should share one run between identical requests and key windows apart', async () => {
+    const pool = new BacktestWorkerPool(2);
+    const [first, second] = FakeWorker.instances as [FakeWorker, FakeWorker];
+    const parameters = { swap: { amount: 1 } };
+    const testWindow = { ...config, startDate: config.endDate, endDate: new Date('2024-03-01') };
+
+    const train = pool.runBacktest([], parameters, config);
+    const duplicate = pool.runBacktest([], parameters, config);
+    const test = pool.runBacktest([], parameters, testWindow);
+    await flush();
+    expect(first.received).toHaveLength(1);
+    expect(second.received).toHaveLength(1);
+
+    first.respond(10);
+    second.respond(-5);
+    await expect(Promise.all([train, duplicate, test])).resolves.toMatchObject([
+      { metrics: { totalReturn: 10 } },
+      { metrics: { totalReturn: 10 } },
+      { metrics: { totalReturn: -5 } },
+    ]);
+
+    await expect(pool.runBacktest([], parameters, testWindow)).resolves.toMatchObject({
+      metrics: { totalReturn: -5 },
+    });
+    expect(pool.getCacheStats()).toMatchObject({ hits: 1, misses: 2 });
+  });
+
+  it('should reject the task of a crashed worker and replace the worker', async () => {
+    const pool = new BacktestWorkerPool(1);
+    const [first] = FakeWorker.instances as [FakeWorker];
+
+    const crashed = pool.runBacktest([], { swap: { amount: 1 } }, config);
+    const queued = pool.runBacktest([], { swap: { amount: 2 } }, config);
+    await flush();
+    first.crash('out of memory');
+
+    await expect(crashed).rejects.toThrow('Backtest worker crashed: out of memory');
+    expect(first.terminated).toBe(true);
+    const replacement = FakeWorker.instances[1] as FakeWorker;
+    expect(pool.getWorkerCount()).toBe(1);
+    expect(replacement.received[0]?.parameters).toEqual({ swap: { amount: 2 } });
+
+    replacement.respond(20);
+    await expect(queued).resolves.toMatchObject({ metrics: { totalReturn: 20 } });
+  });
+
+  it('should time out a hung worker and hand its slot to the next task', async () => {
+    vi.useFakeTimers();
+    const onError = vi.fn();
+    const pool = new BacktestWorkerPool(1, onError, undefined, 1000);
+    const [first] = FakeWorker.instances as [FakeWorker];
+
+    const hung = pool.runBacktest([], { swap: { amount: 1 } }, config);
+    const rejection = expect(hung).rejects.toThrow('Backtest timed out after 1s');
+    await vi.advanceTimersByTimeAsync(1000);
+    await rejection;
+
+    expect(first.terminated).toBe(true);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ type: 'timeout' }));
+
+    // A result that arrives in time clears its timer
+    const next = pool.runBacktest([], { swap: { amount: 2 } }, config);
+    await vi.advanceTimersByTimeAsync(0);
+    (FakeWorker.instances[1] as FakeWorker).respond(5);
+    await expect(next).resolves.toMatchObject({ metrics: { totalReturn: 5 } });
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(FakeWorker.instances).toHaveLength(2);
+  });
+
+  it('should reject queued and running tasks when terminated', async () => {
+    const pool = new BacktestWorkerPool(1);
+    const [first] = FakeWorker.instances as [FakeWorker];
+
+    const running = pool.runBacktest([], { swap: { amount: 1 } }, config);
+    const queued = pool.runBacktest([], { swap: { amount: 2 } }, config);
+    await flush();
+    pool.terminate();
+
+    await expect(running).rejects.toThrow('Backtest worker pool terminated');
+    await expect(queued).rejects.toThrow('Backtest worker pool terminated');
+    expect(first.terminated).toBe(true);
+    await expect(pool.runBacktest([], { swap: { amount: 3 } }, config)).rejects.toThrow(
+      'Backtest worker pool terminated'
+    );
+  });
+});
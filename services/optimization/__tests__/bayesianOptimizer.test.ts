@@ -0,0 +1,199 @@
+/**
+ * Tests for the Gaussian-process Bayesian optimizer
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { createSeededRandom } from '../../backtest/determinism';
+import {
+  expectedImprovement,
+  normalCdf,
+  probabilityOfImprovement,
+} from '../algorithms/acquisition';
+import { BayesianOptimizer } from '../algorithms/bayesianOptimizer';
+import { GaussianProcess } from '../algorithms/gaussianProcess';
+import { calculateHypervolume } from '../algorithms/paretoFrontier';
+import type { ParameterDefinition } from '../types';
+
+const continuous: ParameterDefinition = {
+  blockId: 'swap',
+  blockType: 'uniswap_swap',
+  paramName: 'amount',
+  type: 'continuous',
+  min: 0,
+  max: 100,
+  defaultValue: 50,
+};
+
+const discrete: ParameterDefinition = {
+  blockId: 'swap',
+  blockType: 'uniswap_swap',
+  paramName: 'slippage',
+  type: 'discrete',
+  values: [2, 0.5, 1, 3],
+  defaultValue: 1,
+};
+
+describe('GaussianProcess', () => {
+  it('should track observations and grow uncertain away from them', () => {
+    const gp = new GaussianProcess({ random: createSeededRandom(1) });
+    const inputs = [[0], [0.25], [0.5], [0.75], [1]];
+    gp.fit(
+      inputs,
+      inputs.map(([x]) => Math.sin(6 * (x ?? 0)))
+    );
+
+    const atData = gp.predict([0.5]);
+    expect(atData.mean).toBeCloseTo(Math.sin(3), 1);
+    expect(gp.predict([0.625]).variance).toBeGreaterThan(atData.variance);
+    expect(gp.getHyperparameters().lengthScales).toHaveLength(1);
+  });
+});
+
+describe('Acquisition functions', () => {
+  it('should score improvement over the incumbent', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 7);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 3);
+    expect(expectedImprovement(1, 0, 0.5, 0)).toBe(0.5);
+    expect(expectedImprovement(0, 1, 0, 0)).toBeCloseTo(1 / Math.sqrt(2 * Math.PI), 6);
+    expect(probabilityOfImprovement(0, 1, 0, 0)).toBeCloseTo(0.5, 7);
+  });
+});
+
+describe('calculateHypervolume', () => {
+  it('should measure the dominated region above the reference point', () => {
+    expect(
+      calculateHypervolume(
+        [
+          [1, 2],
+          [2, 1],
+          [0.5, 0.5],
+        ],
+        [0, 0]
+      )
+    ).toBe(3);
+    expect(
+      calculateHypervolume(
+        [
+          [1, 1, 1],
+          [2, 0.5, 0.5],
+        ],
+        [0, 0, 0]
+      )
+    ).toBeCloseTo(1 + 0.25, 10);
+  });
+});
+
+describe('BayesianOptimizer', () => {
+  const amount = (parameters: Record<string, Record<string, number>>) =>
+    parameters.swap?.amount ?? 0;
+  const slippage = (parameters: Record<string, Record<string, number>>) =>
+    parameters.swap?.slippage ?? 0;
+
+  it('should spread the initial design across every stratum', () => {
+    const optimizer = new BayesianOptimizer([continuous], ['totalReturn'], {
+      random: createSeededRandom(3),
+    });
+    const strata = optimizer
+      .generateInitialSamples(5)
+      .map((sample) => Math.floor(amount(sample) / 20))
+      .sort();
+    expect(strata).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('should close in on the optimum of a smooth objective', () => {
+    const optimizer = new BayesianOptimizer([continuous], ['totalReturn'], {
+      random: createSeededRandom(7),
+      candidates: 128,
+    });
+    const evaluate = (x: number) => -((x - 70) ** 2);
+
+    let best = Number.NEGATIVE_INFINITY;
+    const observe = (parameters: Record<string, Record<string, number>>) => {
+      const totalReturn = evaluate(amount(parameters));
+      best = Math.max(best, totalReturn);
+      optimizer.addObservation(parameters, { totalReturn });
+    };
+    for (const sample of optimizer.generateInitialSamples(4)) observe(sample);
+    for (let i = 0; i < 8; i++) observe(optimizer.suggestNext());
+
+    expect(best).toBeGreaterThan(-4);
+  });
+
+  it('should suggest only allowed discrete values and never repeat one', () => {
+    const optimizer = new BayesianOptimizer([discrete], ['sharpeRatio'], {
+      random: createSeededRandom(5),
+      acquisition: 'ucb',
+    });
+    const seen: number[] = [];
+    for (const value of [0.5, 3]) {
+      seen.push(value);
+      optimizer.addObservation({ swap: { slippage: value } }, { sharpeRatio: value });
+    }
+    for (let i = 0; i < 2; i++) {
+      const value = slippage(optimizer.suggestNext());
+      expect(seen).not.toContain(value);
+      seen.push(value);
+      optimizer.addObservation({ swap: { slippage: value } }, { sharpeRatio: value });
+    }
+    expect(seen.sort()).toEqual([0.5, 1, 2, 3]);
+  });
+
+  it('should spread a constant-liar batch over distinct points', () => {
+    const optimizer = new BayesianOptimizer([continuous], ['totalReturn'], {
+      random: createSeededRandom(13),
+      candidates: 128,
+    });
+    for (const sample of optimizer.generateInitialSamples(4)) {
+      optimizer.addObservation(sample, { totalReturn: -((amount(sample) - 70) ** 2) });
+    }
+
+    const batch = optimizer.suggestBatch(4).map(amount);
+    expect(new Set(batch.map((x) => x.toFixed(6))).size).toBe(4);
+    for (let i = 0; i < batch.length; i++) {
+      for (let j = i + 1; j < batch.length; j++) {
+        expect(Math.abs((batch[i] ?? 0) - (batch[j] ?? 0))).toBeGreaterThan(0.5);
+      }
+    }
+  });
+
+  it('should tune hyperparameters on real observations, never on constant-liar points', () => {
+    const optimizer = new BayesianOptimizer([continuous], ['totalReturn'], {
+      random: createSeededRandom(17),
+      candidates: 32,
+    });
+    const observe = (x: number) =>
+      optimizer.addObservation({ swap: { amount: x } }, { totalReturn: -((x - 70) ** 2) });
+    observe(10);
+    optimizer.addObservation({ swap: { amount: 90 } }, {}); // Failed backtest
+    optimizer.suggestBatch(3);
+
+    for (const x of [30, 50, 60, 80]) observe(x);
+    const fit = vi.spyOn(GaussianProcess.prototype, 'fit');
+    try {
+      optimizer.suggestNext();
+      const tuned = fit.mock.calls.filter(([, , hyperparameters]) => !hyperparameters);
+      expect(tuned.map(([inputs]) => inputs.length)).toEqual([5]);
+    } finally {
+      fit.mockRestore();
+    }
+  });
+
+  it('should optimize several objectives by scalarization or hypervolume improvement', () => {
+    for (const multiObjective of ['scalarize', 'ehvi'] as const) {
+      const optimizer = new BayesianOptimizer(
+        [continuous, discrete],
+        ['totalReturn', 'maxDrawdown'],
+        { random: createSeededRandom(11), candidates: 64, multiObjective }
+      );
+      for (const sample of optimizer.generateInitialSamples(5)) {
+        const x = amount(sample);
+        optimizer.addObservation(sample, { totalReturn: x, maxDrawdown: (x / 10) ** 2 });
+      }
+
+      const next = optimizer.suggestNext();
+      expect(amount(next)).toBeGreaterThanOrEqual(0);
+      expect(amount(next)).toBeLessThanOrEqual(100);
+      expect(discrete.values).toContain(slippage(next));
+    }
+  });
+});
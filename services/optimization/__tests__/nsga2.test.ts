@@ -0,0 +1,126 @@
+/**
+ * Tests for the NSGA-II multi-objective optimizer
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createSeededRandom } from '../../backtest/determinism';
+import { NSGA2Optimizer, crowdingDistance, nonDominatedSort } from '../algorithms/nsga2';
+import type { ObjectiveScores, ParameterDefinition, ParameterSet } from '../types';
+
+const amount: ParameterDefinition = {
+  blockId: 'swap',
+  blockType: 'uniswap_swap',
+  paramName: 'amount',
+  type: 'continuous',
+  min: 0,
+  max: 10,
+  defaultValue: 5,
+};
+
+const slippage: ParameterDefinition = {
+  blockId: 'swap',
+  blockType: 'uniswap_swap',
+  paramName: 'slippage',
+  type: 'discrete',
+  values: [0.5, 1, 2],
+  defaultValue: 1,
+};
+
+// Return grows with amount while drawdown grows faster, so every amount is a trade-off
+const evaluate = (parameters: ParameterSet): ObjectiveScores => {
+  const x = parameters.swap?.amount ?? 0;
+  return { totalReturn: x, maxDrawdown: (x / 2) ** 2 };
+};
+
+describe('nonDominatedSort', () => {
+  it('should rank fronts with ParetoFrontier dominance and put failures last', () => {
+    const fronts = nonDominatedSort(
+      [
+        { sharpeRatio: 2, maxDrawdown: 10 },
+        { sharpeRatio: 1, maxDrawdown: 5 },
+        { sharpeRatio: 1, maxDrawdown: 12 },
+        {},
+        { sharpeRatio: 0.5, maxDrawdown: 20 },
+      ],
+      ['sharpeRatio', 'maxDrawdown']
+    );
+
+    expect(fronts).toEqual([[0, 1], [2], [4], [3]]);
+  });
+});
+
+describe('crowdingDistance', () => {
+  it('should keep the extremes and measure interior gaps', () => {
+    const distances = crowdingDistance(
+      [
+        { totalReturn: 0, maxDrawdown: 0 },
+        { totalReturn: 1, maxDrawdown: 1 },
+        { totalReturn: 3, maxDrawdown: 2 },
+        { totalReturn: 4, maxDrawdown: 4 },
+      ],
+      ['totalReturn', 'maxDrawdown']
+    );
+
+    expect(distances[0]).toBe(Number.POSITIVE_INFINITY);
+    expect(distances[3]).toBe(Number.POSITIVE_INFINITY);
+    expect(distances[1]).toBeCloseTo(3 / 4 + 2 / 4, 10);
+    expect(distances[2]).toBeCloseTo(3 / 4 + 3 / 4, 10);
+  });
+});
+
+describe('NSGA2Optimizer', () => {
+  it('should keep offspring within bounds and allowed values', () => {
+    const optimizer = new NSGA2Optimizer([amount, slippage], ['totalReturn', 'maxDrawdown'], {
+      random: createSeededRandom(2),
+      populationSize: 12,
+    });
+
+    for (let generation = 0; generation < 3; generation++) {
+      const population = optimizer.getPopulation();
+      expect(population).toHaveLength(12);
+      for (const parameters of population) {
+        expect(parameters.swap?.amount).toBeGreaterThanOrEqual(0);
+        expect(parameters.swap?.amount).toBeLessThanOrEqual(10);
+        expect(slippage.values).toContain(parameters.swap?.slippage);
+        optimizer.setScores(parameters, evaluate(parameters));
+      }
+      optimizer.evolve();
+    }
+    expect(optimizer.getGeneration()).toBe(3);
+  });
+
+  it('should spread the front and grow its hypervolume', () => {
+    const optimizer = new NSGA2Optimizer([amount], ['totalReturn', 'maxDrawdown'], {
+      random: createSeededRandom(9),
+      populationSize: 16,
+    });
+
+    const history: number[] = [];
+    for (let generation = 0; generation < 8; generation++) {
+      for (const parameters of optimizer.getPopulation()) {
+        optimizer.setScores(parameters, evaluate(parameters));
+      }
+      optimizer.evolve();
+      history.push(optimizer.getHypervolume());
+    }
+
+    expect(history[history.length - 1]).toBeGreaterThan(history[0] ?? 0);
+    const amounts = optimizer.getFrontier().map(({ parameters }) => parameters.swap?.amount ?? 0);
+    expect(amounts).toHaveLength(16);
+    expect(Math.min(...amounts)).toBeLessThan(0.5);
+    expect(Math.max(...amounts)).toBeGreaterThan(9.5);
+  });
+
+  it('should discard offspring that were never scored', () => {
+    const optimizer = new NSGA2Optimizer([amount], ['totalReturn', 'maxDrawdown'], {
+      random: createSeededRandom(4),
+      populationSize: 6,
+    });
+    const [first] = optimizer.getPopulation();
+    optimizer.setScores(first as ParameterSet, evaluate(first as ParameterSet));
+    optimizer.evolve();
+
+    expect(optimizer.getFrontier()).toHaveLength(1);
+    expect(optimizer.getPopulation()).toHaveLength(6);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for batch evaluation in the optimization engine
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import type { DeFiBacktestResult } from '../../defiBacktestEngine';
+import { OptimizationEngine } from '../optimizationEngine';
+import type { OptimizationConfig, ParameterSet } from '../types';
+
+// Backtests finish after a delay set per test, so completion order can differ from batch order
+const delay = { of: (_amount: number) => 0 };
+
+vi.mock('../backtestWorker', () => ({
+  BacktestWorkerPool: class {
+    getWorkerCount = () => 4;
+    getActiveWorkerCount = () => 0;
+    getCacheStats = () => ({ hits: 0, misses: 0, hitRate: 0 });
+    terminate = () => undefined;
+
+    runBacktest(_blocks: unknown, parameters: ParameterSet): Promise<DeFiBacktestResult> {
+      const amount = Number(parameters.swap?.amount ?? 0);
+      const metrics = { totalReturn: amount, maxDrawdown: (amount / 2) ** 2, totalTrades: 0 };
+      return new Promise((resolve) =>
+        setTimeout(() => resolve({ metrics } as DeFiBacktestResult), delay.of(amount))
+      );
+    }
+  },
+}));
+
+const config: OptimizationConfig = {
+  algorithm: 'nsga2',
+  objectives: ['totalReturn', 'maxDrawdown'],
+  maxIterations: 8,
+  parameters: [
+    {
+      blockId: 'swap',
+      blockType: 'uniswap_swap',
+      paramName: 'amount',
+      type: 'continuous',
+      min: 0,
+      max: 10,
+      defaultValue: 5,
+    },
+  ],
+  nsga2: { populationSize: 4 },
+  backtestConfig: {
+    startDate: new Date('2024-01-01'),
+    endDate: new Date('2024-02-01'),
+    initialCapital: 1000,
+    rebalanceInterval: 86400000,
+    seed: 7,
+  },
+};
+
+describe('OptimizationEngine', () => {
+  it('should apply a batch in its own order whichever backtest finishes first', async () => {
+    const engine = new OptimizationEngine();
+    const run = async (finish: (amount: number) => number) => {
+      delay.of = finish;
+      const result = await engine.optimize([], config);
+      return result.solutions.map(({ id, parameters }) => ({ id, parameters }));
+    };
+
+    const fastFirst = await run((amount) => amount);
+    const slowFirst = await run((amount) => 10 - amount);
+
+    expect(fastFirst).toHaveLength(8);
+    expect(slowFirst).toEqual(fastFirst);
+    expect(fastFirst.map(({ id }) => id)).toEqual(fastFirst.map((_, i) => `solution-${i}`));
+  });
+
+  it('should start no further candidates once stopped', async () => {
+    const engine = new OptimizationEngine();
+    delay.of = () => 0;
+    const progress: number[] = [];
+
+    const result = await engine.optimize([], { ...config, nsga2: { populationSize: 8 } }, (p) => {
+      progress.push(p.iteration);
+      engine.stop();
+    });
+
+    // The four candidates already running on the pool finish; the other four never start
+    expect(result.totalIterations).toBe(4);
+    expect(result.solutions).toHaveLength(4);
+    expect(progress).toEqual([1, 2, 3, 4]);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for schema-driven parameter extraction
+ */
+
+import { describe, expect, it } from 'vitest';
+import { AVAILABLE_BLOCKS } from '../../../constants';
+import { BlockCategory, type BlockParams, type LegoBlock, Protocol } from '../../../types';
+import { fromUnitInterval, toUnitInterval } from '../algorithms/parameterSpace';
+import { ParameterExtractor, getParameterKey } from '../parameterExtractor';
+
+const block = (id: string, type: string, params: BlockParams): LegoBlock => ({
+  id,
+  type,
+  label: type.toUpperCase(),
+  description: 'Test',
+  category: BlockCategory.PROTOCOL,
+  protocol: Protocol.GENERIC,
+  icon: type,
+  params,
+});
+
+describe('ParameterExtractor', () => {
+  const extractor = new ParameterExtractor();
+
+  it('should derive definitions from the schema hints of any block type', () => {
+    const parameters = extractor.extract([
+      block('lp', 'uniswap_v3_liquidity', {
+        token0: 'ETH',
+        token1: 'USDC',
+        amount0: 1,
+        amount1: 2000,
+        feeTier: 3000,
+        tickLower: -1200,
+        tickUpper: 1200,
+      }),
+      block('tp', 'take_profit', { percentage: 25 }),
+      block('exit', 'time_exit', { duration: 86400000, from: 'entry' }),
+      block('rsi', 'technical_indicator_trigger', {
+        asset: 'ETH',
+        indicator: 'RSI',
+        condition: '<',
+        value: 30,
+        period: 14,
+      }),
+    ]);
+    const byKey = Object.fromEntries(parameters.map((param) => [getParameterKey(param), param]));
+
+    expect(parameters[0]).toMatchObject({ paramName: 'percentage', type: 'percentage' });
+    expect(byKey['tp.percentage']).toMatchObject({ min: 1, max: 100, defaultValue: 25 });
+    expect(byKey['lp.feeTier']).toMatchObject({ type: 'discrete', values: [500, 3000, 10000] });
+    expect(byKey['lp.tickLower']).toMatchObject({ type: 'discrete', min: -7200, max: -1200 });
+    expect(byKey['lp.tickUpper']).toMatchObject({ type: 'discrete', min: 1200, max: 7200 });
+    expect(byKey['lp.tickLower']?.values).toHaveLength(101);
+    expect(byKey['rsi.period']?.values?.slice(0, 3)).toEqual([2, 3, 4]);
+    expect(byKey['rsi.value']).toMatchObject({ min: 24, max: 36 });
+    expect(byKey['exit.duration']).toMatchObject({
+      scale: 'log',
+      min: 21600000,
+      max: 345600000,
+    });
+    expect(parameters).toHaveLength(9);
+  });
+
+  it('should keep tick ranges valid and on the fee tier spacing', () => {
+    const extractLp = (feeTier: number) =>
+      extractor.extract([
+        block('lp', 'uniswap_v3_liquidity', { feeTier, tickLower: -1200, tickUpper: 600 }),
+      ]);
+
+    for (const [feeTier, spacing] of [
+      [500, 10],
+      [3000, 60],
+      [10000, 200],
+    ] as const) {
+      const [lower, upper] = ['tickLower', 'tickUpper'].map(
+        (name) => extractLp(feeTier).find((param) => param.paramName === name)?.values ?? []
+      ) as [number[], number[]];
+
+      expect(Math.max(...lower)).toBeLessThan(Math.min(...upper));
+      expect(lower.slice(0, 2)).toEqual([-1200 - 6000, -1200 - 6000 + spacing]);
+      expect(upper.every((tick) => tick % spacing === 0)).toBe(true);
+    }
+  });
+
+  it('should tune the range of a default V3 block through its width', () => {
+    const template = AVAILABLE_BLOCKS.find((entry) => entry.type === 'uniswap_v3_liquidity');
+    const parameters = extractor.extract(template ? [{ ...template, id: 'lp' }] : []);
+
+    expect(parameters.find((param) => param.paramName === 'rangeWidth')).toMatchObject({
+      min: 1,
+      max: 50,
+      defaultValue: 10,
+    });
+  });
+
+  it('should skip params the block leaves unset and accept constant type names', () => {
+    const parameters = extractor.extract([
+      block('lp', 'uniswap_v3_liquidity', { amount0: 1, amount1: 2000, feeTier: 500 }),
+      block('swap', 'UNISWAP_SWAP', { amount: 100, slippage: 0.5 }),
+    ]);
+
+    expect(parameters.map(getParameterKey).sort()).toEqual([
+      'lp.amount0',
+      'lp.amount1',
+      'lp.feeTier',
+      'swap.amount',
+      'swap.slippage',
+    ]);
+  });
+
+  it('should optimize the chosen parameters over the overridden bounds', () => {
+    const parameters = extractor.extract([
+      block('swap', 'uniswap_swap', { amount: 100, slippage: 0.5 }),
+      block('rsi', 'technical_indicator_trigger', { value: 30, period: 14 }),
+    ]);
+
+    const selected = extractor.select(parameters, {
+      'swap.amount': { enabled: false },
+      'swap.slippage': { max: 1 },
+      'rsi.period': { min: 10, max: 20 },
+    });
+
+    // Equal priorities keep block order
+    expect(selected.map(getParameterKey)).toEqual(['rsi.value', 'swap.slippage', 'rsi.period']);
+    expect(selected[1]).toMatchObject({ min: 0.1, max: 1 });
+    expect(selected[2]?.values).toEqual([10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20]);
+    expect(extractor.select(parameters)).toHaveLength(4);
+
+    // Bounds the user entered hold even when they exclude the current value
+    const [slippage] = extractor.select(parameters, {
+      'swap.amount': { enabled: false },
+      'swap.slippage': { enabled: true, min: 1, max: 2 },
+      'rsi.value': { enabled: false },
+      'rsi.period': { enabled: false },
+    });
+    expect(slippage).toMatchObject({ paramName: 'slippage', min: 1, max: 2 });
+  });
+});
+
+describe('parameter space', () => {
+  it('should map log-scaled ranges evenly by decade', () => {
+    const param = {
+      blockId: 'b',
+      blockType: 'flash_loan',
+      paramName: 'amount',
+      type: 'continuous' as const,
+      min: 10,
+      max: 1000,
+      scale: 'log' as const,
+      defaultValue: 100,
+    };
+
+    expect(toUnitInterval(param, 100)).toBeCloseTo(0.5, 10);
+    expect(fromUnitInterval(param, 0.5)).toBeCloseTo(100, 8);
+    expect(fromUnitInterval({ ...param, scale: 'linear' }, 0.5)).toBe(505);
+  });
+});
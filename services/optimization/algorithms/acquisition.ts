@@ -0,0 +1,77 @@
+/**
+ * Acquisition functions for Bayesian optimization
+ * All assume the objective is maximized and score a posterior mean and standard deviation.
+ */
+
+export type AcquisitionFunction = 'ei' | 'ucb' | 'pi';
+
+/**
+ * Standard normal density
+ */
+export function normalPdf(z: number): number {
+  return Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz-Stegun 7.1.26, error < 1.5e-7)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly =
+    t *
+    (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+/**
+ * Expected amount by which a point beats `best` by more than `xi`
+ */
+export function expectedImprovement(mean: number, stdDev: number, best: number, xi = 0.01): number {
+  const improvement = mean - best - xi;
+  if (stdDev <= 0) return Math.max(0, improvement);
+  const z = improvement / stdDev;
+  return improvement * normalCdf(z) + stdDev * normalPdf(z);
+}
+
+/**
+ * Probability that a point beats `best` by more than `xi`
+ */
+export function probabilityOfImprovement(
+  mean: number,
+  stdDev: number,
+  best: number,
+  xi = 0.01
+): number {
+  if (stdDev <= 0) return mean - best - xi > 0 ? 1 : 0;
+  return normalCdf((mean - best - xi) / stdDev);
+}
+
+/**
+ * Optimistic bound: mean plus `beta` standard deviations
+ */
+export function upperConfidenceBound(mean: number, stdDev: number, beta = 2): number {
+  return mean + beta * stdDev;
+}
+
+/**
+ * Score a posterior with the chosen acquisition function
+ * @param exploration - xi for EI and PI, beta for UCB
+ */
+export function scoreAcquisition(
+  kind: AcquisitionFunction,
+  mean: number,
+  stdDev: number,
+  best: number,
+  exploration?: number
+): number {
+  switch (kind) {
+    case 'ucb':
+      return upperConfidenceBound(mean, stdDev, exploration);
+    case 'pi':
+      return probabilityOfImprovement(mean, stdDev, best, exploration);
+    default:
+      return expectedImprovement(mean, stdDev, best, exploration);
+  }
+}
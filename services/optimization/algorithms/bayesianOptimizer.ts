@@ -1,120 +1,402 @@
+import type { RandomSource } from '../../backtest/determinism';
 import type {
+  BayesianOptimizerConfig,
   ObjectiveScores,
   OptimizationObjective,
   ParameterDefinition,
   ParameterSet,
 } from '../types';
+import { scoreAcquisition } from './acquisition';
+import { GaussianProcess, type GaussianProcessHyperparameters } from './gaussianProcess';
+import { fromUnitInterval, toUnitInterval } from './parameterSpace';
+import { calculateHypervolume, objectiveSign } from './paretoFrontier';
 
 interface Observation {
   parameters: ParameterSet;
   scores: ObjectiveScores;
 }
 
+export interface BayesianOptimizerOptions extends BayesianOptimizerConfig {
+  candidates?: number; // Random points scored per suggestion before local search (default 512)
+  random?: RandomSource;
+}
+
+const DEFAULT_INITIAL_SAMPLES = 10;
+const DEFAULT_CANDIDATES = 512;
+const REFIT_INTERVAL = 5; // Observations between hyperparameter refits
+const LOCAL_STARTS = 5; // Best candidates refined by local search
+const LOCAL_STEPS = [0.1, 0.03, 0.01];
+const PAREGO_RHO = 0.05; // Weight of the linear term in the augmented Chebyshev scalarization
+const EHVI_SAMPLES = 32;
+const EHVI_REFERENCE = -0.1; // Reference point below the normalized worst observation
+
+/**
+ * Gaussian-process Bayesian optimizer over mixed continuous and discrete parameters
+ *
+ * Parameters are encoded into the unit cube; discrete values become evenly spaced levels
+ * in sorted order, and every candidate is snapped to a feasible point before it is scored.
+ * Several objectives are handled by ParEGO-style random scalarization or by Monte Carlo
+ * expected hypervolume improvement over independent per-objective surrogates.
+ */
 export class BayesianOptimizer {
   private observations: Observation[] = [];
+  private pending: Observation[] = []; // Constant-liar stand-ins for a batch being built
+  private random: RandomSource;
+  private hyperparameters = new Map<
+    string,
+    { fittedAt: number; values: GaussianProcessHyperparameters }
+  >();
+  private levels: Array<number[] | null>; // Sorted values of discrete parameters
 
   constructor(
     private parameters: ParameterDefinition[],
-    private objectives: OptimizationObjective[]
-  ) {}
+    private objectives: OptimizationObjective[],
+    private options: BayesianOptimizerOptions = {}
+  ) {
+    this.random = options.random ?? { next: Math.random };
+    this.levels = parameters.map((param) =>
+      param.type === 'discrete'
+        ? [...new Set(param.values?.length ? param.values : [param.defaultValue])].sort(
+            (a, b) => a - b
+          )
+        : null
+    );
+  }
 
-  generateInitialSamples(count: number): ParameterSet[] {
-    const samples: ParameterSet[] = [];
+  /**
+   * Latin hypercube design: each parameter's range is split into `count` strata and
+   * every stratum is sampled exactly once
+   */
+  generateInitialSamples(
+    count = this.options.initialSamples ?? DEFAULT_INITIAL_SAMPLES
+  ): ParameterSet[] {
+    const columns = this.parameters.map(() => {
+      const strata = Array.from({ length: count }, (_, i) => i);
+      for (let i = strata.length - 1; i > 0; i--) {
+        const j = Math.floor(this.random.next() * (i + 1));
+        [strata[i], strata[j]] = [strata[j] as number, strata[i] as number];
+      }
+      return strata.map((stratum) => (stratum + this.random.next()) / count);
+    });
 
-    for (let i = 0; i < count; i++) {
-      const sample: ParameterSet = {};
+    return Array.from({ length: count }, (_, i) =>
+      this.decode(this.snap(columns.map((column) => column[i] ?? 0)))
+    );
+  }
 
-      for (const param of this.parameters) {
-        if (!sample[param.blockId]) {
-          sample[param.blockId] = {};
-        }
+  addObservation(parameters: ParameterSet, scores: ObjectiveScores): void {
+    this.observations.push({ parameters, scores });
+  }
 
-        if (param.type === 'discrete') {
-          const values = param.values || [];
-          const randomIndex = Math.floor(Math.random() * values.length);
-          sample[param.blockId][param.paramName] = values[randomIndex];
-        } else {
-          const min = param.min || 0;
-          const max = param.max || 100;
-          const value = min + Math.random() * (max - min);
-          sample[param.blockId][param.paramName] = value;
-        }
+  /**
+   * Several points to evaluate concurrently, chosen by the constant-liar heuristic:
+   * each suggestion is provisionally observed at the worst score seen so far, which
+   * pushes the next one elsewhere, and the lies are dropped once the batch is built
+   */
+  suggestBatch(size: number): ParameterSet[] {
+    const lie: ObjectiveScores = {};
+    for (const objective of this.objectives) {
+      const values = this.observations
+        .map((observation) => observation.scores[objective])
+        .filter((value): value is number => Number.isFinite(value));
+      if (values.length === 0) continue;
+      lie[objective] = objectiveSign(objective) === 1 ? Math.min(...values) : Math.max(...values);
+    }
+
+    const batch: ParameterSet[] = [];
+    try {
+      for (let i = 0; i < size; i++) {
+        const parameters = this.suggestNext();
+        batch.push(parameters);
+        this.pending.push({ parameters, scores: lie });
       }
+    } finally {
+      this.pending = [];
+    }
+    return batch;
+  }
 
-      samples.push(sample);
+  suggestNext(): ParameterSet {
+    const all = [...this.observations, ...this.pending];
+    const usable = all.filter((observation) =>
+      this.objectives.every((objective) => Number.isFinite(observation.scores[objective]))
+    );
+    if (usable.length < 2) {
+      return this.decode(this.randomPoint());
     }
 
-    return samples;
+    // Real observations come first; the constant-liar stand-ins follow them
+    const observedCount = usable.filter(
+      (observation) => !this.pending.includes(observation)
+    ).length;
+    const inputs = usable.map((observation) => this.encode(observation.parameters));
+    const normalized = this.normalizeObjectives(usable);
+    const acquisition =
+      this.objectives.length > 1 && this.options.multiObjective === 'ehvi'
+        ? this.hypervolumeAcquisition(inputs, normalized, observedCount)
+        : this.scalarAcquisition(inputs, normalized, observedCount);
+
+    const observed = new Set(
+      all.map((observation) => this.key(this.encode(observation.parameters)))
+    );
+    return this.decode(this.maximize(acquisition, inputs, observed));
   }
 
-  addObservation(parameters: ParameterSet, scores: ObjectiveScores): void {
-    this.observations.push({ parameters, scores });
+  /**
+   * Signed objective values rescaled to [0, 1] over the observations, higher is better
+   */
+  private normalizeObjectives(observations: Observation[]): number[][] {
+    const columns = this.objectives.map((objective) =>
+      observations.map(
+        (observation) => objectiveSign(objective) * (observation.scores[objective] ?? 0)
+      )
+    );
+    const scaled = columns.map((column) => {
+      const min = Math.min(...column);
+      const range = Math.max(...column) - min;
+      return column.map((value) => (range > 0 ? (value - min) / range : 0.5));
+    });
+    return observations.map((_, i) => scaled.map((column) => column[i] ?? 0));
   }
 
-  suggestNext(): ParameterSet {
-    if (this.observations.length === 0) {
-      return this.generateInitialSamples(1)[0];
+  /**
+   * EI, UCB or PI on one surrogate of the primary objective, or of a randomly weighted
+   * augmented Chebyshev scalarization when there are several objectives
+   */
+  private scalarAcquisition(
+    inputs: number[][],
+    normalized: number[][],
+    observedCount: number
+  ): (point: number[]) => number {
+    let targets = normalized.map((values) => values[0] ?? 0);
+    if (this.objectives.length > 1) {
+      const draws = this.objectives.map(() => -Math.log(1 - this.random.next()));
+      const total = draws.reduce((sum, draw) => sum + draw, 0);
+      const weights = draws.map((draw) => draw / total);
+      targets = normalized.map((values) => {
+        const weighted = values.map((value, j) => value * (weights[j] ?? 0));
+        return Math.min(...weighted) + PAREGO_RHO * weighted.reduce((sum, v) => sum + v, 0);
+      });
     }
 
-    // Simplified Expected Improvement
-    const candidates = this.generateInitialSamples(20);
-    let bestCandidate = candidates[0];
-    let bestScore = Number.NEGATIVE_INFINITY;
+    const surrogate = this.fitSurrogate('scalar', inputs, targets, observedCount);
+    const best = Math.max(...targets);
+    const kind = this.options.acquisition ?? 'ei';
+    return (point) => {
+      const { mean, variance } = surrogate.predict(point);
+      return scoreAcquisition(kind, mean, Math.sqrt(variance), best, this.options.exploration);
+    };
+  }
+
+  /**
+   * Monte Carlo expected hypervolume improvement over the observed frontier
+   * The same standard normal draws score every candidate, so comparisons are not noisy.
+   * Each draw is scored by its own contribution rather than by recomputing the whole frontier.
+   */
+  private hypervolumeAcquisition(
+    inputs: number[][],
+    normalized: number[][],
+    observedCount: number
+  ): (point: number[]) => number {
+    const surrogates = this.objectives.map((objective, j) =>
+      this.fitSurrogate(
+        `objective:${objective}`,
+        inputs,
+        normalized.map((values) => values[j] ?? 0),
+        observedCount
+      )
+    );
+    const frontier = normalized.filter(
+      (point) => !normalized.some((other) => dominates(other, point))
+    );
+    const reference = this.objectives.map(() => EHVI_REFERENCE);
+    const draws = Array.from({ length: EHVI_SAMPLES }, () =>
+      this.objectives.map(() => this.standardNormal())
+    );
 
-    for (const candidate of candidates) {
-      const score = this.evaluateCandidate(candidate);
-      if (score > bestScore) {
-        bestScore = score;
-        bestCandidate = candidate;
+    return (point) => {
+      const predictions = surrogates.map((surrogate) => surrogate.predict(point));
+      let improvement = 0;
+      for (const draw of draws) {
+        const sample = predictions.map(
+          ({ mean, variance }, j) => mean + Math.sqrt(variance) * (draw[j] ?? 0)
+        );
+        if (frontier.some((front) => dominates(front, sample) || equals(front, sample))) continue;
+        improvement += hypervolumeContribution(sample, frontier, reference);
       }
+      return improvement / draws.length;
+    };
+  }
+
+  /**
+   * Fit a surrogate, reusing its hyperparameters until enough new observations arrive
+   * Hyperparameters are fitted to the first `observedCount` points only, never to the
+   * constant-liar stand-ins after them, and are not refitted while a batch is being built.
+   */
+  private fitSurrogate(
+    id: string,
+    inputs: number[][],
+    targets: number[],
+    observedCount: number
+  ): GaussianProcess {
+    const surrogate = new GaussianProcess({ kernel: this.options.kernel, random: this.random });
+    const cached = this.hyperparameters.get(id);
+    if (cached && (this.pending.length > 0 || observedCount - cached.fittedAt < REFIT_INTERVAL)) {
+      surrogate.fit(inputs, targets, cached.values);
+      return surrogate;
+    }
+    if (observedCount < 2) {
+      // Too few real points to tune on, so these hyperparameters are used once and not kept
+      surrogate.fit(inputs, targets);
+      return surrogate;
     }
 
-    return bestCandidate;
+    const fitted = new GaussianProcess({ kernel: this.options.kernel, random: this.random });
+    fitted.fit(inputs.slice(0, observedCount), targets.slice(0, observedCount));
+    const values = fitted.getHyperparameters();
+    this.hyperparameters.set(id, { fittedAt: observedCount, values });
+    if (observedCount === inputs.length) return fitted;
+
+    surrogate.fit(inputs, targets, values);
+    return surrogate;
   }
 
-  private evaluateCandidate(candidate: ParameterSet): number {
-    const bestObservation = this.findBestObservation();
-    if (!bestObservation) return Math.random();
+  /**
+   * Random candidates plus perturbations of the observations, then coordinate search
+   * from the best few; points already evaluated are never suggested again
+   */
+  private maximize(
+    acquisition: (point: number[]) => number,
+    observedInputs: number[][],
+    observed: Set<string>
+  ): number[] {
+    const candidates: number[][] = [];
+    const candidateCount = this.options.candidates ?? DEFAULT_CANDIDATES;
+    for (let i = 0; i < candidateCount; i++) candidates.push(this.randomPoint());
+    for (const input of observedInputs) {
+      for (let i = 0; i < 4; i++) {
+        candidates.push(this.snap(input.map((u) => u + 0.1 * this.standardNormal())));
+      }
+    }
 
-    const distance = this.calculateDistance(candidate, bestObservation.parameters);
-    const optimalDistance = 0.2;
-    const distanceScore = 1 / (1 + Math.abs(distance - optimalDistance));
+    const scored = candidates
+      .filter((candidate) => !observed.has(this.key(candidate)))
+      .map((point) => ({ point, score: acquisition(point) }))
+      .sort((a, b) => b.score - a.score);
+    if (scored.length === 0) return this.randomPoint();
 
-    return distanceScore;
+    let best = scored[0] as { point: number[]; score: number };
+    for (const start of scored.slice(0, LOCAL_STARTS)) {
+      let current = start;
+      for (const step of LOCAL_STEPS) {
+        for (let i = 0; i < current.point.length; i++) {
+          const levels = this.levels[i];
+          const delta = levels ? 1 / Math.max(1, levels.length - 1) : step;
+          for (const direction of [-1, 1]) {
+            const point = [...current.point];
+            point[i] = (point[i] ?? 0) + direction * delta;
+            const snapped = this.snap(point);
+            if (observed.has(this.key(snapped))) continue;
+            const score = acquisition(snapped);
+            if (score > current.score) current = { point: snapped, score };
+          }
+        }
+      }
+      if (current.score > best.score) best = current;
+    }
+
+    return best.point;
   }
 
-  private findBestObservation(): Observation | undefined {
-    if (this.observations.length === 0) return undefined;
-    const primaryObjective = this.objectives[0];
+  private randomPoint(): number[] {
+    return this.snap(this.parameters.map(() => this.random.next()));
+  }
 
-    return this.observations.reduce((best, current) => {
-      const bestValue = best.scores[primaryObjective] || Number.NEGATIVE_INFINITY;
-      const currentValue = current.scores[primaryObjective] || Number.NEGATIVE_INFINITY;
-      return currentValue > bestValue ? current : best;
+  /**
+   * Clamp to the unit cube and round discrete coordinates to their nearest level
+   */
+  private snap(point: number[]): number[] {
+    return point.map((u, i) => {
+      const clamped = Math.min(1, Math.max(0, u));
+      const levels = this.levels[i];
+      if (!levels) return clamped;
+      const steps = Math.max(1, levels.length - 1);
+      return levels.length > 1 ? Math.round(clamped * steps) / steps : 0.5;
     });
   }
 
-  private calculateDistance(a: ParameterSet, b: ParameterSet): number {
-    let sumSquaredDiff = 0;
-    let count = 0;
+  private encode(parameters: ParameterSet): number[] {
+    return this.parameters.map((param, i) => {
+      const value = parameters[param.blockId]?.[param.paramName] ?? param.defaultValue;
+      const levels = this.levels[i];
+      if (levels) {
+        if (levels.length < 2) return 0.5;
+        let nearest = 0;
+        for (let j = 1; j < levels.length; j++) {
+          if (Math.abs((levels[j] ?? 0) - value) < Math.abs((levels[nearest] ?? 0) - value)) {
+            nearest = j;
+          }
+        }
+        return nearest / (levels.length - 1);
+      }
+      return toUnitInterval(param, value);
+    });
+  }
+
+  private decode(point: number[]): ParameterSet {
+    const parameters: ParameterSet = {};
+    this.parameters.forEach((param, i) => {
+      if (!parameters[param.blockId]) {
+        parameters[param.blockId] = {};
+      }
+      const u = point[i] ?? 0;
+      const levels = this.levels[i];
+      const value = levels
+        ? (levels[Math.round(u * Math.max(0, levels.length - 1))] ?? param.defaultValue)
+        : fromUnitInterval(param, u);
+      (parameters[param.blockId] as ParameterSet[string])[param.paramName] = value;
+    });
+    return parameters;
+  }
 
-    for (const param of this.parameters) {
-      const aValue = a[param.blockId]?.[param.paramName];
-      const bValue = b[param.blockId]?.[param.paramName];
+  private key(point: number[]): string {
+    return point.map((u) => u.toFixed(9)).join(',');
+  }
 
-      if (aValue === undefined || bValue === undefined) continue;
+  /**
+   * Box-Muller draw from the seeded source
+   */
+  private standardNormal(): number {
+    const u = 1 - this.random.next();
+    const v = this.random.next();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+}
 
-      const min = param.min || 0;
-      const max = param.max || 100;
-      const range = max - min;
+/**
+ * Hypervolume a point adds to a frontier: its box above the reference, less the part of that
+ * box the frontier already covers, which is the frontier clipped to the box
+ */
+function hypervolumeContribution(
+  point: number[],
+  frontier: number[][],
+  reference: number[]
+): number {
+  const box = point.reduce(
+    (volume, value, i) => volume * Math.max(0, value - (reference[i] ?? 0)),
+    1
+  );
+  if (box === 0) return 0;
 
-      const aNorm = (aValue - min) / range;
-      const bNorm = (bValue - min) / range;
+  const clipped = frontier.map((front) => front.map((value, i) => Math.min(value, point[i] ?? 0)));
+  const covered = clipped.filter((front) => !clipped.some((other) => dominates(other, front)));
+  return box - calculateHypervolume(covered, reference);
+}
 
-      sumSquaredDiff += Math.pow(aNorm - bNorm, 2);
-      count++;
-    }
+function dominates(a: number[], b: number[]): boolean {
+  return a.every((value, i) => value >= (b[i] ?? 0)) && a.some((value, i) => value > (b[i] ?? 0));
+}
 
-    return count > 0 ? Math.sqrt(sumSquaredDiff / count) : 0;
-  }
+function equals(a: number[], b: number[]): boolean {
+  return a.every((value, i) => value === b[i]);
 }
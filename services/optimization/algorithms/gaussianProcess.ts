@@ -0,0 +1,278 @@
+/**
+ * Gaussian-process surrogate for Bayesian optimization
+ * Matérn kernel with one length scale per input dimension, hyperparameters fitted by
+ * maximizing the log marginal likelihood. Plain arrays and a Cholesky solve keep it free of
+ * dependencies so it runs inside the optimization web worker.
+ */
+
+import type { RandomSource } from '../../backtest/determinism';
+
+export type MaternKernel = 'matern32' | 'matern52';
+
+export interface GaussianProcessHyperparameters {
+  lengthScales: number[]; // Per input dimension, in the unit cube
+  signalVariance: number; // Of the standardized targets
+  noiseVariance: number;
+}
+
+export interface GaussianProcessOptions {
+  kernel?: MaternKernel; // Default Matérn 5/2
+  restarts?: number; // Random hyperparameter draws before local refinement (default 8)
+  random?: RandomSource;
+}
+
+export interface Prediction {
+  mean: number;
+  variance: number;
+}
+
+// Log-space bounds for fitted hyperparameters; inputs live in [0, 1]
+const LENGTH_SCALE_BOUNDS: [number, number] = [Math.log(0.02), Math.log(5)];
+const SIGNAL_VARIANCE_BOUNDS: [number, number] = [Math.log(0.05), Math.log(20)];
+const NOISE_VARIANCE_BOUNDS: [number, number] = [Math.log(1e-6), Math.log(0.5)];
+const JITTER = 1e-9;
+const MAX_REFINEMENT_ROUNDS = 10; // Coordinate sweeps per step size
+
+/**
+ * Matérn correlation at a scaled distance
+ */
+export function maternCorrelation(distance: number, kernel: MaternKernel): number {
+  if (kernel === 'matern32') {
+    const scaled = Math.sqrt(3) * distance;
+    return (1 + scaled) * Math.exp(-scaled);
+  }
+  const scaled = Math.sqrt(5) * distance;
+  return (1 + scaled + (scaled * scaled) / 3) * Math.exp(-scaled);
+}
+
+/**
+ * Lower-triangular Cholesky factor, or null when the matrix is not positive definite
+ */
+function cholesky(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const lower: number[][] = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    const rowI = lower[i] as number[];
+    for (let j = 0; j <= i; j++) {
+      const rowJ = lower[j] as number[];
+      let sum = matrix[i]?.[j] ?? 0;
+      for (let k = 0; k < j; k++) sum -= (rowI[k] ?? 0) * (rowJ[k] ?? 0);
+
+      if (i === j) {
+        if (sum <= 0 || !Number.isFinite(sum)) return null;
+        rowI[i] = Math.sqrt(sum);
+      } else {
+        rowI[j] = sum / (rowJ[j] ?? 1);
+      }
+    }
+  }
+
+  return lower;
+}
+
+/**
+ * Solve L x = b for lower-triangular L
+ */
+function solveLower(lower: number[][], b: number[]): number[] {
+  const x = new Array<number>(b.length).fill(0);
+  for (let i = 0; i < b.length; i++) {
+    let sum = b[i] ?? 0;
+    for (let k = 0; k < i; k++) sum -= (lower[i]?.[k] ?? 0) * (x[k] ?? 0);
+    x[i] = sum / (lower[i]?.[i] ?? 1);
+  }
+  return x;
+}
+
+/**
+ * Solve Lᵀ x = b for lower-triangular L
+ */
+function solveUpper(lower: number[][], b: number[]): number[] {
+  const x = new Array<number>(b.length).fill(0);
+  for (let i = b.length - 1; i >= 0; i--) {
+    let sum = b[i] ?? 0;
+    for (let k = i + 1; k < b.length; k++) sum -= (lower[k]?.[i] ?? 0) * (x[k] ?? 0);
+    x[i] = sum / (lower[i]?.[i] ?? 1);
+  }
+  return x;
+}
+
+export class GaussianProcess {
+  private inputs: number[][] = [];
+  private lower: number[][] = [];
+  private weights: number[] = []; // K⁻¹ y on the standardized targets
+  private targetMean = 0;
+  private targetScale = 1;
+  private kernel: MaternKernel;
+  private restarts: number;
+  private random: RandomSource;
+  private hyperparameters: GaussianProcessHyperparameters = {
+    lengthScales: [],
+    signalVariance: 1,
+    noiseVariance: 1e-4,
+  };
+
+  constructor(options: GaussianProcessOptions = {}) {
+    this.kernel = options.kernel ?? 'matern52';
+    this.restarts = options.restarts ?? 8;
+    this.random = options.random ?? { next: Math.random };
+  }
+
+  /**
+   * Condition on observations, refitting hyperparameters unless they are given
+   * @param inputs - Points in the unit cube
+   * @param targets - Observed values at those points
+   */
+  fit(
+    inputs: number[][],
+    targets: number[],
+    hyperparameters?: GaussianProcessHyperparameters
+  ): void {
+    if (inputs.length === 0 || inputs.length !== targets.length) {
+      throw new Error('Gaussian process needs one target per input');
+    }
+
+    this.inputs = inputs.map((point) => [...point]);
+    this.targetMean = targets.reduce((sum, y) => sum + y, 0) / targets.length;
+    const variance =
+      targets.reduce((sum, y) => sum + (y - this.targetMean) ** 2, 0) / targets.length;
+    this.targetScale = variance > 0 ? Math.sqrt(variance) : 1;
+    const standardized = targets.map((y) => (y - this.targetMean) / this.targetScale);
+
+    const fitted = hyperparameters ?? this.optimizeHyperparameters(standardized);
+    if (!this.condition(fitted, standardized)) {
+      // Fall back to heavier noise until the covariance factorizes
+      let noiseVariance = Math.max(fitted.noiseVariance, 1e-6);
+      while (!this.condition({ ...fitted, noiseVariance }, standardized)) {
+        noiseVariance *= 10;
+        if (noiseVariance > 1) throw new Error('Gaussian process covariance is singular');
+      }
+    }
+  }
+
+  /**
+   * Posterior mean and variance of the latent function at a point
+   */
+  predict(point: number[]): Prediction {
+    if (this.inputs.length === 0) {
+      return { mean: 0, variance: 1 };
+    }
+
+    const { signalVariance } = this.hyperparameters;
+    const covariances = this.inputs.map((input) => this.covariance(input, point));
+    const mean = covariances.reduce((sum, k, i) => sum + k * (this.weights[i] ?? 0), 0);
+    const v = solveLower(this.lower, covariances);
+    const variance = Math.max(signalVariance - v.reduce((sum, x) => sum + x * x, 0), 1e-12);
+
+    return {
+      mean: mean * this.targetScale + this.targetMean,
+      variance: variance * this.targetScale ** 2,
+    };
+  }
+
+  getHyperparameters(): GaussianProcessHyperparameters {
+    return {
+      ...this.hyperparameters,
+      lengthScales: [...this.hyperparameters.lengthScales],
+    };
+  }
+
+  /**
+   * Log marginal likelihood of standardized targets at the current inputs
+   */
+  private logMarginalLikelihood(
+    hyperparameters: GaussianProcessHyperparameters,
+    targets: number[]
+  ): number {
+    const lower = cholesky(this.covarianceMatrix(hyperparameters));
+    if (!lower) return Number.NEGATIVE_INFINITY;
+
+    const weights = solveUpper(lower, solveLower(lower, targets));
+    const dataFit = targets.reduce((sum, y, i) => sum + y * (weights[i] ?? 0), 0);
+    const logDeterminant = lower.reduce((sum, row, i) => sum + Math.log(row[i] ?? 1), 0);
+    return -0.5 * dataFit - logDeterminant - (targets.length / 2) * Math.log(2 * Math.PI);
+  }
+
+  private condition(hyperparameters: GaussianProcessHyperparameters, targets: number[]): boolean {
+    const lower = cholesky(this.covarianceMatrix(hyperparameters));
+    if (!lower) return false;
+    this.hyperparameters = hyperparameters;
+    this.lower = lower;
+    this.weights = solveUpper(lower, solveLower(lower, targets));
+    return true;
+  }
+
+  /**
+   * Random draws in log space, then coordinate steps that shrink until nothing improves
+   */
+  private optimizeHyperparameters(targets: number[]): GaussianProcessHyperparameters {
+    const dimensions = this.inputs[0]?.length ?? 0;
+    const bounds = [
+      ...new Array<[number, number]>(dimensions).fill(LENGTH_SCALE_BOUNDS),
+      SIGNAL_VARIANCE_BOUNDS,
+      NOISE_VARIANCE_BOUNDS,
+    ];
+    const toHyperparameters = (logs: number[]): GaussianProcessHyperparameters => ({
+      lengthScales: logs.slice(0, dimensions).map(Math.exp),
+      signalVariance: Math.exp(logs[dimensions] ?? 0),
+      noiseVariance: Math.exp(logs[dimensions + 1] ?? 0),
+    });
+    const score = (logs: number[]) => this.logMarginalLikelihood(toHyperparameters(logs), targets);
+
+    let best = [...new Array<number>(dimensions).fill(Math.log(0.3)), 0, Math.log(1e-3)];
+    let bestScore = score(best);
+    for (let i = 0; i < this.restarts; i++) {
+      const candidate = bounds.map(([low, high]) => low + this.random.next() * (high - low));
+      const candidateScore = score(candidate);
+      if (candidateScore > bestScore) {
+        best = candidate;
+        bestScore = candidateScore;
+      }
+    }
+
+    for (const step of [1, 0.5, 0.25, 0.1]) {
+      let improved = true;
+      for (let round = 0; improved && round < MAX_REFINEMENT_ROUNDS; round++) {
+        improved = false;
+        for (let i = 0; i < bounds.length; i++) {
+          const [low, high] = bounds[i] as [number, number];
+          for (const direction of [-1, 1]) {
+            const candidate = [...best];
+            candidate[i] = Math.min(high, Math.max(low, (best[i] ?? 0) + direction * step));
+            const candidateScore = score(candidate);
+            if (candidateScore > bestScore + 1e-9) {
+              best = candidate;
+              bestScore = candidateScore;
+              improved = true;
+            }
+          }
+        }
+      }
+    }
+
+    return toHyperparameters(best);
+  }
+
+  private covarianceMatrix(hyperparameters: GaussianProcessHyperparameters): number[][] {
+    return this.inputs.map((a, i) =>
+      this.inputs.map(
+        (b, j) =>
+          this.covariance(a, b, hyperparameters) +
+          (i === j ? hyperparameters.noiseVariance + JITTER : 0)
+      )
+    );
+  }
+
+  private covariance(
+    a: number[],
+    b: number[],
+    { lengthScales, signalVariance } = this.hyperparameters
+  ): number {
+    let squared = 0;
+    for (let i = 0; i < a.length; i++) {
+      const scaled = ((a[i] ?? 0) - (b[i] ?? 0)) / (lengthScales[i] ?? 1);
+      squared += scaled * scaled;
+    }
+    return signalVariance * maternCorrelation(Math.sqrt(squared), this.kernel);
+  }
+}
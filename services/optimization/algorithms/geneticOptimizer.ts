@@ -1,4 +1,5 @@
 import type { OptimizationObjective, ParameterDefinition, ParameterSet } from '../types';
+import { fromUnitInterval, toUnitInterval } from './parameterSpace';
 
 interface Individual {
   parameters: ParameterSet;
@@ -40,9 +41,7 @@ export class GeneticOptimizer {
         const randomIndex = Math.floor(Math.random() * values.length);
         params[param.blockId][param.paramName] = values[randomIndex];
       } else {
-        const min = param.min || 0;
-        const max = param.max || 100;
-        params[param.blockId][param.paramName] = min + Math.random() * (max - min);
+        params[param.blockId][param.paramName] = fromUnitInterval(param, Math.random());
       }
     }
 
@@ -66,7 +65,10 @@ export class GeneticOptimizer {
         child[param.blockId][param.paramName] = Math.random() < 0.5 ? value1 : value2;
       } else {
         const alpha = Math.random();
-        child[param.blockId][param.paramName] = value1 * alpha + value2 * (1 - alpha);
+        child[param.blockId][param.paramName] = fromUnitInterval(
+          param,
+          toUnitInterval(param, value1) * alpha + toUnitInterval(param, value2) * (1 - alpha)
+        );
       }
     }
 
@@ -84,15 +86,10 @@ export class GeneticOptimizer {
         const randomIndex = Math.floor(Math.random() * values.length);
         mutated[param.blockId][param.paramName] = values[randomIndex];
       } else {
-        const min = param.min || 0;
-        const max = param.max || 100;
-        const range = max - min;
+        const current = toUnitInterval(param, mutated[param.blockId][param.paramName]);
+        const noise = (Math.random() - 0.5) * 0.2;
 
-        const current = mutated[param.blockId][param.paramName];
-        const noise = (Math.random() - 0.5) * range * 0.2;
-        const newValue = Math.max(min, Math.min(max, current + noise));
-
-        mutated[param.blockId][param.paramName] = newValue;
+        mutated[param.blockId][param.paramName] = fromUnitInterval(param, current + noise);
       }
     }
 
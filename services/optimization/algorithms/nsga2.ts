@@ -0,0 +1,382 @@
+import type { RandomSource } from '../../backtest/determinism';
+import type {
+  NSGA2Config,
+  ObjectiveScores,
+  OptimizationObjective,
+  ParameterDefinition,
+  ParameterSet,
+} from '../types';
+import { fromUnitInterval, toUnitInterval } from './parameterSpace';
+import { calculateHypervolume, dominatesScores, objectiveSign } from './paretoFrontier';
+
+interface Individual {
+  parameters: ParameterSet;
+  scores?: ObjectiveScores; // Unset until evaluated
+  rank: number;
+  crowding: number;
+}
+
+export interface NSGA2Options extends NSGA2Config {
+  random?: RandomSource;
+}
+
+export interface ScoredParameters {
+  parameters: ParameterSet;
+  scores: ObjectiveScores;
+}
+
+const DEFAULT_POPULATION_SIZE = 30;
+const DEFAULT_CROSSOVER_RATE = 0.9;
+const CROSSOVER_ETA = 15; // SBX distribution index, higher keeps children near their parents
+const MUTATION_ETA = 20; // Polynomial mutation distribution index
+const REFERENCE_MARGIN = 0.1; // Share of the range the hypervolume reference sits below the worst
+
+/**
+ * Whether every objective has a finite score; failed backtests are not
+ */
+function isFeasible(scores: ObjectiveScores, objectives: OptimizationObjective[]): boolean {
+  return objectives.every((objective) => Number.isFinite(scores[objective]));
+}
+
+/**
+ * Fast non-dominated sort (Deb et al. 2002)
+ * Returns fronts of indices, best first. Scores missing an objective are infeasible and
+ * ranked in a final front behind every feasible one.
+ */
+export function nonDominatedSort(
+  scores: ObjectiveScores[],
+  objectives: OptimizationObjective[]
+): number[][] {
+  const feasible = scores.map((_, i) => i).filter((i) => isFeasible(scores[i] ?? {}, objectives));
+  const infeasible = scores.map((_, i) => i).filter((i) => !feasible.includes(i));
+
+  const dominated = new Map<number, number[]>();
+  const dominationCount = new Map<number, number>();
+  const fronts: number[][] = [[]];
+
+  for (const p of feasible) {
+    const dominatedByP: number[] = [];
+    let count = 0;
+    for (const q of feasible) {
+      if (p === q) continue;
+      if (dominatesScores(scores[p] ?? {}, scores[q] ?? {}, objectives)) {
+        dominatedByP.push(q);
+      } else if (dominatesScores(scores[q] ?? {}, scores[p] ?? {}, objectives)) {
+        count++;
+      }
+    }
+    dominated.set(p, dominatedByP);
+    dominationCount.set(p, count);
+    if (count === 0) fronts[0]?.push(p);
+  }
+
+  let current = fronts[0] ?? [];
+  while (current.length > 0) {
+    const next: number[] = [];
+    for (const p of current) {
+      for (const q of dominated.get(p) ?? []) {
+        const remaining = (dominationCount.get(q) ?? 0) - 1;
+        dominationCount.set(q, remaining);
+        if (remaining === 0) next.push(q);
+      }
+    }
+    if (next.length > 0) fronts.push(next);
+    current = next;
+  }
+
+  if (infeasible.length > 0) fronts.push(infeasible);
+  return fronts.filter((front) => front.length > 0);
+}
+
+/**
+ * Crowding distance of each member of a front, in the order given
+ * Boundary points per objective are infinitely far so the extremes always survive.
+ */
+export function crowdingDistance(
+  front: ObjectiveScores[],
+  objectives: OptimizationObjective[]
+): number[] {
+  const distances = new Array<number>(front.length).fill(0);
+  if (front.length <= 2) return distances.fill(Number.POSITIVE_INFINITY);
+
+  for (const objective of objectives) {
+    const order = front
+      .map((scores, i) => ({ i, value: scores[objective] ?? 0 }))
+      .sort((a, b) => a.value - b.value);
+    const first = order[0] as { i: number; value: number };
+    const last = order[order.length - 1] as { i: number; value: number };
+    distances[first.i] = Number.POSITIVE_INFINITY;
+    distances[last.i] = Number.POSITIVE_INFINITY;
+
+    const range = last.value - first.value;
+    if (range <= 0) continue;
+    for (let k = 1; k < order.length - 1; k++) {
+      const { i } = order[k] as { i: number };
+      const gap = (order[k + 1]?.value ?? 0) - (order[k - 1]?.value ?? 0);
+      distances[i] = (distances[i] ?? 0) + gap / range;
+    }
+  }
+
+  return distances;
+}
+
+/**
+ * NSGA-II: elitist multi-objective genetic search
+ *
+ * Each generation the evaluated offspring join the parents, the union is ranked by
+ * non-dominated sorting and the best fronts survive, with crowding distance breaking ties
+ * in the last front that fits. Offspring come from binary tournaments, simulated binary
+ * crossover and polynomial mutation; discrete parameters swap or resample their values.
+ */
+export class NSGA2Optimizer {
+  private parents: Individual[] = [];
+  private offspring: Individual[] = [];
+  private generation = 0;
+  private random: RandomSource;
+  private populationSize: number;
+  private crossoverRate: number;
+  private mutationRate: number;
+  private bounds: { ideal: number[]; reference: number[] } | null = null;
+
+  constructor(
+    private parameters: ParameterDefinition[],
+    private objectives: OptimizationObjective[],
+    options: NSGA2Options = {}
+  ) {
+    this.random = options.random ?? { next: Math.random };
+    this.populationSize = Math.max(2, options.populationSize ?? DEFAULT_POPULATION_SIZE);
+    this.crossoverRate = options.crossoverRate ?? DEFAULT_CROSSOVER_RATE;
+    this.mutationRate = options.mutationRate ?? 1 / Math.max(1, parameters.length);
+
+    for (let i = 0; i < this.populationSize; i++) {
+      this.offspring.push(this.createIndividual(this.generateRandomParameters()));
+    }
+  }
+
+  /**
+   * Individuals still waiting for scores
+   */
+  getPopulation(): ParameterSet[] {
+    return this.offspring.filter((ind) => !ind.scores).map((ind) => ind.parameters);
+  }
+
+  setScores(parameters: ParameterSet, scores: ObjectiveScores): void {
+    const key = JSON.stringify(parameters);
+    const individual = this.offspring.find(
+      (ind) => !ind.scores && JSON.stringify(ind.parameters) === key
+    );
+
+    if (individual) {
+      individual.scores = scores;
+    }
+  }
+
+  /**
+   * Select survivors from parents plus scored offspring and breed the next offspring
+   * Offspring that were never scored are discarded.
+   */
+  evolve(): void {
+    const merged = [...this.parents, ...this.offspring.filter((ind) => ind.scores)];
+    this.parents = this.selectSurvivors(merged);
+    this.offspring = this.breed();
+    this.generation++;
+  }
+
+  getGeneration(): number {
+    return this.generation;
+  }
+
+  /**
+   * Feasible parents on the first front
+   */
+  getFrontier(): ScoredParameters[] {
+    return this.parents
+      .filter((ind) => ind.rank === 0 && isFeasible(ind.scores ?? {}, this.objectives))
+      .map((ind) => ({ parameters: ind.parameters, scores: ind.scores ?? {} }));
+  }
+
+  /**
+   * Hypervolume dominated by the current front, in objective space normalized to the
+   * first generation's range so values are comparable from one generation to the next
+   */
+  getHypervolume(): number {
+    const frontier = this.getFrontier().map(({ scores }) => this.signedScores(scores));
+    if (frontier.length === 0) return 0;
+
+    if (!this.bounds) {
+      const population = this.parents
+        .filter((ind) => isFeasible(ind.scores ?? {}, this.objectives))
+        .map((ind) => this.signedScores(ind.scores ?? {}));
+      const ideal = this.objectives.map((_, j) =>
+        Math.max(...population.map((point) => point[j] ?? 0))
+      );
+      const nadir = this.objectives.map((_, j) =>
+        Math.min(...population.map((point) => point[j] ?? 0))
+      );
+      const reference = nadir.map(
+        (value, j) => value - REFERENCE_MARGIN * ((ideal[j] ?? 0) - value || 1)
+      );
+      this.bounds = { ideal, reference };
+    }
+
+    const { ideal, reference } = this.bounds;
+    const normalized = frontier.map((point) =>
+      point.map((value, j) => {
+        const low = reference[j] ?? 0;
+        return (value - low) / ((ideal[j] ?? 0) - low || 1);
+      })
+    );
+    return calculateHypervolume(
+      normalized,
+      this.objectives.map(() => 0)
+    );
+  }
+
+  private selectSurvivors(candidates: Individual[]): Individual[] {
+    const scores = candidates.map((ind) => ind.scores ?? {});
+    const survivors: Individual[] = [];
+
+    nonDominatedSort(scores, this.objectives).forEach((front, rank) => {
+      if (survivors.length >= this.populationSize) return;
+      const distances = crowdingDistance(
+        front.map((i) => scores[i] ?? {}),
+        this.objectives
+      );
+      const members = front.map((i, k) => {
+        const individual = candidates[i] as Individual;
+        individual.rank = rank;
+        individual.crowding = distances[k] ?? 0;
+        return individual;
+      });
+      if (survivors.length + members.length > this.populationSize) {
+        members.sort((a, b) => b.crowding - a.crowding);
+      }
+      survivors.push(...members.slice(0, this.populationSize - survivors.length));
+    });
+
+    return survivors;
+  }
+
+  private breed(): Individual[] {
+    const children: Individual[] = [];
+    if (this.parents.length === 0) {
+      for (let i = 0; i < this.populationSize; i++) {
+        children.push(this.createIndividual(this.generateRandomParameters()));
+      }
+      return children;
+    }
+
+    while (children.length < this.populationSize) {
+      const parent1 = this.tournament().parameters;
+      const parent2 = this.tournament().parameters;
+      const [child1, child2] =
+        this.random.next() < this.crossoverRate
+          ? this.crossover(parent1, parent2)
+          : [structuredClone(parent1), structuredClone(parent2)];
+      children.push(this.createIndividual(this.mutate(child1)));
+      if (children.length < this.populationSize) {
+        children.push(this.createIndividual(this.mutate(child2)));
+      }
+    }
+
+    return children;
+  }
+
+  /**
+   * Binary tournament on rank, then crowding distance
+   */
+  private tournament(): Individual {
+    const a = this.parents[Math.floor(this.random.next() * this.parents.length)] as Individual;
+    const b = this.parents[Math.floor(this.random.next() * this.parents.length)] as Individual;
+    if (a.rank !== b.rank) return a.rank < b.rank ? a : b;
+    return a.crowding >= b.crowding ? a : b;
+  }
+
+  /**
+   * Simulated binary crossover for numeric parameters, uniform swap for discrete ones
+   */
+  private crossover(parent1: ParameterSet, parent2: ParameterSet): [ParameterSet, ParameterSet] {
+    const child1 = structuredClone(parent1);
+    const child2 = structuredClone(parent2);
+
+    for (const param of this.parameters) {
+      const value1 = parent1[param.blockId]?.[param.paramName];
+      const value2 = parent2[param.blockId]?.[param.paramName];
+      if (value1 === undefined || value2 === undefined) continue;
+      if (this.random.next() < 0.5) continue;
+
+      let next1 = value2;
+      let next2 = value1;
+      if (param.type !== 'discrete') {
+        // Recombine positions within the range so log-scaled parameters mix in log space
+        const u = this.random.next();
+        const beta =
+          u <= 0.5
+            ? (2 * u) ** (1 / (CROSSOVER_ETA + 1))
+            : (1 / (2 * (1 - u))) ** (1 / (CROSSOVER_ETA + 1));
+        const x1 = toUnitInterval(param, value1);
+        const x2 = toUnitInterval(param, value2);
+        next1 = fromUnitInterval(param, 0.5 * ((1 + beta) * x1 + (1 - beta) * x2));
+        next2 = fromUnitInterval(param, 0.5 * ((1 - beta) * x1 + (1 + beta) * x2));
+      }
+      (child1[param.blockId] as ParameterSet[string])[param.paramName] = next1;
+      (child2[param.blockId] as ParameterSet[string])[param.paramName] = next2;
+    }
+
+    return [child1, child2];
+  }
+
+  /**
+   * Polynomial mutation for numeric parameters, resampling for discrete ones
+   */
+  private mutate(parameters: ParameterSet): ParameterSet {
+    for (const param of this.parameters) {
+      if (this.random.next() >= this.mutationRate) continue;
+      const values = parameters[param.blockId];
+      if (!values) continue;
+
+      if (param.type === 'discrete') {
+        values[param.paramName] = this.randomValue(param);
+      } else {
+        const u = this.random.next();
+        const delta =
+          u < 0.5
+            ? (2 * u) ** (1 / (MUTATION_ETA + 1)) - 1
+            : 1 - (2 * (1 - u)) ** (1 / (MUTATION_ETA + 1));
+        const current = toUnitInterval(param, values[param.paramName] ?? param.defaultValue);
+        values[param.paramName] = fromUnitInterval(param, current + delta);
+      }
+    }
+
+    return parameters;
+  }
+
+  private generateRandomParameters(): ParameterSet {
+    const params: ParameterSet = {};
+
+    for (const param of this.parameters) {
+      if (!params[param.blockId]) {
+        params[param.blockId] = {};
+      }
+      (params[param.blockId] as ParameterSet[string])[param.paramName] = this.randomValue(param);
+    }
+
+    return params;
+  }
+
+  private randomValue(param: ParameterDefinition): number {
+    if (param.type === 'discrete') {
+      const values = param.values?.length ? param.values : [param.defaultValue];
+      return values[Math.floor(this.random.next() * values.length)] ?? param.defaultValue;
+    }
+    return fromUnitInterval(param, this.random.next());
+  }
+
+  private signedScores(scores: ObjectiveScores): number[] {
+    return this.objectives.map((objective) => objectiveSign(objective) * (scores[objective] ?? 0));
+  }
+
+  private createIndividual(parameters: ParameterSet): Individual {
+    return { parameters, rank: 0, crowding: 0 };
+  }
+}
@@ -0,0 +1,34 @@
+import type { ParameterDefinition } from '../types';
+
+/**
+ * Position of a continuous value within its range, in [0, 1]
+ * Log-scaled parameters are measured in log space so each decade gets equal room.
+ */
+export function toUnitInterval(param: ParameterDefinition, value: number): number {
+  const min = param.min ?? 0;
+  const max = param.max ?? 100;
+  const clamped = Math.min(max, Math.max(min, value));
+
+  if (isLogScaled(param)) {
+    return Math.log(clamped / min) / Math.log(max / min);
+  }
+  return max > min ? (clamped - min) / (max - min) : 0.5;
+}
+
+/**
+ * Continuous value at a position in [0, 1] of its range
+ */
+export function fromUnitInterval(param: ParameterDefinition, u: number): number {
+  const min = param.min ?? 0;
+  const max = param.max ?? 100;
+  const clamped = Math.min(1, Math.max(0, u));
+
+  if (isLogScaled(param)) {
+    return min * (max / min) ** clamped;
+  }
+  return min + clamped * (max - min);
+}
+
+function isLogScaled(param: ParameterDefinition): boolean {
+  return param.scale === 'log' && (param.min ?? 0) > 0 && (param.max ?? 100) > (param.min ?? 0);
+}
@@ -1,33 +1,82 @@
-import type { OptimizationObjective, OptimizationSolution } from '../types';
+import type { ObjectiveScores, OptimizationObjective, OptimizationSolution } from '../types';
 
-export class ParetoFrontier {
-  private readonly MAXIMIZE: OptimizationObjective[] = ['sharpeRatio', 'totalReturn', 'winRate'];
+const MAXIMIZED_OBJECTIVES: OptimizationObjective[] = ['sharpeRatio', 'totalReturn', 'winRate'];
 
-  dominates(
-    a: OptimizationSolution,
-    b: OptimizationSolution,
-    objectives: OptimizationObjective[]
-  ): boolean {
-    let betterInAtLeastOne = false;
-
-    for (const objective of objectives) {
-      const aValue = this.getObjectiveValue(a, objective);
-      const bValue = this.getObjectiveValue(b, objective);
+/**
+ * +1 for objectives to maximize, -1 for costs and drawdown
+ * Multiplying a score by its sign turns every objective into one to maximize.
+ */
+export function objectiveSign(objective: OptimizationObjective): 1 | -1 {
+  return MAXIMIZED_OBJECTIVES.includes(objective) ? 1 : -1;
+}
 
-      if (aValue === undefined || bValue === undefined) continue;
+/**
+ * Volume of objective space dominated by `points` and bounded below by `reference`
+ * All objectives are maximized; points not strictly above the reference contribute nothing.
+ * Exact, by slicing along the last objective, which is fast enough for the frontier sizes
+ * an optimization run produces.
+ */
+export function calculateHypervolume(points: number[][], reference: number[]): number {
+  const dimensions = reference.length;
+  const valid = points.filter((point) => point.every((value, i) => value > (reference[i] ?? 0)));
+  if (valid.length === 0 || dimensions === 0) return 0;
+  if (dimensions === 1)
+    return Math.max(...valid.map((point) => point[0] ?? 0)) - (reference[0] ?? 0);
+
+  const last = dimensions - 1;
+  const sorted = [...valid].sort((a, b) => (b[last] ?? 0) - (a[last] ?? 0));
+  const base = reference.slice(0, last);
+  let volume = 0;
+
+  for (let i = 0; i < sorted.length; i++) {
+    const top = sorted[i]?.[last] ?? 0;
+    const bottom = sorted[i + 1]?.[last] ?? reference[last] ?? 0;
+    if (top <= bottom) continue;
+    const slice = sorted.slice(0, i + 1).map((point) => point.slice(0, last));
+    volume += calculateHypervolume(slice, base) * (top - bottom);
+  }
 
-      const isMaximize = this.MAXIMIZE.includes(objective);
+  return volume;
+}
 
-      if (isMaximize) {
-        if (aValue < bValue) return false;
-        if (aValue > bValue) betterInAtLeastOne = true;
-      } else {
-        if (aValue > bValue) return false;
-        if (aValue < bValue) betterInAtLeastOne = true;
-      }
+/**
+ * Pareto dominance on raw scores: no worse in every objective and better in one
+ * Objectives missing from either side are skipped.
+ */
+export function dominatesScores(
+  a: ObjectiveScores,
+  b: ObjectiveScores,
+  objectives: OptimizationObjective[]
+): boolean {
+  let betterInAtLeastOne = false;
+
+  for (const objective of objectives) {
+    const aValue = a[objective];
+    const bValue = b[objective];
+
+    if (aValue === undefined || bValue === undefined) continue;
+
+    const isMaximize = objectiveSign(objective) === 1;
+
+    if (isMaximize) {
+      if (aValue < bValue) return false;
+      if (aValue > bValue) betterInAtLeastOne = true;
+    } else {
+      if (aValue > bValue) return false;
+      if (aValue < bValue) betterInAtLeastOne = true;
     }
+  }
+
+  return betterInAtLeastOne;
+}
 
-    return betterInAtLeastOne;
+export class ParetoFrontier {
+  dominates(
+    a: OptimizationSolution,
+    b: OptimizationSolution,
+    objectives: OptimizationObjective[]
+  ): boolean {
+    return dominatesScores(this.getScores(a), this.getScores(b), objectives);
   }
 
   extractFrontier(
@@ -59,16 +108,10 @@ export class ParetoFrontier {
     return frontier;
   }
 
-  private getObjectiveValue(
-    solution: OptimizationSolution,
-    objective: OptimizationObjective
-  ): number | undefined {
-    const scores =
-      solution.outOfSampleScores.sharpeRatio !== undefined
-        ? solution.outOfSampleScores
-        : solution.inSampleScores;
-
-    return scores[objective];
+  private getScores(solution: OptimizationSolution): ObjectiveScores {
+    return solution.outOfSampleScores.sharpeRatio !== undefined
+      ? solution.outOfSampleScores
+      : solution.inSampleScores;
   }
 }
 
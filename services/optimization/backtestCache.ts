@@ -0,0 +1,247 @@
+import type { LegoBlock } from '../../types';
+import { hashValue } from '../backtest/determinism';
+import { getGasDataVersion } from '../backtest/gas';
+import { getDataSourceVersion } from '../backtest/providers';
+import { BACKTEST_ENGINE_VERSION, type DeFiBacktestResult } from '../defiBacktestEngine';
+import type { BacktestWorkerRequest, ParameterSet } from './types';
+
+export interface BacktestCacheOptions {
+  maxEntries?: number; // Results kept in memory and in IndexedDB (default 500)
+  persist?: boolean; // Also store results in IndexedDB so they survive a reload
+  databaseName?: string;
+}
+
+export interface BacktestCacheStats {
+  size: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+interface PersistedResult {
+  key: string;
+  result: DeFiBacktestResult;
+  usedAt: number; // Last read or write; pruning drops the least recently used
+}
+
+// Bump when the key or stored result format changes; engine releases are keyed separately
+const CACHE_VERSION = 2;
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_DATABASE_NAME = 'defi-builder-backtest-cache';
+const STORE_NAME = 'results';
+
+/**
+ * Identify the price and gas fee data a backtest config reads
+ */
+export async function getBacktestDataVersion(
+  config: BacktestWorkerRequest['config']
+): Promise<string> {
+  const [prices, gas] = await Promise.all([
+    getDataSourceVersion(config.dataSource),
+    getGasDataVersion(config.gasModel),
+  ]);
+  return hashValue({ prices, gas });
+}
+
+/**
+ * Content address of a backtest: engine version, blocks, parameters, window, capital, interval,
+ * seed, market models and the version of the data they run on
+ * @param dataVersion - getBacktestDataVersion() of the config, when the caller already has it;
+ *   without it the config's files are fingerprinted again
+ */
+export async function getBacktestCacheKey(
+  blocks: LegoBlock[],
+  parameters: ParameterSet,
+  config: BacktestWorkerRequest['config'],
+  dataVersion?: string
+): Promise<string> {
+  const { dataSource, ...rest } = config;
+  return hashValue({
+    version: CACHE_VERSION,
+    engine: BACKTEST_ENGINE_VERSION,
+    blocks,
+    parameters,
+    config: rest,
+    data: dataVersion ?? (await getBacktestDataVersion(config)),
+  });
+}
+
+/**
+ * IndexedDB table of results keyed by content address, pruned least recently used first
+ * Every failure degrades to a cache miss; persistence is an optimization only.
+ */
+class IndexedDBResultStore {
+  private database: Promise<IDBDatabase | null> | null = null;
+
+  constructor(
+    private name: string,
+    private maxEntries: number
+  ) {}
+
+  async get(key: string): Promise<DeFiBacktestResult | undefined> {
+    const database = await this.open();
+    if (!database) return undefined;
+
+    try {
+      const store = database.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      const entry = await this.request<PersistedResult | undefined>(store.get(key));
+      if (entry) {
+        await this.request(store.put({ ...entry, usedAt: Date.now() }));
+      }
+      return entry?.result;
+    } catch (error) {
+      console.warn('Failed to read cached backtest:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Refresh a result's recency for hits served from memory
+   */
+  async touch(key: string): Promise<void> {
+    await this.get(key);
+  }
+
+  async put(key: string, result: DeFiBacktestResult): Promise<void> {
+    const database = await this.open();
+    if (!database) return;
+
+    try {
+      const store = database.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      const entry: PersistedResult = { key, result, usedAt: Date.now() };
+      await this.request(store.put(entry));
+      await this.prune(database);
+    } catch (error) {
+      console.warn('Failed to persist backtest result:', error);
+    }
+  }
+
+  private async prune(database: IDBDatabase): Promise<void> {
+    const store = database.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    let excess = (await this.request(store.count())) - this.maxEntries;
+    if (excess <= 0) return;
+
+    await new Promise<void>((resolve, reject) => {
+      const cursor = store.index('usedAt').openCursor();
+      cursor.onsuccess = () => {
+        if (!cursor.result || excess <= 0) {
+          resolve();
+          return;
+        }
+        cursor.result.delete();
+        excess--;
+        cursor.result.continue();
+      };
+      cursor.onerror = () => reject(cursor.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.database) {
+      this.database = new Promise((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(this.name, CACHE_VERSION);
+        request.onupgradeneeded = () => {
+          const database = request.result;
+          if (database.objectStoreNames.contains(STORE_NAME)) {
+            database.deleteObjectStore(STORE_NAME);
+          }
+          database
+            .createObjectStore(STORE_NAME, { keyPath: 'key' })
+            .createIndex('usedAt', 'usedAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Backtest cache persistence unavailable:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.database;
+  }
+
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Bounded LRU of backtest results with optional IndexedDB persistence
+ * Map insertion order doubles as recency: reads move an entry to the end, and the
+ * first entry is evicted when the cache is full.
+ */
+export class BacktestResultCache {
+  private entries = new Map<string, DeFiBacktestResult>();
+  private maxEntries: number;
+  private store: IndexedDBResultStore | null;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(options: BacktestCacheOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+    this.store = options.persist
+      ? new IndexedDBResultStore(options.databaseName ?? DEFAULT_DATABASE_NAME, this.maxEntries)
+      : null;
+  }
+
+  async get(key: string): Promise<DeFiBacktestResult | undefined> {
+    const cached = this.entries.get(key);
+    if (cached) {
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      void this.store?.touch(key);
+      this.hits++;
+      return cached;
+    }
+
+    const persisted = await this.store?.get(key);
+    if (persisted) {
+      this.remember(key, persisted);
+      this.hits++;
+      return persisted;
+    }
+
+    this.misses++;
+    return undefined;
+  }
+
+  set(key: string, result: DeFiBacktestResult): void {
+    this.remember(key, result);
+    void this.store?.put(key, result);
+  }
+
+  getStats(): BacktestCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      size: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+    };
+  }
+
+  /**
+   * Drop in-memory entries and statistics; persisted results are kept for the next run
+   */
+  clear(): void {
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  private remember(key: string, result: DeFiBacktestResult): void {
+    this.entries.delete(key);
+    this.entries.set(key, result);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
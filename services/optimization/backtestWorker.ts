@@ -1,6 +1,17 @@
 import type { LegoBlock } from '../../types';
 import { isRetryableError, retryWithBackoff } from '../../utils/retry';
+import type { PoolLiquidityConfig } from '../backtest/amm';
+import type { GasModelConfig } from '../backtest/gas';
+import type { DataSourceConfig } from '../backtest/providers';
+import type { RateSourceConfig } from '../backtest/rates';
+import type { StrategyGraph } from '../backtest/strategyGraph';
 import type { DeFiBacktestResult } from '../defiBacktestEngine';
+import {
+  type BacktestCacheOptions,
+  type BacktestCacheStats,
+  BacktestResultCache,
+  getBacktestCacheKey,
+} from './backtestCache';
 import type { BacktestWorkerRequest, BacktestWorkerResponse, ParameterSet } from './types';
 
 interface BacktestTask {
@@ -15,9 +26,21 @@ interface BacktestTask {
     endDate: Date;
     initialCapital: number;
     rebalanceInterval: number;
+    dataSource?: DataSourceConfig;
+    seed?: number;
+    rateSource?: RateSourceConfig;
+    gasModel?: GasModelConfig;
+    poolLiquidity?: PoolLiquidityConfig;
+    graph?: StrategyGraph;
   };
 }
 
+interface RunningTask {
+  task: BacktestTask;
+  worker: Worker;
+  timer: ReturnType<typeof setTimeout>; // Fails the task if the worker hangs
+}
+
 export interface WorkerErrorInfo {
   type: 'timeout' | 'validation' | 'calculation' | 'network' | 'unknown';
   message: string;
@@ -25,32 +48,55 @@ export interface WorkerErrorInfo {
   parameters?: ParameterSet;
 }
 
+const DEFAULT_TASK_TIMEOUT_MS = 5 * 60 * 1000;
+const POOL_TERMINATED = 'Backtest worker pool terminated';
+
 export class BacktestWorkerPool {
   private workers: Worker[] = [];
+  private idleWorkers: Worker[] = [];
   private taskQueue: BacktestTask[] = [];
-  private activeWorkers = 0;
-  private cache = new Map<string, DeFiBacktestResult>();
+  private running = new Map<string, RunningTask>(); // By task id
+  private cache: BacktestResultCache;
+  private inFlight = new Map<string, Promise<DeFiBacktestResult>>(); // By cache key
   private onError?: (error: WorkerErrorInfo) => void;
+  private terminated = false;
 
+  /**
+   * @param taskTimeout - Milliseconds a worker may spend on one backtest before it is
+   *   treated as hung, terminated and replaced
+   */
   constructor(
     private workerCount: number = Math.min(navigator.hardwareConcurrency || 4, 8),
-    onError?: (error: WorkerErrorInfo) => void
+    onError?: (error: WorkerErrorInfo) => void,
+    cacheOptions?: BacktestCacheOptions,
+    private taskTimeout = DEFAULT_TASK_TIMEOUT_MS
   ) {
     this.onError = onError;
+    this.cache = new BacktestResultCache(cacheOptions);
     this.initializeWorkers();
   }
 
   private initializeWorkers(): void {
     for (let i = 0; i < this.workerCount; i++) {
-      const worker = new Worker(new URL('./optimization.worker.ts', import.meta.url), {
-        type: 'module',
-      });
-
-      worker.onmessage = this.handleWorkerMessage.bind(this);
+      const worker = this.createWorker();
       this.workers.push(worker);
+      this.idleWorkers.push(worker);
     }
   }
 
+  private createWorker(): Worker {
+    const worker = new Worker(new URL('./optimization.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+
+    worker.onmessage = this.handleWorkerMessage.bind(this);
+    worker.onerror = (event) =>
+      this.replaceWorker(worker, `Backtest worker crashed: ${event.message || 'unknown error'}`);
+    worker.onmessageerror = () =>
+      this.replaceWorker(worker, 'Backtest worker sent a result that could not be read');
+    return worker;
+  }
+
   async runBacktest(
     blocks: LegoBlock[],
     parameters: ParameterSet,
@@ -59,25 +105,52 @@ export class BacktestWorkerPool {
       endDate: Date;
       initialCapital: number;
       rebalanceInterval: number;
+      dataSource?: DataSourceConfig;
+      seed?: number;
+      rateSource?: RateSourceConfig;
+      gasModel?: GasModelConfig;
+      poolLiquidity?: PoolLiquidityConfig;
+      graph?: StrategyGraph;
+    },
+    dataVersion?: string
+  ): Promise<DeFiBacktestResult> {
+    // Identical requests share one run, whether it is still in flight or already cached
+    const cacheKey = await getBacktestCacheKey(blocks, parameters, config, dataVersion);
+    const pending = this.inFlight.get(cacheKey);
+    if (pending) {
+      return pending;
     }
+
+    const run = this.lookupOrRun(cacheKey, blocks, parameters, config).finally(() =>
+      this.inFlight.delete(cacheKey)
+    );
+    this.inFlight.set(cacheKey, run);
+    return run;
+  }
+
+  private async lookupOrRun(
+    cacheKey: string,
+    blocks: LegoBlock[],
+    parameters: ParameterSet,
+    config: BacktestTask['config']
   ): Promise<DeFiBacktestResult> {
-    const cacheKey = this.getCacheKey(parameters);
-    const cached = this.cache.get(cacheKey);
+    const cached = await this.cache.get(cacheKey);
     if (cached) {
       return cached;
     }
 
-    return retryWithBackoff(
+    const result = await retryWithBackoff(
       () => {
         return new Promise<DeFiBacktestResult>((resolve, reject) => {
+          if (this.terminated) {
+            reject(new Error(POOL_TERMINATED));
+            return;
+          }
           const taskId = `task-${Date.now()}-${Math.random()}`;
 
           this.taskQueue.push({
             id: taskId,
-            resolve: (result) => {
-              this.cache.set(cacheKey, result);
-              resolve(result);
-            },
+            resolve,
             reject,
             retries: 0,
             blocks,
@@ -85,7 +158,7 @@ export class BacktestWorkerPool {
             config,
           });
 
-          this.processQueue(blocks, parameters, config);
+          this.processQueue();
         });
       },
       {
@@ -108,38 +181,35 @@ export class BacktestWorkerPool {
         },
       }
     );
+
+    this.cache.set(cacheKey, result);
+    return result;
   }
 
-  private processQueue(
-    blocks: LegoBlock[],
-    parameters: ParameterSet,
-    config: {
-      startDate: Date;
-      endDate: Date;
-      initialCapital: number;
-      rebalanceInterval: number;
-    }
-  ): void {
-    if (this.taskQueue.length === 0 || this.activeWorkers >= this.workerCount) {
-      return;
+  /**
+   * Hand queued tasks to idle workers until one or the other runs out
+   */
+  private processQueue(): void {
+    while (this.taskQueue.length > 0 && this.idleWorkers.length > 0) {
+      const task = this.taskQueue.shift();
+      const worker = this.idleWorkers.shift();
+      if (!task || !worker) return;
+
+      const request: BacktestWorkerRequest = {
+        type: 'BACKTEST',
+        id: task.id,
+        blocks: task.blocks,
+        parameters: task.parameters,
+        config: task.config,
+      };
+
+      const timer = setTimeout(
+        () => this.replaceWorker(worker, `Backtest timed out after ${this.taskTimeout / 1000}s`),
+        this.taskTimeout
+      );
+      this.running.set(task.id, { task, worker, timer });
+      worker.postMessage(request);
     }
-
-    const task = this.taskQueue.shift();
-    if (!task) return;
-
-    const worker = this.workers[this.activeWorkers];
-    if (!worker) return;
-
-    const request: BacktestWorkerRequest = {
-      type: 'BACKTEST',
-      id: task.id,
-      blocks,
-      parameters,
-      config,
-    };
-
-    worker.postMessage(request);
-    this.activeWorkers++;
   }
 
   private parseWorkerError(error: string, parameters?: ParameterSet): WorkerErrorInfo {
@@ -188,77 +258,99 @@ export class BacktestWorkerPool {
   private handleWorkerMessage(event: MessageEvent<BacktestWorkerResponse>): void {
     const { type, id, result, error, parameters } = event.data;
 
-    const taskIndex = this.taskQueue.findIndex((t) => t.id === id);
-    if (taskIndex === -1) return;
-
-    const task = this.taskQueue[taskIndex];
-    if (!task) return;
+    const entry = this.running.get(id);
+    if (!entry) return;
 
-    this.activeWorkers--;
+    const { task, worker, timer } = entry;
+    clearTimeout(timer);
+    this.running.delete(id);
+    this.idleWorkers.push(worker);
 
     if (type === 'RESULT' && result) {
       task.resolve(result);
-      // Remove task from queue
-      this.taskQueue.splice(taskIndex, 1);
-      // Process next task in queue
-      if (this.taskQueue.length > 0) {
-        const nextTask = this.taskQueue[0];
-        if (nextTask) {
-          this.processQueue(nextTask.blocks, nextTask.parameters, nextTask.config);
-        }
-      }
     } else if (type === 'ERROR') {
-      const errorInfo = this.parseWorkerError(
-        error || 'Unknown worker error',
-        parameters || task.parameters
-      );
+      this.failTask(task, error || 'Unknown worker error', parameters);
+    }
 
-      // Surface error through callback if provided
-      if (this.onError) {
-        this.onError(errorInfo);
-      }
+    // Process next task in queue
+    this.processQueue();
+  }
 
-      // Create enhanced error message
-      const errorMessage = errorInfo.actionable
-        ? `${errorInfo.message}. ${errorInfo.actionable}`
-        : errorInfo.message;
+  /**
+   * Fail the task a crashed or hung worker was running and put a fresh worker in its place
+   */
+  private replaceWorker(worker: Worker, error: string): void {
+    const index = this.workers.indexOf(worker);
+    if (index === -1) return; // Already replaced or terminated
+
+    worker.terminate();
+    const replacement = this.createWorker();
+    this.workers[index] = replacement;
+    this.idleWorkers = this.idleWorkers.filter((idle) => idle !== worker);
+    this.idleWorkers.push(replacement);
+
+    for (const [id, entry] of this.running) {
+      if (entry.worker !== worker) continue;
+      clearTimeout(entry.timer);
+      this.running.delete(id);
+      this.failTask(entry.task, error);
+    }
 
-      const enhancedError = new Error(errorMessage);
-      enhancedError.name = `Worker${errorInfo.type.charAt(0).toUpperCase() + errorInfo.type.slice(1)}Error`;
+    this.processQueue();
+  }
 
-      task.reject(enhancedError);
-      // Remove task from queue
-      this.taskQueue.splice(taskIndex, 1);
+  private failTask(task: BacktestTask, error: string, parameters?: ParameterSet): void {
+    const errorInfo = this.parseWorkerError(error, parameters || task.parameters);
 
-      // Process next task even after error
-      if (this.taskQueue.length > 0) {
-        const nextTask = this.taskQueue[0];
-        if (nextTask) {
-          this.processQueue(nextTask.blocks, nextTask.parameters, nextTask.config);
-        }
-      }
+    // Surface error through callback if provided
+    if (this.onError) {
+      this.onError(errorInfo);
     }
-  }
 
-  private getCacheKey(parameters: ParameterSet): string {
-    return JSON.stringify(parameters);
+    // Create enhanced error message
+    const errorMessage = errorInfo.actionable
+      ? `${errorInfo.message}. ${errorInfo.actionable}`
+      : errorInfo.message;
+
+    const enhancedError = new Error(errorMessage);
+    enhancedError.name = `Worker${errorInfo.type.charAt(0).toUpperCase() + errorInfo.type.slice(1)}Error`;
+
+    task.reject(enhancedError);
   }
 
-  getCacheStats(): { size: number; hitRate: number } {
-    return {
-      size: this.cache.size,
-      hitRate: 0,
-    };
+  getCacheStats(): BacktestCacheStats {
+    return this.cache.getStats();
   }
 
   getActiveWorkerCount(): number {
-    return this.activeWorkers;
+    return this.running.size;
   }
 
+  getWorkerCount(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * Stop every worker; queued and running backtests reject instead of hanging their callers
+   */
   terminate(): void {
+    this.terminated = true;
     this.workers.forEach((worker) => worker.terminate());
+
+    const error = new Error(POOL_TERMINATED);
+    for (const { task, timer } of this.running.values()) {
+      clearTimeout(timer);
+      task.reject(error);
+    }
+    for (const task of this.taskQueue) {
+      task.reject(error);
+    }
+
     this.workers = [];
+    this.idleWorkers = [];
     this.taskQueue = [];
+    this.running.clear();
+    this.inFlight.clear();
     this.cache.clear();
   }
 }
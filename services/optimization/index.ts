@@ -1,5 +1,6 @@
 export * from './types';
 export * from './parameterExtractor';
 export * from './walkForwardValidator';
+export * from './backtestCache';
 export * from './backtestWorker';
 export * from './optimizationEngine';
@@ -37,6 +37,12 @@ self.onmessage = async (event: MessageEvent<BacktestWorkerRequest>) => {
       endDate: new Date(config.endDate),
       initialCapital: config.initialCapital,
       rebalanceInterval: config.rebalanceInterval,
+      dataSource: config.dataSource,
+      seed: config.seed,
+      rateSource: config.rateSource,
+      gasModel: config.gasModel,
+      poolLiquidity: config.poolLiquidity,
+      graph: config.graph,
     });
 
     const response: BacktestWorkerResponse = {
@@ -1,8 +1,11 @@
 import type { LegoBlock } from '../../types';
+import { DEFAULT_BACKTEST_SEED, createSeededRandom } from '../backtest/determinism';
 import type { DeFiBacktestResult } from '../defiBacktestEngine';
 import { BayesianOptimizer } from './algorithms/bayesianOptimizer';
 import { GeneticOptimizer } from './algorithms/geneticOptimizer';
+import { NSGA2Optimizer } from './algorithms/nsga2';
 import { ParetoFrontier } from './algorithms/paretoFrontier';
+import { getBacktestDataVersion } from './backtestCache';
 import { BacktestWorkerPool } from './backtestWorker';
 import type {
   ObjectiveScores,
@@ -15,6 +18,9 @@ import type {
 } from './types';
 import { WalkForwardValidator } from './walkForwardValidator';
 
+/** A scored candidate, before it is numbered among the run's solutions */
+type Evaluation = Omit<OptimizationSolution, 'id'> & { failed: boolean };
+
 export class OptimizationEngine {
   private workerPool: BacktestWorkerPool;
   private walkForward: WalkForwardValidator;
@@ -25,22 +31,28 @@ export class OptimizationEngine {
   private isRunning = false;
   private errors: string[] = [];
   private lastError: string | undefined;
+  private hypervolume: number | undefined;
   private abortController: AbortController | null = null;
+  private dataVersion: Promise<string | undefined> = Promise.resolve(undefined);
 
   constructor() {
     // Set up error callback for worker pool
-    this.workerPool = new BacktestWorkerPool(undefined, (errorInfo) => {
-      const errorMessage = errorInfo.actionable
-        ? `${errorInfo.message}. ${errorInfo.actionable}`
-        : errorInfo.message;
-      this.errors.push(errorMessage);
-      this.lastError = errorMessage;
-
-      // Keep only last 10 errors to avoid memory issues
-      if (this.errors.length > 10) {
-        this.errors.shift();
-      }
-    });
+    this.workerPool = new BacktestWorkerPool(
+      undefined,
+      (errorInfo) => {
+        const errorMessage = errorInfo.actionable
+          ? `${errorInfo.message}. ${errorInfo.actionable}`
+          : errorInfo.message;
+        this.errors.push(errorMessage);
+        this.lastError = errorMessage;
+
+        // Keep only last 10 errors to avoid memory issues
+        if (this.errors.length > 10) {
+          this.errors.shift();
+        }
+      },
+      { persist: true }
+    );
     this.walkForward = new WalkForwardValidator();
     this.paretoHelper = new ParetoFrontier();
   }
@@ -58,14 +70,20 @@ export class OptimizationEngine {
     this.solutions = [];
     this.errors = [];
     this.lastError = undefined;
+    this.hypervolume = undefined;
     this.startTime = Date.now();
     this.abortController = new AbortController();
+    // Data files are fingerprinted once per run; on failure each backtest keys its own data
+    this.dataVersion = getBacktestDataVersion(config.backtestConfig).catch(() => undefined);
 
     try {
-      if (config.algorithm === 'bayesian') {
-        return await this.runBayesianOptimization(blocks, config, onProgress);
-      } else {
-        return await this.runGeneticOptimization(blocks, config, onProgress);
+      switch (config.algorithm) {
+        case 'bayesian':
+          return await this.runBayesianOptimization(blocks, config, onProgress);
+        case 'nsga2':
+          return await this.runNSGA2Optimization(blocks, config, onProgress);
+        default:
+          return await this.runGeneticOptimization(blocks, config, onProgress);
       }
     } finally {
       this.isRunning = false;
@@ -78,22 +96,27 @@ export class OptimizationEngine {
     config: OptimizationConfig,
     onProgress?: (progress: OptimizationProgress) => void
   ): Promise<OptimizationResult> {
-    const optimizer = new BayesianOptimizer(config.parameters, config.objectives);
-    const initialSamples = optimizer.generateInitialSamples(10);
-
-    for (const parameters of initialSamples) {
-      const solution = await this.evaluateSolution(blocks, parameters, config);
+    const optimizer = new BayesianOptimizer(config.parameters, config.objectives, {
+      ...config.bayesian,
+      random: createSeededRandom(config.backtestConfig.seed ?? DEFAULT_BACKTEST_SEED),
+    });
+    const batchSize = Math.max(1, config.bayesian?.batchSize ?? this.workerPool.getWorkerCount());
+    const observe = (parameters: ParameterSet, solution: OptimizationSolution) =>
       optimizer.addObservation(parameters, solution.outOfSampleScores);
-      this.currentIteration++;
-      if (onProgress) onProgress(this.getProgress(config.maxIterations));
-    }
+
+    await this.evaluateBatch(
+      blocks,
+      optimizer.generateInitialSamples(),
+      config,
+      observe,
+      onProgress
+    );
 
     while (this.currentIteration < config.maxIterations && this.isRunning) {
-      const nextParameters = optimizer.suggestNext();
-      const solution = await this.evaluateSolution(blocks, nextParameters, config);
-      optimizer.addObservation(nextParameters, solution.outOfSampleScores);
-      this.currentIteration++;
-      if (onProgress) onProgress(this.getProgress(config.maxIterations));
+      const batch = optimizer.suggestBatch(
+        Math.min(batchSize, config.maxIterations - this.currentIteration)
+      );
+      await this.evaluateBatch(blocks, batch, config, observe, onProgress);
     }
 
     return this.buildResult(config);
@@ -108,16 +131,17 @@ export class OptimizationEngine {
     const maxGenerations = Math.ceil(config.maxIterations / 30);
 
     for (let gen = 0; gen < maxGenerations && this.isRunning; gen++) {
-      const population = optimizer.getPopulation();
-
-      for (const parameters of population) {
-        const solution = await this.evaluateSolution(blocks, parameters, config);
-        const primaryObjective = config.objectives[0];
-        const fitness = solution.outOfSampleScores[primaryObjective] || 0;
-        optimizer.setFitness(parameters, fitness);
-        this.currentIteration++;
-        if (onProgress) onProgress(this.getProgress(config.maxIterations));
-      }
+      await this.evaluateBatch(
+        blocks,
+        optimizer.getPopulation(),
+        config,
+        (parameters, solution) => {
+          const primaryObjective = config.objectives[0];
+          const fitness = solution.outOfSampleScores[primaryObjective] || 0;
+          optimizer.setFitness(parameters, fitness);
+        },
+        onProgress
+      );
 
       optimizer.evolve();
     }
@@ -125,11 +149,91 @@ export class OptimizationEngine {
     return this.buildResult(config);
   }
 
+  private async runNSGA2Optimization(
+    blocks: LegoBlock[],
+    config: OptimizationConfig,
+    onProgress?: (progress: OptimizationProgress) => void
+  ): Promise<OptimizationResult> {
+    const optimizer = new NSGA2Optimizer(config.parameters, config.objectives, {
+      ...config.nsga2,
+      random: createSeededRandom(config.backtestConfig.seed ?? DEFAULT_BACKTEST_SEED),
+    });
+
+    while (this.currentIteration < config.maxIterations && this.isRunning) {
+      const offspring = optimizer
+        .getPopulation()
+        .slice(0, config.maxIterations - this.currentIteration);
+
+      await this.evaluateBatch(
+        blocks,
+        offspring,
+        config,
+        (parameters, solution, index) => {
+          optimizer.setScores(parameters, solution.outOfSampleScores);
+
+          // Close the generation before reporting so its hypervolume lands on this iteration
+          if (index === offspring.length - 1) {
+            optimizer.evolve();
+            this.hypervolume = optimizer.getHypervolume();
+          }
+        },
+        onProgress
+      );
+    }
+
+    return this.buildResult(config);
+  }
+
+  /**
+   * Evaluate candidates concurrently, one per worker, and apply them in batch order
+   * Progress is reported as each candidate finishes, but solution ids and optimizer updates follow
+   * the batch so seeded runs replay exactly. Once stopped, no further candidate is started.
+   */
+  private async evaluateBatch(
+    blocks: LegoBlock[],
+    batch: ParameterSet[],
+    config: OptimizationConfig,
+    onEvaluated: (parameters: ParameterSet, solution: OptimizationSolution, index: number) => void,
+    onProgress?: (progress: OptimizationProgress) => void
+  ): Promise<void> {
+    const evaluations: Array<Evaluation | undefined> = new Array(batch.length);
+    let started = 0;
+    let applied = 0;
+
+    const lane = async () => {
+      while (this.isRunning && started < batch.length) {
+        const index = started++;
+        evaluations[index] = await this.evaluateSolution(
+          blocks,
+          batch[index] as ParameterSet,
+          config
+        );
+        this.currentIteration++;
+
+        // Apply every result whose predecessors have all finished
+        for (let next = evaluations[applied]; next; next = evaluations[applied]) {
+          const { failed, ...scores } = next;
+          const solution: OptimizationSolution = {
+            id: `solution-${this.solutions.length}${failed ? '-failed' : ''}`,
+            ...scores,
+          };
+          this.solutions.push(solution);
+          onEvaluated(solution.parameters, solution, applied);
+          applied++;
+        }
+        if (onProgress) onProgress(this.getProgress(config.maxIterations));
+      }
+    };
+
+    const lanes = Math.min(batch.length, Math.max(1, this.workerPool.getWorkerCount()));
+    await Promise.all(Array.from({ length: lanes }, lane));
+  }
+
   private async evaluateSolution(
     blocks: LegoBlock[],
     parameters: ParameterSet,
     config: OptimizationConfig
-  ): Promise<OptimizationSolution> {
+  ): Promise<Evaluation> {
     try {
       const windows = this.walkForward.generateWindows(
         config.backtestConfig.startDate,
@@ -139,27 +243,49 @@ export class OptimizationEngine {
       let inSampleScores: ObjectiveScores = {};
       let outOfSampleScores: ObjectiveScores = {};
       let failedWindows = 0;
+      const dataVersion = await this.dataVersion;
+
+      const backtestConfig = (startDate: Date, endDate: Date) => ({
+        startDate,
+        endDate,
+        initialCapital: config.backtestConfig.initialCapital,
+        rebalanceInterval: config.backtestConfig.rebalanceInterval,
+        dataSource: config.backtestConfig.dataSource,
+        seed: config.backtestConfig.seed,
+        rateSource: config.backtestConfig.rateSource,
+        gasModel: config.backtestConfig.gasModel,
+        poolLiquidity: config.backtestConfig.poolLiquidity,
+        graph: config.backtestConfig.graph,
+      });
+
+      // Every window's train and test backtests run side by side on the pool
+      const outcomes = await Promise.allSettled(
+        windows.map((window) =>
+          Promise.all([
+            this.workerPool.runBacktest(
+              blocks,
+              parameters,
+              backtestConfig(window.trainStart, window.trainEnd),
+              dataVersion
+            ),
+            this.workerPool.runBacktest(
+              blocks,
+              parameters,
+              backtestConfig(window.testStart, window.testEnd),
+              dataVersion
+            ),
+          ])
+        )
+      );
 
-      for (const window of windows) {
-        try {
-          const trainResult = await this.workerPool.runBacktest(blocks, parameters, {
-            startDate: window.trainStart,
-            endDate: window.trainEnd,
-            initialCapital: config.backtestConfig.initialCapital,
-            rebalanceInterval: config.backtestConfig.rebalanceInterval,
-          });
-
-          const testResult = await this.workerPool.runBacktest(blocks, parameters, {
-            startDate: window.testStart,
-            endDate: window.testEnd,
-            initialCapital: config.backtestConfig.initialCapital,
-            rebalanceInterval: config.backtestConfig.rebalanceInterval,
-          });
-
+      for (const outcome of outcomes) {
+        if (outcome.status === 'fulfilled') {
+          const [trainResult, testResult] = outcome.value;
           inSampleScores = this.aggregateScores(inSampleScores, trainResult.metrics);
           outOfSampleScores = this.aggregateScores(outOfSampleScores, testResult.metrics);
-        } catch (error) {
+        } else {
           failedWindows++;
+          const error = outcome.reason;
           const errorMessage =
             error instanceof Error ? error.message : 'Unknown error in backtest window';
 
@@ -190,17 +316,14 @@ export class OptimizationEngine {
 
       const degradation = this.walkForward.calculateDegradation(inSampleScores, outOfSampleScores);
 
-      const solution: OptimizationSolution = {
-        id: `solution-${this.solutions.length}`,
+      return {
         parameters,
         inSampleScores,
         outOfSampleScores,
         degradation,
         isParetoOptimal: false,
+        failed: false,
       };
-
-      this.solutions.push(solution);
-      return solution;
     } catch (error) {
       // Create a failed solution with zero scores
       const errorMessage =
@@ -210,17 +333,14 @@ export class OptimizationEngine {
       this.lastError = errorMessage;
 
       // Return a solution with zero scores so optimization can continue
-      const failedSolution: OptimizationSolution = {
-        id: `solution-${this.solutions.length}-failed`,
+      return {
         parameters,
         inSampleScores: {},
         outOfSampleScores: {},
         degradation: 100, // High degradation indicates failure
         isParetoOptimal: false,
+        failed: true,
       };
-
-      this.solutions.push(failedSolution);
-      return failedSolution;
     }
   }
 
@@ -269,6 +389,7 @@ export class OptimizationEngine {
       paretoFrontier,
       estimatedTimeRemaining,
       workersActive: this.workerPool.getActiveWorkerCount(),
+      hypervolume: this.hypervolume,
       errors: this.errors.length > 0 ? [...this.errors] : undefined,
       lastError: this.lastError,
     };
@@ -1,127 +1,151 @@
 import type { LegoBlock } from '../../types';
+import { type OptimizationHint, getOptimizationHints } from '../../types/blockSchemas';
 import type { ParameterDefinition } from './types';
 
+export interface ParameterOverride {
+  enabled?: boolean;
+  min?: number;
+  max?: number;
+}
+
+// Keyed by getParameterKey
+export type ParameterOverrides = Record<string, ParameterOverride>;
+
+const DEFAULT_PRIORITY = 10;
+const DEFAULT_SELECTED_PARAMETERS = 10; // Optimized unless the user picks otherwise
+
+/**
+ * Stable id of a parameter across extractions
+ */
+export function getParameterKey(param: Pick<ParameterDefinition, 'blockId' | 'paramName'>): string {
+  return `${param.blockId}.${param.paramName}`;
+}
+
 export class ParameterExtractor {
   /**
-   * Extract optimizable parameters from strategy blocks
+   * Extract every optimizable parameter from strategy blocks, most important first
+   * Which params are tunable and over what range is declared next to the block schemas.
    */
   extract(blocks: LegoBlock[]): ParameterDefinition[] {
-    const parameters: ParameterDefinition[] = [];
+    const parameters: { definition: ParameterDefinition; priority: number }[] = [];
 
     for (const block of blocks) {
-      const blockParams = this.extractBlockParameters(block);
-      parameters.push(...blockParams);
+      const hints = getOptimizationHints(block.type);
+      for (const [paramName, hint] of Object.entries(hints)) {
+        const value = block.params?.[paramName];
+        if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+
+        const definition = this.buildDefinition(block, paramName, value, hint);
+        if (definition) {
+          parameters.push({ definition, priority: hint.priority ?? DEFAULT_PRIORITY });
+        }
+      }
     }
 
-    // Limit to 10 most important parameters
-    return this.prioritizeParameters(parameters).slice(0, 10);
+    return parameters.sort((a, b) => a.priority - b.priority).map(({ definition }) => definition);
   }
 
   /**
-   * Extract parameters from a single block
+   * Parameters the user chose to optimize, with their bounds overridden
+   * Without an explicit choice the first few by priority are optimized.
    */
-  private extractBlockParameters(block: LegoBlock): ParameterDefinition[] {
-    const extractors: Record<string, (block: LegoBlock) => ParameterDefinition[]> = {
-      uniswap_swap: this.extractSwapParams.bind(this),
-      aave_supply: this.extractSupplyParams.bind(this),
-      price_trigger: this.extractTriggerParams.bind(this),
-      stop_loss: this.extractStopLossParams.bind(this),
-      // Mapped from constant types
-      UNISWAP_SWAP: this.extractSwapParams.bind(this),
-      AAVE_SUPPLY: this.extractSupplyParams.bind(this),
-      PRICE_TRIGGER: this.extractTriggerParams.bind(this),
-      STOP_LOSS: this.extractStopLossParams.bind(this),
-    };
-
-    const extractor = extractors[block.type];
-    return extractor ? extractor(block) : [];
+  select(
+    parameters: ParameterDefinition[],
+    overrides: ParameterOverrides = {}
+  ): ParameterDefinition[] {
+    return parameters
+      .filter(
+        (param, index) =>
+          overrides[getParameterKey(param)]?.enabled ?? index < DEFAULT_SELECTED_PARAMETERS
+      )
+      .map((param) => {
+        const override = overrides[getParameterKey(param)];
+        return override?.min !== undefined || override?.max !== undefined
+          ? this.withBounds(param, override.min ?? param.min, override.max ?? param.max, false)
+          : param;
+      });
   }
 
-  private extractSwapParams(block: LegoBlock): ParameterDefinition[] {
-    const params: ParameterDefinition[] = [];
-    if (block.params?.slippage !== undefined) {
-      params.push({
-        blockId: block.id,
-        blockType: block.type,
-        paramName: 'slippage',
-        type: 'continuous',
-        min: 0.1,
-        max: 2.0,
-        defaultValue: Number(block.params.slippage),
-      });
+  private buildDefinition(
+    block: LegoBlock,
+    paramName: string,
+    value: number,
+    hint: OptimizationHint
+  ): ParameterDefinition | null {
+    const base = {
+      blockId: block.id,
+      blockType: block.type,
+      paramName,
+      defaultValue: value,
+    };
+
+    if (hint.options) {
+      return {
+        ...base,
+        type: 'discrete',
+        min: Math.min(...hint.options),
+        max: Math.max(...hint.options),
+        values: [...hint.options],
+      };
     }
-    if (block.params?.amount !== undefined) {
-      params.push({
-        blockId: block.id,
-        blockType: block.type,
-        paramName: 'amount',
-        type: 'continuous',
-        min: Number(block.params.amount) * 0.5,
-        max: Number(block.params.amount) * 1.5,
-        defaultValue: Number(block.params.amount),
-      });
+
+    let min = hint.min;
+    let max = hint.max;
+    if (hint.relative) {
+      const [low, high] = hint.relative.map((factor) => value * factor) as [number, number];
+      min = Math.max(min ?? Number.NEGATIVE_INFINITY, Math.min(low, high));
+      max = Math.min(max ?? Number.POSITIVE_INFINITY, Math.max(low, high));
+    } else if (hint.offset) {
+      min = Math.max(min ?? Number.NEGATIVE_INFINITY, value + hint.offset[0]);
+      max = Math.min(max ?? Number.POSITIVE_INFINITY, value + hint.offset[1]);
     }
-    return params;
-  }
+    if (min === undefined || max === undefined) return null;
+    const step = hint.stepBy?.steps[Number(block.params?.[hint.stepBy.param])] ?? hint.step;
 
-  private extractSupplyParams(block: LegoBlock): ParameterDefinition[] {
-    if (block.params?.amount === undefined) return [];
-    return [
+    return this.withBounds(
       {
-        blockId: block.id,
-        blockType: block.type,
-        paramName: 'amount',
-        type: 'continuous',
-        min: Number(block.params.amount) * 0.5,
-        max: Number(block.params.amount) * 1.5,
-        defaultValue: Number(block.params.amount),
+        ...base,
+        type: hint.percentage ? 'percentage' : 'continuous',
+        step,
+        scale: hint.logScale ? 'log' : 'linear',
       },
-    ];
+      min,
+      max
+    );
   }
 
-  private extractTriggerParams(block: LegoBlock): ParameterDefinition[] {
-    if (block.params?.targetPrice === undefined) return [];
-    return [
-      {
-        blockId: block.id,
-        blockType: block.type,
-        paramName: 'targetPrice',
-        type: 'continuous',
-        min: Number(block.params.targetPrice) * 0.8,
-        max: Number(block.params.targetPrice) * 1.2,
-        defaultValue: Number(block.params.targetPrice),
-      },
-    ];
-  }
+  /**
+   * Apply bounds, widened to keep the current value reachable unless the user entered them
+   * Stepped parameters become a discrete grid; fixed options are filtered to the bounds.
+   */
+  private withBounds(
+    param: ParameterDefinition,
+    min = param.min ?? 0,
+    max = param.max ?? 100,
+    reachDefault = true
+  ): ParameterDefinition {
+    const bounds = reachDefault ? [min, max, param.defaultValue] : [min, max];
+    const low = Math.min(...bounds);
+    const high = Math.max(...bounds);
 
-  private extractStopLossParams(block: LegoBlock): ParameterDefinition[] {
-    if (block.params?.percentage === undefined) return [];
-    return [
-      {
-        blockId: block.id,
-        blockType: block.type,
-        paramName: 'percentage',
-        type: 'percentage',
-        min: 1,
-        max: 20,
-        defaultValue: Number(block.params.percentage),
-      },
-    ];
-  }
+    const step = param.step ?? 0;
+    if (step > 0) {
+      const count = Math.floor((high - low) / step + 1e-9) + 1;
+      const values = Array.from({ length: count }, (_, i) => Number((low + i * step).toFixed(10)));
+      return { ...param, type: 'discrete', min: low, max: high, values };
+    }
 
-  private prioritizeParameters(parameters: ParameterDefinition[]): ParameterDefinition[] {
-    const priorityMap: Record<string, number> = {
-      percentage: 1, // Stop loss
-      targetPrice: 2, // Entry
-      slippage: 3,
-      amount: 4,
-    };
+    if (param.type === 'discrete') {
+      const values = (param.values ?? []).filter((value) => value >= low && value <= high);
+      return {
+        ...param,
+        min: low,
+        max: high,
+        values: values.length ? values : [param.defaultValue],
+      };
+    }
 
-    return parameters.sort((a, b) => {
-      const priorityA = priorityMap[a.paramName] || 10;
-      const priorityB = priorityMap[b.paramName] || 10;
-      return priorityA - priorityB;
-    });
+    return { ...param, min: low, max: high };
   }
 }
 
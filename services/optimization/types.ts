@@ -1,5 +1,12 @@
 import type { LegoBlock } from '../../types';
+import type { PoolLiquidityConfig } from '../backtest/amm';
+import type { GasModelConfig } from '../backtest/gas';
+import type { DataSourceConfig } from '../backtest/providers';
+import type { RateSourceConfig } from '../backtest/rates';
+import type { StrategyGraph } from '../backtest/strategyGraph';
 import type { DeFiBacktestResult } from '../defiBacktestEngine';
+import type { AcquisitionFunction } from './algorithms/acquisition';
+import type { MaternKernel } from './algorithms/gaussianProcess';
 
 // Parameter definitions
 export interface ParameterDefinition {
@@ -10,6 +17,8 @@ export interface ParameterDefinition {
   min?: number;
   max?: number;
   values?: number[]; // For discrete parameters
+  step?: number; // Grid spacing the discrete values were generated from
+  scale?: 'linear' | 'log'; // How a continuous range is searched (default linear)
   defaultValue: number;
 }
 
@@ -20,7 +29,7 @@ export interface ParameterSet {
 }
 
 // Optimization configuration
-export type OptimizationAlgorithm = 'bayesian' | 'genetic';
+export type OptimizationAlgorithm = 'bayesian' | 'genetic' | 'nsga2';
 
 export type OptimizationObjective =
   | 'sharpeRatio'
@@ -30,16 +39,39 @@ export type OptimizationObjective =
   | 'gasCosts'
   | 'protocolFees';
 
+export interface BayesianOptimizerConfig {
+  acquisition?: AcquisitionFunction; // Default expected improvement
+  exploration?: number; // xi for EI and PI (default 0.01), beta for UCB (default 2)
+  multiObjective?: 'scalarize' | 'ehvi'; // Default random Chebyshev scalarization (ParEGO)
+  kernel?: MaternKernel; // Default Matérn 5/2
+  initialSamples?: number; // Latin hypercube points before the surrogate is used (default 10)
+  batchSize?: number; // Suggestions evaluated concurrently (default one per worker)
+}
+
+export interface NSGA2Config {
+  populationSize?: number; // Default 30
+  crossoverRate?: number; // Chance a pair of parents is recombined (default 0.9)
+  mutationRate?: number; // Per parameter (default 1 / parameter count)
+}
+
 export interface OptimizationConfig {
   algorithm: OptimizationAlgorithm;
   objectives: OptimizationObjective[]; // At least 2
   maxIterations: number;
   parameters: ParameterDefinition[];
+  bayesian?: BayesianOptimizerConfig;
+  nsga2?: NSGA2Config;
   backtestConfig: {
     startDate: Date;
     endDate: Date;
     initialCapital: number;
     rebalanceInterval: number;
+    dataSource?: DataSourceConfig;
+    seed?: number;
+    rateSource?: RateSourceConfig;
+    gasModel?: GasModelConfig;
+    poolLiquidity?: PoolLiquidityConfig;
+    graph?: StrategyGraph;
   };
 }
 
@@ -78,6 +110,7 @@ export interface OptimizationProgress {
   paretoFrontier: OptimizationSolution[];
   estimatedTimeRemaining: number; // seconds
   workersActive: number;
+  hypervolume?: number; // NSGA-II front after the last completed generation, normalized
   errors?: string[];
   lastError?: string;
 }
@@ -102,6 +135,12 @@ export interface BacktestWorkerRequest {
     endDate: Date;
     initialCapital: number;
     rebalanceInterval: number;
+    dataSource?: DataSourceConfig;
+    seed?: number;
+    rateSource?: RateSourceConfig;
+    gasModel?: GasModelConfig;
+    poolLiquidity?: PoolLiquidityConfig;
+    graph?: StrategyGraph;
   };
 }
 
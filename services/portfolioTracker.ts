@@ -44,21 +44,23 @@ class PortfolioTracker {
     const holdings = new Map<string, number>();
     holdings.set('USDC', result.initialCapital);
 
-    // Process trades to calculate final holdings
+    // Process trades to calculate final holdings (backtest trade types are lowercase)
     result.trades.forEach((trade) => {
-      if (trade.type === 'SWAP') {
+      if (trade.type === 'swap') {
         // Update holdings based on swap
         const inputAmount = holdings.get(trade.inputToken) || 0;
         holdings.set(trade.inputToken, Math.max(0, inputAmount - trade.inputAmount));
 
-        const outputAmount = holdings.get(trade.outputToken) || 0;
-        holdings.set(trade.outputToken, outputAmount + trade.outputAmount);
-      } else if (trade.type === 'SUPPLY') {
-        const current = holdings.get(trade.token) || 0;
-        holdings.set(trade.token, Math.max(0, current - trade.amount));
-      } else if (trade.type === 'WITHDRAW') {
-        const current = holdings.get(trade.token) || 0;
-        holdings.set(trade.token, current + trade.amount);
+        if (trade.outputToken) {
+          const outputAmount = holdings.get(trade.outputToken) || 0;
+          holdings.set(trade.outputToken, outputAmount + (trade.outputAmount ?? 0));
+        }
+      } else if (trade.type === 'supply') {
+        const current = holdings.get(trade.inputToken) || 0;
+        holdings.set(trade.inputToken, Math.max(0, current - trade.inputAmount));
+      } else if (trade.type === 'withdraw') {
+        const current = holdings.get(trade.inputToken) || 0;
+        holdings.set(trade.inputToken, current + trade.inputAmount);
       }
     });
 
@@ -114,23 +116,23 @@ class PortfolioTracker {
     let token = '';
 
     switch (trade.type) {
-      case 'SWAP':
+      case 'swap':
         type = 'SWAP';
         description = `${trade.inputToken} → ${trade.outputToken}`;
         amount = `${trade.inputAmount} ${trade.inputToken}`;
         token = trade.inputToken;
         break;
-      case 'SUPPLY':
+      case 'supply':
         type = 'SUPPLY';
-        description = `Supply ${trade.token} to Aave`;
-        amount = `${trade.amount} ${trade.token}`;
-        token = trade.token;
+        description = `Supply ${trade.inputToken} to Aave`;
+        amount = `${trade.inputAmount} ${trade.inputToken}`;
+        token = trade.inputToken;
         break;
-      case 'WITHDRAW':
+      case 'withdraw':
         type = 'WITHDRAW';
-        description = `Withdraw ${trade.token} from Aave`;
-        amount = `${trade.amount} ${trade.token}`;
-        token = trade.token;
+        description = `Withdraw ${trade.inputToken} from Aave`;
+        amount = `${trade.inputAmount} ${trade.inputToken}`;
+        token = trade.inputToken;
         break;
       default:
         return null;
@@ -186,6 +186,7 @@ const arbitrageStrategy: StrategyTemplate = {
         asset: 'USDC',
         amount: 10000,
         protocol: 'aave',
+        bundleSize: 2,
       },
     },
     {
@@ -348,7 +349,10 @@ const rebalancingStrategy: StrategyTemplate = {
           WBTC: 30,
         },
         threshold: 5,
-        method: 'proportional',
+        method: 'threshold',
+        frequency: 'weekly',
+        venue: 'uniswap',
+        slippage: 1,
       },
     },
     {
@@ -1,5 +1,6 @@
 import { BlockCategory, type LegoBlock, type ValidationResult } from '../types';
 import { validateNumberRange, validateRequired, validateEnum } from '../utils/validation';
+import { parseCron } from './backtest/cron';
 
 /**
  * Validates a DeFi strategy by checking all blocks for required parameters and constraints.
@@ -35,6 +36,19 @@ export const validateStrategy = (blocks: LegoBlock[]): ValidationResult => {
   };
 };
 
+/**
+ * Check a block's cron schedule and timezone, returning the parse error if any
+ */
+function validateSchedule(block: LegoBlock): string | undefined {
+  try {
+    const timezone = block.params.timezone ? String(block.params.timezone) : undefined;
+    parseCron(String(block.params.schedule), timezone);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid schedule';
+  }
+}
+
 /**
  * Validates required parameters for each block type
  */
@@ -97,6 +111,9 @@ function validateBlockParameters(
     case 'time_trigger':
       if (!block.params.schedule || typeof block.params.schedule !== 'string') {
         errors.push({ blockId: block.id, message: 'Schedule is required for time trigger' });
+      } else {
+        const scheduleError = validateSchedule(block);
+        if (scheduleError) errors.push({ blockId: block.id, message: scheduleError });
       }
       break;
 
@@ -127,11 +144,13 @@ function validateBlockParameters(
       }
       if (
         !block.params.indicator ||
-        !['RSI', 'MACD', 'BB', 'MA'].includes(String(block.params.indicator))
+        !['RSI', 'MACD', 'BB', 'MA', 'EMA', 'ATR', 'STOCH'].includes(
+          String(block.params.indicator)
+        )
       ) {
         errors.push({
           blockId: block.id,
-          message: 'Valid indicator (RSI, MACD, BB, MA) is required',
+          message: 'Valid indicator (RSI, MACD, BB, MA, EMA, ATR, STOCH) is required',
         });
       }
       if (
@@ -287,6 +306,12 @@ function validateBlockParameters(
       if (!block.params.protocol || block.params.protocol !== 'aave') {
         errors.push({ blockId: block.id, message: 'Protocol must be "aave" for flash loan' });
       }
+      if (
+        block.params.bundleSize !== undefined &&
+        (!Number.isInteger(Number(block.params.bundleSize)) || Number(block.params.bundleSize) < 0)
+      ) {
+        errors.push({ blockId: block.id, message: 'Flash loan bundle size must be a whole number' });
+      }
       break;
 
     case 'staking':
@@ -334,6 +359,10 @@ function validateBlockParameters(
       if (fromError) {
         errors.push({ blockId: block.id, message: `From must be "entry" or "position": ${fromError}` });
       }
+      if (block.params.schedule) {
+        const scheduleError = validateSchedule(block);
+        if (scheduleError) errors.push({ blockId: block.id, message: scheduleError });
+      }
       break;
 
     case 'conditional_exit':
@@ -383,13 +412,13 @@ function validateBlockParameters(
       }
       const rebalanceMethodError = validateEnum(
         String(block.params.method || ''),
-        ['proportional', 'equal'] as const,
+        ['threshold', 'calendar', 'both'] as const,
         'Rebalancing method'
       );
       if (rebalanceMethodError) {
         errors.push({
           blockId: block.id,
-          message: `Rebalancing method must be "proportional" or "equal": ${rebalanceMethodError}`,
+          message: `Rebalancing method must be "threshold", "calendar" or "both": ${rebalanceMethodError}`,
         });
       }
       break;
@@ -709,10 +738,15 @@ function validateDependencies(
       }
     }
 
-    // Flash loan must be repaid in same transaction (simplified check)
-    if (block.type === 'flash_loan') {
-      // In real implementation, would check that repay happens in same transaction
-      // For now, just warn that it needs to be handled carefully
+    // Flash loan bundles must fit in the blocks that follow the loan
+    if (block.type === 'flash_loan' && block.params.bundleSize !== undefined) {
+      const remaining = blocks.length - index - 1;
+      if (Number(block.params.bundleSize) > remaining) {
+        errors.push({
+          blockId: block.id,
+          message: `Flash loan bundle covers ${block.params.bundleSize} blocks but only ${remaining} follow it`,
+        });
+      }
     }
 
     // Exit blocks should have something to exit (PROTOCOL block before)
@@ -5,6 +5,12 @@
 
 import { type Address, formatUnits } from 'viem';
 import type { LegoBlock } from '../../types';
+import {
+  type GasModel,
+  createGasModel,
+  findChainGasProfile,
+  getBlockGasUnits,
+} from '../backtest/gas';
 
 export interface ApprovalRequirement {
   token: string;
@@ -22,8 +28,8 @@ export interface BalanceCheck {
 export interface GasEstimate {
   blockType: string;
   estimatedGas: bigint;
-  estimatedCostETH: string;
-  estimatedCostUSD: number; // Assuming ETH price
+  estimatedCostETH: string; // In the chain's native token
+  estimatedCostUSD: number;
 }
 
 export interface SimulationResult {
@@ -31,6 +37,7 @@ export interface SimulationResult {
   totalGasEstimate: bigint;
   totalCostETH: string;
   totalCostUSD: number;
+  nativeToken: string; // Token the ETH-named costs are paid in
   gasEstimates: GasEstimate[];
   approvalsNeeded: ApprovalRequirement[];
   balanceChecks: BalanceCheck[];
@@ -38,24 +45,6 @@ export interface SimulationResult {
   errors: string[];
 }
 
-// Approximate gas costs per block type (in gas units)
-const GAS_ESTIMATES: Record<string, bigint> = {
-  uniswap_swap: 150000n,
-  aave_supply: 200000n,
-  aave_borrow: 250000n,
-  aave_repay: 180000n,
-  aave_withdraw: 150000n,
-  uniswap_v3_liquidity: 400000n,
-  compound_supply: 200000n,
-  compound_borrow: 250000n,
-  curve_swap: 180000n,
-  balancer_swap: 200000n,
-  oneinch_swap: 200000n,
-  flash_loan: 300000n,
-  staking: 150000n,
-  default: 100000n,
-};
-
 // Contract addresses that need approvals (simplified)
 const APPROVAL_CONTRACTS: Record<string, string> = {
   uniswap_swap: '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45', // Uniswap Router
@@ -66,8 +55,17 @@ const APPROVAL_CONTRACTS: Record<string, string> = {
   oneinch_swap: '0x1111111254EEB25477B68fb85Ed929f73A960582', // 1inch Router
 };
 
-// ETH price for USD conversion (would be fetched from oracle in production)
-const ETH_PRICE_USD = 3000;
+// Native token prices for USD conversion (would be fetched from oracle in production)
+const NATIVE_PRICE_USD: Record<string, number> = {
+  ETH: 3000,
+  POL: 0.5,
+};
+
+export interface SimulationOptions {
+  chainId?: number; // Connected chain; testnets and unknown chains are costed as mainnet
+  gasModel?: GasModel; // Overrides the chain's typical fees
+  nativePriceUsd?: number;
+}
 
 /**
  * Simulate strategy execution
@@ -76,8 +74,14 @@ const ETH_PRICE_USD = 3000;
 export async function simulateStrategyExecution(
   blocks: LegoBlock[],
   userAddress: Address | undefined,
-  userBalances: Map<string, string> = new Map()
+  userBalances: Map<string, string> = new Map(),
+  options: SimulationOptions = {}
 ): Promise<SimulationResult> {
+  const chain = options.chainId ? findChainGasProfile(options.chainId)?.id : undefined;
+  const gasModel = options.gasModel ?? createGasModel({ chain });
+  const nativePrice = options.nativePriceUsd ?? NATIVE_PRICE_USD[gasModel.nativeToken] ?? 0;
+  const now = Date.now();
+
   const gasEstimates: GasEstimate[] = [];
   const approvalsNeeded: ApprovalRequirement[] = [];
   const balanceChecks: BalanceCheck[] = [];
@@ -90,6 +94,7 @@ export async function simulateStrategyExecution(
       totalGasEstimate: 0n,
       totalCostETH: '0',
       totalCostUSD: 0,
+      nativeToken: gasModel.nativeToken,
       gasEstimates: [],
       approvalsNeeded: [],
       balanceChecks: [],
@@ -99,24 +104,23 @@ export async function simulateStrategyExecution(
   }
 
   let totalGas = 0n;
+  let totalCost = 0;
   const processedTokens = new Set<string>();
 
   for (const block of blocks) {
     // Estimate gas for this block
-    const blockGas = GAS_ESTIMATES[block.type] ?? GAS_ESTIMATES.default;
-    totalGas += blockGas;
+    const blockGas = getBlockGasUnits(block.type);
+    totalGas += BigInt(blockGas);
 
-    // Estimate cost (assuming 20 gwei gas price)
-    const gasPrice = 20n * 10n ** 9n; // 20 gwei
-    const costWei = blockGas * gasPrice;
-    const costETH = formatUnits(costWei, 18);
-    const costUSD = Number.parseFloat(costETH) * ETH_PRICE_USD;
+    // Estimate cost at the chain's current fees, including any rollup data fee
+    const { nativeCost } = gasModel.estimate(blockGas, now);
+    totalCost += nativeCost;
 
     gasEstimates.push({
       blockType: block.type,
-      estimatedGas: blockGas,
-      estimatedCostETH: costETH,
-      estimatedCostUSD: costUSD,
+      estimatedGas: BigInt(blockGas),
+      estimatedCostETH: formatNative(nativeCost),
+      estimatedCostUSD: nativeCost * nativePrice,
     });
 
     // Check approvals needed
@@ -166,17 +170,12 @@ export async function simulateStrategyExecution(
     }
   }
 
-  // Calculate total cost
-  const gasPrice = 20n * 10n ** 9n;
-  const totalCostWei = totalGas * gasPrice;
-  const totalCostETH = formatUnits(totalCostWei, 18);
-  const totalCostUSD = Number.parseFloat(totalCostETH) * ETH_PRICE_USD;
-
   return {
     success: errors.length === 0,
     totalGasEstimate: totalGas,
-    totalCostETH,
-    totalCostUSD,
+    totalCostETH: formatNative(totalCost),
+    totalCostUSD: totalCost * nativePrice,
+    nativeToken: gasModel.nativeToken,
     gasEstimates,
     approvalsNeeded,
     balanceChecks,
@@ -185,6 +184,13 @@ export async function simulateStrategyExecution(
   };
 }
 
+/**
+ * Format a native token amount as an exact 18-decimal string
+ */
+function formatNative(amount: number): string {
+  return formatUnits(BigInt(Math.round(amount * 1e18)), 18);
+}
+
 /**
  * Extract token from block params
  */
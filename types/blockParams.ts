@@ -39,7 +39,7 @@ export interface UniswapSwapParams {
   inputToken: string;
   outputToken: string;
   amount: number;
-  slippage: number; // Percentage (e.g., 0.5 for 0.5%)
+  slippage: number; // Max price impact in percent before the swap reverts (e.g., 0.5 for 0.5%)
 }
 
 export interface UniswapSwapBlock extends BaseBlock {
@@ -77,8 +77,8 @@ export interface StopLossBlock extends BaseBlock {
  * Time Trigger Block Parameters
  */
 export interface TimeTriggerParams {
-  schedule: string; // Cron expression or time string
-  timezone?: string;
+  schedule: string; // Cron expression, e.g. '0 9 * * 1-5'
+  timezone?: string; // IANA timezone for the schedule (default UTC)
 }
 
 export interface TimeTriggerBlock extends BaseBlock {
@@ -105,10 +105,11 @@ export interface VolumeTriggerBlock extends BaseBlock {
  */
 export interface TechnicalIndicatorTriggerParams {
   asset: string;
-  indicator: 'RSI' | 'MACD' | 'BB' | 'MA';
+  indicator: 'RSI' | 'MACD' | 'BB' | 'MA' | 'EMA' | 'ATR' | 'STOCH';
   condition: '>=' | '<=' | '>' | '<' | '==';
   value: number;
-  period?: number;
+  period?: number; // Lookback in bars (MACD always uses 12/26/9)
+  band?: 'upper' | 'middle' | 'lower'; // Bollinger band to compare (default: lower)
 }
 
 export interface TechnicalIndicatorTriggerBlock extends BaseBlock {
@@ -168,6 +169,7 @@ export interface UniswapV3LiquidityParams {
   feeTier: 500 | 3000 | 10000; // 0.05%, 0.3%, 1%
   tickLower?: number;
   tickUpper?: number;
+  rangeWidth?: number; // ±% around the entry price when ticks are unset (default 10)
 }
 
 export interface UniswapV3LiquidityBlock extends BaseBlock {
@@ -255,6 +257,7 @@ export interface FlashLoanParams {
   asset: string;
   amount: number;
   protocol: 'aave';
+  bundleSize?: number; // Blocks after the loan executed atomically with it (default: the rest)
 }
 
 export interface FlashLoanBlock extends BaseBlock {
@@ -296,6 +299,8 @@ export interface TakeProfitBlock extends BaseBlock {
 export interface TimeExitParams {
   duration: number; // Duration in milliseconds
   from: 'entry' | 'position'; // Start counting from entry or position open
+  schedule?: string; // Cron expression; exits wait for the next scheduled time
+  timezone?: string; // IANA timezone for the schedule (default UTC)
 }
 
 export interface TimeExitBlock extends BaseBlock {
@@ -351,7 +356,10 @@ export interface RiskLimitsBlock extends BaseBlock {
 export interface RebalancingParams {
   targetAllocation: Record<string, number>; // token -> percentage
   threshold: number; // Rebalance when deviation exceeds this percentage
-  method: 'proportional' | 'equal';
+  method: 'threshold' | 'calendar' | 'both'; // 'both': on calendar dates, only past the threshold
+  frequency?: 'daily' | 'weekly' | 'monthly'; // Calendar period (default weekly)
+  venue?: 'uniswap' | 'curve' | 'oneinch'; // Where rebalancing trades execute (default uniswap)
+  slippage?: number; // Max price impact per trade in percent (default 1)
 }
 
 export interface RebalancingBlock extends BaseBlock {
@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import { TICK_SPACINGS } from '../services/backtest/concentratedLiquidity';
 import { BlockCategory, Protocol } from '../types';
 
 /**
@@ -19,6 +20,34 @@ const BaseBlockSchema = z.object({
   icon: z.string(),
 });
 
+/**
+ * How a numeric block parameter may be varied by the optimizer
+ * Bounds are absolute (`min`/`max`) or follow the block's current value, scaled by
+ * `relative` or shifted by `offset`; absolute bounds also clip the derived ones.
+ */
+export interface OptimizationHint {
+  min?: number;
+  max?: number;
+  relative?: readonly [number, number]; // Multiples of the current value
+  offset?: readonly [number, number]; // Added to the current value
+  step?: number; // Grid spacing; the parameter is searched as discrete levels
+  stepBy?: { param: string; steps: Readonly<Record<number, number>> }; // Step keyed by another param's value
+  logScale?: boolean; // Search evenly in log space (positive ranges only)
+  options?: readonly number[]; // Allowed values
+  percentage?: boolean;
+  priority?: number; // Lower is selected first by default (default 10)
+}
+
+/**
+ * Optimization hints keyed by the params a schema declares
+ */
+export type OptimizationHints<Schema extends z.ZodType> = {
+  [K in keyof z.infer<Schema>]?: OptimizationHint;
+};
+
+const AMOUNT_HINT: OptimizationHint = { relative: [0.5, 1.5], priority: 4 };
+const SLIPPAGE_HINT: OptimizationHint = { min: 0.1, max: 2, priority: 3 };
+
 /**
  * Price Trigger Block Schema
  */
@@ -30,6 +59,10 @@ export const PriceTriggerParamsSchema = z.object({
   }),
 });
 
+export const PriceTriggerOptimization: OptimizationHints<typeof PriceTriggerParamsSchema> = {
+  targetPrice: { relative: [0.8, 1.2], priority: 2 },
+};
+
 export const PriceTriggerBlockSchema = BaseBlockSchema.extend({
   type: z.literal('price_trigger'),
   params: PriceTriggerParamsSchema,
@@ -45,6 +78,11 @@ export const UniswapSwapParamsSchema = z.object({
   slippage: z.number().min(0).max(100, 'Slippage must be between 0 and 100'),
 });
 
+export const UniswapSwapOptimization: OptimizationHints<typeof UniswapSwapParamsSchema> = {
+  amount: AMOUNT_HINT,
+  slippage: SLIPPAGE_HINT,
+};
+
 export const UniswapSwapBlockSchema = BaseBlockSchema.extend({
   type: z.literal('uniswap_swap'),
   params: UniswapSwapParamsSchema,
@@ -59,6 +97,10 @@ export const AaveSupplyParamsSchema = z.object({
   collateral: z.boolean(),
 });
 
+export const AaveSupplyOptimization: OptimizationHints<typeof AaveSupplyParamsSchema> = {
+  amount: AMOUNT_HINT,
+};
+
 export const AaveSupplyBlockSchema = BaseBlockSchema.extend({
   type: z.literal('aave_supply'),
   params: AaveSupplyParamsSchema,
@@ -71,6 +113,10 @@ export const StopLossParamsSchema = z.object({
   percentage: z.number().min(0).max(100, 'Percentage must be between 0 and 100'),
 });
 
+export const StopLossOptimization: OptimizationHints<typeof StopLossParamsSchema> = {
+  percentage: { min: 1, max: 20, percentage: true, priority: 1 },
+};
+
 export const StopLossBlockSchema = BaseBlockSchema.extend({
   type: z.literal('stop_loss'),
   params: StopLossParamsSchema,
@@ -98,6 +144,10 @@ export const VolumeTriggerParamsSchema = z.object({
   timeframe: z.enum(['1h', '4h', '24h', '7d']),
 });
 
+export const VolumeTriggerOptimization: OptimizationHints<typeof VolumeTriggerParamsSchema> = {
+  minVolume: { relative: [0.25, 4], logScale: true, priority: 5 },
+};
+
 export const VolumeTriggerBlockSchema = BaseBlockSchema.extend({
   type: z.literal('volume_trigger'),
   params: VolumeTriggerParamsSchema,
@@ -108,12 +158,20 @@ export const VolumeTriggerBlockSchema = BaseBlockSchema.extend({
  */
 export const TechnicalIndicatorTriggerParamsSchema = z.object({
   asset: z.string().min(1, 'Asset is required'),
-  indicator: z.enum(['RSI', 'MACD', 'BB', 'MA']),
+  indicator: z.enum(['RSI', 'MACD', 'BB', 'MA', 'EMA', 'ATR', 'STOCH']),
   condition: z.enum(['>=', '<=', '>', '<', '==']),
   value: z.number(),
-  period: z.number().positive().optional(),
+  period: z.number().int().positive().optional(),
+  band: z.enum(['upper', 'middle', 'lower']).optional(),
 });
 
+export const TechnicalIndicatorTriggerOptimization: OptimizationHints<
+  typeof TechnicalIndicatorTriggerParamsSchema
+> = {
+  value: { relative: [0.8, 1.2], priority: 2 },
+  period: { min: 2, max: 100, step: 1, priority: 3 },
+};
+
 export const TechnicalIndicatorTriggerBlockSchema = BaseBlockSchema.extend({
   type: z.literal('technical_indicator_trigger'),
   params: TechnicalIndicatorTriggerParamsSchema,
@@ -128,6 +186,10 @@ export const AaveBorrowParamsSchema = z.object({
   interestRateMode: z.enum(['stable', 'variable']),
 });
 
+export const AaveBorrowOptimization: OptimizationHints<typeof AaveBorrowParamsSchema> = {
+  amount: AMOUNT_HINT,
+};
+
 export const AaveBorrowBlockSchema = BaseBlockSchema.extend({
   type: z.literal('aave_borrow'),
   params: AaveBorrowParamsSchema,
@@ -142,6 +204,10 @@ export const AaveRepayParamsSchema = z.object({
   interestRateMode: z.enum(['stable', 'variable']),
 });
 
+export const AaveRepayOptimization: OptimizationHints<typeof AaveRepayParamsSchema> = {
+  amount: AMOUNT_HINT,
+};
+
 export const AaveRepayBlockSchema = BaseBlockSchema.extend({
   type: z.literal('aave_repay'),
   params: AaveRepayParamsSchema,
@@ -155,6 +221,10 @@ export const AaveWithdrawParamsSchema = z.object({
   amount: z.number().positive('Amount must be positive'),
 });
 
+export const AaveWithdrawOptimization: OptimizationHints<typeof AaveWithdrawParamsSchema> = {
+  amount: AMOUNT_HINT,
+};
+
 export const AaveWithdrawBlockSchema = BaseBlockSchema.extend({
   type: z.literal('aave_withdraw'),
   params: AaveWithdrawParamsSchema,
@@ -171,8 +241,24 @@ export const UniswapV3LiquidityParamsSchema = z.object({
   feeTier: z.enum([500, 3000, 10000]),
   tickLower: z.number().optional(),
   tickUpper: z.number().optional(),
+  rangeWidth: z.number().positive().max(99).optional(), // ±% around the entry price without ticks
 });
 
+// Ticks move in multiples of the fee tier's tick spacing
+const TICK_STEP = { param: 'feeTier', steps: TICK_SPACINGS };
+
+export const UniswapV3LiquidityOptimization: OptimizationHints<
+  typeof UniswapV3LiquidityParamsSchema
+> = {
+  amount0: AMOUNT_HINT,
+  amount1: AMOUNT_HINT,
+  feeTier: { options: [500, 3000, 10000], priority: 5 },
+  // The range only widens, so every candidate keeps tickLower below tickUpper
+  tickLower: { offset: [-6000, 0], step: 60, stepBy: TICK_STEP, priority: 3 },
+  tickUpper: { offset: [0, 6000], step: 60, stepBy: TICK_STEP, priority: 3 },
+  rangeWidth: { min: 1, max: 50, percentage: true, priority: 3 },
+};
+
 export const UniswapV3LiquidityBlockSchema = BaseBlockSchema.extend({
   type: z.literal('uniswap_v3_liquidity'),
   params: UniswapV3LiquidityParamsSchema,
@@ -186,6 +272,10 @@ export const CompoundSupplyParamsSchema = z.object({
   amount: z.number().positive('Amount must be positive'),
 });
 
+export const CompoundSupplyOptimization: OptimizationHints<typeof CompoundSupplyParamsSchema> = {
+  amount: AMOUNT_HINT,
+};
+
 export const CompoundSupplyBlockSchema = BaseBlockSchema.extend({
   type: z.literal('compound_supply'),
   params: CompoundSupplyParamsSchema,
@@ -199,6 +289,10 @@ export const CompoundBorrowParamsSchema = z.object({
   amount: z.number().positive('Amount must be positive'),
 });
 
+export const CompoundBorrowOptimization: OptimizationHints<typeof CompoundBorrowParamsSchema> = {
+  amount: AMOUNT_HINT,
+};
+
 export const CompoundBorrowBlockSchema = BaseBlockSchema.extend({
   type: z.literal('compound_borrow'),
   params: CompoundBorrowParamsSchema,
@@ -215,6 +309,11 @@ export const CurveSwapParamsSchema = z.object({
   pool: z.string().optional(),
 });
 
+export const CurveSwapOptimization: OptimizationHints<typeof CurveSwapParamsSchema> = {
+  amount: AMOUNT_HINT,
+  slippage: SLIPPAGE_HINT,
+};
+
 export const CurveSwapBlockSchema = BaseBlockSchema.extend({
   type: z.literal('curve_swap'),
   params: CurveSwapParamsSchema,
@@ -231,6 +330,11 @@ export const BalancerSwapParamsSchema = z.object({
   pool: z.string().optional(),
 });
 
+export const BalancerSwapOptimization: OptimizationHints<typeof BalancerSwapParamsSchema> = {
+  amount: AMOUNT_HINT,
+  slippage: SLIPPAGE_HINT,
+};
+
 export const BalancerSwapBlockSchema = BaseBlockSchema.extend({
   type: z.literal('balancer_swap'),
   params: BalancerSwapParamsSchema,
@@ -246,6 +350,11 @@ export const OneInchSwapParamsSchema = z.object({
   slippage: z.number().min(0).max(100, 'Slippage must be between 0 and 100'),
 });
 
+export const OneInchSwapOptimization: OptimizationHints<typeof OneInchSwapParamsSchema> = {
+  amount: AMOUNT_HINT,
+  slippage: SLIPPAGE_HINT,
+};
+
 export const OneInchSwapBlockSchema = BaseBlockSchema.extend({
   type: z.literal('oneinch_swap'),
   params: OneInchSwapParamsSchema,
@@ -258,8 +367,13 @@ export const FlashLoanParamsSchema = z.object({
   asset: z.string().min(1, 'Asset is required'),
   amount: z.number().positive('Amount must be positive'),
   protocol: z.enum(['aave']),
+  bundleSize: z.number().int().min(0, 'Bundle size cannot be negative').optional(),
 });
 
+export const FlashLoanOptimization: OptimizationHints<typeof FlashLoanParamsSchema> = {
+  amount: { relative: [0.25, 4], logScale: true, priority: 4 },
+};
+
 export const FlashLoanBlockSchema = BaseBlockSchema.extend({
   type: z.literal('flash_loan'),
   params: FlashLoanParamsSchema,
@@ -275,6 +389,10 @@ export const StakingParamsSchema = z.object({
   pool: z.string().optional(),
 });
 
+export const StakingOptimization: OptimizationHints<typeof StakingParamsSchema> = {
+  amount: AMOUNT_HINT,
+};
+
 export const StakingBlockSchema = BaseBlockSchema.extend({
   type: z.literal('staking'),
   params: StakingParamsSchema,
@@ -288,6 +406,10 @@ export const TakeProfitParamsSchema = z.object({
   asset: z.string().optional(),
 });
 
+export const TakeProfitOptimization: OptimizationHints<typeof TakeProfitParamsSchema> = {
+  percentage: { min: 1, max: 100, percentage: true, priority: 1 },
+};
+
 export const TakeProfitBlockSchema = BaseBlockSchema.extend({
   type: z.literal('take_profit'),
   params: TakeProfitParamsSchema,
@@ -299,8 +421,14 @@ export const TakeProfitBlockSchema = BaseBlockSchema.extend({
 export const TimeExitParamsSchema = z.object({
   duration: z.number().positive('Duration must be positive'),
   from: z.enum(['entry', 'position']),
+  schedule: z.string().min(1).optional(),
+  timezone: z.string().optional(),
 });
 
+export const TimeExitOptimization: OptimizationHints<typeof TimeExitParamsSchema> = {
+  duration: { relative: [0.25, 4], logScale: true, priority: 3 },
+};
+
 export const TimeExitBlockSchema = BaseBlockSchema.extend({
   type: z.literal('time_exit'),
   params: TimeExitParamsSchema,
@@ -328,6 +456,11 @@ export const PositionSizingParamsSchema = z.object({
   maxPosition: z.number().positive().optional(),
 });
 
+export const PositionSizingOptimization: OptimizationHints<typeof PositionSizingParamsSchema> = {
+  value: { relative: [0.5, 1.5], priority: 3 },
+  maxPosition: { relative: [0.5, 1.5], priority: 5 },
+};
+
 export const PositionSizingBlockSchema = BaseBlockSchema.extend({
   type: z.literal('position_sizing'),
   params: PositionSizingParamsSchema,
@@ -343,6 +476,13 @@ export const RiskLimitsParamsSchema = z.object({
   maxDailyLoss: z.number().min(0).max(100, 'Max daily loss must be between 0 and 100').optional(),
 });
 
+export const RiskLimitsOptimization: OptimizationHints<typeof RiskLimitsParamsSchema> = {
+  maxDrawdown: { min: 5, max: 50, percentage: true, priority: 2 },
+  maxPositionSize: { min: 5, max: 100, percentage: true, priority: 4 },
+  maxLeverage: { min: 1, max: 5, priority: 4 },
+  maxDailyLoss: { min: 1, max: 20, percentage: true, priority: 4 },
+};
+
 export const RiskLimitsBlockSchema = BaseBlockSchema.extend({
   type: z.literal('risk_limits'),
   params: RiskLimitsParamsSchema,
@@ -354,9 +494,17 @@ export const RiskLimitsBlockSchema = BaseBlockSchema.extend({
 export const RebalancingParamsSchema = z.object({
   targetAllocation: z.record(z.string(), z.number().min(0).max(100)),
   threshold: z.number().min(0).max(100, 'Threshold must be between 0 and 100'),
-  method: z.enum(['proportional', 'equal']),
+  method: z.enum(['threshold', 'calendar', 'both']),
+  frequency: z.enum(['daily', 'weekly', 'monthly']).optional(),
+  venue: z.enum(['uniswap', 'curve', 'oneinch']).optional(),
+  slippage: z.number().min(0).max(100, 'Slippage must be between 0 and 100').optional(),
 });
 
+export const RebalancingOptimization: OptimizationHints<typeof RebalancingParamsSchema> = {
+  threshold: { min: 1, max: 25, percentage: true, priority: 2 },
+  slippage: SLIPPAGE_HINT,
+};
+
 export const RebalancingBlockSchema = BaseBlockSchema.extend({
   type: z.literal('rebalancing'),
   params: RebalancingParamsSchema,
@@ -392,6 +540,41 @@ export const TypedLegoBlockSchema = z.discriminatedUnion('type', [
   RebalancingBlockSchema,
 ]);
 
+/**
+ * Optimization hints for every block type with tunable numeric params
+ */
+export const BLOCK_OPTIMIZATION_HINTS: Record<string, Record<string, OptimizationHint>> = {
+  price_trigger: PriceTriggerOptimization,
+  uniswap_swap: UniswapSwapOptimization,
+  aave_supply: AaveSupplyOptimization,
+  stop_loss: StopLossOptimization,
+  volume_trigger: VolumeTriggerOptimization,
+  technical_indicator_trigger: TechnicalIndicatorTriggerOptimization,
+  aave_borrow: AaveBorrowOptimization,
+  aave_repay: AaveRepayOptimization,
+  aave_withdraw: AaveWithdrawOptimization,
+  uniswap_v3_liquidity: UniswapV3LiquidityOptimization,
+  compound_supply: CompoundSupplyOptimization,
+  compound_borrow: CompoundBorrowOptimization,
+  curve_swap: CurveSwapOptimization,
+  balancer_swap: BalancerSwapOptimization,
+  oneinch_swap: OneInchSwapOptimization,
+  flash_loan: FlashLoanOptimization,
+  staking: StakingOptimization,
+  take_profit: TakeProfitOptimization,
+  time_exit: TimeExitOptimization,
+  position_sizing: PositionSizingOptimization,
+  risk_limits: RiskLimitsOptimization,
+  rebalancing: RebalancingOptimization,
+};
+
+/**
+ * Hints for a block type, accepting the upper-case constant names as well
+ */
+export function getOptimizationHints(blockType: string): Record<string, OptimizationHint> {
+  return BLOCK_OPTIMIZATION_HINTS[blockType.toLowerCase()] ?? {};
+}
+
 /**
  * Array of blocks schema
  */
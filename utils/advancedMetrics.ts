@@ -8,6 +8,7 @@ export interface AdvancedMetrics {
   sortinoRatio: number;
   calmarRatio: number;
   informationRatio: number;
+  trackingError: number; // Annualized, in percent
   beta: number;
   alpha: number;
   volatility: number;
@@ -21,11 +22,15 @@ export interface AdvancedMetrics {
  * Sortino = (Mean Return - Risk Free Rate) / Downside Deviation
  * Only penalizes negative returns (downside volatility)
  */
-export function calculateSortinoRatio(returns: number[], riskFreeRate = 0): number {
+export function calculateSortinoRatio(
+  returns: number[],
+  riskFreeRate = 0,
+  periodsPerYear = 365
+): number {
   if (returns.length === 0) return 0;
 
   const meanReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-  const annualizedReturn = meanReturn * 365;
+  const annualizedReturn = meanReturn * periodsPerYear;
 
   // Calculate downside deviation (only negative returns)
   const negativeReturns = returns.filter((r) => r < 0);
@@ -36,7 +41,7 @@ export function calculateSortinoRatio(returns: number[], riskFreeRate = 0): numb
     negativeReturns.reduce((sum, r) => sum + Math.pow(r - downsideMean, 2), 0) /
     negativeReturns.length;
   const downsideDeviation = Math.sqrt(downsideVariance);
-  const annualizedDownsideDev = downsideDeviation * Math.sqrt(365);
+  const annualizedDownsideDev = downsideDeviation * Math.sqrt(periodsPerYear);
 
   if (annualizedDownsideDev === 0) return 0;
 
@@ -62,33 +67,46 @@ export function calculateCalmarRatio(
 }
 
 /**
- * Calculate Information Ratio
- * Information Ratio = (Portfolio Return - Benchmark Return) / Tracking Error
- * For now, using HODL as benchmark
+ * Calculate Tracking Error
+ * Tracking Error = annualized standard deviation of (Portfolio Return - Benchmark Return)
  */
-export function calculateInformationRatio(
+export function calculateTrackingError(
   portfolioReturns: number[],
-  benchmarkReturns: number[]
+  benchmarkReturns: number[],
+  periodsPerYear = 365
 ): number {
   if (portfolioReturns.length === 0 || benchmarkReturns.length === 0) return 0;
   if (portfolioReturns.length !== benchmarkReturns.length) return 0;
 
-  // Calculate excess returns
-  const excessReturns = portfolioReturns.map((pr, i) => {
-    const benchmark = benchmarkReturns[i];
-    return benchmark !== undefined ? pr - benchmark : 0;
-  });
+  const excessReturns = portfolioReturns.map((pr, i) => pr - (benchmarkReturns[i] ?? 0));
   const meanExcessReturn = excessReturns.reduce((sum, r) => sum + r, 0) / excessReturns.length;
-
-  // Calculate tracking error (std dev of excess returns)
   const variance =
     excessReturns.reduce((sum, r) => sum + Math.pow(r - meanExcessReturn, 2), 0) /
     excessReturns.length;
-  const trackingError = Math.sqrt(variance) * Math.sqrt(365); // Annualized
+
+  return Math.sqrt(variance) * Math.sqrt(periodsPerYear);
+}
+
+/**
+ * Calculate Information Ratio
+ * Information Ratio = (Portfolio Return - Benchmark Return) / Tracking Error
+ */
+export function calculateInformationRatio(
+  portfolioReturns: number[],
+  benchmarkReturns: number[],
+  periodsPerYear = 365
+): number {
+  if (portfolioReturns.length === 0 || benchmarkReturns.length === 0) return 0;
+  if (portfolioReturns.length !== benchmarkReturns.length) return 0;
+
+  const meanExcessReturn =
+    portfolioReturns.reduce((sum, pr, i) => sum + pr - (benchmarkReturns[i] ?? 0), 0) /
+    portfolioReturns.length;
+  const trackingError = calculateTrackingError(portfolioReturns, benchmarkReturns, periodsPerYear);
 
   if (trackingError === 0) return 0;
 
-  return (meanExcessReturn * 365) / trackingError;
+  return (meanExcessReturn * periodsPerYear) / trackingError;
 }
 
 /**
@@ -196,11 +214,11 @@ export function calculateConditionalVaR(
 /**
  * Calculate all advanced financial metrics for a backtest result
  * 
- * Computes Sortino Ratio, Calmar Ratio, Information Ratio, Beta, Alpha,
+ * Computes Sortino Ratio, Calmar Ratio, Information Ratio, Tracking Error, Beta, Alpha,
  * Volatility, Downside Volatility, Value at Risk (VaR), and Conditional VaR (CVaR).
  * 
  * @param result - DeFi backtest result containing equity curve and trades
- * @param benchmarkReturns - Optional benchmark returns for comparison (e.g., HODL, BTC, ETH)
+ * @param benchmarkReturns - Optional per-sample benchmark returns; defaults to the result's first benchmark
  * @returns AdvancedMetrics object with all calculated metrics
  * 
  * @example
@@ -255,10 +273,11 @@ export function calculateAdvancedMetrics(
     days
   );
 
-  // For beta and alpha, use benchmark if provided, otherwise use HODL
+  // Relative metrics against the given benchmark returns, else the run's first benchmark
   let beta = 1;
   let alpha = 0;
   let informationRatio = 0;
+  let trackingError = 0;
 
   if (
     benchmarkReturns &&
@@ -266,19 +285,13 @@ export function calculateAdvancedMetrics(
     benchmarkReturns.length > 0
   ) {
     beta = calculateBeta(returns, benchmarkReturns);
-    const benchmarkFirst = benchmarkReturns[0];
-    const benchmarkLast = benchmarkReturns[benchmarkReturns.length - 1];
-    if (
-      benchmarkFirst !== undefined &&
-      benchmarkLast !== undefined &&
-      benchmarkFirst !== 0 &&
-      !isNaN(benchmarkFirst) &&
-      !isNaN(benchmarkLast)
-    ) {
-      const benchmarkTotalReturn = ((benchmarkLast - benchmarkFirst) / benchmarkFirst) * 100;
-      alpha = calculateAlpha(result.metrics.totalReturn, benchmarkTotalReturn, beta, 0, days);
-    }
+    const benchmarkTotalReturn =
+      (benchmarkReturns.reduce((growth, r) => growth * (1 + r), 1) - 1) * 100;
+    alpha = calculateAlpha(result.metrics.totalReturn, benchmarkTotalReturn, beta, 0, days);
     informationRatio = calculateInformationRatio(returns, benchmarkReturns);
+    trackingError = calculateTrackingError(returns, benchmarkReturns) * 100;
+  } else if (result.benchmarks?.[0]) {
+    ({ beta, alpha, informationRatio, trackingError } = result.benchmarks[0]);
   }
 
   // Calculate VaR and CVaR
@@ -289,6 +302,7 @@ export function calculateAdvancedMetrics(
     sortinoRatio,
     calmarRatio,
     informationRatio,
+    trackingError,
     beta,
     alpha,
     volatility,
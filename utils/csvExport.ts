@@ -7,12 +7,24 @@ import type { DeFiBacktestResult } from '../services/defiBacktestEngine';
 
 /**
  * Export equity curve to CSV
+ * Rolling Sharpe is blank until its trailing window fills.
  */
 export function exportEquityCurveToCSV(result: DeFiBacktestResult): string {
-  const headers = ['Date', 'Equity (USD)', 'Return (%)', 'Cumulative Return (%)'];
+  const headers = [
+    'Date',
+    'Equity (USD)',
+    'Return (%)',
+    'Cumulative Return (%)',
+    'Drawdown (%)',
+    'Rolling Sharpe',
+  ];
   const rows: string[][] = [];
 
   const initialEquity = result.initialCapital;
+  const underwater = result.extendedMetrics?.underwaterCurve ?? [];
+  const rollingSharpe = new Map(
+    (result.extendedMetrics?.rollingSharpe ?? []).map((point) => [point.date, point.sharpeRatio])
+  );
 
   result.equityCurve.forEach((point, index) => {
     const prevPoint = index > 0 ? result.equityCurve[index - 1] : null;
@@ -28,6 +40,8 @@ export function exportEquityCurveToCSV(result: DeFiBacktestResult): string {
       point.equity.toFixed(2),
       returnPct.toFixed(4),
       cumulativeReturn.toFixed(4),
+      (underwater[index]?.drawdown ?? 0).toFixed(4),
+      rollingSharpe.get(point.date)?.toFixed(4) ?? '',
     ]);
   });
 
@@ -96,7 +110,8 @@ export function exportMetricsToCSV(
   advancedMetrics?: {
     sortinoRatio: number;
     calmarRatio: number;
-    informationRatio: number;
+    informationRatio?: number;
+    trackingError?: number;
     beta?: number;
     alpha?: number;
     volatility?: number;
@@ -123,39 +138,123 @@ export function exportMetricsToCSV(
     ],
     ['Total Trades', result.metrics.totalTrades.toString()],
     ['Winning Trades', result.metrics.winTrades.toString()],
-    ['Total Gas Spent (ETH)', result.metrics.totalGasSpent.toFixed(8)],
+    ['Total Gas Spent (USD)', `$${result.metrics.totalGasSpent.toFixed(2)}`],
     ['Total Fees Spent (USD)', `$${result.metrics.totalFeesSpent.toFixed(2)}`],
     ['Start Date', result.startDate.toISOString()],
     ['End Date', result.endDate.toISOString()],
   ];
 
-  if (advancedMetrics) {
+  // Risk ratios default to the ones computed with the run
+  const advanced: typeof advancedMetrics = advancedMetrics ?? result.extendedMetrics;
+  if (advanced) {
     rows.push(
-      ['Sortino Ratio', advancedMetrics.sortinoRatio.toFixed(4)],
-      ['Calmar Ratio', advancedMetrics.calmarRatio.toFixed(4)],
-      ['Information Ratio', advancedMetrics.informationRatio.toFixed(4)]
+      ['Sortino Ratio', advanced.sortinoRatio.toFixed(4)],
+      ['Calmar Ratio', advanced.calmarRatio.toFixed(4)]
     );
-    
-    if (advancedMetrics.beta !== undefined) {
-      rows.push(['Beta', advancedMetrics.beta.toFixed(4)]);
+
+    if (advanced.informationRatio !== undefined) {
+      rows.push(['Information Ratio', advanced.informationRatio.toFixed(4)]);
+    }
+    if (advanced.trackingError !== undefined) {
+      rows.push(['Tracking Error (%)', `${advanced.trackingError.toFixed(2)}%`]);
     }
-    if (advancedMetrics.alpha !== undefined) {
-      rows.push(['Alpha', advancedMetrics.alpha.toFixed(4)]);
+    if (advanced.beta !== undefined) {
+      rows.push(['Beta', advanced.beta.toFixed(4)]);
     }
-    if (advancedMetrics.volatility !== undefined) {
-      rows.push(['Volatility (%)', `${advancedMetrics.volatility.toFixed(2)}%`]);
+    if (advanced.alpha !== undefined) {
+      rows.push(['Alpha', advanced.alpha.toFixed(4)]);
     }
-    if (advancedMetrics.downsideVolatility !== undefined) {
-      rows.push(['Downside Volatility (%)', `${advancedMetrics.downsideVolatility.toFixed(2)}%`]);
+    if (advanced.volatility !== undefined) {
+      rows.push(['Volatility (%)', `${advanced.volatility.toFixed(2)}%`]);
     }
-    if (advancedMetrics.valueAtRisk95 !== undefined) {
-      rows.push(['Value at Risk 95% (%)', `${advancedMetrics.valueAtRisk95.toFixed(2)}%`]);
+    if (advanced.downsideVolatility !== undefined) {
+      rows.push(['Downside Volatility (%)', `${advanced.downsideVolatility.toFixed(2)}%`]);
     }
-    if (advancedMetrics.conditionalVaR95 !== undefined) {
-      rows.push(['Conditional VaR 95% (%)', `${advancedMetrics.conditionalVaR95.toFixed(2)}%`]);
+    if (advanced.valueAtRisk95 !== undefined) {
+      rows.push(['Value at Risk 95% (%)', `${advanced.valueAtRisk95.toFixed(2)}%`]);
     }
+    if (advanced.conditionalVaR95 !== undefined) {
+      rows.push(['Conditional VaR 95% (%)', `${advanced.conditionalVaR95.toFixed(2)}%`]);
+    }
+  }
+
+  const extended = result.extendedMetrics;
+  if (extended) {
+    rows.push(
+      ['Longest Drawdown (days)', (extended.longestDrawdown / 86400000).toFixed(1)],
+      ['Drawdown Periods', extended.drawdownPeriods.length.toString()],
+      ['Exposure Time (%)', `${extended.exposureTime.toFixed(2)}%`],
+      ['Average Exposure (%)', `${extended.averageExposure.toFixed(2)}%`],
+      ['Turnover', extended.turnover.toFixed(4)],
+      ['Annualized Turnover', extended.annualizedTurnover.toFixed(4)],
+      ['Price Impact (USD)', `$${extended.costs.priceImpact.toFixed(2)}`],
+      ['Total Costs (USD)', `$${extended.costs.total.toFixed(2)}`],
+      ['Cost Drag (%)', `${extended.costs.drag.toFixed(4)}%`],
+      ['Annualized Cost Drag (%)', `${extended.costs.annualizedDrag.toFixed(4)}%`]
+    );
   }
 
+  for (const benchmark of result.benchmarks ?? []) {
+    rows.push(
+      [`${benchmark.label} Return (%)`, `${benchmark.totalReturn.toFixed(2)}%`],
+      [`Alpha vs ${benchmark.label} (%)`, `${benchmark.alpha.toFixed(2)}%`],
+      [`Beta vs ${benchmark.label}`, benchmark.beta.toFixed(4)],
+      [`Tracking Error vs ${benchmark.label} (%)`, `${benchmark.trackingError.toFixed(2)}%`],
+      [`Information Ratio vs ${benchmark.label}`, benchmark.informationRatio.toFixed(4)]
+    );
+  }
+
+  const csvContent = [
+    headers.join(','),
+    ...rows.map((row) => row.map((cell) => `"${cell}"`).join(',')),
+  ].join('\n');
+
+  return csvContent;
+}
+
+/**
+ * Export the monthly returns table to CSV
+ */
+export function exportMonthlyReturnsToCSV(result: DeFiBacktestResult): string {
+  const headers = ['Year', 'Month', 'Return (%)'];
+  const rows: string[][] = (result.extendedMetrics?.monthlyReturns ?? []).map((entry) => [
+    entry.year.toString(),
+    entry.month.toString().padStart(2, '0'),
+    entry.return.toFixed(4),
+  ]);
+
+  const csvContent = [
+    headers.join(','),
+    ...rows.map((row) => row.map((cell) => `"${cell}"`).join(',')),
+  ].join('\n');
+
+  return csvContent;
+}
+
+/**
+ * Export drawdown periods to CSV, deepest first
+ */
+export function exportDrawdownsToCSV(result: DeFiBacktestResult): string {
+  const headers = [
+    'Start',
+    'Trough',
+    'Recovered',
+    'Depth (%)',
+    'Duration (days)',
+    'Recovery (days)',
+  ];
+  const periods = [...(result.extendedMetrics?.drawdownPeriods ?? [])].sort(
+    (a, b) => b.depth - a.depth
+  );
+  const rows: string[][] = periods.map((period) => [
+    period.start,
+    period.trough,
+    period.end ?? '',
+    period.depth.toFixed(4),
+    (period.duration / 86400000).toFixed(2),
+    period.recoveryTime === null ? '' : (period.recoveryTime / 86400000).toFixed(2),
+  ]);
+
   const csvContent = [
     headers.join(','),
     ...rows.map((row) => row.map((cell) => `"${cell}"`).join(',')),
@@ -1,31 +1,104 @@
 import type { StrategyEdge, StrategyNode } from '../components/studio/types';
+import {
+  type StrategyGraph,
+  type StrategyGraphNode,
+  blocksToGraph,
+} from '../services/backtest/strategyGraph';
 import type { LegoBlock } from '../types';
 
+const EDGE_LABELS = { on_true: 'true', on_false: 'false', always: undefined } as const;
+
 export function spineBlocksToReactFlow(blocks: LegoBlock[]): {
   nodes: StrategyNode[];
   edges: StrategyEdge[];
 } {
-  const nodes: StrategyNode[] = blocks.map((block, index) => ({
-    id: block.id,
-    type: 'default',
-    position: { x: index * 200, y: 0 },
-    data: {
-      label: block.label,
-      blockType: block.type,
-      ...block.params,
-    },
-  }));
+  return strategyGraphToReactFlow(blocksToGraph(blocks), blocks);
+}
+
+/**
+ * Lay out a strategy graph left to right, one column per dependency depth
+ */
+export function strategyGraphToReactFlow(
+  graph: StrategyGraph,
+  blocks: LegoBlock[]
+): {
+  nodes: StrategyNode[];
+  edges: StrategyEdge[];
+} {
+  const blocksById = new Map(blocks.map((block) => [block.id, block]));
+  const depth = new Map<string, number>();
+  const rows = new Map<number, number>();
+  const depthOf = (id: string, seen = new Set<string>()): number => {
+    const known = depth.get(id);
+    if (known !== undefined) return known;
+    if (seen.has(id)) return 0;
+    seen.add(id);
+    const parents = graph.edges.filter((edge) => edge.target === id);
+    const value = Math.max(-1, ...parents.map((edge) => depthOf(edge.source, seen))) + 1;
+    depth.set(id, value);
+    return value;
+  };
 
-  const edges: StrategyEdge[] = blocks
-    .slice(0, -1)
-    .map((block, index) => ({
-      id: `edge-${block.id}-${blocks[index + 1]?.id}`,
-      source: block.id,
-      target: blocks[index + 1]?.id || '',
-      type: 'smoothstep',
-      animated: false,
-    }))
-    .filter((edge) => edge.target !== '');
+  const nodes: StrategyNode[] = graph.nodes.map((node: StrategyGraphNode) => {
+    const column = depthOf(node.id);
+    const row = rows.get(column) ?? 0;
+    rows.set(column, row + 1);
+    const position = { x: column * 200, y: row * 120 };
+
+    if (node.kind === 'join') {
+      return {
+        id: node.id,
+        type: 'join',
+        position,
+        data: { label: node.mode.toUpperCase(), blockType: 'join', mode: node.mode },
+      };
+    }
+
+    const block = blocksById.get(node.id);
+    return {
+      id: node.id,
+      type: 'default',
+      position,
+      data: {
+        label: block?.label ?? node.id,
+        blockType: block?.type ?? 'unknown',
+        ...block?.params,
+      },
+    };
+  });
+
+  const edges: StrategyEdge[] = graph.edges.map((edge) => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    type: 'smoothstep',
+    animated: false,
+    label: EDGE_LABELS[edge.condition],
+    data: { condition: edge.condition },
+  }));
 
   return { nodes, edges };
 }
+
+/**
+ * Read a strategy graph back from React Flow nodes and edges
+ * Edges without a condition run always; join nodes keep their AND/OR mode.
+ */
+export function reactFlowToStrategyGraph(
+  nodes: StrategyNode[],
+  edges: StrategyEdge[]
+): StrategyGraph {
+  return {
+    nodes: nodes.map((node) =>
+      node.type === 'join'
+        ? { id: node.id, kind: 'join', mode: node.data.mode === 'or' ? 'or' : 'and' }
+        : { id: node.id, kind: 'block' }
+    ),
+    edges: edges.map((edge) => ({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      condition: edge.data?.condition ?? 'always',
+    })),
+  };
+}